@@ -114,7 +114,7 @@ def extract_transactions_from_lines(lines: List[str]) -> List[dict]:
 async def extract(data: dict) -> dict:
     """
     Extract transactions from PDF bank statement.
-    Expects: { "pdf_base64": "..." }
+    Expects: { "pdf_base64": "...", "password": "..." (optional) }
     Returns: { "transactions": [...], "error": null }
     """
     import base64
@@ -135,7 +135,7 @@ async def extract(data: dict) -> dict:
             pdf_path = f.name
 
         # Convert PDF pages to images
-        images = convert_from_path(pdf_path, dpi=150)
+        images = convert_from_path(pdf_path, dpi=150, userpw=data.get("password"))
 
         # Initialize PaddleOCR
         ocr = PaddleOCR(use_angle_cls=True, lang='en', show_log=False)
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { ATTACHMENT_TYPES } from '@/types';
+
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+function isAllowedType(type: string): boolean {
+  return ATTACHMENT_TYPES.includes(type.split(';')[0].trim().toLowerCase());
+}
+
+// GET - Serve an attachment (or its thumbnail) to the signed-in user
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const id = searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+  }
+
+  try {
+    const storage = getStorage(session.accessToken);
+    const file = await storage.getAttachment(id, searchParams.get('thumbnail') === '1');
+    if (!file) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    // Files stored before the type allowlist are downloaded, never rendered
+    const inline = isAllowedType(file.mimeType);
+    const headers: Record<string, string> = {
+      'Content-Type': inline ? file.mimeType : 'application/octet-stream',
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${encodeURIComponent(file.name)}"`,
+      'X-Content-Type-Options': 'nosniff',
+      // File IDs never change content, so the browser can keep them
+      'Cache-Control': 'private, max-age=86400',
+    };
+    // Browsers refuse to show PDFs in a sandboxed document; their viewer isolates them already
+    if (file.mimeType !== 'application/pdf') {
+      headers['Content-Security-Policy'] = 'sandbox';
+    }
+
+    return new NextResponse(new Uint8Array(file.data), { headers });
+  } catch (error) {
+    console.error('Error fetching attachment:', error);
+    return NextResponse.json({ error: 'Failed to fetch attachment' }, { status: 500 });
+  }
+}
+
+// POST - Upload a receipt photo or PDF
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (!isAllowedType(file.type)) {
+      return NextResponse.json({ error: 'File must be a JPEG, PNG, WebP, GIF or HEIC image, or a PDF' }, { status: 400 });
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return NextResponse.json({ error: 'File too large (max 10MB)' }, { status: 400 });
+    }
+
+    const storage = getStorage(session.accessToken);
+    const attachment = await storage.uploadAttachment({
+      name: file.name,
+      mimeType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+    return NextResponse.json({ attachment });
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    return NextResponse.json({ error: 'Failed to upload attachment' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove an attachment that is no longer linked to an expense
+export async function DELETE(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+  }
+
+  try {
+    const storage = getStorage(session.accessToken);
+    await storage.deleteAttachment(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    return NextResponse.json({ error: 'Failed to delete attachment' }, { status: 500 });
+  }
+}
@@ -1,9 +1,10 @@
 import { NextRequest } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getOrCreateSpreadsheet, getCategories, getSettings } from '@/lib/google-sheets';
+import { getStorage } from '@/lib/storage';
 import { TOOL_DEFINITIONS, executeTool, buildSystemPrompt, type ToolContext } from '@/lib/ai-tools';
 import { streamChatCompletion, type LLMMessage, type ChatChunk } from '@/lib/ai-client';
+import { pdfToImages } from '@/lib/pdf-images';
 
 // Check if any message contains PDF attachments
 function hasPdfContent(messages: Array<{ role: string; content: string | unknown[] }>): boolean {
@@ -16,22 +17,6 @@ function hasPdfContent(messages: Array<{ role: string; content: string | unknown
   });
 }
 
-// Convert PDF base64 to array of JPEG base64 images (max 5 pages, low res)
-const MAX_PDF_PAGES = 5;
-async function pdfToImages(pdfBase64: string): Promise<string[]> {
-  const { pdf } = await import('pdf-to-img');
-  const sharp = (await import('sharp')).default;
-  const buffer = Buffer.from(pdfBase64, 'base64');
-  const images: string[] = [];
-  const pages = await pdf(buffer, { scale: 1 });
-  for await (const page of pages) {
-    if (images.length >= MAX_PDF_PAGES) break;
-    const jpeg = await sharp(page).jpeg({ quality: 70 }).toBuffer();
-    images.push(jpeg.toString('base64'));
-  }
-  return images;
-}
-
 // Preprocess messages: convert PDF data URLs to PNG image data URLs
 // Only called when PDFs are actually present
 async function preprocessMessages(
@@ -93,18 +78,17 @@ export async function POST(request: NextRequest) {
 
       try {
         // Load user context for system prompt
-        const spreadsheetId = await getOrCreateSpreadsheet(accessToken);
+        const storage = getStorage(accessToken);
         const [categories, settings] = await Promise.all([
-          getCategories(accessToken, spreadsheetId),
-          getSettings(accessToken, spreadsheetId),
+          storage.getCategories(),
+          storage.getSettings(),
         ]);
 
         const systemPrompt = buildSystemPrompt(categories, settings.currency);
 
         // Shared context for all tool executions in this request
         const toolContext: ToolContext = {
-          accessToken,
-          spreadsheetId,
+          storage,
           categories,
           currency: settings.currency,
         };
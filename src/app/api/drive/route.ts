@@ -1,31 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import {
-  getOrCreateSpreadsheet,
-  getExpenses,
-  getAllExpenses,
-  addExpense,
-  updateExpense,
-  deleteExpense,
-  getCategories,
-  addCategory,
-  updateCategory,
-  deleteCategory,
-  addExpensesBatch,
-  getPendingTransactions,
-  addPendingTransactions,
-  updatePendingTransaction,
-  deletePendingTransaction,
-  updateAllPendingTransactions,
-  getRules,
-  saveRules,
-  moveTransactionsToExpenses,
-} from '@/lib/google-sheets';
-import { Expense, Category, PendingTransaction, TransactionRule } from '@/types';
+import { getStorage } from '@/lib/storage';
+import { Expense, Category, PendingTransaction, TransactionRule, RecurringTemplate, ExpenseSplit, SplitMode, CsvProfile } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 import { extractYearFromId } from '@/lib/id-utils';
 import { callLLMNonStreaming } from '@/lib/ai-client';
+import { getBudgetAlertsForNewExpenses } from '@/lib/budgets';
+import { runRecurringTemplates, mergeGeneratedDates } from '@/lib/recurring';
+import { computeShares, validateSplit } from '@/lib/splits';
+import { validateRule, savePendingTransactions } from '@/lib/ruleEngine';
+import { backtestRule, recategorizeExpenses } from '@/lib/rule-analysis';
+import { parseRuleSet, planRuleSetImport } from '@/lib/rule-sets';
+import { parseTagQuery } from '@/lib/tags';
+import { matchesExpenseQuery } from '@/lib/export';
 
 // GET - Fetch expenses or categories
 export async function GET(request: NextRequest) {
@@ -36,42 +24,71 @@ export async function GET(request: NextRequest) {
 
   const searchParams = request.nextUrl.searchParams;
   const type = searchParams.get('type') || 'expenses';
-  const year = searchParams.get('year');
 
   try {
-    const spreadsheetId = await getOrCreateSpreadsheet(
-      session.accessToken,
-      year ? parseInt(year) : undefined
-    );
+    const storage = getStorage(session.accessToken);
+    const spreadsheetId = await storage.getStoreId();
 
     if (type === 'categories') {
-      const categories = await getCategories(session.accessToken, spreadsheetId);
-      return NextResponse.json({ categories, spreadsheetId });
+      const [categories, overallBudget] = await Promise.all([
+        storage.getCategories(),
+        storage.getOverallBudget(),
+      ]);
+      return NextResponse.json({ categories, overallBudget, spreadsheetId });
     }
 
     if (type === 'pending') {
-      const pendingTransactions = await getPendingTransactions(session.accessToken, spreadsheetId);
+      const pendingTransactions = await storage.getPendingTransactions();
       return NextResponse.json({ pendingTransactions, spreadsheetId });
     }
 
     if (type === 'rules') {
-      const rules = await getRules(session.accessToken, spreadsheetId);
+      const rules = await storage.getRules();
       return NextResponse.json({ rules, spreadsheetId });
     }
 
+    if (type === 'rates') {
+      const { currency } = await storage.getSettings();
+      const rates = await storage.getExchangeRates(currency);
+      return NextResponse.json({ rates, baseCurrency: currency });
+    }
+
+    if (type === 'recurring') {
+      const templates = await storage.getRecurringTemplates();
+      return NextResponse.json({ templates, spreadsheetId });
+    }
+
+    if (type === 'csv-profiles') {
+      const profiles = await storage.getCsvProfiles();
+      return NextResponse.json({ profiles });
+    }
+
+    if (type === 'accounts') {
+      const accounts = await storage.getAccounts();
+      return NextResponse.json({ accounts });
+    }
+
+    if (type === 'splits') {
+      const [groups, splits] = await Promise.all([
+        storage.getSplitGroups(),
+        storage.getSplits(),
+      ]);
+      return NextResponse.json({ groups, splits });
+    }
+
     if (type === 'search') {
-      const query = searchParams.get('q')?.toLowerCase() || '';
-      if (!query) {
+      // "#tag" words filter by tag; the rest matches description, amount or tags
+      const query = searchParams.get('q') || '';
+      const { text, tags } = parseTagQuery(query.toLowerCase());
+      if (!text && tags.length === 0) {
         return NextResponse.json({ expenses: [] });
       }
       const currentYear = new Date().getFullYear();
-      const filterFn = (e: Expense) =>
-        e.description?.toLowerCase().includes(query) ||
-        String(e.amount).includes(query);
+      const filterFn = (e: Expense) => matchesExpenseQuery(e, query);
 
-      let filtered = (await getExpenses(session.accessToken, spreadsheetId, currentYear)).filter(filterFn);
+      let filtered = (await storage.getExpenses(currentYear)).filter(filterFn);
       if (filtered.length < 20) {
-        const prev = (await getExpenses(session.accessToken, spreadsheetId, currentYear - 1)).filter(filterFn);
+        const prev = (await storage.getExpenses(currentYear - 1)).filter(filterFn);
         filtered = [...filtered, ...prev];
       }
       filtered.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
@@ -79,7 +96,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get expenses from all year sheets
-    const expenses = await getAllExpenses(session.accessToken, spreadsheetId);
+    const expenses = await storage.getAllExpenses();
     // Sort by date descending (most recent first)
     expenses.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
     return NextResponse.json({ expenses, spreadsheetId });
@@ -101,15 +118,15 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { type, data, year } = body;
+    const { type, data } = body;
+    const storage = getStorage(session.accessToken);
 
     if (type === 'category') {
-      const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken, year);
       const category: Category = {
         id: uuidv4(),
         ...data,
       };
-      await addCategory(session.accessToken, spreadsheetId, category);
+      await storage.addCategory(category);
       return NextResponse.json({ category });
     }
 
@@ -125,8 +142,9 @@ export async function POST(request: NextRequest) {
           createdAt: now,
           updatedAt: now,
         }));
-        await addExpensesBatch(session.accessToken, expenses);
-        return NextResponse.json({ expenses });
+        await storage.addExpensesBatch(expenses);
+        const budgetAlerts = await getBudgetAlertsForNewExpenses(storage, expenses);
+        return NextResponse.json({ expenses, budgetAlerts });
       } catch (batchError) {
         console.error('Batch save error:', batchError);
         return NextResponse.json(
@@ -137,43 +155,208 @@ export async function POST(request: NextRequest) {
     }
 
     if (type === 'pending-batch') {
-      const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken, year);
       const now = new Date().toISOString();
       const pendingTransactions: PendingTransaction[] = data.map((item: Omit<PendingTransaction, 'id' | 'createdAt'>) => ({
         id: `${new Date(item.date).getFullYear()}-${uuidv4()}`,
         ...item,
-        // Ensure status is set correctly: has category = auto-mapped
-        status: item.category ? 'auto-mapped' : (item.status || 'uncategorized'),
+        // Ensure status is set correctly: ignored by a rule stays ignored, has category = auto-mapped
+        status: item.status === 'ignored'
+          ? 'ignored'
+          : item.category ? 'auto-mapped' : (item.status || 'uncategorized'),
         createdAt: now,
       }));
-      await addPendingTransactions(session.accessToken, spreadsheetId, pendingTransactions);
-      return NextResponse.json({ pendingTransactions });
+      const rules = await storage.getRules();
+      const { pending, expenses } = await savePendingTransactions(storage, pendingTransactions, rules);
+      const budgetAlerts = await getBudgetAlertsForNewExpenses(storage, expenses);
+      return NextResponse.json({ pendingTransactions: pending, confirmed: expenses.length, budgetAlerts });
     }
 
     if (type === 'pending-update-all') {
-      const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken, year);
-      await updateAllPendingTransactions(session.accessToken, spreadsheetId, data);
+      await storage.updateAllPendingTransactions(data);
       return NextResponse.json({ success: true });
     }
 
     if (type === 'rule') {
-      const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken, year);
-      const existingRules = await getRules(session.accessToken, spreadsheetId);
+      const ruleError = validateRule(data);
+      if (ruleError) {
+        return NextResponse.json({ error: ruleError }, { status: 400 });
+      }
+      const existingRules = await storage.getRules();
       const newRule: TransactionRule = {
         id: uuidv4(),
         ...data,
+        // New rules run after existing ones until reordered
+        priority: Math.max(-1, ...existingRules.map((r) => r.priority)) + 1,
         createdAt: new Date().toISOString(),
       };
-      await saveRules(session.accessToken, spreadsheetId, [...existingRules, newRule]);
+      await storage.saveRules([...existingRules, newRule]);
       return NextResponse.json({ rule: newRule });
     }
 
     if (type === 'rules-save') {
-      const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken, year);
-      await saveRules(session.accessToken, spreadsheetId, data);
+      const invalid = (data as TransactionRule[]).find((rule) => validateRule(rule));
+      if (invalid) {
+        return NextResponse.json(
+          { error: `Rule "${invalid.name}": ${validateRule(invalid)}` },
+          { status: 400 }
+        );
+      }
+      await storage.saveRules(data);
+      return NextResponse.json({ success: true });
+    }
+
+    // Import a shared rule set, remapping categories by name
+    if (type === 'rules-import') {
+      let file;
+      try {
+        file = parseRuleSet(data?.file);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid rule set' },
+          { status: 400 }
+        );
+      }
+      const [existingRules, categories] = await Promise.all([storage.getRules(), storage.getCategories()]);
+      const plan = planRuleSetImport(file, existingRules, categories, {
+        mode: data.mode === 'replace' ? 'replace' : 'merge',
+        createMissingCategories: !!data.createMissingCategories,
+      });
+      for (const category of plan.newCategories) {
+        await storage.addCategory(category);
+      }
+      await storage.saveRules(plan.rules);
+      return NextResponse.json({
+        rules: plan.rules,
+        result: {
+          added: plan.added,
+          duplicates: plan.duplicates,
+          skipped: plan.skipped,
+          createdCategories: plan.newCategories.length,
+        },
+      });
+    }
+
+    // Dry-run a draft rule: matches among pending transactions and confirmed expenses
+    if (type === 'rule-preview') {
+      const ruleError = validateRule(data);
+      if (ruleError) {
+        return NextResponse.json({ error: ruleError }, { status: 400 });
+      }
+      const [pending, expenses] = await Promise.all([
+        storage.getPendingTransactions(),
+        storage.getAllExpenses(),
+      ]);
+      return NextResponse.json({ preview: backtestRule(data, pending, expenses) });
+    }
+
+    // Move confirmed expenses a rule matches into the rule's category
+    if (type === 'rule-recategorize') {
+      const ruleError = validateRule(data);
+      if (ruleError) {
+        return NextResponse.json({ error: ruleError }, { status: 400 });
+      }
+      const updated = recategorizeExpenses(data, await storage.getAllExpenses());
+      await storage.updateExpensesBatch(updated);
+      return NextResponse.json({ success: true, count: updated.length });
+    }
+
+    if (type === 'recurring') {
+      const existing = await storage.getRecurringTemplates();
+      const template: RecurringTemplate = {
+        id: uuidv4(),
+        enabled: true,
+        ...data,
+        createdAt: new Date().toISOString(),
+      };
+      await storage.saveRecurringTemplates([...existing, template]);
+      return NextResponse.json({ template });
+    }
+
+    if (type === 'recurring-save') {
+      const existing = await storage.getRecurringTemplates();
+      await storage.saveRecurringTemplates(mergeGeneratedDates(existing, data));
+      return NextResponse.json({ success: true });
+    }
+
+    if (type === 'recurring-run') {
+      const pendingTransactions = await runRecurringTemplates(storage);
+      return NextResponse.json({ pendingTransactions });
+    }
+
+    if (type === 'csv-profile') {
+      const profile = data as CsvProfile;
+      if (!profile.name?.trim() || !profile.columns?.date || !profile.columns?.description) {
+        return NextResponse.json({ error: 'Profile needs a name, date and description columns' }, { status: 400 });
+      }
+      // Same name replaces the earlier profile, so re-saving a tweaked mapping doesn't pile up copies
+      const existing = await storage.getCsvProfiles();
+      const others = existing.filter(
+        (p) => p.id !== profile.id && p.name.trim().toLowerCase() !== profile.name.trim().toLowerCase()
+      );
+      const saved: CsvProfile = { ...profile, name: profile.name.trim(), builtIn: undefined };
+      await storage.saveCsvProfiles([...others, saved]);
+      return NextResponse.json({ profile: saved });
+    }
+
+    if (type === 'accounts-save') {
+      await storage.saveAccounts(data);
       return NextResponse.json({ success: true });
     }
 
+    if (type === 'split-groups-save') {
+      await storage.saveSplitGroups(data);
+      return NextResponse.json({ success: true });
+    }
+
+    if (type === 'split') {
+      const mode: SplitMode = data.mode;
+      const entries: { participant: string; value?: number }[] = Array.isArray(data.shares)
+        ? data.shares
+            .filter((s: { participant?: unknown }) => typeof s?.participant === 'string' && s.participant)
+            .map((s: { participant: string; value?: unknown }) => ({
+              participant: s.participant,
+              value: typeof s.value === 'number' && Number.isFinite(s.value) ? s.value : undefined,
+            }))
+        : [];
+      if (
+        !['equal', 'exact', 'percentage'].includes(mode) ||
+        !(typeof data.amount === 'number' && data.amount > 0) ||
+        typeof data.groupId !== 'string' || !data.groupId ||
+        typeof data.paidBy !== 'string' || !data.paidBy ||
+        typeof data.date !== 'string'
+      ) {
+        return NextResponse.json({ error: 'Invalid split' }, { status: 400 });
+      }
+      // Amounts are resolved here rather than trusted from the client, as balances add them up
+      const shares = computeShares(data.amount, mode, entries);
+      const error = validateSplit(data.amount, mode, shares);
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+      const existing = await storage.getSplits();
+      // An expense has at most one split; saving again replaces it
+      const previous = existing.find(
+        (s) => s.id === data.id || (data.expenseId && s.expenseId === data.expenseId)
+      );
+      const split: ExpenseSplit = {
+        id: previous?.id || uuidv4(),
+        expenseId: typeof data.expenseId === 'string' && data.expenseId ? data.expenseId : undefined,
+        groupId: data.groupId,
+        date: data.date,
+        description: typeof data.description === 'string' ? data.description : '',
+        amount: data.amount,
+        paidBy: data.paidBy,
+        mode,
+        shares,
+        createdAt: previous?.createdAt || new Date().toISOString(),
+      };
+      await storage.saveSplits([
+        ...existing.filter((s) => s.id !== split.id),
+        split,
+      ]);
+      return NextResponse.json({ split });
+    }
+
     if (type === 'ai-categorize') {
       const { transactions, recentExpenses, categories: catList } = data;
       const categoryList = (catList as Array<{ id: string; name: string }>)
@@ -219,8 +402,25 @@ Example: {"suggestions": [{"id": "abc123", "categoryId": "groceries"}]}`;
       if (!data || !Array.isArray(data) || data.length === 0) {
         return NextResponse.json({ error: 'No transaction IDs provided' }, { status: 400 });
       }
-      await moveTransactionsToExpenses(session.accessToken, data);
-      return NextResponse.json({ success: true, count: data.length });
+      const ids = new Set<string>(data);
+      const moving = (await storage.getPendingTransactions())
+        .filter((t) => ids.has(t.id) && t.status !== 'ignored');
+      await storage.moveTransactionsToExpenses(data);
+
+      const budgetAlerts = await getBudgetAlertsForNewExpenses(
+        storage,
+        moving.map((t) => ({
+          id: t.id,
+          amount: t.amount,
+          date: t.date,
+          category: t.category || '',
+          description: t.description,
+          createdAt: t.createdAt,
+          updatedAt: t.createdAt,
+          direction: t.direction,
+        }))
+      );
+      return NextResponse.json({ success: true, count: data.length, budgetAlerts });
     }
 
     // Default: add single expense
@@ -232,8 +432,9 @@ Example: {"suggestions": [{"id": "abc123", "categoryId": "groceries"}]}`;
       createdAt: now,
       updatedAt: now,
     };
-    await addExpense(session.accessToken, expense);
-    return NextResponse.json({ expense });
+    await storage.addExpense(expense);
+    const budgetAlerts = await getBudgetAlertsForNewExpenses(storage, [expense]);
+    return NextResponse.json({ expense, budgetAlerts });
   } catch (error) {
     console.error('Error adding data:', error);
     return NextResponse.json(
@@ -252,17 +453,29 @@ export async function PUT(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { type, data, year } = body;
+    const { type, data } = body;
+    const storage = getStorage(session.accessToken);
 
     if (type === 'category') {
-      const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken, year);
-      await updateCategory(session.accessToken, spreadsheetId, data);
+      await storage.updateCategory(data);
       return NextResponse.json({ category: data });
     }
 
+    if (type === 'overall-budget') {
+      const amount = typeof data === 'number' && data > 0 ? data : null;
+      await storage.setOverallBudget(amount);
+      return NextResponse.json({ overallBudget: amount });
+    }
+
+    if (type === 'rates') {
+      const { currency } = await storage.getSettings();
+      await storage.saveExchangeRates(data, currency);
+      const rates = await storage.getExchangeRates(currency);
+      return NextResponse.json({ rates, baseCurrency: currency });
+    }
+
     if (type === 'pending') {
-      const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken, year);
-      await updatePendingTransaction(session.accessToken, spreadsheetId, data);
+      await storage.updatePendingTransaction(data);
       return NextResponse.json({ pendingTransaction: data });
     }
 
@@ -271,7 +484,7 @@ export async function PUT(request: NextRequest) {
       ...data,
       updatedAt: new Date().toISOString(),
     };
-    await updateExpense(session.accessToken, expense);
+    await storage.updateExpense(expense);
     return NextResponse.json({ expense });
   } catch (error) {
     console.error('Error updating data:', error);
@@ -299,25 +512,46 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Missing id' }, { status: 400 });
     }
 
+    const storage = getStorage(session.accessToken);
+
     if (type === 'category') {
       if (!year) {
         return NextResponse.json({ error: 'Missing year for category deletion' }, { status: 400 });
       }
-      const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken, parseInt(year));
-      await deleteCategory(session.accessToken, spreadsheetId, id);
+      await storage.deleteCategory(id);
       return NextResponse.json({ success: true });
     }
 
     if (type === 'pending') {
-      const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken, year ? parseInt(year) : undefined);
-      await deletePendingTransaction(session.accessToken, spreadsheetId, id);
+      await storage.deletePendingTransaction(id);
+      return NextResponse.json({ success: true });
+    }
+
+    if (type === 'split') {
+      const splits = await storage.getSplits();
+      await storage.saveSplits(splits.filter((s) => s.id !== id));
       return NextResponse.json({ success: true });
     }
 
     // Extract year from ID or query param
     const targetYear = year ? parseInt(year) : extractYearFromId(id);
-    const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken);
-    await deleteExpense(session.accessToken, spreadsheetId, id, targetYear || undefined);
+    const expense = (await storage.getExpenses(targetYear || undefined)).find((e) => e.id === id);
+    await storage.deleteExpense(id, targetYear || undefined);
+
+    // Receipts only belong to this expense
+    for (const attachment of expense?.attachments || []) {
+      try {
+        await storage.deleteAttachment(attachment.id);
+      } catch (error) {
+        console.error('Error deleting attachment:', error);
+      }
+    }
+
+    // Drop the expense's split so it no longer counts towards balances
+    const splits = await storage.getSplits();
+    if (splits.some((s) => s.expenseId === id)) {
+      await storage.saveSplits(splits.filter((s) => s.expenseId !== id));
+    }
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting data:', error);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import {
+  EXPORT_FORMATS,
+  buildExportJson,
+  buildExportTable,
+  filterExpensesForExport,
+  getExportFileName,
+  parseExportQuery,
+  tableToCsv,
+  tableToXlsx,
+} from '@/lib/export';
+
+// GET - Download expenses as CSV, XLSX or JSON (filters and options in the query string)
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const options = parseExportQuery(request.nextUrl.searchParams);
+  if (!options) {
+    return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+  }
+  if (options.from && options.to && options.from > options.to) {
+    return NextResponse.json({ error: 'Start date is after end date' }, { status: 400 });
+  }
+
+  try {
+    const storage = getStorage(session.accessToken);
+    const [allExpenses, categories, settings] = await Promise.all([
+      storage.getAllExpenses(),
+      storage.getCategories(),
+      storage.getSettings(),
+    ]);
+
+    const expenses = filterExpensesForExport(allExpenses, options);
+
+    let body: BodyInit;
+    if (options.format === 'json') {
+      body = JSON.stringify(buildExportJson(expenses, categories, options, settings.currency), null, 2);
+    } else {
+      const table = buildExportTable(expenses, categories, options, settings.currency);
+      body = options.format === 'xlsx'
+        ? new Uint8Array(tableToXlsx(table))
+        // BOM so Excel picks up UTF-8 currency symbols
+        : '\uFEFF' + tableToCsv(table);
+    }
+
+    const format = EXPORT_FORMATS.find((f) => f.value === options.format)!;
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format.mimeType,
+        'Content-Disposition': `attachment; filename="${getExportFileName(options)}"`,
+        'Cache-Control': 'no-store',
+        'X-Export-Count': String(expenses.length),
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting expenses:', error);
+    return NextResponse.json({ error: 'Failed to export expenses' }, { status: 500 });
+  }
+}
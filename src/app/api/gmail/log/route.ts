@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+
+// GET - Per-email outcomes of recent Gmail syncs, newest first
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const entries = await getStorage(session.accessToken).getGmailSyncLog();
+    return NextResponse.json({ entries: [...entries].reverse() });
+  } catch (error) {
+    console.error('Error fetching sync log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sync log' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,23 +2,63 @@ import { NextRequest } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { fetchNewMessageIds, fetchEmailBodies } from '@/lib/gmail-client';
-import { parseEmailChunk } from '@/lib/gmail-parser';
+import { parseEmailChunk, EmailParseOutcome } from '@/lib/gmail-parser';
+import { getStorage } from '@/lib/storage';
+import { applyRulesToTransactions, savePendingTransactions } from '@/lib/ruleEngine';
+import { flagDuplicates, dropKnownExternalIds } from '@/lib/duplicates';
+import { buildGmailQuery, backfillStartDate, GmailDateRange } from '@/lib/gmail-filters';
+import { isProcessed, recordProcessed, syncWindowStart } from '@/lib/gmail-sync-state';
+import { resolveAccounts } from '@/lib/accounts';
 import {
-  getOrCreateSpreadsheet,
-  getGmailSyncState,
-  updateGmailSyncState,
-  addPendingTransactions,
-} from '@/lib/google-sheets';
-import { PendingTransaction } from '@/types';
+  PendingTransaction,
+  ParsedEmailTransaction,
+  ProcessedGmailMessage,
+  GmailSyncLogEntry,
+  GmailSyncOutcome,
+} from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 
 // How many email bodies to fetch + parse + save per chunk
 const CHUNK_SIZE = 50;
 
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_REPROCESS_IDS = 100;
+
+// One external ID per transaction, so a re-scan can't store an email's transactions twice
+function emailExternalIds(parsed: ParsedEmailTransaction[]): string[] {
+  const seen = new Map<string, number>();
+  return parsed.map((t) => {
+    const count = seen.get(t.emailId) || 0;
+    seen.set(t.emailId, count + 1);
+    return count === 0 ? `gmail:${t.emailId}` : `gmail:${t.emailId}:${count}`;
+  });
+}
+
+interface TransactionFate {
+  outcome: GmailSyncOutcome;
+  reason: string;
+  transactionId?: string;   // Set when it was stored
+}
+
+// An email's log outcome: the parser's, unless its transactions were then ignored or already recorded
+function emailLogOutcome(
+  parse: EmailParseOutcome,
+  fates: TransactionFate[]
+): Pick<GmailSyncLogEntry, 'outcome' | 'reason' | 'transactionIds'> {
+  const transactionIds = fates.flatMap((fate) => (fate.transactionId ? [fate.transactionId] : []));
+  if (parse.outcome !== 'parsed' || fates.length === 0) {
+    return { outcome: parse.outcome, reason: parse.reason, transactionIds };
+  }
+  const best = fates.find((f) => f.outcome === 'parsed') ||
+    fates.find((f) => f.outcome === 'skipped-credit') ||
+    fates[0];
+  return { outcome: best.outcome, reason: best.outcome === 'parsed' ? parse.reason : best.reason, transactionIds };
+}
+
 type StreamEvent =
   | { type: 'scanning'; totalEmails: number; newEmails: number }
-  | { type: 'progress'; chunk: number; totalChunks: number; saved: number; totalSaved: number }
-  | { type: 'done'; totalSaved: number; emailsFound: number; dupsSkipped: number }
+  | { type: 'progress'; chunk: number; totalChunks: number; saved: number; totalSaved: number; templateHits: number; emailsParsed: number }
+  | { type: 'done'; totalSaved: number; emailsFound: number; dupsSkipped: number; templateHits: number; emailsParsed: number }
   | { type: 'error'; message: string };
 
 export async function POST(request: NextRequest) {
@@ -40,13 +80,35 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  if (body.type !== 'sync') {
+  if (body.type !== 'sync' && body.type !== 'rescan' && body.type !== 'reprocess') {
     return new Response(
       JSON.stringify({ error: 'Invalid type' }),
       { status: 400, headers: { 'Content-Type': 'application/json' } }
     );
   }
 
+  // Re-scans read a date range again, including emails already processed
+  const rescan = body.type === 'rescan';
+  if (rescan && !(DATE_PARAM.test(body.from) && DATE_PARAM.test(body.to) && body.from <= body.to)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid date range' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Reprocessing parses chosen emails again, e.g. after an LLM failure
+  const reprocess = body.type === 'reprocess';
+  const messageIds: string[] = reprocess && Array.isArray(body.messageIds)
+    ? Array.from(new Set<string>(body.messageIds.filter((id: unknown) => typeof id === 'string' && id)))
+    : [];
+  if (reprocess && (messageIds.length === 0 || messageIds.length > MAX_REPROCESS_IDS)) {
+    return new Response(
+      JSON.stringify({ error: `Choose between 1 and ${MAX_REPROCESS_IDS} emails` }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  const syncType: GmailSyncLogEntry['syncType'] = body.type;
+
   const accessToken = session.accessToken;
 
   // Stream NDJSON back to client
@@ -58,14 +120,27 @@ export async function POST(request: NextRequest) {
       };
 
       try {
-        const spreadsheetId = await getOrCreateSpreadsheet(accessToken);
-        const syncState = await getGmailSyncState(accessToken, spreadsheetId);
-        const afterDate = syncState.lastSyncDate || null;
+        const startedAt = Date.now();
+        const storage = getStorage(accessToken);
+        const [syncState, rules, settings] = await Promise.all([
+          storage.getGmailSyncState(),
+          storage.getRules(),
+          storage.getSettings(),
+        ]);
+        // Regular syncs pick up from the watermark, or the backfill date the first time
+        const windowStart = syncWindowStart(syncState);
+        const range: GmailDateRange = rescan
+          ? { after: body.from, before: body.to }
+          : { after: windowStart !== null ? String(windowStart) : backfillStartDate(settings.gmailSync) };
+        const query = buildGmailQuery(settings.gmailSync, range);
+        const recentIds = new Set(syncState.recentIds.map((message) => message.id));
 
         // Phase 1: Fetch message IDs (fast)
         let idResult;
         try {
-          idResult = await fetchNewMessageIds(accessToken, afterDate, syncState.processedMessageIds);
+          idResult = reprocess
+            ? { newIds: messageIds, totalFound: messageIds.length, skippedDupes: 0, complete: false }
+            : await fetchNewMessageIds(accessToken, query, rescan ? new Set() : recentIds);
         } catch (error: unknown) {
           const code = (error as { code?: number })?.code;
           if (code === 403) {
@@ -79,16 +154,17 @@ export async function POST(request: NextRequest) {
           return;
         }
 
-        const { newIds, totalFound, skippedDupes } = idResult;
+        const { newIds, totalFound, skippedDupes, complete } = idResult;
+        // Only a sync that listed every match may move the watermark past what it didn't read
+        const finished = syncType === 'sync' && complete ? { startedAt } : undefined;
         emit({ type: 'scanning', totalEmails: totalFound, newEmails: newIds.length });
 
         if (newIds.length === 0) {
-          // Update lastSyncDate even with no new emails
-          await updateGmailSyncState(accessToken, spreadsheetId, {
-            ...syncState,
-            lastSyncDate: new Date().toISOString().split('T')[0],
-          });
-          emit({ type: 'done', totalSaved: 0, emailsFound: totalFound, dupsSkipped: skippedDupes });
+          // Move the watermark even with no new emails
+          if (finished) {
+            await storage.updateGmailSyncState(recordProcessed(syncState, [], finished));
+          }
+          emit({ type: 'done', totalSaved: 0, emailsFound: totalFound, dupsSkipped: skippedDupes, templateHits: 0, emailsParsed: 0 });
           controller.close();
           return;
         }
@@ -96,53 +172,150 @@ export async function POST(request: NextRequest) {
         // Phase 2: Process in chunks — fetch bodies → parse → save → emit progress
         const totalChunks = Math.ceil(newIds.length / CHUNK_SIZE);
         let totalSaved = 0;
-        const allProcessedIds: string[] = [...syncState.processedMessageIds];
+        let templateHits = 0;
+        let emailsParsed = 0;
+        let dupsSkipped = skippedDupes;
+        const processed: ProcessedGmailMessage[] = [];
+        let unfetched = 0;
+        const syncId = uuidv4();
+        const syncedAt = new Date(startedAt).toISOString();
+
+        // Alerts for purchases already imported from a statement or entered by hand get flagged.
+        // Every year, as re-scans, reprocessing and the first backfill reach past this one
+        const [existingPending, existingExpenses, accounts] = await Promise.all([
+          storage.getPendingTransactions(),
+          storage.getAllExpenses(),
+          storage.getAccounts(),
+        ]);
 
         for (let chunkIdx = 0; chunkIdx < totalChunks; chunkIdx++) {
           const chunkIds = newIds.slice(chunkIdx * CHUNK_SIZE, (chunkIdx + 1) * CHUNK_SIZE);
 
           // Fetch bodies for this chunk
-          const emails = await fetchEmailBodies(accessToken, chunkIds);
+          const { emails, fetched } = await fetchEmailBodies(accessToken, chunkIds);
 
-          // Parse with LLM
-          const parsed = await parseEmailChunk(emails);
+          // Known bank alerts by template, the rest with the LLM
+          const { transactions: parsed, outcomes, templateHits: chunkHits } = await parseEmailChunk(emails);
+          templateHits += chunkHits;
+          emailsParsed += emails.filter((email) => email.body).length;
 
           // Build pending transactions and save to sheet
+          let saved = 0;
+          const fates = new Map<string, TransactionFate>(); // By external ID
+          const externalIds = emailExternalIds(parsed);
           if (parsed.length > 0) {
+            // Cards and accounts seen for the first time are added to the user's accounts
+            const resolved = resolveAccounts(accounts, parsed.map((t) => t.account));
+            let accountIds = resolved.ids;
+            if (resolved.created.length > 0) {
+              try {
+                await storage.saveAccounts([...accounts, ...resolved.created]);
+                accounts.push(...resolved.created);
+              } catch (error) {
+                console.error('Gmail sync: failed to save new accounts:', error);
+                const unsaved = new Set(resolved.created.map((a) => a.id));
+                accountIds = accountIds.map((id) => (id && unsaved.has(id) ? undefined : id));
+              }
+            }
+
             const now = new Date().toISOString();
-            const pending: PendingTransaction[] = parsed.map((t) => ({
+            const pending: PendingTransaction[] = parsed.map((t, i) => ({
               id: `${new Date(t.date).getFullYear()}-${uuidv4()}`,
               date: t.date,
               description: t.description,
               amount: t.amount,
               status: 'uncategorized' as const,
-              source: 'Gmail',
+              source: t.account?.last4 ? `Gmail XX${t.account.last4}` : 'Gmail',
+              direction: t.direction,
+              externalId: externalIds[i],
+              accountId: accountIds[i],
               createdAt: now,
             }));
 
-            await addPendingTransactions(accessToken, spreadsheetId, pending);
-            totalSaved += parsed.length;
+            // Rules can rewrite, tag, ignore or auto-confirm before anything is stored
+            const fresh = dropKnownExternalIds(pending, existingPending, existingExpenses);
+            for (const t of pending) {
+              if (!fresh.includes(t)) fates.set(t.externalId!, { outcome: 'duplicate', reason: 'Already imported from this email' });
+            }
+
+            // Emails synced before external IDs were recorded: on a re-run, a look-alike is the earlier copy
+            const receivedAt = new Map(fetched.map((message) => [message.id, message.internalDate]));
+            const emailIds = new Map(parsed.map((t, i) => [externalIds[i], t.emailId]));
+            const flagged = flagDuplicates(applyRulesToTransactions(fresh, rules), existingPending, existingExpenses)
+              .filter((t) => {
+                const emailId = emailIds.get(t.externalId!)!;
+                if (syncType === 'sync' || !t.duplicateOf || !isProcessed(syncState, emailId, receivedAt.get(emailId))) return true;
+                fates.set(t.externalId!, { outcome: 'duplicate', reason: 'Matches a transaction from an earlier sync' });
+                return false;
+              });
+            dupsSkipped += parsed.length - flagged.length;
+
+            for (const t of flagged) {
+              fates.set(t.externalId!, t.duplicateOf
+                ? { outcome: 'duplicate', reason: 'Saved, flagged as a likely duplicate', transactionId: t.id }
+                : t.status === 'ignored' && t.direction === 'income'
+                  ? { outcome: 'skipped-credit', reason: 'Credit ignored by a rule', transactionId: t.id }
+                  : { outcome: 'parsed', reason: '', transactionId: t.id });
+            }
+
+            const stored = await savePendingTransactions(storage, flagged, rules);
+            existingPending.push(...stored.pending);
+            existingExpenses.push(...stored.expenses);
+            saved = flagged.length;
+            totalSaved += saved;
           }
 
           // Track processed IDs for this chunk
-          allProcessedIds.push(...chunkIds);
+          processed.push(...fetched);
+          unfetched += chunkIds.length - fetched.length;
+
+          // One log row per email, including ones Gmail wouldn't return
+          const parseOutcomes = new Map(outcomes.map((o) => [o.emailId, o]));
+          const emailFates = new Map<string, TransactionFate[]>();
+          parsed.forEach((t, i) => {
+            const fate = fates.get(externalIds[i]);
+            if (fate) emailFates.set(t.emailId, [...(emailFates.get(t.emailId) || []), fate]);
+          });
+          const logEntries: GmailSyncLogEntry[] = chunkIds.map((messageId) => {
+            const email = emails.find((e) => e.id === messageId);
+            const parse = parseOutcomes.get(messageId) ||
+              { emailId: messageId, outcome: 'parse-failed' as const, reason: 'Couldn\'t fetch the email from Gmail' };
+            return {
+              id: uuidv4(),
+              syncId,
+              syncType,
+              syncedAt,
+              messageId,
+              subject: email?.subject || '',
+              from: email?.from || '',
+              emailDate: email?.date || '',
+              ...emailLogOutcome(parse, emailFates.get(messageId) || []),
+            };
+          });
+          // The log only explains results, so a failed write doesn't fail the sync
+          await storage.addGmailSyncLogEntries(logEntries).catch((error) => {
+            console.error('Error writing sync log:', error);
+          });
 
           emit({
             type: 'progress',
             chunk: chunkIdx + 1,
             totalChunks,
-            saved: parsed.length,
+            saved,
             totalSaved,
+            templateHits,
+            emailsParsed,
           });
         }
 
-        // Update sync state with all processed IDs
-        await updateGmailSyncState(accessToken, spreadsheetId, {
-          lastSyncDate: new Date().toISOString().split('T')[0],
-          processedMessageIds: allProcessedIds,
-        });
+        // Update sync state with all processed IDs. Emails Gmail wouldn't return
+        // are only searched again if the watermark stays behind them, and their
+        // dates are unknown, so any failure holds it where it was
+        await storage.updateGmailSyncState(
+          recordProcessed(syncState, processed, unfetched === 0 ? finished : undefined)
+        );
 
-        emit({ type: 'done', totalSaved, emailsFound: totalFound, dupsSkipped: skippedDupes });
+        emit({ type: 'done', totalSaved, emailsFound: totalFound, dupsSkipped, templateHits, emailsParsed });
       } catch (error) {
         console.error('Gmail sync stream error:', error);
         emit({ type: 'error', message: 'Gmail sync failed unexpectedly.' });
@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
+import { v4 as uuidv4 } from 'uuid';
 import { authOptions } from '@/lib/auth';
+import { extractPdfText } from '@/lib/pdf-text';
+import { parsePdfStatement } from '@/lib/pdfParser';
+import { CsvTransaction } from '@/types';
+
+interface ModalTransaction {
+  date: string;
+  description: string;
+  amount: number;
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,9 +20,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Get the PDF file from form data
+    // Get the PDF file (and password for protected statements) from form data
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    const password = (formData.get('password') as string | null) || undefined;
 
     if (!file) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
@@ -28,36 +39,43 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'File too large (max 10MB)' }, { status: 400 });
     }
 
-    // Convert to base64
-    const bytes = await file.arrayBuffer();
-    const base64 = Buffer.from(bytes).toString('base64');
+    const bytes = Buffer.from(await file.arrayBuffer());
+    const fileName = file.name.replace(/\.pdf$/i, '');
 
-    // Check if Modal endpoint is configured
-    const modalEndpoint = process.env.MODAL_ENDPOINT_URL;
+    // Text-based statements are read in-process from the PDF's text layer
+    const text = await extractPdfText(bytes, password);
+
+    if (text.status === 'password-required' || text.status === 'password-incorrect') {
+      return NextResponse.json({
+        error: text.status === 'password-required' ? 'This PDF is password protected' : 'Incorrect password',
+        passwordRequired: true,
+      }, { status: 422 });
+    }
 
+    if (text.status === 'ok') {
+      const statement = parsePdfStatement(text.pages, fileName);
+      if (statement.transactions.length === 0) {
+        return NextResponse.json({ error: 'No transactions found in this PDF' }, { status: 422 });
+      }
+      return NextResponse.json({ ...statement, pagesProcessed: text.pages.length, method: 'text' });
+    }
+
+    // Scanned images need OCR, which runs on the Modal app in modal/pdf_extract.py
+    const modalEndpoint = process.env.MODAL_ENDPOINT_URL;
     if (!modalEndpoint) {
-      // Return mock data for development/demo
       return NextResponse.json({
-        transactions: [
-          {
-            date: '2024-01-15',
-            description: 'PDF extraction not configured - add MODAL_ENDPOINT_URL to .env.local',
-            amount: 0,
-          },
-        ],
-        error: 'MODAL_ENDPOINT_URL not configured',
-        demo: true,
-      });
+        error: 'This PDF is a scanned image. Set MODAL_ENDPOINT_URL to enable OCR for scanned statements.',
+      }, { status: 422 });
     }
 
-    // Call Modal endpoint
     const response = await fetch(modalEndpoint, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        pdf_base64: base64,
+        pdf_base64: bytes.toString('base64'),
+        password,
       }),
     });
 
@@ -71,11 +89,30 @@ export async function POST(request: NextRequest) {
     }
 
     const result = await response.json();
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    // OCR can't tell money in from money out, so everything starts as spending
+    const transactions: CsvTransaction[] = (result.transactions || []).map((t: ModalTransaction) => ({
+      id: uuidv4(),
+      date: t.date,
+      description: t.description,
+      amount: t.amount,
+      selected: true,
+      direction: 'expense',
+      source: fileName,
+    }));
+    if (transactions.length === 0) {
+      return NextResponse.json({ error: 'No transactions found in this PDF' }, { status: 422 });
+    }
 
     return NextResponse.json({
-      transactions: result.transactions || [],
-      error: result.error,
+      format: 'pdf',
+      accounts: [fileName],
+      transactions,
       pagesProcessed: result.pages_processed,
+      method: 'ocr',
     });
   } catch (error) {
     console.error('PDF extraction error:', error);
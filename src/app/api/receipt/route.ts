@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { pdfToImages, imageToJpeg } from '@/lib/pdf-images';
+import { scanReceipt } from '@/lib/receipt-parser';
+
+const MAX_RECEIPT_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_RECEIPT_PAGES = 2; // Long PDFs are statements, not receipts
+
+// POST - Scan a receipt photo or PDF into pre-fill values for the add-expense form
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    const isPdf = file.type === 'application/pdf';
+    if (!isPdf && !file.type.startsWith('image/')) {
+      return NextResponse.json({ error: 'File must be an image or PDF' }, { status: 400 });
+    }
+    if (file.size > MAX_RECEIPT_SIZE) {
+      return NextResponse.json({ error: 'File too large (max 10MB)' }, { status: 400 });
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const images = isPdf
+      ? await pdfToImages(buffer.toString('base64'), MAX_RECEIPT_PAGES)
+      : [await imageToJpeg(buffer)];
+
+    const storage = getStorage(session.accessToken);
+    const [categories, rules] = await Promise.all([
+      storage.getCategories(),
+      storage.getRules(),
+    ]);
+
+    const receipt = await scanReceipt(images, categories, rules);
+    return NextResponse.json({ receipt });
+  } catch (error) {
+    console.error('Receipt scan error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to scan receipt' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import {
-  getOrCreateSpreadsheet,
-  getSettings,
-  updateSettings,
-} from '@/lib/google-sheets';
+import { getStorage } from '@/lib/storage';
 
 // GET - Fetch settings
 export async function GET() {
@@ -15,8 +11,9 @@ export async function GET() {
   }
 
   try {
-    const spreadsheetId = await getOrCreateSpreadsheet(session.accessToken);
-    const settings = await getSettings(session.accessToken, spreadsheetId);
+    const storage = getStorage(session.accessToken);
+    const spreadsheetId = await storage.getStoreId();
+    const settings = await storage.getSettings();
 
     return NextResponse.json({ settings, spreadsheetId });
   } catch (error) {
@@ -37,16 +34,34 @@ export async function PUT(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { settings, spreadsheetId } = body;
+    const { settings } = body;
 
-    if (!settings || !spreadsheetId) {
+    if (!settings) {
       return NextResponse.json(
-        { error: 'Missing settings or spreadsheetId' },
+        { error: 'Missing settings' },
         { status: 400 }
       );
     }
 
-    await updateSettings(session.accessToken, spreadsheetId, settings);
+    const storage = getStorage(session.accessToken);
+
+    // Stored amounts are in the base currency and aren't converted, so
+    // switching it once anything is recorded would mix two currencies
+    const current = await storage.getSettings();
+    if (settings.currency && settings.currency !== current.currency) {
+      const [expenses, pending] = await Promise.all([
+        storage.getAllExpenses(),
+        storage.getPendingTransactions(),
+      ]);
+      if (expenses.length > 0 || pending.length > 0) {
+        return NextResponse.json(
+          { error: `Amounts are already recorded in ${current.currency}, so the currency can't be changed` },
+          { status: 409 }
+        );
+      }
+    }
+
+    await storage.updateSettings(settings);
 
     return NextResponse.json({ success: true, settings });
   } catch (error) {
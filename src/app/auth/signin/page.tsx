@@ -1,9 +1,36 @@
 'use client';
 
-import { signIn } from 'next-auth/react';
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { signIn, getProviders } from 'next-auth/react';
 import { motion } from 'framer-motion';
 
 export default function SignInPage() {
+  const router = useRouter();
+  const [hasLocalProvider, setHasLocalProvider] = useState(false);
+  const [password, setPassword] = useState('');
+  const [localError, setLocalError] = useState(false);
+  const [signingIn, setSigningIn] = useState(false);
+
+  useEffect(() => {
+    getProviders().then((providers) => {
+      setHasLocalProvider(!!providers?.local);
+    });
+  }, []);
+
+  const handleLocalSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSigningIn(true);
+    setLocalError(false);
+    const result = await signIn('local', { password, redirect: false });
+    if (result?.ok) {
+      router.push('/');
+    } else {
+      setLocalError(true);
+      setSigningIn(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center ios26-bg px-4">
       <motion.div
@@ -51,6 +78,29 @@ export default function SignInPage() {
             Continue with Google
           </button>
 
+          {hasLocalProvider && (
+            <form onSubmit={handleLocalSignIn} className="mt-3 space-y-2">
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Local password"
+                autoComplete="current-password"
+                className="w-full bg-surface border border-border rounded-lg px-4 py-3 text-text-primary placeholder:text-text-muted"
+              />
+              {localError && (
+                <p className="text-xs text-red-500">Incorrect password</p>
+              )}
+              <button
+                type="submit"
+                disabled={!password || signingIn}
+                className="w-full flex items-center justify-center bg-surface hover:bg-surface-hover border border-border rounded-lg px-4 py-3 text-text-primary font-medium transition-colors duration-200 disabled:opacity-50"
+              >
+                Continue without Google (local storage)
+              </button>
+            </form>
+          )}
+
           <p className="text-xs text-text-muted text-center mt-6">
             Your data is stored securely in your own Google Drive
           </p>
@@ -10,22 +10,25 @@ import { useSettings } from '@/context/SettingsContext';
 import { MonthlyCard } from '@/components/MonthlyCard';
 import { SpendingTrendChart } from '@/components/SpendingTrendChart';
 import { RecentTransactions } from '@/components/RecentTransactions';
-import { getCurrentMonthKey, getMonthKey } from '@/lib/utils';
+import { getCurrentMonthKey, getMonthKey, isExpense, calculateCashFlow } from '@/lib/utils';
+import { calculateBudgetProgress } from '@/lib/budgets';
 import { pageVariants } from '@/lib/animations';
 
 export default function DashboardPage() {
   const router = useRouter();
   const { state: expenseState } = useExpenses();
-  const { categories } = useCategories();
+  const { categories, overallBudget } = useCategories();
   const { pendingTransactions } = usePendingTransactions();
   const { settings } = useSettings();
 
   const currentMonthKey = getCurrentMonthKey();
 
   const currentMonthData = useMemo(() => {
-    const monthExpenses = expenseState.expenses.filter(
+    const monthTransactions = expenseState.expenses.filter(
       (e) => getMonthKey(e.date) === currentMonthKey
     );
+    const monthExpenses = monthTransactions.filter(isExpense);
+    const { income } = calculateCashFlow(monthTransactions);
 
     const total = monthExpenses.reduce((sum, e) => sum + e.amount, 0);
 
@@ -50,8 +53,10 @@ export default function DashboardPage() {
       })
       .sort((a, b) => b.total - a.total);
 
-    return { total, breakdown };
-  }, [expenseState.expenses, categories, currentMonthKey]);
+    const budget = calculateBudgetProgress(monthTransactions, categories, overallBudget);
+
+    return { total, income, breakdown, budget };
+  }, [expenseState.expenses, categories, overallBudget, currentMonthKey]);
 
   const pendingCount = useMemo(() => {
     return pendingTransactions.filter(
@@ -122,7 +127,9 @@ export default function DashboardPage() {
           <MonthlyCard
             month={currentMonthKey}
             total={currentMonthData.total}
+            income={currentMonthData.income}
             breakdown={currentMonthData.breakdown}
+            budget={currentMonthData.budget}
             onClick={() => router.push(`/monthly/${currentMonthKey}`)}
           />
         </section>
@@ -10,12 +10,20 @@ import { useSettings } from '@/context/SettingsContext';
 import { ExpenseList } from '@/components/ExpenseList';
 import { CategorySummary } from '@/components/CategorySummary';
 import { ExpenseEditDialog } from '@/components/ExpenseEditDialog';
+import { AccountFilterChips, AccountTypeIcon } from '@/components/AccountSelect';
+import { useAccounts } from '@/hooks/useAccounts';
 import { Expense } from '@/types';
+import { calculateTagTotals } from '@/lib/tags';
+import { calculateAccountTotals, filterByAccount, formatAccountLabel } from '@/lib/accounts';
+import { calculateBudgetProgress, getCategoryBudgets, getBudgetLevel, getBudgetColor } from '@/lib/budgets';
 import {
   formatCurrency,
   formatMonthYear,
   getMonthKey,
   calculateCategoryBreakdown,
+  calculateCashFlow,
+  isExpense,
+  cn,
 } from '@/lib/utils';
 
 export default function MonthDetailPage() {
@@ -24,9 +32,11 @@ export default function MonthDetailPage() {
   const month = params.month as string;
   const { status } = useSession();
   const { state, deleteExpense } = useExpenses();
-  const { categories } = useCategories();
+  const { categories, overallBudget } = useCategories();
   const { settings } = useSettings();
+  const { accounts } = useAccounts();
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [accountFilter, setAccountFilter] = useState('');
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -39,15 +49,37 @@ export default function MonthDetailPage() {
     return state.expenses.filter((e) => getMonthKey(e.date) === month);
   }, [state.expenses, month]);
 
+  // Spending per account, for the whole month whatever the filter
+  const accountTotals = useMemo(
+    () => calculateAccountTotals(monthExpenses, accounts),
+    [monthExpenses, accounts]
+  );
+
+  // Narrow totals, breakdowns and the list to one account
+  const filteredExpenses = useMemo(
+    () => filterByAccount(monthExpenses, accountFilter, accounts),
+    [monthExpenses, accountFilter, accounts]
+  );
+
   // Calculate totals
-  const monthTotal = useMemo(() => {
-    return monthExpenses.reduce((sum, e) => sum + e.amount, 0);
-  }, [monthExpenses]);
+  const cashFlow = useMemo(() => calculateCashFlow(filteredExpenses), [filteredExpenses]);
+  const monthTotal = cashFlow.spent;
+  const spendingCount = useMemo(() => filteredExpenses.filter(isExpense).length, [filteredExpenses]);
 
   // Category breakdown
   const breakdown = useMemo(() => {
-    return calculateCategoryBreakdown(monthExpenses, categories);
-  }, [monthExpenses, categories]);
+    return calculateCategoryBreakdown(filteredExpenses, categories);
+  }, [filteredExpenses, categories]);
+
+  // Spending per tag (an expense counts towards each of its tags)
+  const tagTotals = useMemo(() => calculateTagTotals(filteredExpenses), [filteredExpenses]);
+
+  // Budget progress, against the whole month since budgets aren't per account
+  const budgetProgress = useMemo(
+    () => calculateBudgetProgress(monthExpenses, categories, overallBudget),
+    [monthExpenses, categories, overallBudget]
+  );
+  const categoryBudgets = useMemo(() => getCategoryBudgets(categories), [categories]);
 
   // Get previous and next months
   const allMonths = useMemo(() => {
@@ -131,6 +163,15 @@ export default function MonthDetailPage() {
         animate={{ opacity: 1, y: 0 }}
         className="max-w-app mx-auto px-4 md:px-6 py-6"
       >
+        {accounts.length > 0 && (
+          <AccountFilterChips
+            accounts={accounts}
+            value={accountFilter}
+            onChange={setAccountFilter}
+            className="mb-4"
+          />
+        )}
+
         {/* Total Card */}
         <div className="glass-card p-6 mb-6">
           <p className="text-sm text-text-secondary mb-1">Total Spent</p>
@@ -138,8 +179,44 @@ export default function MonthDetailPage() {
             {formatCurrency(monthTotal, settings.currency)}
           </p>
           <p className="text-sm text-text-muted mt-1">
-            {monthExpenses.length} {monthExpenses.length === 1 ? 'expense' : 'expenses'}
+            {spendingCount} {spendingCount === 1 ? 'expense' : 'expenses'}
           </p>
+          {budgetProgress.overall && !accountFilter && (
+            <div className="mt-4">
+              <div className="h-2 bg-surface-hover rounded-full overflow-hidden mb-1">
+                <div
+                  className="h-full rounded-full transition-all"
+                  style={{
+                    width: `${Math.min(budgetProgress.overall.ratio, 1) * 100}%`,
+                    backgroundColor: getBudgetColor(getBudgetLevel(budgetProgress.overall.ratio)),
+                  }}
+                />
+              </div>
+              <p className="text-xs text-text-muted">
+                {Math.round(budgetProgress.overall.ratio * 100)}% of{' '}
+                {formatCurrency(budgetProgress.overall.budget, settings.currency)} monthly budget
+                {budgetProgress.overall.ratio < 1 && (
+                  <> · {formatCurrency(budgetProgress.overall.budget - budgetProgress.overall.spent, settings.currency)} left</>
+                )}
+              </p>
+            </div>
+          )}
+          {cashFlow.income > 0 && (
+            <div className="flex gap-6 mt-4 pt-4 border-t border-border">
+              <div>
+                <p className="text-xs text-text-secondary">Income</p>
+                <p className="text-base font-semibold text-green-600 font-mono">
+                  +{formatCurrency(cashFlow.income, settings.currency)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-text-secondary">Net Cash Flow</p>
+                <p className={cn('text-base font-semibold font-mono', cashFlow.net >= 0 ? 'text-green-600' : 'text-red-500')}>
+                  {cashFlow.net >= 0 ? '+' : ''}{formatCurrency(cashFlow.net, settings.currency)}
+                </p>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Category Summary */}
@@ -148,17 +225,73 @@ export default function MonthDetailPage() {
             <h2 className="text-lg font-semibold text-text-primary mb-4">
               By Category
             </h2>
-            <CategorySummary breakdown={breakdown} />
+            <CategorySummary breakdown={breakdown} budgets={categoryBudgets} />
+          </div>
+        )}
+
+        {/* Tag Totals */}
+        {tagTotals.length > 0 && (
+          <div className="glass-card p-6 mb-6">
+            <h2 className="text-lg font-semibold text-text-primary mb-4">
+              By Tag
+            </h2>
+            <div className="space-y-3">
+              {tagTotals.map((item) => (
+                <div key={item.tag} className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-text-primary truncate">#{item.tag}</p>
+                    <p className="text-xs text-text-muted">
+                      {item.count} {item.count === 1 ? 'expense' : 'expenses'}
+                    </p>
+                  </div>
+                  <span className="text-sm font-semibold text-text-primary font-mono">
+                    {formatCurrency(item.total, settings.currency)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Account Totals */}
+        {accounts.length > 0 && accountTotals.length > 0 && (
+          <div className="glass-card p-6 mb-6">
+            <h2 className="text-lg font-semibold text-text-primary mb-4">
+              By Account
+            </h2>
+            <div className="space-y-3">
+              {accountTotals.map((item) => {
+                const account = accounts.find((a) => a.id === item.accountId);
+                return (
+                  <div key={item.accountId || 'none'} className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      {account && <AccountTypeIcon type={account.type} />}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-text-primary truncate">
+                          {account ? formatAccountLabel(account) : 'No account'}
+                        </p>
+                        <p className="text-xs text-text-muted">
+                          {item.count} {item.count === 1 ? 'expense' : 'expenses'}
+                        </p>
+                      </div>
+                    </div>
+                    <span className="text-sm font-semibold text-text-primary font-mono">
+                      {formatCurrency(item.total, settings.currency)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
           </div>
         )}
 
         {/* Expense List */}
         <div>
           <h2 className="text-lg font-semibold text-text-primary mb-4">
-            All Expenses
+            All Transactions
           </h2>
           <ExpenseList
-            expenses={monthExpenses}
+            expenses={filteredExpenses}
             categories={categories}
             loading={false}
             onEdit={handleEdit}
@@ -1,19 +1,25 @@
 'use client';
 
-import { useMemo, useEffect } from 'react';
+import { useMemo, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSession } from 'next-auth/react';
 import { motion } from 'framer-motion';
 import { useExpenses, useCategories } from '@/context/ExpenseContext';
 import { MonthlyCard } from '@/components/MonthlyCard';
 import { SkeletonCard } from '@/components/SkeletonList';
-import { groupExpensesByMonth, calculateCategoryBreakdown } from '@/lib/utils';
+import { AccountFilterChips } from '@/components/AccountSelect';
+import { useAccounts } from '@/hooks/useAccounts';
+import { groupExpensesByMonth, calculateCategoryBreakdown, calculateCashFlow } from '@/lib/utils';
+import { calculateBudgetProgress } from '@/lib/budgets';
+import { filterByAccount } from '@/lib/accounts';
 
 export default function MonthlyOverviewPage() {
   const router = useRouter();
   const { status } = useSession();
   const { state } = useExpenses();
-  const { categories } = useCategories();
+  const { categories, overallBudget } = useCategories();
+  const { accounts } = useAccounts();
+  const [accountFilter, setAccountFilter] = useState('');
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -26,18 +32,24 @@ export default function MonthlyOverviewPage() {
     const months: {
       month: string;
       total: number;
+      income: number;
       breakdown: ReturnType<typeof calculateCategoryBreakdown>;
+      budget: ReturnType<typeof calculateBudgetProgress>;
     }[] = [];
 
-    grouped.forEach((expenses, month) => {
-      const total = expenses.reduce((sum, e) => sum + e.amount, 0);
+    grouped.forEach((monthExpenses, month) => {
+      // Budgets cover the whole month, so only totals follow the account filter
+      const expenses = filterByAccount(monthExpenses, accountFilter, accounts);
+      if (expenses.length === 0) return;
+      const { spent: total, income } = calculateCashFlow(expenses);
       const breakdown = calculateCategoryBreakdown(expenses, categories);
-      months.push({ month, total, breakdown });
+      const budget = calculateBudgetProgress(monthExpenses, categories, overallBudget);
+      months.push({ month, total, income, breakdown, budget });
     });
 
     // Sort by month descending
     return months.sort((a, b) => b.month.localeCompare(a.month));
-  }, [state.expenses, categories]);
+  }, [state.expenses, accountFilter, accounts, categories, overallBudget]);
 
   if (status === 'loading' || state.loading) {
     return (
@@ -73,16 +85,27 @@ export default function MonthlyOverviewPage() {
         animate={{ opacity: 1, y: 0 }}
         className="max-w-app mx-auto px-4 md:px-6 py-6"
       >
+        {accounts.length > 0 && (
+          <AccountFilterChips
+            accounts={accounts}
+            value={accountFilter}
+            onChange={setAccountFilter}
+            className="mb-4"
+          />
+        )}
+
         {monthlyData.length === 0 ? (
           <div className="text-center py-16">
             <div className="w-16 h-16 mb-4 mx-auto rounded-full bg-surface-hover flex items-center justify-center">
               <span className="text-3xl">📊</span>
             </div>
             <h3 className="text-lg font-medium text-text-primary mb-1">
-              No data yet
+              {accountFilter ? 'Nothing for this account' : 'No data yet'}
             </h3>
             <p className="text-sm text-text-secondary">
-              Start adding expenses to see your monthly overview
+              {accountFilter
+                ? 'No expenses were paid with this account'
+                : 'Start adding expenses to see your monthly overview'}
             </p>
           </div>
         ) : (
@@ -97,7 +120,9 @@ export default function MonthlyOverviewPage() {
                 <MonthlyCard
                   month={data.month}
                   total={data.total}
+                  income={data.income}
                   breakdown={data.breakdown}
+                  budget={data.budget}
                   onClick={() => router.push(`/monthly/${data.month}`)}
                 />
               </motion.div>
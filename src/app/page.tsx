@@ -17,7 +17,7 @@ import { ExpenseEditDialog } from '@/components/ExpenseEditDialog';
 import { ExpenseAddDialog } from '@/components/ExpenseAddDialog';
 import { SkeletonList } from '@/components/SkeletonList';
 import { Expense } from '@/types';
-import { getCurrentMonthKey, getMonthKey } from '@/lib/utils';
+import { getCurrentMonthKey, getMonthKey, isExpense } from '@/lib/utils';
 import { pageVariants, smoothSpring } from '@/lib/animations';
 
 function HomePageSkeleton() {
@@ -100,7 +100,7 @@ export default function ExpensesPage() {
   const currentMonthTotal = useMemo(() => {
     const currentMonth = getCurrentMonthKey();
     return state.expenses
-      .filter((e) => getMonthKey(e.date) === currentMonth)
+      .filter((e) => getMonthKey(e.date) === currentMonth && isExpense(e))
       .reduce((sum, e) => sum + e.amount, 0);
   }, [state.expenses]);
 
@@ -0,0 +1,325 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { ArrowLeft, Plus, Trash2, Edit2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { AccountTypeIcon } from '@/components/AccountSelect';
+import { useExpenses } from '@/context/ExpenseContext';
+import { useToast } from '@/hooks/useToast';
+import { useAccounts } from '@/hooks/useAccounts';
+import { getAccountTypeLabel } from '@/lib/accounts';
+import { Account, AccountType, ACCOUNT_TYPES } from '@/types';
+
+type AccountFormData = Omit<Account, 'id' | 'createdAt'>;
+
+interface AccountEditorProps {
+  account?: Account;
+  onSave: (data: AccountFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+function AccountEditor({ account, onSave, onCancel }: AccountEditorProps) {
+  const [name, setName] = useState(account?.name || '');
+  const [type, setType] = useState<AccountType>(account?.type || 'credit-card');
+  const [last4, setLast4] = useState(account?.last4 || '');
+  const [institution, setInstitution] = useState(account?.institution || '');
+  const [saving, setSaving] = useState(false);
+
+  const last4Valid = !last4 || /^\d{3,4}$/.test(last4);
+  const isValid = name.trim() && last4Valid;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        name: name.trim(),
+        type,
+        last4: last4 || undefined,
+        institution: institution.trim() || undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-text-secondary">Name</label>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., HDFC Millennia, Salary account"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-text-secondary">Type</label>
+        <Select value={type} onValueChange={(v: AccountType) => setType(v)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ACCOUNT_TYPES.map((t) => (
+              <SelectItem key={t.value} value={t.value}>
+                <div className="flex items-center gap-2">
+                  <AccountTypeIcon type={t.value} />
+                  <span>{t.label}</span>
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-text-secondary">
+            Last digits <span className="text-text-muted">(optional)</span>
+          </label>
+          <Input
+            inputMode="numeric"
+            maxLength={4}
+            value={last4}
+            onChange={(e) => setLast4(e.target.value.replace(/\D/g, ''))}
+            placeholder="1234"
+            className="font-mono"
+          />
+          {!last4Valid && <p className="text-xs text-red-500">Enter 3 or 4 digits</p>}
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-text-secondary">
+            Bank <span className="text-text-muted">(optional)</span>
+          </label>
+          <Input
+            value={institution}
+            onChange={(e) => setInstitution(e.target.value)}
+            placeholder="e.g., HDFC Bank"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-text-muted">
+        The last digits match this account to bank alerts and statements that say &quot;card ending 1234&quot; or &quot;A/c XX1234&quot;.
+      </p>
+
+      <div className="flex justify-end gap-2 pt-4 border-t border-border">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!isValid || saving}>
+          {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+          {account ? 'Update' : 'Create'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function AccountsPage() {
+  const router = useRouter();
+  const { status } = useSession();
+  const { toast } = useToast();
+  const { state } = useExpenses();
+  const { accounts, isLoading, addAccount, updateAccount, deleteAccount } = useAccounts();
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  const expenseCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const expense of state.expenses) {
+      if (expense.accountId) counts.set(expense.accountId, (counts.get(expense.accountId) || 0) + 1);
+    }
+    return counts;
+  }, [state.expenses]);
+
+  const handleCreate = async (data: AccountFormData) => {
+    try {
+      await addAccount(data);
+      setIsCreating(false);
+      toast({ title: 'Account added', variant: 'success' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to add account', variant: 'destructive' });
+    }
+  };
+
+  const handleUpdate = async (data: AccountFormData) => {
+    if (!editingAccount) return;
+    try {
+      await updateAccount({ ...editingAccount, ...data });
+      setEditingAccount(null);
+      toast({ title: 'Account updated', variant: 'success' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to update account', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteAccount(id);
+      setDeleteConfirmId(null);
+      toast({ title: 'Account deleted', variant: 'success' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to delete account', variant: 'destructive' });
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-text-muted" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen ios26-bg">
+      <header className="">
+        <div className="max-w-app mx-auto px-5 md:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => router.push('/settings')}
+                className="p-2 -ml-2 rounded-lg hover:bg-surface-hover transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5 text-text-secondary" />
+              </button>
+              <h1 className="text-xl font-semibold text-text-primary">Accounts</h1>
+            </div>
+            <Button onClick={() => setIsCreating(true)} size="sm">
+              <Plus className="w-4 h-4 mr-1" /> New
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-app mx-auto px-4 md:px-6 py-6">
+        <p className="text-text-secondary mb-6">
+          Cards and accounts named in Gmail alerts and statements are added here automatically.
+        </p>
+
+        {accounts.length === 0 ? (
+          <div className="text-center py-12 text-text-muted">
+            <p className="mb-4">No accounts yet</p>
+            <Button onClick={() => setIsCreating(true)}>
+              <Plus className="w-4 h-4 mr-2" /> Add a Card or Bank Account
+            </Button>
+          </div>
+        ) : (
+          <div className="glass-card divide-y divide-[var(--glass-separator)]">
+            {accounts.map((account) => {
+              const count = expenseCounts.get(account.id) || 0;
+              return (
+                <div key={account.id} className="flex items-center gap-3 px-4 py-3.5">
+                  <div className="w-9 h-9 rounded-lg glass-pill flex items-center justify-center flex-shrink-0">
+                    <AccountTypeIcon type={account.type} className="w-[18px] h-[18px]" />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-[15px] font-medium text-text-primary truncate">{account.name}</span>
+                      {account.last4 && (
+                        <span className="text-xs font-mono text-text-muted flex-shrink-0">••{account.last4}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-text-muted truncate">
+                      {[getAccountTypeLabel(account.type), account.institution, `${count} ${count === 1 ? 'expense' : 'expenses'}`]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </p>
+                  </div>
+
+                  <Button variant="ghost" size="icon" onClick={() => setEditingAccount(account)} className="h-8 w-8">
+                    <Edit2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeleteConfirmId(account.id)}
+                    className="h-8 w-8 text-text-muted hover:text-error"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {/* Create Dialog */}
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Account</DialogTitle>
+          </DialogHeader>
+          <AccountEditor onSave={handleCreate} onCancel={() => setIsCreating(false)} />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editingAccount} onOpenChange={(open) => !open && setEditingAccount(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Account</DialogTitle>
+          </DialogHeader>
+          {editingAccount && (
+            <AccountEditor
+              account={editingAccount}
+              onSave={handleUpdate}
+              onCancel={() => setEditingAccount(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteConfirmId} onOpenChange={(open) => !open && setDeleteConfirmId(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Delete Account?</DialogTitle>
+          </DialogHeader>
+          <p className="text-text-secondary">
+            Expenses paid with it are kept and show up as having no account. A card seen again in a Gmail alert is added back.
+          </p>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setDeleteConfirmId(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteConfirmId && handleDelete(deleteConfirmId)}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
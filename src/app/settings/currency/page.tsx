@@ -1,14 +1,18 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSession } from 'next-auth/react';
 import { motion } from 'framer-motion';
 import { ArrowLeft, Check } from 'lucide-react';
 import { useSettings } from '@/context/SettingsContext';
 import { useToast } from '@/hooks/useToast';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { SUPPORTED_CURRENCIES, CurrencyCode } from '@/types';
 import { cn } from '@/lib/utils';
+import { formatRateInput } from '@/lib/currency';
 import { pageVariants } from '@/lib/animations';
 
 export default function CurrencyPage() {
@@ -16,6 +20,46 @@ export default function CurrencyPage() {
   const { status } = useSession();
   const { settings, updateSettings, isLoading } = useSettings();
   const { toast } = useToast();
+  const { rates, isLoading: ratesLoading, refresh: refreshRates, saveRates } = useExchangeRates();
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  const [savingRates, setSavingRates] = useState(false);
+
+  useEffect(() => {
+    setOverrides(
+      Object.fromEntries(rates.map((r) => [r.currency, r.override ? String(r.override) : '']))
+    );
+  }, [rates]);
+
+  const ratesDirty = rates.some(
+    (r) => (overrides[r.currency] ?? '') !== (r.override ? String(r.override) : '')
+  );
+
+  const handleSaveRates = async () => {
+    setSavingRates(true);
+    try {
+      const now = new Date().toISOString();
+      await saveRates(
+        rates.map((r) => {
+          const value = parseFloat(overrides[r.currency] || '');
+          const override = value > 0 ? value : undefined;
+          return {
+            ...r,
+            override,
+            updatedAt: override !== r.override ? now : r.updatedAt,
+          };
+        })
+      );
+      toast({ title: 'Exchange rates saved', variant: 'success' });
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to save exchange rates',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingRates(false);
+    }
+  };
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -27,14 +71,16 @@ export default function CurrencyPage() {
     if (code === settings.currency) return;
     try {
       await updateSettings({ currency: code });
+      // The rate table is relative to the base currency
+      await refreshRates();
       toast({
         title: 'Currency updated',
-        description: `Your currency has been set to ${code}`,
+        description: `Your currency has been set to ${code}.`,
       });
-    } catch {
+    } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to update currency',
+        description: error instanceof Error ? error.message : 'Failed to update currency',
         variant: 'destructive',
       });
     }
@@ -67,7 +113,8 @@ export default function CurrencyPage() {
         className="max-w-app mx-auto px-4 md:px-6 py-6"
       >
         <p className="text-sm text-text-secondary mb-4">
-          Choose your preferred currency for displaying amounts
+          Choose the currency every total is kept in. It can only be changed before any expenses are recorded,
+          as existing amounts are not converted.
         </p>
 
         {showSkeleton ? (
@@ -108,6 +155,50 @@ export default function CurrencyPage() {
             })}
           </div>
         )}
+
+        {/* Exchange rates */}
+        <h2 className="text-sm font-medium text-text-secondary mt-8 mb-1">
+          Exchange rates
+        </h2>
+        <p className="text-xs text-text-muted mb-4">
+          Used to convert expenses entered in other currencies to {settings.currency}.
+          Market rates come from the spreadsheet; enter an override to use your own rate.
+        </p>
+
+        {ratesLoading ? (
+          <div className="glass-card p-4">
+            <div className="h-4 w-40 skeleton rounded" />
+          </div>
+        ) : (
+          <>
+            <div className="glass-card divide-y divide-[var(--glass-separator)]">
+              {rates.map((r) => (
+                <div key={r.currency} className="flex items-center gap-3 px-4 py-2.5">
+                  <span className="text-sm font-medium text-text-primary w-12">{r.currency}</span>
+                  <span className="flex-1 text-xs text-text-muted font-mono">
+                    {r.rate ? `1 = ${formatRateInput(r.rate)} ${settings.currency}` : 'No market rate'}
+                  </span>
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={overrides[r.currency] ?? ''}
+                    onChange={(e) => setOverrides((prev) => ({ ...prev, [r.currency]: e.target.value }))}
+                    placeholder="Override"
+                    className="w-28 h-8 font-mono"
+                  />
+                </div>
+              ))}
+            </div>
+            <Button
+              onClick={handleSaveRates}
+              disabled={!ratesDirty || savingRates}
+              className="w-full mt-4"
+            >
+              {savingRates ? 'Saving...' : 'Save Rates'}
+            </Button>
+          </>
+        )}
       </motion.div>
     </div>
   );
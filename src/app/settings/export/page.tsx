@@ -0,0 +1,287 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { ArrowLeft, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DatePicker } from '@/components/ui/date-picker';
+import { TagInput } from '@/components/TagInput';
+import { useExpenses, useCategories } from '@/context/ExpenseContext';
+import { useToast } from '@/hooks/useToast';
+import { collectTags } from '@/lib/tags';
+import { EXPORT_FORMATS, buildExportQuery, filterExpensesForExport, getExportFileName } from '@/lib/export';
+import { cn } from '@/lib/utils';
+import { ExportFormat, ExportOptions } from '@/types';
+
+interface OptionToggleProps {
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+function OptionToggle({ label, description, checked, onChange }: OptionToggleProps) {
+  return (
+    <div className="flex items-center gap-3 px-4 py-3.5">
+      <div className="flex-1 min-w-0">
+        <p className="text-[15px] font-medium text-text-primary">{label}</p>
+        <p className="text-xs text-text-muted">{description}</p>
+      </div>
+      <button
+        role="switch"
+        aria-checked={checked}
+        onClick={() => onChange(!checked)}
+        className={`relative inline-flex h-[28px] w-[50px] shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors ${
+          checked ? 'bg-[var(--accent)]' : 'bg-[var(--text-muted)]'
+        }`}
+      >
+        <span
+          className={`pointer-events-none inline-block h-[24px] w-[24px] transform rounded-full bg-white shadow-md transition-transform ${
+            checked ? 'translate-x-[22px]' : 'translate-x-0'
+          }`}
+        />
+      </button>
+    </div>
+  );
+}
+
+export default function ExportPage() {
+  const router = useRouter();
+  const { status } = useSession();
+  const { state } = useExpenses();
+  const { categories } = useCategories();
+  const { toast } = useToast();
+
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [categoryNames, setCategoryNames] = useState(true);
+  const [formattedAmounts, setFormattedAmounts] = useState(false);
+  const [includeTotals, setIncludeTotals] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  const options: ExportOptions = {
+    format,
+    from: from || undefined,
+    to: to || undefined,
+    categories: selectedCategories,
+    tags,
+    query,
+    categoryNames,
+    formattedAmounts,
+    includeTotals,
+  };
+
+  const tagSuggestions = useMemo(() => collectTags(state.expenses), [state.expenses]);
+  // Preview from the loaded expenses; the server re-applies the same filters
+  const matchCount = filterExpensesForExport(state.expenses, options).length;
+
+  const toggleCategory = (id: string) => {
+    setSelectedCategories((current) =>
+      current.includes(id) ? current.filter((c) => c !== id) : [...current, id]
+    );
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const res = await fetch(`/api/export?${buildExportQuery(options)}`);
+      if (!res.ok) {
+        const result = await res.json().catch(() => ({}));
+        throw new Error(result.error || 'Export failed');
+      }
+
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getExportFileName(options);
+      link.click();
+      URL.revokeObjectURL(url);
+
+      const count = Number(res.headers.get('X-Export-Count') || 0);
+      toast({
+        title: 'Export ready',
+        description: `${count} ${count === 1 ? 'transaction' : 'transactions'} exported`,
+        variant: 'success',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to export expenses',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (status === 'loading' || state.loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-text-muted" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen ios26-bg">
+      <header className="">
+        <div className="max-w-app mx-auto px-5 md:px-8 py-4">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => router.push('/settings')}
+              className="p-2 -ml-2 rounded-lg hover:bg-surface-hover transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 text-text-secondary" />
+            </button>
+            <h1 className="text-xl font-semibold text-text-primary">Export Data</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-app mx-auto px-4 md:px-6 py-6 space-y-6">
+        <p className="text-text-secondary">
+          Download your expenses for a spreadsheet, your accountant or another app.
+        </p>
+
+        {/* Format */}
+        <div className="glass-card p-4 space-y-2">
+          <label className="text-sm font-medium text-text-secondary">Format</label>
+          <div className="flex gap-2">
+            {EXPORT_FORMATS.map((f) => (
+              <button
+                key={f.value}
+                onClick={() => setFormat(f.value)}
+                className={cn(
+                  'flex-1 py-2 rounded-xl text-sm font-medium transition-colors',
+                  format === f.value
+                    ? 'bg-[var(--accent)] text-white'
+                    : 'bg-surface-hover text-text-secondary hover:text-text-primary'
+                )}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="glass-card p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-text-secondary">From</label>
+              <DatePicker value={from} onChange={setFrom} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-text-secondary">To</label>
+              <DatePicker value={to} onChange={setTo} />
+            </div>
+          </div>
+          {(from || to) && (
+            <button
+              onClick={() => {
+                setFrom('');
+                setTo('');
+              }}
+              className="text-xs text-text-muted hover:text-text-primary"
+            >
+              Clear dates (export everything)
+            </button>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-text-secondary">
+              Categories <span className="text-text-muted">(none selected = all)</span>
+            </label>
+            <div className="flex flex-wrap gap-1.5">
+              {categories.map((cat) => {
+                const selected = selectedCategories.includes(cat.id);
+                return (
+                  <button
+                    key={cat.id}
+                    onClick={() => toggleCategory(cat.id)}
+                    className={cn(
+                      'flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs transition-colors border',
+                      selected
+                        ? 'border-transparent text-text-primary'
+                        : 'border-border text-text-secondary hover:text-text-primary'
+                    )}
+                    style={selected ? { backgroundColor: `${cat.color}33` } : undefined}
+                  >
+                    <span>{cat.icon}</span>
+                    {cat.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-text-secondary">
+              Tags <span className="text-text-muted">(must have all)</span>
+            </label>
+            <TagInput value={tags} onChange={setTags} suggestions={tagSuggestions} />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-text-secondary">Search</label>
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Description, amount or #tag"
+            />
+          </div>
+        </div>
+
+        {/* Options */}
+        <div className="glass-card divide-y divide-[var(--glass-separator)]">
+          <OptionToggle
+            label="Category names"
+            description="Write names instead of internal category IDs"
+            checked={categoryNames}
+            onChange={setCategoryNames}
+          />
+          <OptionToggle
+            label="Formatted amounts"
+            description="Currency symbols and separators instead of plain numbers"
+            checked={formattedAmounts}
+            onChange={setFormattedAmounts}
+          />
+          <OptionToggle
+            label="Totals"
+            description="Add per-category and overall totals at the end"
+            checked={includeTotals}
+            onChange={setIncludeTotals}
+          />
+        </div>
+
+        <Button
+          onClick={handleExport}
+          disabled={exporting || matchCount === 0 || (!!from && !!to && from > to)}
+          className="w-full"
+        >
+          {exporting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          {matchCount === 0
+            ? 'No matching transactions'
+            : `Export ${matchCount} ${matchCount === 1 ? 'transaction' : 'transactions'}`}
+        </Button>
+      </main>
+    </div>
+  );
+}
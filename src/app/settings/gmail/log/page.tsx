@@ -0,0 +1,247 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { motion } from 'framer-motion';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { useGmailSync } from '@/hooks/useGmailSync';
+import { Button } from '@/components/ui/button';
+import { GmailSyncLogEntry, GmailSyncOutcome } from '@/types';
+import { cn } from '@/lib/utils';
+import { pageVariants } from '@/lib/animations';
+
+const OUTCOMES: Record<GmailSyncOutcome, { bg: string; text: string; label: string }> = {
+  parsed: { bg: 'bg-green-100 dark:bg-green-900/30', text: 'text-green-700 dark:text-green-300', label: 'Parsed' },
+  'skipped-credit': { bg: 'bg-blue-100 dark:bg-blue-900/30', text: 'text-blue-700 dark:text-blue-300', label: 'Skipped credit' },
+  'not-transaction': { bg: 'bg-gray-100 dark:bg-gray-800', text: 'text-gray-600 dark:text-gray-400', label: 'Not a transaction' },
+  'parse-failed': { bg: 'bg-red-100 dark:bg-red-900/30', text: 'text-red-700 dark:text-red-300', label: 'Failed' },
+  duplicate: { bg: 'bg-amber-100 dark:bg-amber-900/30', text: 'text-amber-700 dark:text-amber-300', label: 'Duplicate' },
+};
+
+const SYNC_TYPE_LABELS: Record<GmailSyncLogEntry['syncType'], string> = {
+  sync: 'Sync',
+  rescan: 'Re-scan',
+  reprocess: 'Reprocess',
+};
+
+function OutcomeBadge({ outcome }: { outcome: GmailSyncOutcome }) {
+  const c = OUTCOMES[outcome];
+  return (
+    <span className={`text-[10px] px-1.5 py-0.5 rounded-full font-medium whitespace-nowrap ${c.bg} ${c.text}`}>
+      {c.label}
+    </span>
+  );
+}
+
+interface SyncRun {
+  syncId: string;
+  syncType: GmailSyncLogEntry['syncType'];
+  syncedAt: string;
+  entries: GmailSyncLogEntry[];
+}
+
+// Entries arrive newest first; runs keep that order
+function groupByRun(entries: GmailSyncLogEntry[]): SyncRun[] {
+  const runs: SyncRun[] = [];
+  const byId = new Map<string, SyncRun>();
+  for (const entry of entries) {
+    let run = byId.get(entry.syncId);
+    if (!run) {
+      run = { syncId: entry.syncId, syncType: entry.syncType, syncedAt: entry.syncedAt, entries: [] };
+      byId.set(entry.syncId, run);
+      runs.push(run);
+    }
+    run.entries.push(entry);
+  }
+  return runs;
+}
+
+function formatSyncTime(value: string): string {
+  try {
+    return format(parseISO(value), 'MMM d, yyyy HH:mm');
+  } catch {
+    return value;
+  }
+}
+
+export default function GmailSyncLogPage() {
+  const router = useRouter();
+  const { status } = useSession();
+  const { isSyncing, triggerReprocess } = useGmailSync({ autoSync: false });
+  const [entries, setEntries] = useState<GmailSyncLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<GmailSyncOutcome | 'all'>('all');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  const loadLog = useCallback(async () => {
+    try {
+      const res = await fetch('/api/gmail/log');
+      const data = await res.json();
+      if (data.error) {
+        setLoadError(data.error);
+      } else {
+        setEntries(data.entries);
+        setLoadError(null);
+      }
+    } catch {
+      setLoadError('Failed to load the sync log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === 'authenticated') loadLog();
+  }, [status, loadLog]);
+
+  const counts = useMemo(() => {
+    const result: Partial<Record<GmailSyncOutcome, number>> = {};
+    for (const entry of entries) result[entry.outcome] = (result[entry.outcome] || 0) + 1;
+    return result;
+  }, [entries]);
+
+  const runs = useMemo(
+    () => groupByRun(filter === 'all' ? entries : entries.filter((e) => e.outcome === filter)),
+    [entries, filter]
+  );
+
+  const toggle = (messageId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(messageId)) next.delete(messageId);
+      else next.add(messageId);
+      return next;
+    });
+  };
+
+  const handleReprocess = async () => {
+    await triggerReprocess(Array.from(selected));
+    setSelected(new Set());
+    await loadLog();
+  };
+
+  const showSkeleton = status === 'loading' || isLoading;
+
+  return (
+    <div className="min-h-screen ios26-bg">
+      <header className="">
+        <div className="max-w-app mx-auto px-5 md:px-8 py-4">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => router.back()}
+              className="p-2 -ml-2 rounded-lg hover:bg-surface-hover transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 text-text-secondary" />
+            </button>
+            <h1 className="text-xl font-semibold text-text-primary">
+              Sync Log
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <motion.div
+        variants={pageVariants}
+        initial="initial"
+        animate="animate"
+        className="max-w-app mx-auto px-4 md:px-6 py-6"
+      >
+        <p className="text-sm text-text-secondary mb-4">
+          What happened to each email in recent syncs. Select emails to parse them again.
+        </p>
+
+        {/* Outcome filter */}
+        <div className="flex flex-wrap gap-2 mb-4">
+          {(['all', ...Object.keys(OUTCOMES)] as (GmailSyncOutcome | 'all')[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setFilter(key)}
+              className={cn(
+                'px-3 py-1 rounded-full text-xs font-medium transition-colors',
+                filter === key ? 'bg-[var(--accent)] text-white' : 'glass-pill text-text-secondary'
+              )}
+            >
+              {key === 'all' ? `All (${entries.length})` : `${OUTCOMES[key].label} (${counts[key] || 0})`}
+            </button>
+          ))}
+        </div>
+
+        {selected.size > 0 && (
+          <Button onClick={handleReprocess} disabled={isSyncing} className="w-full mb-4">
+            <RefreshCw className={`w-4 h-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+            {isSyncing ? 'Reprocessing...' : `Reprocess ${selected.size} email${selected.size !== 1 ? 's' : ''}`}
+          </Button>
+        )}
+
+        {showSkeleton ? (
+          <div className="glass-card divide-y divide-[var(--glass-separator)]">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="px-4 py-3.5">
+                <div className="h-4 w-48 skeleton rounded mb-1.5" />
+                <div className="h-3 w-32 skeleton rounded" />
+              </div>
+            ))}
+          </div>
+        ) : loadError ? (
+          <p className="text-sm text-red-500">{loadError}</p>
+        ) : runs.length === 0 ? (
+          <div className="glass-card p-6 text-center">
+            <p className="text-sm text-text-muted">
+              {entries.length === 0 ? 'No syncs recorded yet' : 'No emails with this outcome'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {runs.map((run) => (
+              <div key={run.syncId}>
+                <h2 className="text-sm font-medium text-text-secondary mb-2">
+                  {SYNC_TYPE_LABELS[run.syncType]} · {formatSyncTime(run.syncedAt)} · {run.entries.length} email
+                  {run.entries.length !== 1 ? 's' : ''}
+                </h2>
+                <div className="glass-card divide-y divide-[var(--glass-separator)]">
+                  {run.entries.map((entry) => (
+                    <label
+                      key={entry.id}
+                      className="flex items-start gap-3 px-4 py-3 cursor-pointer active:bg-black/[0.04] transition-colors"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.has(entry.messageId)}
+                        onChange={() => toggle(entry.messageId)}
+                        className="w-4 h-4 mt-0.5 rounded border-border text-accent focus:ring-accent flex-shrink-0"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm font-medium text-text-primary truncate flex-1">
+                            {entry.subject || '(no subject)'}
+                          </p>
+                          <OutcomeBadge outcome={entry.outcome} />
+                        </div>
+                        <p className="text-xs text-text-muted truncate">
+                          {entry.from || entry.messageId}
+                        </p>
+                        <p className="text-xs text-text-secondary mt-0.5">
+                          {entry.reason}
+                          {entry.transactionIds.length > 1 && ` (${entry.transactionIds.length} transactions)`}
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
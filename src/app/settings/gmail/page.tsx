@@ -0,0 +1,286 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { motion } from 'framer-motion';
+import { format, subMonths } from 'date-fns';
+import { ArrowLeft, RefreshCw, ScrollText, ChevronRight } from 'lucide-react';
+import { useSettings } from '@/context/SettingsContext';
+import { useToast } from '@/hooks/useToast';
+import { useGmailSync } from '@/hooks/useGmailSync';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DatePicker } from '@/components/ui/date-picker';
+import { GmailSyncSettings } from '@/types';
+import { parseListInput } from '@/lib/gmail-filters';
+import { pageVariants } from '@/lib/animations';
+
+interface FilterForm {
+  allowSenders: string;
+  denySenders: string;
+  extraKeywords: string;
+  labels: string;
+  backfillStart: string;
+  autoSyncIntervalHours: string;
+}
+
+function toForm(settings: GmailSyncSettings): FilterForm {
+  return {
+    allowSenders: settings.allowSenders.join(', '),
+    denySenders: settings.denySenders.join(', '),
+    extraKeywords: settings.extraKeywords.join(', '),
+    labels: settings.labels.join(', '),
+    backfillStart: settings.backfillStart,
+    autoSyncIntervalHours: String(settings.autoSyncIntervalHours),
+  };
+}
+
+const LIST_FIELDS: { key: 'allowSenders' | 'denySenders' | 'extraKeywords' | 'labels'; label: string; hint: string; placeholder: string }[] = [
+  {
+    key: 'allowSenders',
+    label: 'Only read these senders',
+    hint: 'Addresses or domains. Leave empty to read every sender.',
+    placeholder: 'alerts@hdfcbank.net, icicibank.com',
+  },
+  {
+    key: 'denySenders',
+    label: 'Skip these senders',
+    hint: 'Newsletters or shops whose emails look like payments.',
+    placeholder: 'offers@bank.com',
+  },
+  {
+    key: 'extraKeywords',
+    label: 'Extra subject keywords',
+    hint: 'Searched along with transaction, debited, credited, payment, UPI, alert, spent and withdrawn.',
+    placeholder: 'receipt, purchase',
+  },
+  {
+    key: 'labels',
+    label: 'Gmail labels',
+    hint: 'Only search mail with one of these labels. Leave empty to search all mail.',
+    placeholder: 'Banking, Receipts',
+  },
+];
+
+export default function GmailSyncSettingsPage() {
+  const router = useRouter();
+  const { status } = useSession();
+  const { settings, updateSettings, isLoading } = useSettings();
+  const { toast } = useToast();
+  const { isSyncing, progress, triggerRescan } = useGmailSync({ autoSync: false });
+  const [form, setForm] = useState<FilterForm>(() => toForm(settings.gmailSync));
+  const [saving, setSaving] = useState(false);
+  const [rescanFrom, setRescanFrom] = useState(() => format(subMonths(new Date(), 1), 'yyyy-MM-dd'));
+  const [rescanTo, setRescanTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    setForm(toForm(settings.gmailSync));
+  }, [settings.gmailSync]);
+
+  const interval = parseFloat(form.autoSyncIntervalHours);
+  const intervalValid = Number.isFinite(interval) && interval >= 0;
+  const dirty = JSON.stringify(form) !== JSON.stringify(toForm(settings.gmailSync));
+  const rescanValid = !!rescanFrom && !!rescanTo && rescanFrom <= rescanTo;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateSettings({
+        gmailSync: {
+          allowSenders: parseListInput(form.allowSenders),
+          denySenders: parseListInput(form.denySenders),
+          extraKeywords: parseListInput(form.extraKeywords),
+          labels: parseListInput(form.labels),
+          backfillStart: form.backfillStart,
+          autoSyncIntervalHours: interval,
+        },
+      });
+      toast({ title: 'Gmail sync settings saved', variant: 'success' });
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to save Gmail sync settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const showSkeleton = status === 'loading' || isLoading;
+
+  return (
+    <div className="min-h-screen ios26-bg">
+      <header className="">
+        <div className="max-w-app mx-auto px-5 md:px-8 py-4">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => router.back()}
+              className="p-2 -ml-2 rounded-lg hover:bg-surface-hover transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 text-text-secondary" />
+            </button>
+            <h1 className="text-xl font-semibold text-text-primary">
+              Gmail Sync
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <motion.div
+        variants={pageVariants}
+        initial="initial"
+        animate="animate"
+        className="max-w-app mx-auto px-4 md:px-6 py-6"
+      >
+        <p className="text-sm text-text-secondary mb-4">
+          Choose which emails are read for transactions
+        </p>
+
+        {showSkeleton ? (
+          <div className="glass-card p-4 space-y-4">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i}>
+                <div className="h-4 w-32 skeleton rounded mb-2" />
+                <div className="h-10 w-full skeleton rounded" />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="glass-card p-4 space-y-4">
+              {LIST_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label className="text-sm font-medium text-text-primary">{field.label}</label>
+                  <p className="text-xs text-text-muted mb-1.5">{field.hint}</p>
+                  <Input
+                    value={form[field.key]}
+                    onChange={(e) => setForm((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                    placeholder={field.placeholder}
+                    className="h-10"
+                  />
+                </div>
+              ))}
+
+              <div>
+                <label className="text-sm font-medium text-text-primary">First sync starts from</label>
+                <p className="text-xs text-text-muted mb-1.5">
+                  How far back the first sync looks. Defaults to six months.
+                </p>
+                <div className="flex items-start gap-2">
+                  <DatePicker
+                    value={form.backfillStart}
+                    onChange={(value) => setForm((prev) => ({ ...prev, backfillStart: value }))}
+                    className="flex-1"
+                  />
+                  {form.backfillStart && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm((prev) => ({ ...prev, backfillStart: '' }))}
+                      className="h-10"
+                    >
+                      Default
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-text-primary">Auto-sync every (hours)</label>
+                <p className="text-xs text-text-muted mb-1.5">
+                  Checked when the app opens. 0 syncs only when you ask.
+                </p>
+                <Input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={form.autoSyncIntervalHours}
+                  onChange={(e) => setForm((prev) => ({ ...prev, autoSyncIntervalHours: e.target.value }))}
+                  className="h-10 w-28 font-mono"
+                />
+                {!intervalValid && (
+                  <p className="text-xs text-red-500 mt-1">Enter 0 or more hours</p>
+                )}
+              </div>
+            </div>
+
+            <Button
+              onClick={handleSave}
+              disabled={!dirty || !intervalValid || saving}
+              className="w-full mt-4"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+
+            {/* Re-scan */}
+            <h2 className="text-sm font-medium text-text-secondary mt-8 mb-1">
+              Re-scan date range
+            </h2>
+            <p className="text-xs text-text-muted mb-4">
+              Read emails in this range again, including ones already synced, using the filters above.
+              Transactions already recorded are skipped.
+            </p>
+
+            <div className="glass-card p-4">
+              <div className="flex flex-col sm:flex-row gap-3">
+                <div className="flex-1">
+                  <label className="text-xs text-text-muted">From</label>
+                  <DatePicker value={rescanFrom} onChange={setRescanFrom} />
+                </div>
+                <div className="flex-1">
+                  <label className="text-xs text-text-muted">To</label>
+                  <DatePicker value={rescanTo} onChange={setRescanTo} />
+                </div>
+              </div>
+              {!rescanValid && (
+                <p className="text-xs text-red-500 mt-2">The start date must be on or before the end date</p>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => triggerRescan(rescanFrom, rescanTo)}
+                disabled={!rescanValid || isSyncing || dirty}
+                className="w-full mt-4"
+              >
+                <RefreshCw className={`w-4 h-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+                {isSyncing
+                  ? progress.totalChunks > 0
+                    ? `Re-scanning ${progress.chunk}/${progress.totalChunks}...`
+                    : 'Searching Gmail...'
+                  : 'Re-scan'}
+              </Button>
+              {dirty && (
+                <p className="text-xs text-text-muted mt-2">Save your filter changes before re-scanning</p>
+              )}
+            </div>
+
+            <button
+              onClick={() => router.push('/settings/gmail/log')}
+              className="glass-card mt-6 w-full flex items-center gap-3 px-4 py-3.5 text-left active:bg-black/[0.04] transition-colors"
+            >
+              <div className="w-9 h-9 rounded-lg glass-pill flex items-center justify-center flex-shrink-0">
+                <ScrollText className="w-[18px] h-[18px] text-text-secondary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-[15px] font-medium text-text-primary">
+                  Sync Log
+                </p>
+                <p className="text-xs text-text-muted truncate">
+                  See why an email was or wasn&apos;t imported, and reprocess it
+                </p>
+              </div>
+              <ChevronRight className="w-4 h-4 text-text-muted flex-shrink-0" />
+            </button>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -13,6 +13,11 @@ import {
   ChevronRight,
   DollarSign,
   Mail,
+  Repeat,
+  Users,
+  Download,
+  Filter,
+  CreditCard,
 } from 'lucide-react';
 import Image from 'next/image';
 import { useSettings } from '@/context/SettingsContext';
@@ -61,18 +66,42 @@ const settingsLinks = [
     label: 'Categories',
     description: 'Add, edit, or remove expense categories',
   },
+  {
+    href: '/settings/accounts',
+    icon: CreditCard,
+    label: 'Accounts',
+    description: 'Cards, bank accounts and wallets you pay with',
+  },
   {
     href: '/settings/rules',
     icon: Settings2,
     label: 'Categorization Rules',
     description: 'Auto-categorize imported transactions',
   },
+  {
+    href: '/settings/recurring',
+    icon: Repeat,
+    label: 'Recurring Expenses',
+    description: 'Rent, subscriptions and other repeating bills',
+  },
+  {
+    href: '/splits',
+    icon: Users,
+    label: 'Split Expenses',
+    description: 'Shared costs, balances and settling up',
+  },
   {
     href: '/import',
     icon: Upload,
     label: 'Import from CSV',
     description: 'Import expenses from bank statement CSV',
   },
+  {
+    href: '/settings/export',
+    icon: Download,
+    label: 'Export Data',
+    description: 'Download expenses as CSV, Excel or JSON',
+  },
 ];
 
 export default function SettingsPage() {
@@ -208,6 +237,25 @@ export default function SettingsPage() {
                   />
                 </button>
               </div>
+              {settings.gmailSyncEnabled && (
+                <button
+                  onClick={() => router.push('/settings/gmail')}
+                  className="w-full flex items-center gap-3 px-4 py-3.5 text-left border-t border-[var(--glass-separator)] active:bg-black/[0.04] transition-colors"
+                >
+                  <div className="w-9 h-9 rounded-lg glass-pill flex items-center justify-center flex-shrink-0">
+                    <Filter className="w-[18px] h-[18px] text-text-secondary" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[15px] font-medium text-text-primary">
+                      Sync Filters
+                    </p>
+                    <p className="text-xs text-text-muted truncate">
+                      Senders, keywords, labels and re-scanning past emails
+                    </p>
+                  </div>
+                  <ChevronRight className="w-4 h-4 text-text-muted flex-shrink-0" />
+                </button>
+              )}
             </div>
           </>
         )}
@@ -0,0 +1,393 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { ArrowLeft, Plus, Trash2, Edit2, Loader2, Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DatePicker } from '@/components/ui/date-picker';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { DirectionToggle } from '@/components/DirectionToggle';
+import { useCategories } from '@/context/ExpenseContext';
+import { usePendingTransactions } from '@/context/TransactionsContext';
+import { useSettings } from '@/context/SettingsContext';
+import { useToast } from '@/hooks/useToast';
+import { useRecurringTemplates } from '@/hooks/useRecurringTemplates';
+import { formatCurrency, formatDate, getToday, parseAmount } from '@/lib/utils';
+import { getFrequencyLabel, getNextDueDate } from '@/lib/recurring';
+import {
+  RecurringTemplate,
+  RecurringFrequency,
+  RECURRING_FREQUENCIES,
+  TransactionDirection,
+} from '@/types';
+
+type TemplateFormData = Omit<RecurringTemplate, 'id' | 'createdAt' | 'lastGeneratedDate'>;
+
+interface TemplateEditorProps {
+  template?: RecurringTemplate;
+  onSave: (data: TemplateFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+function TemplateEditor({ template, onSave, onCancel }: TemplateEditorProps) {
+  const { categories } = useCategories();
+  const [description, setDescription] = useState(template?.description || '');
+  const [amount, setAmount] = useState(template ? String(template.amount) : '');
+  const [category, setCategory] = useState(template?.category || '');
+  const [direction, setDirection] = useState<TransactionDirection>(template?.direction || 'expense');
+  const [frequency, setFrequency] = useState<RecurringFrequency>(template?.frequency || 'monthly');
+  const [startDate, setStartDate] = useState(template?.startDate || getToday());
+  const [endDate, setEndDate] = useState(template?.endDate || '');
+  const [saving, setSaving] = useState(false);
+
+  const isValid = description.trim() && parseAmount(amount) > 0 && startDate;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        description: description.trim(),
+        amount: parseAmount(amount),
+        category: category || undefined,
+        direction,
+        frequency,
+        startDate,
+        endDate: endDate || undefined,
+        enabled: template?.enabled ?? true,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <DirectionToggle value={direction} onChange={setDirection} />
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-text-secondary">Description</label>
+        <Input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="e.g., Rent, Netflix, SIM recharge"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-text-secondary">Amount</label>
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="0.00"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-text-secondary">
+          Category <span className="text-text-muted">(optional)</span>
+        </label>
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose when reviewing" />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map((cat) => (
+              <SelectItem key={cat.id} value={cat.id}>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} />
+                  <span>{cat.icon}</span>
+                  <span>{cat.name}</span>
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-text-secondary">Repeats</label>
+        <Select value={frequency} onValueChange={(v: RecurringFrequency) => setFrequency(v)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RECURRING_FREQUENCIES.map((f) => (
+              <SelectItem key={f.value} value={f.value}>
+                {f.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-text-secondary">Starts</label>
+          <DatePicker value={startDate} onChange={setStartDate} />
+        </div>
+        <div className="space-y-2">
+          <label className="flex items-center justify-between text-sm font-medium text-text-secondary">
+            <span>Ends <span className="text-text-muted">(optional)</span></span>
+            {endDate && (
+              <button type="button" onClick={() => setEndDate('')} className="text-xs text-text-muted hover:text-text-primary">
+                Clear
+              </button>
+            )}
+          </label>
+          <DatePicker value={endDate} onChange={setEndDate} />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2 pt-4 border-t border-border">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!isValid || saving}>
+          {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+          {template ? 'Update' : 'Create'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function RecurringPage() {
+  const router = useRouter();
+  const { status } = useSession();
+  const { toast } = useToast();
+  const { categories } = useCategories();
+  const { settings } = useSettings();
+  const { refreshPendingTransactions } = usePendingTransactions();
+  const { templates, isLoading, addTemplate, updateTemplate, deleteTemplate, runDueTemplates } = useRecurringTemplates();
+  const [editingTemplate, setEditingTemplate] = useState<RecurringTemplate | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  // Templates starting today or earlier show up in Transactions right away
+  const materializeDue = async () => {
+    const created = await runDueTemplates();
+    if (created > 0) {
+      await refreshPendingTransactions();
+      toast({ title: `${created} due ${created === 1 ? 'instance' : 'instances'} added to Transactions` });
+    }
+  };
+
+  const handleCreate = async (data: TemplateFormData) => {
+    try {
+      await addTemplate(data);
+      setIsCreating(false);
+      await materializeDue();
+      toast({ title: 'Recurring expense created', description: 'Due instances will appear in Transactions for review', variant: 'success' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to create recurring expense', variant: 'destructive' });
+    }
+  };
+
+  const handleUpdate = async (data: TemplateFormData) => {
+    if (!editingTemplate) return;
+    try {
+      // lastGeneratedDate is kept, so a changed schedule never re-creates past instances
+      await updateTemplate({ ...editingTemplate, ...data });
+      setEditingTemplate(null);
+      toast({ title: 'Recurring expense updated', variant: 'success' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to update recurring expense', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteTemplate(id);
+      setDeleteConfirmId(null);
+      toast({ title: 'Recurring expense deleted', variant: 'success' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to delete recurring expense', variant: 'destructive' });
+    }
+  };
+
+  const handleToggle = async (template: RecurringTemplate) => {
+    try {
+      await updateTemplate({ ...template, enabled: !template.enabled });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to update recurring expense', variant: 'destructive' });
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-text-muted" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen ios26-bg">
+      <header className="">
+        <div className="max-w-app mx-auto px-5 md:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => router.push('/settings')}
+                className="p-2 -ml-2 rounded-lg hover:bg-surface-hover transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5 text-text-secondary" />
+              </button>
+              <h1 className="text-xl font-semibold text-text-primary">Recurring Expenses</h1>
+            </div>
+            <Button onClick={() => setIsCreating(true)} size="sm">
+              <Plus className="w-4 h-4 mr-1" /> New
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-app mx-auto px-4 md:px-6 py-6">
+        <p className="text-text-secondary mb-6">
+          Due instances are added to Transactions for review each time you open the app.
+        </p>
+
+        {templates.length === 0 ? (
+          <div className="text-center py-12 text-text-muted">
+            <p className="mb-4">No recurring expenses yet</p>
+            <Button onClick={() => setIsCreating(true)}>
+              <Plus className="w-4 h-4 mr-2" /> Add Rent, Subscriptions, ...
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {templates.map((template) => {
+              const category = categories.find((c) => c.id === template.category);
+              const nextDue = template.enabled ? getNextDueDate(template) : null;
+
+              return (
+                <div
+                  key={template.id}
+                  className={`glass-card flex items-center gap-3 p-4 transition-colors ${
+                    template.enabled ? '' : 'opacity-60'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={template.enabled}
+                    onChange={() => handleToggle(template)}
+                    className="w-4 h-4 rounded border-border text-accent focus:ring-accent"
+                  />
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{template.description}</span>
+                      {category && (
+                        <span
+                          className="text-xs px-2 py-0.5 rounded-full"
+                          style={{ backgroundColor: category.color + '30', color: category.color }}
+                        >
+                          {category.icon} {category.name}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 text-xs text-text-muted mt-0.5">
+                      <Repeat className="w-3 h-3" />
+                      {getFrequencyLabel(template.frequency)}
+                      {nextDue ? ` · next ${formatDate(nextDue)}` : template.enabled ? ' · ended' : ''}
+                    </div>
+                  </div>
+
+                  <span className="text-sm font-semibold font-mono text-text-primary">
+                    {formatCurrency(template.amount, settings.currency)}
+                  </span>
+                  <Button variant="ghost" size="icon" onClick={() => setEditingTemplate(template)} className="h-8 w-8">
+                    <Edit2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeleteConfirmId(template.id)}
+                    className="h-8 w-8 text-text-muted hover:text-error"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {/* Create Dialog */}
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Recurring Expense</DialogTitle>
+          </DialogHeader>
+          <TemplateEditor onSave={handleCreate} onCancel={() => setIsCreating(false)} />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editingTemplate} onOpenChange={(open) => !open && setEditingTemplate(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Recurring Expense</DialogTitle>
+          </DialogHeader>
+          {editingTemplate && (
+            <TemplateEditor
+              template={editingTemplate}
+              onSave={handleUpdate}
+              onCancel={() => setEditingTemplate(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteConfirmId} onOpenChange={(open) => !open && setDeleteConfirmId(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Delete Recurring Expense?</DialogTitle>
+          </DialogHeader>
+          <p className="text-text-secondary">
+            No new instances will be created. Instances already in Transactions or your expenses are kept.
+          </p>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setDeleteConfirmId(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteConfirmId && handleDelete(deleteConfirmId)}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
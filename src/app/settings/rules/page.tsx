@@ -1,9 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSession } from 'next-auth/react';
-import { motion, AnimatePresence } from 'framer-motion';
+import { motion, AnimatePresence, Reorder, useDragControls } from 'framer-motion';
 import {
   ArrowLeft,
   Plus,
@@ -14,9 +14,15 @@ import {
   Loader2,
   Check,
   X,
+  GripVertical,
+  AlertTriangle,
+  FlaskConical,
+  Download,
+  Upload,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { DatePicker } from '@/components/ui/date-picker';
 import {
   Select,
   SelectContent,
@@ -31,24 +37,40 @@ import {
   DialogTitle,
   DialogFooter,
 } from '@/components/ui/dialog';
-import { useCategories } from '@/context/ExpenseContext';
+import { useCategories, useExpenses } from '@/context/ExpenseContext';
 import { usePendingTransactions } from '@/context/TransactionsContext';
+import { useSettings } from '@/context/SettingsContext';
 import { useToast } from '@/hooks/useToast';
+import { TagInput, TagList } from '@/components/TagInput';
+import { RuleSuggestions } from '@/components/RuleSuggestions';
+import { collectTags } from '@/lib/tags';
 import {
   TransactionRule,
+  RuleAction,
+  RuleActionType,
   RuleCondition,
   RuleField,
-  RuleMatchType,
-  AmountMatchType,
   RuleLogicMode,
+  RuleSetImportMode,
 } from '@/types';
 import {
-  TEXT_MATCH_TYPES,
-  AMOUNT_MATCH_TYPES,
   RULE_FIELDS,
+  RULE_ACTION_TYPES,
   LOGIC_MODES,
+  WEEKDAYS,
+  createRuleAction,
+  getMatchTypesForField,
   getMatchTypeLabel,
+  getRuleCategoryId,
+  getRuleTags,
+  sortRulesByPriority,
+  formatConditionValue,
+  validateCondition,
+  validateRule,
 } from '@/lib/ruleEngine';
+import { RuleSetFile, buildRuleSet, getRuleSetFileName, parseRuleSet, planRuleSetImport } from '@/lib/rule-sets';
+import { ANALYSIS_WINDOWS, RuleBacktest, RuleDraft, analyzeRules } from '@/lib/rule-analysis';
+import { cn, formatCurrency } from '@/lib/utils';
 import { v4 as uuidv4 } from 'uuid';
 
 interface ConditionEditorProps {
@@ -60,100 +82,354 @@ interface ConditionEditorProps {
 
 function ConditionEditor({ condition, onChange, onRemove, canRemove }: ConditionEditorProps) {
   const isAmountField = condition.field === 'amount';
+  const isDateField = condition.field === 'date';
   const isBetween = condition.matchType === 'between';
+  const isRegex = condition.matchType === 'regex';
+  // Only complain once something has been typed
+  const error = condition.value || condition.value2 ? validateCondition(condition) : null;
 
-  return (
-    <div className="flex flex-wrap items-center gap-2 p-3 rounded-xl" style={{ background: 'var(--bg-grouped-tertiary)' }}>
-      <Select
-        value={condition.field}
-        onValueChange={(value: RuleField) => {
-          const newMatchType = value === 'amount' ? 'equals' : 'contains';
-          onChange({ ...condition, field: value, matchType: newMatchType, value: '', value2: undefined });
-        }}
-      >
-        <SelectTrigger className="w-32">
-          <SelectValue />
-        </SelectTrigger>
-        <SelectContent>
-          {RULE_FIELDS.map((field) => (
-            <SelectItem key={field.value} value={field.value}>
-              {field.label}
-            </SelectItem>
-          ))}
-        </SelectContent>
-      </Select>
-
-      <Select
-        value={condition.matchType}
-        onValueChange={(value: RuleMatchType | AmountMatchType) => {
-          onChange({ ...condition, matchType: value, value2: value === 'between' ? '' : undefined });
-        }}
-      >
-        <SelectTrigger className="w-36">
-          <SelectValue />
-        </SelectTrigger>
-        <SelectContent>
-          {(isAmountField ? AMOUNT_MATCH_TYPES : TEXT_MATCH_TYPES).map((type) => (
-            <SelectItem key={type.value} value={type.value}>
-              {type.label}
-            </SelectItem>
+  const weekdays = condition.value.split(',').filter(Boolean);
+  const toggleWeekday = (day: number) => {
+    const key = String(day);
+    const next = weekdays.includes(key) ? weekdays.filter((d) => d !== key) : [...weekdays, key];
+    onChange({ ...condition, value: next.sort().join(',') });
+  };
+
+  const renderValueInput = () => {
+    if (isDateField && condition.matchType === 'weekday') {
+      return (
+        <div className="flex flex-1 flex-wrap gap-1">
+          {WEEKDAYS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={cn(
+                'px-2 py-1 rounded-lg text-xs font-medium transition-colors',
+                weekdays.includes(String(day))
+                  ? 'bg-[var(--accent)] text-white'
+                  : 'bg-surface-hover text-text-secondary hover:text-text-primary'
+              )}
+            >
+              {label}
+            </button>
           ))}
-        </SelectContent>
-      </Select>
+        </div>
+      );
+    }
+
+    if (isDateField && condition.matchType === 'dateRange') {
+      return (
+        <div className="flex flex-1 items-center gap-2 min-w-[240px]">
+          <DatePicker
+            value={condition.value}
+            onChange={(value) => onChange({ ...condition, value })}
+            className="flex-1"
+          />
+          <span className="text-text-muted text-sm">to</span>
+          <DatePicker
+            value={condition.value2 || ''}
+            onChange={(value2) => onChange({ ...condition, value2 })}
+            className="flex-1"
+          />
+        </div>
+      );
+    }
 
+    return (
       <Input
         type={isAmountField ? 'number' : 'text'}
         value={condition.value}
         onChange={(e) => onChange({ ...condition, value: e.target.value })}
-        placeholder={isAmountField ? '0.00' : 'Value...'}
-        className="flex-1 min-w-[120px]"
+        placeholder={
+          isAmountField
+            ? '0.00'
+            : isDateField
+              ? '1, 15, 28-31 or last'
+              : isRegex
+                ? 'e.g. UPI-\\d+-ZOMATO'
+                : 'Value...'
+        }
+        className={cn('flex-1 min-w-[120px]', isRegex && 'font-mono')}
       />
+    );
+  };
+
+  return (
+    <div className="p-3 rounded-xl space-y-2" style={{ background: 'var(--bg-grouped-tertiary)' }}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={condition.field}
+          onValueChange={(value: RuleField) => {
+            const newMatchType = getMatchTypesForField(value)[0].value;
+            onChange({ ...condition, field: value, matchType: newMatchType, value: '', value2: undefined });
+          }}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RULE_FIELDS.map((field) => (
+              <SelectItem key={field.value} value={field.value}>
+                {field.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={condition.matchType}
+          onValueChange={(value: RuleCondition['matchType']) => {
+            // Date values mean something different per match type, so start fresh
+            onChange({
+              ...condition,
+              matchType: value,
+              value: isDateField ? '' : condition.value,
+              value2: value === 'between' || value === 'dateRange' ? '' : undefined,
+            });
+          }}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {getMatchTypesForField(condition.field).map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {renderValueInput()}
+
+        {isBetween && (
+          <>
+            <span className="text-text-muted text-sm">and</span>
+            <Input
+              type="number"
+              value={condition.value2 || ''}
+              onChange={(e) => onChange({ ...condition, value2: e.target.value })}
+              placeholder="0.00"
+              className="w-24"
+            />
+          </>
+        )}
+
+        {canRemove && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onRemove}
+            className="text-text-muted hover:text-error h-8 w-8"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-error">{error}</p>}
+    </div>
+  );
+}
+
+interface ActionEditorProps {
+  action: RuleAction;
+  onChange: (action: RuleAction) => void;
+  onRemove: () => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  tagSuggestions: string[];
+}
 
-      {isBetween && (
-        <>
-          <span className="text-text-muted text-sm">and</span>
+function ActionEditor({ action, onChange, onRemove, onMoveUp, onMoveDown, tagSuggestions }: ActionEditorProps) {
+  const { categories } = useCategories();
+
+  const renderValueInput = () => {
+    switch (action.type) {
+      case 'setCategory': {
+        const selectedCategory = categories.find((c) => c.id === action.categoryId);
+        return (
+          <Select
+            value={action.categoryId}
+            onValueChange={(categoryId) => onChange({ ...action, categoryId })}
+          >
+            <SelectTrigger className="flex-1 min-w-[160px]">
+              <SelectValue placeholder="Select category">
+                {selectedCategory && (
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: selectedCategory.color }}
+                    />
+                    <span>{selectedCategory.icon}</span>
+                    <span>{selectedCategory.name}</span>
+                  </div>
+                )}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((cat) => (
+                <SelectItem key={cat.id} value={cat.id}>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} />
+                    <span>{cat.icon}</span>
+                    <span>{cat.name}</span>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case 'rewriteDescription':
+        return (
           <Input
-            type="number"
-            value={condition.value2 || ''}
-            onChange={(e) => onChange({ ...condition, value2: e.target.value })}
-            placeholder="0.00"
-            className="w-24"
+            value={action.description}
+            onChange={(e) => onChange({ ...action, description: e.target.value })}
+            placeholder="e.g. Swiggy"
+            className="flex-1 min-w-[160px]"
           />
-        </>
-      )}
+        );
+      case 'addTags':
+        return (
+          <div className="flex-1 min-w-[160px]">
+            <TagInput
+              value={action.tags}
+              onChange={(tags) => onChange({ ...action, tags })}
+              suggestions={tagSuggestions}
+            />
+          </div>
+        );
+      case 'ignore':
+        return <span className="flex-1 text-sm text-text-muted">Move to the ignored list</span>;
+      case 'autoConfirm':
+        return <span className="flex-1 text-sm text-text-muted">Save to expenses without review</span>;
+    }
+  };
 
-      {canRemove && (
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={onRemove}
-          className="text-text-muted hover:text-error h-8 w-8"
+  return (
+    <div className="p-3 rounded-xl" style={{ background: 'var(--bg-grouped-tertiary)' }}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={action.type}
+          onValueChange={(type: RuleActionType) => onChange(createRuleAction(type))}
         >
-          <X className="w-4 h-4" />
-        </Button>
-      )}
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RULE_ACTION_TYPES.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {renderValueInput()}
+
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onMoveUp}
+            disabled={!onMoveUp}
+            className="h-8 w-8"
+          >
+            <ChevronUp className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onMoveDown}
+            disabled={!onMoveDown}
+            className="h-8 w-8"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onRemove}
+            className="text-text-muted hover:text-error h-8 w-8"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
     </div>
   );
 }
 
+type RuleData = Omit<TransactionRule, 'id' | 'createdAt' | 'priority'>;
+
 interface RuleEditorProps {
   rule?: TransactionRule;
-  onSave: (rule: Omit<TransactionRule, 'id' | 'createdAt'>) => Promise<void>;
+  onSave: (rule: RuleData, options: { recategorize: boolean }) => Promise<void>;
   onCancel: () => void;
 }
 
-function RuleEditor({ rule, onSave, onCancel }: RuleEditorProps) {
+function RulePreview({ preview, stale }: { preview: RuleBacktest; stale: boolean }) {
   const { categories } = useCategories();
+  const { settings } = useSettings();
+
+  return (
+    <div
+      className={cn('p-3 rounded-xl space-y-2 text-sm', stale && 'opacity-50')}
+      style={{ background: 'var(--bg-grouped-tertiary)' }}
+    >
+      <p className="text-text-primary">
+        Matches {preview.pendingMatches} pending transaction{preview.pendingMatches !== 1 ? 's' : ''}
+        {preview.pendingMatches > 0 && ` (${preview.pendingUncategorized} uncategorized)`} and{' '}
+        {preview.expenseMatches} confirmed expense{preview.expenseMatches !== 1 ? 's' : ''}.
+      </p>
+      {preview.categoryChanges > 0 && (
+        <p className="text-text-secondary">
+          {preview.categoryChanges} confirmed expense{preview.categoryChanges !== 1 ? 's are' : ' is'} currently
+          in a different category.
+        </p>
+      )}
+      {preview.samples.length > 0 && (
+        <ul className="text-xs text-text-muted space-y-0.5">
+          {preview.samples.map((sample) => {
+            const category = categories.find((c) => c.id === sample.category);
+            return (
+              <li key={sample.id} className="flex gap-2">
+                <span className="shrink-0">{sample.date}</span>
+                <span className="flex-1 truncate">{sample.description}</span>
+                <span className="shrink-0">{formatCurrency(sample.amount, settings.currency)}</span>
+                <span className="shrink-0 w-24 truncate text-right">
+                  {sample.confirmed ? (category ? `${category.icon} ${category.name}` : 'No category') : 'Pending'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {stale && <p className="text-xs text-text-muted">Rule changed since this preview</p>}
+    </div>
+  );
+}
+
+function RuleEditor({ rule, onSave, onCancel }: RuleEditorProps) {
+  const { state } = useExpenses();
+  const { toast } = useToast();
   const [name, setName] = useState(rule?.name || '');
   const [conditions, setConditions] = useState<RuleCondition[]>(
     rule?.conditions || [{ id: uuidv4(), field: 'description', matchType: 'contains', value: '' }]
   );
   const [logicMode, setLogicMode] = useState<RuleLogicMode>(rule?.logicMode || 'all');
-  const [categoryId, setCategoryId] = useState(rule?.categoryId || '');
+  // Keyed locally so reordering keeps each row's inputs
+  const [actions, setActions] = useState<{ key: string; action: RuleAction }[]>(
+    (rule?.actions || [createRuleAction('setCategory')]).map((action) => ({ key: uuidv4(), action }))
+  );
   const [enabled, setEnabled] = useState(rule?.enabled ?? true);
   const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState<{ draftKey: string; result: RuleBacktest } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [recategorize, setRecategorize] = useState(false);
 
-  const selectedCategory = categories.find((c) => c.id === categoryId);
+  const tagSuggestions = useMemo(() => collectTags(state.expenses), [state.expenses]);
 
   const addCondition = () => {
     setConditions([
@@ -174,26 +450,78 @@ function RuleEditor({ rule, onSave, onCancel }: RuleEditorProps) {
     }
   };
 
+  const addAction = () => {
+    // Default to the first action type the rule doesn't have yet
+    const used = new Set(actions.map((a) => a.action.type));
+    const type = RULE_ACTION_TYPES.find((t) => !used.has(t.value))?.value || 'addTags';
+    setActions([...actions, { key: uuidv4(), action: createRuleAction(type) }]);
+  };
+
+  const updateAction = (index: number, action: RuleAction) => {
+    setActions(actions.map((a, i) => (i === index ? { ...a, action } : a)));
+  };
+
+  const moveAction = (index: number, offset: number) => {
+    const next = [...actions];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setActions(next);
+  };
+
+  const ruleActions = actions.map((a) => a.action);
+  const draft: RuleDraft = { conditions, logicMode, actions: ruleActions };
+  const draftKey = JSON.stringify(draft);
+  const previewIsStale = !!preview && preview.draftKey !== draftKey;
+  // Only offer to recategorize what the user has actually seen
+  const canRecategorize = !!preview && !previewIsStale && preview.result.categoryChanges > 0;
+
+  const runPreview = async () => {
+    setPreviewing(true);
+    try {
+      const response = await fetch('/api/drive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'rule-preview', data: draft }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Preview failed');
+      setPreview({ draftKey, result: result.preview });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to preview rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
   const handleSave = async () => {
-    if (!name.trim() || !categoryId || conditions.some((c) => !c.value.trim())) {
+    if (!isValid) {
       return;
     }
 
     setSaving(true);
     try {
-      await onSave({
-        name: name.trim(),
-        conditions,
-        logicMode,
-        categoryId,
-        enabled,
-      });
+      await onSave(
+        {
+          name: name.trim(),
+          conditions,
+          logicMode,
+          actions: ruleActions,
+          enabled,
+        },
+        { recategorize: canRecategorize && recategorize }
+      );
     } finally {
       setSaving(false);
     }
   };
 
-  const isValid = name.trim() && categoryId && conditions.every((c) => c.value.trim());
+  const ruleError = validateRule({ conditions, actions: ruleActions });
+  // Condition problems show on their rows; only surface action problems here
+  const actionError = conditions.every((c) => !validateCondition(c)) ? ruleError : null;
+  const isValid = name.trim() && !ruleError;
 
   return (
     <div className="space-y-6">
@@ -253,35 +581,72 @@ function RuleEditor({ rule, onSave, onCancel }: RuleEditorProps) {
         )}
       </div>
 
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-text-secondary">
+            Actions <span className="text-text-muted">(run in order)</span>
+          </label>
+          <Button variant="ghost" size="sm" onClick={addAction} className="h-7">
+            <Plus className="w-3 h-3 mr-1" /> Add Action
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {actions.map(({ key, action }, index) => (
+            <ActionEditor
+              key={key}
+              action={action}
+              onChange={(updated) => updateAction(index, updated)}
+              onRemove={() => setActions(actions.filter((_, i) => i !== index))}
+              onMoveUp={index > 0 ? () => moveAction(index, -1) : undefined}
+              onMoveDown={index < actions.length - 1 ? () => moveAction(index, 1) : undefined}
+              tagSuggestions={tagSuggestions}
+            />
+          ))}
+        </div>
+        {actionError && <p className="text-xs text-error">{actionError}</p>}
+      </div>
+
       <div className="space-y-2">
-        <label className="text-sm font-medium text-text-secondary">Assign Category</label>
-        <Select value={categoryId} onValueChange={setCategoryId}>
-          <SelectTrigger>
-            <SelectValue placeholder="Select category">
-              {selectedCategory && (
-                <div className="flex items-center gap-2">
-                  <div
-                    className="w-3 h-3 rounded-full"
-                    style={{ backgroundColor: selectedCategory.color }}
-                  />
-                  <span>{selectedCategory.icon}</span>
-                  <span>{selectedCategory.name}</span>
-                </div>
-              )}
-            </SelectValue>
-          </SelectTrigger>
-          <SelectContent>
-            {categories.map((cat) => (
-              <SelectItem key={cat.id} value={cat.id}>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} />
-                  <span>{cat.icon}</span>
-                  <span>{cat.name}</span>
-                </div>
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-text-secondary">Preview</label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={runPreview}
+            disabled={!!ruleError || previewing}
+            className="h-7"
+          >
+            {previewing ? (
+              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            ) : (
+              <FlaskConical className="w-3 h-3 mr-1" />
+            )}
+            {preview ? 'Test Again' : 'Test Rule'}
+          </Button>
+        </div>
+        {preview ? (
+          <RulePreview preview={preview.result} stale={previewIsStale} />
+        ) : (
+          <p className="text-xs text-text-muted">
+            See what this rule would match in pending transactions and past expenses before saving.
+          </p>
+        )}
+        {canRecategorize && (
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="rule-recategorize"
+              checked={recategorize}
+              onChange={(e) => setRecategorize(e.target.checked)}
+              className="w-4 h-4 rounded border-border text-accent focus:ring-accent"
+            />
+            <label htmlFor="rule-recategorize" className="text-sm text-text-secondary">
+              Also recategorize {preview!.result.categoryChanges} confirmed expense
+              {preview!.result.categoryChanges !== 1 ? 's' : ''}
+            </label>
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-2">
@@ -312,18 +677,24 @@ function RuleEditor({ rule, onSave, onCancel }: RuleEditorProps) {
 
 function RuleCard({
   rule,
+  position,
   onEdit,
   onDelete,
   onToggle,
+  onDragHandlePointerDown,
 }: {
   rule: TransactionRule;
+  position: number;
   onEdit: () => void;
   onDelete: () => void;
   onToggle: () => void;
+  onDragHandlePointerDown: (event: React.PointerEvent) => void;
 }) {
   const { categories } = useCategories();
   const [expanded, setExpanded] = useState(false);
-  const category = categories.find((c) => c.id === rule.categoryId);
+  const category = categories.find((c) => c.id === getRuleCategoryId(rule));
+  const actionTypes = new Set(rule.actions.map((a) => a.type));
+  const rewrite = rule.actions.find((a) => a.type === 'rewriteDescription');
 
   return (
     <div
@@ -332,6 +703,14 @@ function RuleCard({
       }`}
     >
       <div className="flex items-center gap-3 p-4">
+        <button
+          onPointerDown={onDragHandlePointerDown}
+          className="-ml-2 p-1 text-text-muted hover:text-text-primary cursor-grab active:cursor-grabbing touch-none"
+          aria-label="Drag to change priority"
+        >
+          <GripVertical className="w-4 h-4" />
+        </button>
+        <span className="w-5 text-xs text-text-muted tabular-nums">{position}</span>
         <input
           type="checkbox"
           checked={rule.enabled}
@@ -352,7 +731,23 @@ function RuleCard({
                 {category.icon} {category.name}
               </span>
             )}
+            <TagList tags={getRuleTags(rule)} />
+            {actionTypes.has('ignore') && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-surface-hover text-text-muted">
+                Ignore
+              </span>
+            )}
+            {actionTypes.has('autoConfirm') && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-surface-hover text-text-secondary">
+                Auto-confirm
+              </span>
+            )}
           </div>
+          {rewrite?.type === 'rewriteDescription' && (
+            <div className="text-xs text-text-secondary mt-0.5 truncate">
+              Renames to &ldquo;{rewrite.description}&rdquo;
+            </div>
+          )}
           <div className="text-xs text-text-muted mt-0.5">
             {rule.conditions.length} condition{rule.conditions.length !== 1 ? 's' : ''}
             {rule.conditions.length > 1 && ` (${rule.logicMode === 'all' ? 'all must match' : 'any can match'})`}
@@ -393,15 +788,13 @@ function RuleCard({
                     </div>
                   )}
                   <div className="text-sm bg-surface-hover rounded px-3 py-2">
-                    <span className="font-medium">{condition.field}</span>
+                    <span className="font-medium">
+                      {RULE_FIELDS.find((f) => f.value === condition.field)?.label || condition.field}
+                    </span>
                     <span className="text-text-muted mx-2">{getMatchTypeLabel(condition.matchType)}</span>
-                    <span className="font-mono bg-background px-1.5 py-0.5 rounded">{condition.value}</span>
-                    {condition.matchType === 'between' && condition.value2 && (
-                      <>
-                        <span className="text-text-muted mx-2">and</span>
-                        <span className="font-mono bg-background px-1.5 py-0.5 rounded">{condition.value2}</span>
-                      </>
-                    )}
+                    <span className="font-mono bg-background px-1.5 py-0.5 rounded">
+                      {formatConditionValue(condition)}
+                    </span>
                   </div>
                 </div>
               ))}
@@ -413,14 +806,274 @@ function RuleCard({
   );
 }
 
+type SortableRuleCardProps = Omit<React.ComponentProps<typeof RuleCard>, 'onDragHandlePointerDown'> & {
+  onDragEnd: () => void;
+};
+
+function SortableRuleCard({ onDragEnd, ...props }: SortableRuleCardProps) {
+  const controls = useDragControls();
+
+  return (
+    <Reorder.Item
+      as="div"
+      value={props.rule}
+      dragListener={false}
+      dragControls={controls}
+      onDragEnd={onDragEnd}
+    >
+      <RuleCard {...props} onDragHandlePointerDown={(event) => controls.start(event)} />
+    </Reorder.Item>
+  );
+}
+
+function RuleHealth({ rules, onEdit }: { rules: TransactionRule[]; onEdit: (rule: TransactionRule) => void }) {
+  const { state } = useExpenses();
+  const { categories } = useCategories();
+  const { settings } = useSettings();
+  const [months, setMonths] = useState<number>(6);
+
+  const analysis = useMemo(
+    () => analyzeRules(rules, state.expenses, months),
+    [rules, state.expenses, months]
+  );
+
+  const categoryChip = (rule: TransactionRule) => {
+    const category = categories.find((c) => c.id === getRuleCategoryId(rule));
+    if (!category) return null;
+    return (
+      <span
+        className="text-xs px-2 py-0.5 rounded-full whitespace-nowrap"
+        style={{ backgroundColor: category.color + '30', color: category.color }}
+      >
+        {category.icon} {category.name}
+      </span>
+    );
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="font-semibold text-text-primary">Rule Health</h2>
+          <p className="text-xs text-text-muted">
+            Checked against {analysis.checked} transaction{analysis.checked !== 1 ? 's' : ''}
+          </p>
+        </div>
+        <Select value={String(months)} onValueChange={(v) => setMonths(Number(v))}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ANALYSIS_WINDOWS.map((m) => (
+              <SelectItem key={m} value={String(m)}>
+                Last {m} months
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs text-text-muted uppercase tracking-wider">Conflicts</div>
+        {analysis.conflicts.length === 0 ? (
+          <p className="text-sm text-text-secondary">No overlapping rules assign different categories.</p>
+        ) : (
+          analysis.conflicts.map((conflict) => (
+            <div
+              key={`${conflict.winner.id}:${conflict.loser.id}`}
+              className="rounded-xl p-3 space-y-1.5"
+              style={{ background: 'var(--bg-grouped-tertiary)' }}
+            >
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 text-warning shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-1.5 text-sm">
+                    <span className="font-medium">{conflict.winner.name}</span>
+                    {categoryChip(conflict.winner)}
+                    <span className="text-text-muted">vs</span>
+                    <span className="font-medium">{conflict.loser.name}</span>
+                    {categoryChip(conflict.loser)}
+                  </div>
+                  <p className="text-xs text-text-secondary">
+                    Both match {conflict.count} transaction{conflict.count !== 1 ? 's' : ''};
+                    &ldquo;{conflict.winner.name}&rdquo; wins. Drag the rules to change which applies.
+                  </p>
+                  <ul className="text-xs text-text-muted space-y-0.5">
+                    {conflict.examples.map((e) => (
+                      <li key={e.id} className="truncate">
+                        {e.date} · {e.description} · {formatCurrency(e.amount, settings.currency)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs text-text-muted uppercase tracking-wider">Never matched</div>
+        {analysis.unused.length === 0 ? (
+          <p className="text-sm text-text-secondary">Every enabled rule matched something.</p>
+        ) : (
+          analysis.unused.map((rule) => (
+            <div key={rule.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate">{rule.name}</span>
+              <Button variant="ghost" size="sm" onClick={() => onEdit(rule)} className="h-7">
+                <Edit2 className="w-3 h-3 mr-1" /> Edit
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Confirm importing a rule set file, showing what merge/replace would do
+ */
+function RuleSetImportDialog({
+  file,
+  onClose,
+}: {
+  file: RuleSetFile | null;
+  onClose: () => void;
+}) {
+  const { categories, refreshCategories } = useCategories();
+  const { rules, importRules } = usePendingTransactions();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<RuleSetImportMode>('merge');
+  const [createMissingCategories, setCreateMissingCategories] = useState(true);
+  const [importing, setImporting] = useState(false);
+
+  const plan = useMemo(
+    () => file && planRuleSetImport(file, rules, categories, { mode, createMissingCategories }),
+    [file, rules, categories, mode, createMissingCategories]
+  );
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    try {
+      const result = await importRules(file, { mode, createMissingCategories });
+      if (result.createdCategories > 0) await refreshCategories();
+      const parts = [`${result.added} rule${result.added !== 1 ? 's' : ''} added`];
+      if (result.duplicates) parts.push(`${result.duplicates} already existed`);
+      if (result.skipped) parts.push(`${result.skipped} skipped`);
+      if (result.createdCategories) {
+        parts.push(`${result.createdCategories} categor${result.createdCategories !== 1 ? 'ies' : 'y'} created`);
+      }
+      toast({ title: 'Rules imported', description: parts.join(', '), variant: 'success' });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Failed to import rules',
+        variant: 'destructive',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !importing && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import Rules</DialogTitle>
+        </DialogHeader>
+        {file && plan && (
+          <div className="space-y-4">
+            <p className="text-sm text-text-secondary">
+              This file has {file.rules.length} rule{file.rules.length !== 1 ? 's' : ''}
+              {file.exportedAt && ` exported on ${file.exportedAt.split('T')[0]}`}.
+            </p>
+
+            <div className="grid grid-cols-2 gap-2">
+              {(['merge', 'replace'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`p-3 rounded-xl border text-left transition-colors ${
+                    mode === option ? 'border-accent bg-accent/10' : 'border-border hover:bg-surface-hover'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-text-primary">
+                    {option === 'merge' ? 'Merge' : 'Replace'}
+                  </div>
+                  <div className="text-xs text-text-muted">
+                    {option === 'merge' ? 'Add after your existing rules' : 'Remove your existing rules first'}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="import-create-categories"
+                checked={createMissingCategories}
+                onChange={(e) => setCreateMissingCategories(e.target.checked)}
+                className="w-4 h-4 rounded border-border text-accent focus:ring-accent"
+              />
+              <label htmlFor="import-create-categories" className="text-sm text-text-secondary">
+                Create categories that don&apos;t exist yet
+              </label>
+            </div>
+
+            <div className="p-3 rounded-xl bg-surface text-sm space-y-1">
+              <p className="text-text-primary">
+                {plan.added} rule{plan.added !== 1 ? 's' : ''} will be added
+                {mode === 'replace' && rules.length > 0 && `, replacing ${rules.length}`}
+              </p>
+              {plan.duplicates > 0 && (
+                <p className="text-text-muted">{plan.duplicates} already exist and will be skipped</p>
+              )}
+              {plan.newCategories.length > 0 && (
+                <p className="text-text-muted">
+                  New categories: {plan.newCategories.map((c) => c.name).join(', ')}
+                </p>
+              )}
+              {plan.skipped > 0 && (
+                <p className="flex items-start gap-1.5 text-warning">
+                  <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                  {plan.skipped} rule{plan.skipped !== 1 ? 's' : ''} skipped, missing categor
+                  {plan.missingCategories.length !== 1 ? 'ies' : 'y'}: {plan.missingCategories.join(', ')}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importing || !plan || (plan.added === 0 && mode === 'merge')}>
+            {importing && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function RulesPage() {
   const router = useRouter();
   const { status } = useSession();
   const { toast } = useToast();
-  const { rules, isLoading, addRule, updateRule, deleteRule } = usePendingTransactions();
+  const { rules, isLoading, addRule, updateRule, deleteRule, reorderRules } = usePendingTransactions();
+  const { refreshExpenses } = useExpenses();
+  const [orderedRules, setOrderedRules] = useState<TransactionRule[]>([]);
+  const orderedRef = useRef<TransactionRule[]>([]);
   const [editingRule, setEditingRule] = useState<TransactionRule | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [importFile, setImportFile] = useState<RuleSetFile | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { categories } = useCategories();
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -428,22 +1081,78 @@ export default function RulesPage() {
     }
   }, [status, router]);
 
-  const handleCreateRule = async (ruleData: Omit<TransactionRule, 'id' | 'createdAt'>) => {
+  useEffect(() => {
+    const sorted = sortRulesByPriority(rules);
+    setOrderedRules(sorted);
+    orderedRef.current = sorted;
+  }, [rules]);
+
+  const handleReorder = (next: TransactionRule[]) => {
+    setOrderedRules(next);
+    orderedRef.current = next;
+  };
+
+  // Save once the drag finishes rather than on every swap
+  const handleDragEnd = async () => {
+    const ids = orderedRef.current.map((r) => r.id);
+    const current = sortRulesByPriority(rules).map((r) => r.id);
+    if (ids.every((id, i) => id === current[i])) return;
+
+    try {
+      await reorderRules(ids);
+    } catch {
+      toast({ title: 'Error', description: 'Failed to reorder rules', variant: 'destructive' });
+    }
+  };
+
+  // Retroactively move confirmed expenses the rule matches into its category
+  const recategorizeExpenses = async (ruleData: RuleData): Promise<number> => {
+    try {
+      const response = await fetch('/api/drive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'rule-recategorize', data: ruleData }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to recategorize expenses');
+      await refreshExpenses();
+      return result.count;
+    } catch {
+      // The rule itself was saved; only the retroactive part failed
+      toast({ title: 'Error', description: 'Rule saved, but recategorizing expenses failed', variant: 'destructive' });
+      return 0;
+    }
+  };
+
+  const recategorizedNote = (count: number) =>
+    ` and ${count} expense${count !== 1 ? 's were' : ' was'} recategorized`;
+
+  const handleCreateRule = async (ruleData: RuleData, options: { recategorize: boolean }) => {
     try {
       await addRule(ruleData);
       setIsCreating(false);
-      toast({ title: 'Rule created', description: 'New categorization rule has been added', variant: 'success' });
+      const count = options.recategorize ? await recategorizeExpenses(ruleData) : 0;
+      toast({
+        title: 'Rule created',
+        description: `New categorization rule has been added${count ? recategorizedNote(count) : ''}`,
+        variant: 'success',
+      });
     } catch {
       toast({ title: 'Error', description: 'Failed to create rule', variant: 'destructive' });
     }
   };
 
-  const handleUpdateRule = async (ruleData: Omit<TransactionRule, 'id' | 'createdAt'>) => {
+  const handleUpdateRule = async (ruleData: RuleData, options: { recategorize: boolean }) => {
     if (!editingRule) return;
     try {
       await updateRule({ ...editingRule, ...ruleData });
       setEditingRule(null);
-      toast({ title: 'Rule updated', description: 'Categorization rule has been updated', variant: 'success' });
+      const count = options.recategorize ? await recategorizeExpenses(ruleData) : 0;
+      toast({
+        title: 'Rule updated',
+        description: `Categorization rule has been updated${count ? recategorizedNote(count) : ''}`,
+        variant: 'success',
+      });
     } catch {
       toast({ title: 'Error', description: 'Failed to update rule', variant: 'destructive' });
     }
@@ -459,6 +1168,31 @@ export default function RulesPage() {
     }
   };
 
+  const handleExport = () => {
+    const ruleSet = buildRuleSet(rules, categories);
+    const blob = new Blob([JSON.stringify(ruleSet, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getRuleSetFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (importInputRef.current) importInputRef.current.value = '';
+    if (!file) return;
+    try {
+      setImportFile(parseRuleSet(JSON.parse(await file.text())));
+    } catch (error) {
+      toast({
+        title: 'Invalid rule set',
+        description: error instanceof SyntaxError ? 'File is not valid JSON' : (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleToggleRule = async (rule: TransactionRule) => {
     try {
       await updateRule({ ...rule, enabled: !rule.enabled });
@@ -489,9 +1223,37 @@ export default function RulesPage() {
               </button>
               <h1 className="text-xl font-semibold text-text-primary">Categorization Rules</h1>
             </div>
-            <Button onClick={() => setIsCreating(true)} size="sm">
-              <Plus className="w-4 h-4 mr-1" /> New Rule
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleExport}
+                disabled={rules.length === 0}
+                aria-label="Export rules"
+                title="Export rules"
+              >
+                <Download className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => importInputRef.current?.click()}
+                aria-label="Import rules"
+                title="Import rules"
+              >
+                <Upload className="w-4 h-4" />
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => handleImportFile(e.target.files?.[0])}
+              />
+              <Button onClick={() => setIsCreating(true)} size="sm">
+                <Plus className="w-4 h-4 mr-1" /> New Rule
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -499,8 +1261,11 @@ export default function RulesPage() {
       <main className="max-w-app mx-auto px-4 md:px-6 py-6">
         <p className="text-text-secondary mb-6">
           Rules automatically categorize imported transactions based on conditions you define.
+          When several match, the one highest in the list wins — drag to reorder.
         </p>
 
+        <RuleSuggestions />
+
         {rules.length === 0 ? (
           <div className="text-center py-12 text-text-muted">
             <p className="mb-4">No rules created yet</p>
@@ -509,16 +1274,22 @@ export default function RulesPage() {
             </Button>
           </div>
         ) : (
-          <div className="space-y-3">
-            {rules.map((rule) => (
-              <RuleCard
-                key={rule.id}
-                rule={rule}
-                onEdit={() => setEditingRule(rule)}
-                onDelete={() => setDeleteConfirmId(rule.id)}
-                onToggle={() => handleToggleRule(rule)}
-              />
-            ))}
+          <div className="space-y-6">
+            <Reorder.Group as="div" axis="y" values={orderedRules} onReorder={handleReorder} className="space-y-3">
+              {orderedRules.map((rule, index) => (
+                <SortableRuleCard
+                  key={rule.id}
+                  rule={rule}
+                  position={index + 1}
+                  onEdit={() => setEditingRule(rule)}
+                  onDelete={() => setDeleteConfirmId(rule.id)}
+                  onToggle={() => handleToggleRule(rule)}
+                  onDragEnd={handleDragEnd}
+                />
+              ))}
+            </Reorder.Group>
+
+            <RuleHealth rules={rules} onEdit={setEditingRule} />
           </div>
         )}
       </main>
@@ -549,6 +1320,8 @@ export default function RulesPage() {
         </DialogContent>
       </Dialog>
 
+      <RuleSetImportDialog file={importFile} onClose={() => setImportFile(null)} />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={!!deleteConfirmId} onOpenChange={(open) => !open && setDeleteConfirmId(null)}>
         <DialogContent className="max-w-sm">
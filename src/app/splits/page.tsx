@@ -0,0 +1,459 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { ArrowLeft, Plus, Trash2, Edit2, Loader2, ArrowRight, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useSettings } from '@/context/SettingsContext';
+import { useToast } from '@/hooks/useToast';
+import { useSplits } from '@/hooks/useSplits';
+import { formatCurrency, formatDate, getToday, cn } from '@/lib/utils';
+import {
+  calculateBalances,
+  createSettlement,
+  getParticipants,
+  isSettlement,
+  suggestSettlements,
+  Settlement,
+} from '@/lib/splits';
+import { CurrencyCode, ExpenseSplit, SplitGroup, SPLIT_SELF } from '@/types';
+
+type GroupFormData = Omit<SplitGroup, 'id' | 'createdAt'>;
+
+interface GroupEditorProps {
+  group?: SplitGroup;
+  onSave: (data: GroupFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+function GroupEditor({ group, onSave, onCancel }: GroupEditorProps) {
+  const [name, setName] = useState(group?.name || '');
+  const [members, setMembers] = useState<string[]>(group?.members || []);
+  const [newMember, setNewMember] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isValid = name.trim() && members.length > 0;
+
+  const handleAddMember = () => {
+    const member = newMember.trim();
+    if (!member || member === SPLIT_SELF || members.includes(member)) return;
+    setMembers([...members, member]);
+    setNewMember('');
+  };
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setSaving(true);
+    try {
+      await onSave({ name: name.trim(), members });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-text-secondary">Name</label>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Flatmates, Goa trip"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-text-secondary">
+          Members <span className="text-text-muted">(besides you)</span>
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {members.map((m) => (
+            <span
+              key={m}
+              className="flex items-center gap-1 text-sm px-2.5 py-1 rounded-full bg-surface-hover"
+            >
+              {m}
+              <button
+                type="button"
+                onClick={() => setMembers(members.filter((x) => x !== m))}
+                className="text-text-muted hover:text-error"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={newMember}
+            onChange={(e) => setNewMember(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAddMember();
+              }
+            }}
+            placeholder="Add a name"
+          />
+          <Button variant="outline" onClick={handleAddMember} disabled={!newMember.trim()}>
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2 pt-4 border-t border-border">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!isValid || saving}>
+          {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+          {group ? 'Update' : 'Create'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function describeBalance(participant: string, balance: number, currency: CurrencyCode) {
+  const amount = formatCurrency(Math.abs(balance), currency);
+  if (participant === SPLIT_SELF) {
+    return balance > 0 ? `You are owed ${amount}` : `You owe ${amount}`;
+  }
+  return balance > 0 ? `${participant} is owed ${amount}` : `${participant} owes ${amount}`;
+}
+
+export default function SplitsPage() {
+  const router = useRouter();
+  const { status } = useSession();
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const { groups, splits, isLoading, addGroup, updateGroup, deleteGroup, saveSplit, deleteSplit } = useSplits();
+  const [editingGroup, setEditingGroup] = useState<SplitGroup | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [expandedGroupId, setExpandedGroupId] = useState<string | null>(null);
+  const [settlingKey, setSettlingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  const getGroupBalances = (group: SplitGroup) =>
+    calculateBalances(
+      splits.filter((s) => s.groupId === group.id),
+      getParticipants(group)
+    );
+
+  const handleCreate = async (data: GroupFormData) => {
+    try {
+      await addGroup(data);
+      setIsCreating(false);
+      toast({ title: 'Group created', variant: 'success' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to create group', variant: 'destructive' });
+    }
+  };
+
+  const handleUpdate = async (data: GroupFormData) => {
+    if (!editingGroup) return;
+
+    // Shares are stored by name, so someone with an open balance can't be dropped
+    const removedWithBalance = getGroupBalances(editingGroup).find(
+      (b) => !data.members.includes(b.participant) && b.participant !== SPLIT_SELF && b.balance !== 0
+    );
+    if (removedWithBalance) {
+      toast({
+        title: 'Settle up first',
+        description: `${removedWithBalance.participant} still has an open balance in this group`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await updateGroup({ ...editingGroup, ...data });
+      setEditingGroup(null);
+      toast({ title: 'Group updated', variant: 'success' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to update group', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const group = groups.find((g) => g.id === id);
+    if (group && getGroupBalances(group).some((b) => b.balance !== 0)) {
+      toast({
+        title: 'Settle up first',
+        description: 'This group still has open balances',
+        variant: 'destructive',
+      });
+      setDeleteConfirmId(null);
+      return;
+    }
+
+    try {
+      await deleteGroup(id);
+      setDeleteConfirmId(null);
+      toast({ title: 'Group deleted', variant: 'success' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to delete group', variant: 'destructive' });
+    }
+  };
+
+  const handleSettle = async (group: SplitGroup, settlement: Settlement) => {
+    const key = `${group.id}:${settlement.from}:${settlement.to}`;
+    setSettlingKey(key);
+    try {
+      await saveSplit(createSettlement(group.id, settlement, getToday()));
+      toast({
+        title: 'Marked as settled',
+        description: `${settlement.from} paid ${settlement.to} ${formatCurrency(settlement.amount, settings.currency)}`,
+        variant: 'success',
+      });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to record settlement', variant: 'destructive' });
+    } finally {
+      setSettlingKey(null);
+    }
+  };
+
+  const handleDeleteSettlement = async (split: ExpenseSplit) => {
+    try {
+      await deleteSplit(split.id);
+    } catch {
+      toast({ title: 'Error', description: 'Failed to remove settlement', variant: 'destructive' });
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-text-muted" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen ios26-bg">
+      <header className="">
+        <div className="max-w-app mx-auto px-5 md:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => router.push('/settings')}
+                className="p-2 -ml-2 rounded-lg hover:bg-surface-hover transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5 text-text-secondary" />
+              </button>
+              <h1 className="text-xl font-semibold text-text-primary">Split Expenses</h1>
+            </div>
+            <Button onClick={() => setIsCreating(true)} size="sm">
+              <Plus className="w-4 h-4 mr-1" /> New Group
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-app mx-auto px-4 md:px-6 py-6">
+        <p className="text-text-secondary mb-6">
+          Split an expense from the add or edit dialog. Balances below show who owes whom.
+        </p>
+
+        {groups.length === 0 ? (
+          <div className="text-center py-12 text-text-muted">
+            <p className="mb-4">No groups yet</p>
+            <Button onClick={() => setIsCreating(true)}>
+              <Plus className="w-4 h-4 mr-2" /> Create a group
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => {
+              const groupSplits = splits
+                .filter((s) => s.groupId === group.id)
+                .sort((a, b) => b.date.localeCompare(a.date));
+              const balances = getGroupBalances(group).filter((b) => b.balance !== 0);
+              const settlements = suggestSettlements(balances);
+              const expanded = expandedGroupId === group.id;
+
+              return (
+                <div key={group.id} className="glass-card p-4">
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{group.name}</p>
+                      <p className="text-xs text-text-muted truncate">
+                        {getParticipants(group).join(', ')}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => setEditingGroup(group)} className="h-8 w-8">
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleteConfirmId(group.id)}
+                      className="h-8 w-8 text-text-muted hover:text-error"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+
+                  {/* Balances */}
+                  <div className="mt-3 space-y-1">
+                    {balances.length === 0 ? (
+                      <p className="text-sm text-text-secondary">All settled up</p>
+                    ) : (
+                      balances.map((b) => (
+                        <p
+                          key={b.participant}
+                          className={cn(
+                            'text-sm',
+                            b.balance > 0 ? 'text-green-600' : 'text-text-primary'
+                          )}
+                        >
+                          {describeBalance(b.participant, b.balance, settings.currency)}
+                        </p>
+                      ))
+                    )}
+                  </div>
+
+                  {/* Suggested settle-up payments */}
+                  {settlements.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-[var(--glass-separator)] space-y-2">
+                      <p className="text-xs font-medium text-text-muted uppercase tracking-wide">Settle up</p>
+                      {settlements.map((s) => {
+                        const key = `${group.id}:${s.from}:${s.to}`;
+                        return (
+                          <div key={key} className="flex items-center gap-2 text-sm">
+                            <span className="truncate">{s.from}</span>
+                            <ArrowRight className="w-3.5 h-3.5 text-text-muted flex-shrink-0" />
+                            <span className="truncate">{s.to}</span>
+                            <span className="ml-auto font-mono font-semibold">
+                              {formatCurrency(s.amount, settings.currency)}
+                            </span>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7"
+                              disabled={settlingKey === key}
+                              onClick={() => handleSettle(group, s)}
+                            >
+                              {settlingKey === key ? (
+                                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                              ) : (
+                                <Check className="w-3.5 h-3.5" />
+                              )}
+                            </Button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {/* History */}
+                  {groupSplits.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-[var(--glass-separator)]">
+                      <button
+                        onClick={() => setExpandedGroupId(expanded ? null : group.id)}
+                        className="text-xs text-text-muted hover:text-text-primary"
+                      >
+                        {expanded ? 'Hide history' : `Show history (${groupSplits.length})`}
+                      </button>
+                      {expanded && (
+                        <div className="mt-2 space-y-2">
+                          {groupSplits.map((split) => (
+                            <div key={split.id} className="flex items-center gap-2 text-sm">
+                              <div className="flex-1 min-w-0">
+                                <p className="truncate">{split.description}</p>
+                                <p className="text-xs text-text-muted">
+                                  {formatDate(split.date)}
+                                  {isSettlement(split) ? ' · settlement' : ` · paid by ${split.paidBy}`}
+                                </p>
+                              </div>
+                              <span className="font-mono">{formatCurrency(split.amount, settings.currency)}</span>
+                              {isSettlement(split) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleDeleteSettlement(split)}
+                                  className="h-7 w-7 text-text-muted hover:text-error"
+                                >
+                                  <Trash2 className="w-3.5 h-3.5" />
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {/* Create Dialog */}
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Group</DialogTitle>
+          </DialogHeader>
+          <GroupEditor onSave={handleCreate} onCancel={() => setIsCreating(false)} />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editingGroup} onOpenChange={(open) => !open && setEditingGroup(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Group</DialogTitle>
+          </DialogHeader>
+          {editingGroup && (
+            <GroupEditor
+              group={editingGroup}
+              onSave={handleUpdate}
+              onCancel={() => setEditingGroup(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteConfirmId} onOpenChange={(open) => !open && setDeleteConfirmId(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Delete Group?</DialogTitle>
+          </DialogHeader>
+          <p className="text-text-secondary">
+            The expenses themselves are kept; only the group and its balances are removed.
+          </p>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setDeleteConfirmId(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteConfirmId && handleDelete(deleteConfirmId)}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
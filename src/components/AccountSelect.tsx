@@ -0,0 +1,95 @@
+'use client';
+
+import { CreditCard, Landmark, Smartphone, Banknote, Wallet, LucideIcon } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Account, AccountType } from '@/types';
+import { formatAccountLabel, NO_ACCOUNT_FILTER } from '@/lib/accounts';
+import { cn } from '@/lib/utils';
+
+const NO_ACCOUNT = 'none';
+
+const ACCOUNT_ICONS: Record<AccountType, LucideIcon> = {
+  'credit-card': CreditCard,
+  bank: Landmark,
+  upi: Smartphone,
+  cash: Banknote,
+  wallet: Wallet,
+};
+
+export function AccountTypeIcon({ type, className }: { type: AccountType; className?: string }) {
+  const Icon = ACCOUNT_ICONS[type] || Landmark;
+  return <Icon className={cn('w-4 h-4 text-text-secondary', className)} />;
+}
+
+interface AccountSelectProps {
+  accounts: Account[];
+  value: string;                     // Account ID, '' for none
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  // Offer an account that isn't saved yet (e.g. one found in a statement) under this value
+  extraOption?: { value: string; label: string };
+}
+
+/** Account picker with a "no account" choice, as accounts are optional everywhere */
+export function AccountSelect({ accounts, value, onChange, placeholder = 'No account', className, extraOption }: AccountSelectProps) {
+  return (
+    <Select value={value || NO_ACCOUNT} onValueChange={(v) => onChange(v === NO_ACCOUNT ? '' : v)}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_ACCOUNT}>{placeholder}</SelectItem>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            <div className="flex items-center gap-2">
+              <AccountTypeIcon type={account.type} />
+              <span>{formatAccountLabel(account)}</span>
+            </div>
+          </SelectItem>
+        ))}
+        {extraOption && <SelectItem value={extraOption.value}>{extraOption.label}</SelectItem>}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface AccountFilterChipsProps {
+  accounts: Account[];
+  value: string;                     // Account ID, NO_ACCOUNT_FILTER, or '' for all
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+export function AccountFilterChips({ accounts, value, onChange, className }: AccountFilterChipsProps) {
+  const options = [
+    { value: '', label: 'All accounts' },
+    ...accounts.map((a) => ({ value: a.id, label: formatAccountLabel(a) })),
+    { value: NO_ACCOUNT_FILTER, label: 'No account' },
+  ];
+
+  return (
+    <div className={cn('flex gap-2 overflow-x-auto pb-1', className)}>
+      {options.map((option) => (
+        <button
+          key={option.value || 'all'}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'px-3 py-1 rounded-full text-xs font-medium transition-colors whitespace-nowrap',
+            value === option.value
+              ? 'bg-[var(--accent)] text-white'
+              : 'glass-pill text-text-secondary'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Plus, Pencil, Trash2, X, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -13,9 +13,10 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { useCategories } from '@/context/ExpenseContext';
+import { useSettings } from '@/context/SettingsContext';
 import { useToast } from '@/hooks/useToast';
 import { Category } from '@/types';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 
 const PRESET_COLORS = [
   '#86EFAC', // Soft green
@@ -40,7 +41,8 @@ interface CategoryManagerProps {
 }
 
 export function CategoryManager({ categories }: CategoryManagerProps) {
-  const { addCategory, updateCategory, deleteCategory } = useCategories();
+  const { addCategory, updateCategory, deleteCategory, overallBudget, setOverallBudget } = useCategories();
+  const { settings } = useSettings();
   const { toast } = useToast();
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [isAdding, setIsAdding] = useState(false);
@@ -50,12 +52,22 @@ export function CategoryManager({ categories }: CategoryManagerProps) {
   const [name, setName] = useState('');
   const [color, setColor] = useState(PRESET_COLORS[0]);
   const [icon, setIcon] = useState('');
+  const [budget, setBudget] = useState('');
   const [saving, setSaving] = useState(false);
 
+  // Overall monthly cap
+  const [overallInput, setOverallInput] = useState(overallBudget ? String(overallBudget) : '');
+  const [savingOverall, setSavingOverall] = useState(false);
+
+  useEffect(() => {
+    setOverallInput(overallBudget ? String(overallBudget) : '');
+  }, [overallBudget]);
+
   const resetForm = () => {
     setName('');
     setColor(PRESET_COLORS[0]);
     setIcon('');
+    setBudget('');
     setEditingCategory(null);
     setIsAdding(false);
   };
@@ -65,6 +77,7 @@ export function CategoryManager({ categories }: CategoryManagerProps) {
     setName(category.name);
     setColor(category.color);
     setIcon(category.icon || '');
+    setBudget(category.budget ? String(category.budget) : '');
     setIsAdding(false);
   };
 
@@ -83,6 +96,9 @@ export function CategoryManager({ categories }: CategoryManagerProps) {
       return;
     }
 
+    const parsedBudget = parseFloat(budget);
+    const categoryBudget = parsedBudget > 0 ? parsedBudget : undefined;
+
     setSaving(true);
     try {
       if (editingCategory) {
@@ -91,6 +107,7 @@ export function CategoryManager({ categories }: CategoryManagerProps) {
           name: name.trim(),
           color,
           icon: icon || undefined,
+          budget: categoryBudget,
         });
         toast({ title: 'Category updated' });
       } else {
@@ -98,6 +115,7 @@ export function CategoryManager({ categories }: CategoryManagerProps) {
           name: name.trim(),
           color,
           icon: icon || undefined,
+          budget: categoryBudget,
         });
         toast({ title: 'Category added' });
       }
@@ -113,6 +131,23 @@ export function CategoryManager({ categories }: CategoryManagerProps) {
     }
   };
 
+  const handleSaveOverall = async () => {
+    const parsed = parseFloat(overallInput);
+    setSavingOverall(true);
+    try {
+      await setOverallBudget(parsed > 0 ? parsed : null);
+      toast({ title: parsed > 0 ? 'Monthly budget saved' : 'Monthly budget removed' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save monthly budget',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingOverall(false);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     try {
       await deleteCategory(id);
@@ -131,6 +166,29 @@ export function CategoryManager({ categories }: CategoryManagerProps) {
 
   return (
     <div className="space-y-4">
+      {/* Overall Monthly Budget */}
+      <div className="p-4 glass-card space-y-2">
+        <label className="text-sm font-medium text-text-secondary">
+          Overall monthly budget (optional)
+        </label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            value={overallInput}
+            onChange={(e) => setOverallInput(e.target.value)}
+            placeholder="No limit"
+          />
+          <Button
+            onClick={handleSaveOverall}
+            disabled={savingOverall || overallInput === (overallBudget ? String(overallBudget) : '')}
+          >
+            {savingOverall ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+
       {/* Category List */}
       <div className="space-y-2">
         <AnimatePresence mode="popLayout">
@@ -154,6 +212,11 @@ export function CategoryManager({ categories }: CategoryManagerProps) {
               <span className="flex-1 font-medium text-text-primary">
                 {category.name}
               </span>
+              {category.budget && (
+                <span className="text-sm text-text-muted font-mono">
+                  {formatCurrency(category.budget, settings.currency)}/mo
+                </span>
+              )}
 
               {deleteConfirm === category.id ? (
                 <div className="flex items-center gap-2">
@@ -268,6 +331,21 @@ export function CategoryManager({ categories }: CategoryManagerProps) {
               </div>
             </div>
 
+            {/* Budget */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-text-secondary">
+                Monthly budget (optional)
+              </label>
+              <Input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                placeholder="No budget"
+              />
+            </div>
+
             {/* Preview */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-text-secondary">
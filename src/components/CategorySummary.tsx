@@ -3,14 +3,16 @@
 import { motion } from 'framer-motion';
 import { CategoryBreakdown } from '@/types';
 import { formatCurrency, cn } from '@/lib/utils';
+import { getBudgetLevel, getBudgetColor } from '@/lib/budgets';
 import { useSettings } from '@/context/SettingsContext';
 
 interface CategorySummaryProps {
   breakdown: CategoryBreakdown[];
+  budgets?: Record<string, number>; // Monthly budget by category ID
   className?: string;
 }
 
-export function CategorySummary({ breakdown, className }: CategorySummaryProps) {
+export function CategorySummary({ breakdown, budgets = {}, className }: CategorySummaryProps) {
   const { settings } = useSettings();
 
   if (breakdown.length === 0) {
@@ -25,49 +27,62 @@ export function CategorySummary({ breakdown, className }: CategorySummaryProps)
 
   return (
     <div className={cn('space-y-3', className)}>
-      {breakdown.map((item, index) => (
-        <motion.div
-          key={item.categoryId}
-          initial={{ opacity: 0, x: -20 }}
-          animate={{ opacity: 1, x: 0 }}
-          transition={{ delay: index * 0.05 }}
-          className="space-y-1.5"
-        >
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <div
-                className="w-3 h-3 rounded-full"
-                style={{ backgroundColor: item.color }}
-              />
-              <span className="text-sm font-medium text-text-primary">
-                {item.categoryName}
-              </span>
-              <span className="text-xs text-text-muted">
-                ({item.count} {item.count === 1 ? 'expense' : 'expenses'})
+      {breakdown.map((item, index) => {
+        const budget = budgets[item.categoryId];
+        const ratio = budget ? item.total / budget : 0;
+        const barWidth = budget ? Math.min(ratio, 1) * 100 : (item.total / maxTotal) * 100;
+        const barColor = budget ? getBudgetColor(getBudgetLevel(ratio)) : item.color;
+
+        return (
+          <motion.div
+            key={item.categoryId}
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className="space-y-1.5"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <div
+                  className="w-3 h-3 rounded-full"
+                  style={{ backgroundColor: item.color }}
+                />
+                <span className="text-sm font-medium text-text-primary">
+                  {item.categoryName}
+                </span>
+                <span className="text-xs text-text-muted">
+                  ({item.count} {item.count === 1 ? 'expense' : 'expenses'})
+                </span>
+              </div>
+              <span className="text-sm font-semibold text-text-primary font-mono">
+                {formatCurrency(item.total, settings.currency)}
               </span>
             </div>
-            <span className="text-sm font-semibold text-text-primary font-mono">
-              {formatCurrency(item.total, settings.currency)}
-            </span>
-          </div>
 
-          {/* Progress bar */}
-          <div className="h-2 bg-surface-hover rounded-full overflow-hidden">
-            <motion.div
-              initial={{ width: 0 }}
-              animate={{ width: `${(item.total / maxTotal) * 100}%` }}
-              transition={{ duration: 0.5, delay: index * 0.05 }}
-              className="h-full rounded-full"
-              style={{ backgroundColor: item.color }}
-            />
-          </div>
+            {/* Progress bar: against the budget if set, otherwise relative to the top category */}
+            <div className="h-2 bg-surface-hover rounded-full overflow-hidden">
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${barWidth}%` }}
+                transition={{ duration: 0.5, delay: index * 0.05 }}
+                className="h-full rounded-full"
+                style={{ backgroundColor: barColor }}
+              />
+            </div>
 
-          {/* Percentage */}
-          <p className="text-xs text-text-muted text-right">
-            {item.percentage.toFixed(1)}% of total
-          </p>
-        </motion.div>
-      ))}
+            {/* Percentage */}
+            <p className="text-xs text-text-muted text-right">
+              {budget ? (
+                <span className={cn(ratio >= 1 && 'text-red-500 font-medium')}>
+                  {Math.round(ratio * 100)}% of {formatCurrency(budget, settings.currency)} budget
+                </span>
+              ) : (
+                <>{item.percentage.toFixed(1)}% of total</>
+              )}
+            </p>
+          </motion.div>
+        );
+      })}
     </div>
   );
 }
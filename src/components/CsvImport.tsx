@@ -27,6 +27,7 @@ import {
   detectColumnMapping,
   parseCsvTransactions,
 } from '@/lib/csvParser';
+import { detectStatementFormat, parseStatementFile, STATEMENT_FILE_ACCEPT } from '@/lib/statementParser';
 import { CsvTransaction, Category, CurrencyCode } from '@/types';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { smoothSpring, bouncySpring } from '@/lib/animations';
@@ -251,70 +252,88 @@ export function CsvImport({ onComplete, onCancel }: CsvImportProps) {
   }, [transactions, manuallyAssigned]);
 
   // CSV file upload handler
-  const handleCsvSelect = useCallback(async (file: File) => {
-    setIsProcessing(true);
+  const handleCsvSelect = useCallback((content: string) => {
     // PDF disabled: setFileType('csv');
-    try {
-      const content = await file.text();
-      const { headers, rows } = parseCSV(content);
-
-      if (rows.length === 0) {
-        throw new Error('No data found in CSV');
-      }
+    const { headers, rows } = parseCSV(content);
 
-      setCsvHeaders(headers);
-      setCsvRows(rows);
+    if (rows.length === 0) {
+      throw new Error('No data found in CSV');
+    }
 
-      const mapping = detectColumnMapping(headers);
-      const catIndex = mapping?.categoryIndex ?? -1;
+    setCsvHeaders(headers);
+    setCsvRows(rows);
 
-      setColumnMapping({
-        date: mapping?.dateIndex ?? 0,
-        description: mapping?.descriptionIndex ?? Math.min(1, headers.length - 1),
-        amount: mapping?.amountIndex ?? Math.min(2, headers.length - 1),
-        category: catIndex,
-      });
+    const mapping = detectColumnMapping(headers);
+    const catIndex = mapping?.categoryIndex ?? -1;
 
-      // Extract categories if detected
-      if (catIndex !== -1) {
-        const uniqueCats = Array.from(new Set(
-          rows.map(row => row[catIndex]?.trim()).filter(Boolean)
-        ));
-        setCsvCategories(uniqueCats);
+    setColumnMapping({
+      date: mapping?.dateIndex ?? 0,
+      description: mapping?.descriptionIndex ?? Math.min(1, headers.length - 1),
+      amount: mapping?.amountIndex ?? Math.min(2, headers.length - 1),
+      category: catIndex,
+    });
 
-        // Auto-map matching categories
-        const autoMapping: Record<string, string> = {};
-        for (const csvCat of uniqueCats) {
-          const match = categories.find(
-            c => c.id.toLowerCase() === csvCat.toLowerCase() ||
-                 c.name.toLowerCase() === csvCat.toLowerCase()
-          );
-          if (match) autoMapping[csvCat] = match.id;
-        }
-        setCategoryMapping(autoMapping);
+    // Extract categories if detected
+    if (catIndex !== -1) {
+      const uniqueCats = Array.from(new Set(
+        rows.map(row => row[catIndex]?.trim()).filter(Boolean)
+      ));
+      setCsvCategories(uniqueCats);
+
+      // Auto-map matching categories
+      const autoMapping: Record<string, string> = {};
+      for (const csvCat of uniqueCats) {
+        const match = categories.find(
+          c => c.id.toLowerCase() === csvCat.toLowerCase() ||
+               c.name.toLowerCase() === csvCat.toLowerCase()
+        );
+        if (match) autoMapping[csvCat] = match.id;
       }
+      setCategoryMapping(autoMapping);
+    }
 
-      setWizardStep(2);
+    setWizardStep(2);
+  }, [categories]);
+
+  // OFX/QIF upload handler - already structured, so skip column mapping
+  const handleStatementSelect = useCallback((format: 'ofx' | 'qif', content: string, fileName: string) => {
+    const statement = parseStatementFile(format, content, fileName);
+    setCsvHeaders([]);
+    setCsvRows([]);
+    setTransactions(statement.transactions.map(t => {
+      const match = t.category && categories.find(
+        c => c.id.toLowerCase() === t.category?.toLowerCase() ||
+             c.name.toLowerCase() === t.category?.toLowerCase()
+      );
+      return { ...t, category: match ? match.id : undefined };
+    }));
+    setManuallyAssigned(new Set());
+    setWizardStep(3);
+  }, [categories]);
+
+  // File upload handler (CSV, OFX/QFX and QIF - PDF disabled)
+  const handleFileSelect = useCallback(async (file: File) => {
+    setIsProcessing(true);
+    try {
+      const content = await file.text();
+      const format = detectStatementFormat(file, content);
+      if (format === 'csv') {
+        handleCsvSelect(content);
+      } else if (format === 'ofx' || format === 'qif') {
+        handleStatementSelect(format, content, file.name);
+      } else {
+        toast({ title: 'Invalid file', description: 'Please select a CSV, OFX, QFX or QIF file', variant: 'destructive' });
+      }
     } catch (err) {
       toast({
         title: 'Error',
-        description: err instanceof Error ? err.message : 'Failed to parse CSV',
+        description: err instanceof Error ? err.message : 'Failed to read file',
         variant: 'destructive'
       });
     } finally {
       setIsProcessing(false);
     }
-  }, [toast, categories]);
-
-  // File upload handler (CSV only - PDF disabled)
-  const handleFileSelect = useCallback(async (file: File) => {
-    const isCsv = file.type === 'text/csv' || file.name.endsWith('.csv');
-    if (isCsv) {
-      await handleCsvSelect(file);
-    } else {
-      toast({ title: 'Invalid file', description: 'Please select a CSV file', variant: 'destructive' });
-    }
-  }, [handleCsvSelect, toast]);
+  }, [handleCsvSelect, handleStatementSelect, toast]);
 
   // Column change handler
   const handleColumnChange = useCallback((key: string, value: number) => {
@@ -431,19 +450,25 @@ export function CsvImport({ onComplete, onCancel }: CsvImportProps) {
       const toImport = transactions.filter(t => t.selected);
 
       // Add to pending transactions - the context will set status based on category
-      await addPendingTransactions(toImport.map(t => ({
+      const added = await addPendingTransactions(toImport.map(t => ({
         amount: t.amount,
         date: t.date,
         category: t.category || undefined, // undefined if no category, so it goes to uncategorized
         description: t.description,
         status: t.category ? 'auto-mapped' : 'uncategorized',
+        direction: t.direction,
+        source: t.source,
+        externalId: t.externalId,
       })));
 
       const categorizedCount = toImport.filter(t => t.category).length;
       const uncategorizedCount = toImport.length - categorizedCount;
+      const skippedCount = toImport.length - added;
 
       let message = `${toImport.length} transactions imported`;
-      if (categorizedCount > 0 && uncategorizedCount > 0) {
+      if (skippedCount > 0) {
+        message = `${added} transactions imported, ${skippedCount} already imported skipped`;
+      } else if (categorizedCount > 0 && uncategorizedCount > 0) {
         message = `${categorizedCount} auto-mapped, ${uncategorizedCount} need review`;
       } else if (categorizedCount > 0) {
         message = `${categorizedCount} transactions auto-mapped`;
@@ -487,7 +512,7 @@ export function CsvImport({ onComplete, onCancel }: CsvImportProps) {
               <input
                 ref={csvInputRef}
                 type="file"
-                accept=".csv,text/csv"
+                accept={STATEMENT_FILE_ACCEPT}
                 onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
                 className="hidden"
               />
@@ -507,9 +532,9 @@ export function CsvImport({ onComplete, onCancel }: CsvImportProps) {
                 )}
               </motion.div>
               <p className="text-sm font-medium text-text-primary">
-                {isProcessing ? 'Processing...' : 'Drop CSV file here or click to browse'}
+                {isProcessing ? 'Processing...' : 'Drop a statement here or click to browse'}
               </p>
-              <p className="text-xs text-text-muted mt-1">Supports bank statement exports</p>
+              <p className="text-xs text-text-muted mt-1">Supports CSV, OFX/QFX and QIF bank exports</p>
             </motion.div>
           </motion.div>
         )}
@@ -830,7 +855,7 @@ export function CsvImport({ onComplete, onCancel }: CsvImportProps) {
 
             <div className="flex gap-3">
               <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} className="flex-1">
-                <Button variant="outline" onClick={() => setWizardStep(2)} className="w-full">
+                <Button variant="outline" onClick={() => setWizardStep(csvHeaders.length > 0 ? 2 : 1)} className="w-full">
                   Back
                 </Button>
               </motion.div>
@@ -0,0 +1,75 @@
+'use client';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { CurrencyCode, SUPPORTED_CURRENCIES } from '@/types';
+import { formatCurrency, parseAmount } from '@/lib/utils';
+import { roundMoney } from '@/lib/currency';
+
+interface CurrencySelectProps {
+  value: CurrencyCode;
+  onChange: (value: CurrencyCode) => void;
+}
+
+/** Compact currency picker shown beside the amount input */
+export function CurrencySelect({ value, onChange }: CurrencySelectProps) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as CurrencyCode)}>
+      <SelectTrigger className="w-24 flex-shrink-0">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_CURRENCIES.map((c) => (
+          <SelectItem key={c.code} value={c.code}>
+            {c.symbol} {c.code}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface ExchangeRateFieldProps {
+  amount: string;
+  currency: CurrencyCode;
+  baseCurrency: CurrencyCode;
+  rate: string;
+  onRateChange: (rate: string) => void;
+}
+
+/** Rate used for this expense (prefilled from the rate table) and the converted total */
+export function ExchangeRateField({
+  amount,
+  currency,
+  baseCurrency,
+  rate,
+  onRateChange,
+}: ExchangeRateFieldProps) {
+  const parsedRate = parseFloat(rate);
+  const converted = parsedRate > 0 ? roundMoney(parseAmount(amount) * parsedRate) : null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-text-secondary">
+      <span className="flex-shrink-0">1 {currency} =</span>
+      <Input
+        type="number"
+        step="any"
+        min="0"
+        value={rate}
+        onChange={(e) => onRateChange(e.target.value)}
+        className="w-28 h-8 font-mono"
+        placeholder="Rate"
+      />
+      <span className="flex-shrink-0">{baseCurrency}</span>
+      <span className="ml-auto font-mono text-text-primary">
+        {converted !== null ? `≈ ${formatCurrency(converted, baseCurrency)}` : 'Rate needed'}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { TransactionDirection, TRANSACTION_DIRECTIONS } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface DirectionToggleProps {
+  value: TransactionDirection;
+  onChange: (value: TransactionDirection) => void;
+  className?: string;
+}
+
+export function DirectionToggle({ value, onChange, className }: DirectionToggleProps) {
+  return (
+    <div className={cn('flex p-1 rounded-lg bg-surface-hover', className)}>
+      {TRANSACTION_DIRECTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'flex-1 py-1.5 text-sm font-medium rounded-md transition-colors',
+            value === option.value
+              ? 'bg-surface text-text-primary shadow-sm'
+              : 'text-text-muted hover:text-text-secondary'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -21,6 +21,21 @@ import { useExpenses, useCategories } from '@/context/ExpenseContext';
 import { useSettings } from '@/context/SettingsContext';
 import { useToast } from '@/hooks/useToast';
 import { formatCurrency, parseAmount, getToday, getCurrencySymbol } from '@/lib/utils';
+import { DirectionToggle } from '@/components/DirectionToggle';
+import { CurrencySelect, ExchangeRateField } from '@/components/CurrencyAmountFields';
+import { useRecurringTemplates } from '@/hooks/useRecurringTemplates';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useSplits } from '@/hooks/useSplits';
+import { useAccounts } from '@/hooks/useAccounts';
+import { AccountSelect } from '@/components/AccountSelect';
+import { TagInput } from '@/components/TagInput';
+import { ReceiptPicker } from '@/components/ReceiptAttachments';
+import { ReceiptScanButton, ReceiptLineItems, ScanHint } from '@/components/ReceiptScan';
+import { useAttachments } from '@/hooks/useAttachments';
+import { collectTags } from '@/lib/tags';
+import { SplitSection, SplitDraft, createSplitDraft, getDraftShares, getDraftError } from '@/components/SplitSection';
+import { applyExchangeRate, findRate, formatRateInput } from '@/lib/currency';
+import { TransactionDirection, RecurringFrequency, RECURRING_FREQUENCIES, CurrencyCode, ExpenseAttachment, ParsedReceipt } from '@/types';
 
 interface ExpenseAddDialogProps {
   open: boolean;
@@ -28,26 +43,108 @@ interface ExpenseAddDialogProps {
 }
 
 export function ExpenseAddDialog({ open, onOpenChange }: ExpenseAddDialogProps) {
-  const { addExpense } = useExpenses();
+  const { state, addExpense } = useExpenses();
   const { categories } = useCategories();
   const { settings } = useSettings();
   const { toast } = useToast();
+  const { addTemplate } = useRecurringTemplates({ load: false });
+  const { rates } = useExchangeRates({ load: open });
+  const { groups, saveSplit } = useSplits({ load: open });
+  const { accounts } = useAccounts({ load: open });
 
   const [amount, setAmount] = useState('');
   const [date, setDate] = useState(getToday());
   const [category, setCategory] = useState('');
   const [description, setDescription] = useState('');
+  const [direction, setDirection] = useState<TransactionDirection>('expense');
+  const [accountId, setAccountId] = useState('');
+  const [repeat, setRepeat] = useState<RecurringFrequency | 'none'>('none');
+  const [currency, setCurrency] = useState<CurrencyCode>(settings.currency);
+  const [rate, setRate] = useState('');
+  const [split, setSplit] = useState<SplitDraft>(createSplitDraft());
+  const [tags, setTags] = useState<string[]>([]);
+  const [attachments, setAttachments] = useState<ExpenseAttachment[]>([]);
+  const [scan, setScan] = useState<ParsedReceipt | null>(null);
+  const [scanHints, setScanHints] = useState<Partial<ParsedReceipt['confidence']>>({});
   const [saving, setSaving] = useState(false);
+  const { upload, discard, isUploading } = useAttachments();
 
   // Reset form when dialog opens
   useEffect(() => {
     if (open) {
+      setDirection('expense');
       setAmount('');
       setDate(getToday());
       setCategory('');
       setDescription('');
+      setAccountId('');
+      setRepeat('none');
+      setCurrency(settings.currency);
+      setRate('');
+      setSplit(createSplitDraft());
+      setTags([]);
+      setAttachments([]);
+      setScan(null);
+      setScanHints({});
     }
-  }, [open]);
+  }, [open, settings.currency]);
+
+  // A hint only applies until the user edits the field themselves
+  const clearHint = (field: keyof ParsedReceipt['confidence']) =>
+    setScanHints((hints) => ({ ...hints, [field]: undefined }));
+
+  const handleScanned = async (receipt: ParsedReceipt, file: File) => {
+    setScan(receipt);
+    setDirection('expense');
+    const hints: Partial<ParsedReceipt['confidence']> = {};
+    if (receipt.total !== null) {
+      setAmount(receipt.total.toString());
+      hints.total = receipt.confidence.total;
+    }
+    if (receipt.currency && receipt.currency !== currency) {
+      handleCurrencyChange(receipt.currency);
+    }
+    if (receipt.date) {
+      setDate(receipt.date);
+      hints.date = receipt.confidence.date;
+    }
+    if (receipt.category) {
+      setCategory(receipt.category);
+      hints.category = receipt.confidence.category;
+    }
+    if (receipt.merchant) {
+      setDescription(receipt.merchant);
+      hints.merchant = receipt.confidence.merchant;
+    }
+    setScanHints(hints);
+
+    // Keep the scanned file with the expense
+    try {
+      const attachment = await upload(file);
+      setAttachments((current) => [...current, attachment]);
+    } catch (error) {
+      console.error('Failed to attach scanned receipt:', error);
+    }
+  };
+
+  // Receipts are uploaded on pick, so closing without saving removes them again
+  const handleOpenChange = (next: boolean) => {
+    if (!next && attachments.length > 0) {
+      discard(attachments);
+      setAttachments([]);
+    }
+    onOpenChange(next);
+  };
+
+  const handleAttachmentsChange = (next: ExpenseAttachment[]) => {
+    discard(attachments.filter((a) => !next.some((n) => n.id === a.id)));
+    setAttachments(next);
+  };
+
+  const handleCurrencyChange = (code: CurrencyCode) => {
+    setCurrency(code);
+    setRate(formatRateInput(findRate(rates, code, settings.currency)));
+  };
 
   const handleSave = async () => {
     const parsedAmount = parseAmount(amount);
@@ -60,7 +157,8 @@ export function ExpenseAddDialog({ open, onOpenChange }: ExpenseAddDialogProps)
       return;
     }
 
-    if (!category) {
+    // Income and transfers don't need a spending category
+    if (direction === 'expense' && !category) {
       toast({
         title: 'Category required',
         description: 'Please select a category',
@@ -69,18 +167,87 @@ export function ExpenseAddDialog({ open, onOpenChange }: ExpenseAddDialogProps)
       return;
     }
 
+    const parsedRate = parseFloat(rate);
+    if (currency !== settings.currency && !(parsedRate > 0)) {
+      toast({
+        title: 'Exchange rate required',
+        description: `Enter the ${currency} → ${settings.currency} rate`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const amounts = applyExchangeRate(parsedAmount, currency, parsedRate, settings.currency);
+
+    const splitActive = split.enabled && direction === 'expense';
+    const splitError = splitActive ? getDraftError(split, amounts.amount) : null;
+    if (splitError) {
+      toast({
+        title: 'Check the split',
+        description: splitError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setSaving(true);
     try {
-      await addExpense({
-        amount: parsedAmount,
+      const expense = await addExpense({
+        ...amounts,
         date,
         category,
         description,
+        direction,
+        tags,
+        attachments: attachments.length > 0 ? attachments : undefined,
+        accountId: accountId || undefined,
       });
+      setAttachments([]);
+
+      if (splitActive) {
+        try {
+          await saveSplit({
+            expenseId: expense.id,
+            groupId: split.groupId,
+            date,
+            description: description || selectedCategory?.name || 'Shared expense',
+            amount: amounts.amount,
+            paidBy: split.paidBy,
+            mode: split.mode,
+            shares: getDraftShares(split, amounts.amount),
+          });
+        } catch {
+          toast({
+            title: 'Split not saved',
+            description: 'The expense was added, but the split could not be saved',
+            variant: 'destructive',
+          });
+        }
+      }
+
+      // This occurrence is already saved, so the template starts generating after it
+      if (repeat !== 'none') {
+        try {
+          await addTemplate({
+            description: description || selectedCategory?.name || 'Recurring expense',
+            amount: amounts.amount,
+            category: category || undefined,
+            direction,
+            frequency: repeat,
+            startDate: date,
+            lastGeneratedDate: date,
+          });
+        } catch {
+          toast({
+            title: 'Repeat not saved',
+            description: 'The expense was added, but the recurring schedule could not be created',
+            variant: 'destructive',
+          });
+        }
+      }
 
       toast({
-        title: 'Expense added',
-        description: `${formatCurrency(parsedAmount, settings.currency)} saved`,
+        title: direction === 'income' ? 'Income added' : direction === 'transfer' ? 'Transfer added' : 'Expense added',
+        description: `${formatCurrency(amounts.amount, settings.currency)} saved`,
         variant: 'success',
       });
 
@@ -97,51 +264,87 @@ export function ExpenseAddDialog({ open, onOpenChange }: ExpenseAddDialogProps)
   };
 
   const selectedCategory = categories.find((c) => c.id === category);
+  const tagSuggestions = useMemo(() => collectTags(state.expenses), [state.expenses]);
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle>Add Expense</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          <ReceiptScanButton onScanned={handleScanned} disabled={saving} />
+          {scan && <ReceiptLineItems receipt={scan} currency={currency} />}
+
+          <DirectionToggle value={direction} onChange={setDirection} />
+
           {/* Amount */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-text-secondary">
               Amount
+              <ScanHint level={scanHints.total} />
             </label>
-            <div className="relative">
-              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-xl text-text-muted">
-                {getCurrencySymbol(settings.currency)}
-              </span>
-              <Input
-                type="number"
-                step="0.01"
-                min="0"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                className="pl-10 text-2xl font-semibold h-14 font-mono"
-                placeholder="0.00"
-                autoFocus
-              />
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-xl text-text-muted">
+                  {getCurrencySymbol(currency)}
+                </span>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={amount}
+                  onChange={(e) => {
+                    setAmount(e.target.value);
+                    clearHint('total');
+                  }}
+                  className="pl-10 text-2xl font-semibold h-14 font-mono"
+                  placeholder="0.00"
+                  autoFocus
+                />
+              </div>
+              <CurrencySelect value={currency} onChange={handleCurrencyChange} />
             </div>
+            {currency !== settings.currency && (
+              <ExchangeRateField
+                amount={amount}
+                currency={currency}
+                baseCurrency={settings.currency}
+                rate={rate}
+                onRateChange={setRate}
+              />
+            )}
           </div>
 
           {/* Date */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-text-secondary">
               Date
+              <ScanHint level={scanHints.date} />
             </label>
-            <DatePicker value={date} onChange={setDate} />
+            <DatePicker
+              value={date}
+              onChange={(value) => {
+                setDate(value);
+                clearHint('date');
+              }}
+            />
           </div>
 
           {/* Category */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-text-secondary">
-              Category
+              Category{direction !== 'expense' && <span className="text-text-muted"> (optional)</span>}
+              <ScanHint level={scanHints.category} />
             </label>
-            <Select value={category} onValueChange={setCategory}>
+            <Select
+              value={category}
+              onValueChange={(value) => {
+                setCategory(value);
+                clearHint('category');
+              }}
+            >
               <SelectTrigger>
                 <SelectValue placeholder="Select a category">
                   {selectedCategory && (
@@ -173,14 +376,84 @@ export function ExpenseAddDialog({ open, onOpenChange }: ExpenseAddDialogProps)
             </Select>
           </div>
 
+          {/* Account */}
+          {accounts.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-text-secondary">
+                {direction === 'income' ? 'Received in' : 'Paid with'} <span className="text-text-muted">(optional)</span>
+              </label>
+              <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+            </div>
+          )}
+
+          {/* Repeat */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-text-secondary">
+              Repeat
+            </label>
+            <Select value={repeat} onValueChange={(v) => setRepeat(v as RecurringFrequency | 'none')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Never</SelectItem>
+                {RECURRING_FREQUENCIES.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Tags */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-text-secondary">
+              Tags <span className="text-text-muted">(optional)</span>
+            </label>
+            <TagInput
+              value={tags}
+              onChange={setTags}
+              suggestions={tagSuggestions}
+              placeholder="e.g. trip-goa-2026, reimbursable"
+            />
+          </div>
+
+          {/* Receipts */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-text-secondary">
+              Receipts <span className="text-text-muted">(optional)</span>
+            </label>
+            <ReceiptPicker
+              value={attachments}
+              onChange={handleAttachmentsChange}
+              upload={upload}
+              isUploading={isUploading}
+            />
+          </div>
+
+          {direction === 'expense' && (
+            <SplitSection
+              total={applyExchangeRate(parseAmount(amount), currency, parseFloat(rate) || 0, settings.currency).amount}
+              currency={settings.currency}
+              groups={groups}
+              value={split}
+              onChange={setSplit}
+            />
+          )}
+
           {/* Description */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-text-secondary">
               Description <span className="text-text-muted">(optional)</span>
+              <ScanHint level={scanHints.merchant} />
             </label>
             <Input
               value={description}
-              onChange={(e) => setDescription(e.target.value)}
+              onChange={(e) => {
+                setDescription(e.target.value);
+                clearHint('merchant');
+              }}
               placeholder="What was this expense for?"
             />
           </div>
@@ -189,17 +462,17 @@ export function ExpenseAddDialog({ open, onOpenChange }: ExpenseAddDialogProps)
         <div className="flex gap-3 pt-2">
           <Button
             variant="outline"
-            onClick={() => onOpenChange(false)}
+            onClick={() => handleOpenChange(false)}
             className="flex-1"
           >
             Cancel
           </Button>
           <Button
             onClick={handleSave}
-            disabled={saving || !amount || !category}
+            disabled={saving || isUploading || !amount || (direction === 'expense' && !category)}
             className="flex-1"
           >
-            {saving ? 'Adding...' : 'Add Expense'}
+            {saving ? 'Adding...' : direction === 'expense' ? 'Add Expense' : 'Add'}
           </Button>
         </div>
       </DialogContent>
@@ -1,13 +1,17 @@
 'use client';
 
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Trash2 } from 'lucide-react';
 import { Expense, Category } from '@/types';
-import { formatCurrency, cn } from '@/lib/utils';
+import { formatCurrency, cn, getDirection } from '@/lib/utils';
+import { isForeignAmount } from '@/lib/currency';
 import { useSwipe } from '@/hooks/useSwipe';
 import { useSettings } from '@/context/SettingsContext';
 import { smoothSpring } from '@/lib/animations';
 import { setDialogOrigin } from '@/components/FloatingAddButton';
+import { TagList } from '@/components/TagInput';
+import { ReceiptThumbnail, ReceiptViewer } from '@/components/ReceiptAttachments';
 
 interface ExpenseCardProps {
   expense: Expense;
@@ -29,7 +33,11 @@ export function ExpenseCard({
     onSwipeLeft: () => {},
   });
 
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const attachments = expense.attachments || [];
+
   const showDelete = offsetX < -40 || direction === 'left';
+  const flow = getDirection(expense);
 
   const handleDelete = () => {
     onDelete(expense.id);
@@ -91,17 +99,50 @@ export function ExpenseCard({
             {expense.description || category?.name || 'Expense'}
           </p>
           <p className="text-xs text-text-secondary truncate mt-0.5">
-            {category?.name || 'Other'}
+            {flow === 'expense' ? category?.name || 'Other' : flow === 'income' ? 'Income' : 'Transfer'}
+            <TagList tags={expense.tags} className="ml-1.5 align-middle" />
           </p>
         </div>
 
+        {/* Receipt thumbnail (opens the viewer instead of the edit dialog) */}
+        {attachments.length > 0 && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setViewerIndex(0);
+            }}
+            className="relative ml-3 flex-shrink-0"
+          >
+            <ReceiptThumbnail attachment={attachments[0]} className="w-9 h-9 rounded-lg" />
+            {attachments.length > 1 && (
+              <span className="absolute -bottom-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-surface border border-border text-[10px] leading-[14px] text-text-secondary">
+                {attachments.length}
+              </span>
+            )}
+          </button>
+        )}
+
         {/* Amount */}
         <div className="text-right ml-3 flex-shrink-0">
-          <p className="text-[15px] font-semibold text-text-primary font-mono">
-            {formatCurrency(expense.amount, settings.currency)}
+          <p
+            className={cn(
+              'text-[15px] font-semibold font-mono',
+              flow === 'income' ? 'text-green-600' : flow === 'transfer' ? 'text-text-secondary' : 'text-text-primary'
+            )}
+          >
+            {flow === 'income' ? '+' : ''}{formatCurrency(expense.amount, settings.currency)}
           </p>
+          {isForeignAmount(expense, settings.currency) && (
+            <p className="text-xs text-text-muted font-mono">
+              {formatCurrency(expense.originalAmount!, expense.originalCurrency!)}
+            </p>
+          )}
         </div>
       </motion.div>
+
+      {attachments.length > 0 && (
+        <ReceiptViewer attachments={attachments} index={viewerIndex} onIndexChange={setViewerIndex} />
+      )}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Trash2 } from 'lucide-react';
 import {
@@ -23,8 +23,20 @@ import {
 import { useExpenses } from '@/context/ExpenseContext';
 import { useSettings } from '@/context/SettingsContext';
 import { useToast } from '@/hooks/useToast';
-import { Expense, Category } from '@/types';
-import { formatCurrency, parseAmount, getCurrencySymbol } from '@/lib/utils';
+import { Expense, Category, TransactionDirection, CurrencyCode, ExpenseAttachment } from '@/types';
+import { formatCurrency, parseAmount, getCurrencySymbol, getDirection } from '@/lib/utils';
+import { DirectionToggle } from '@/components/DirectionToggle';
+import { CurrencySelect, ExchangeRateField } from '@/components/CurrencyAmountFields';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useSplits } from '@/hooks/useSplits';
+import { useAccounts } from '@/hooks/useAccounts';
+import { AccountSelect } from '@/components/AccountSelect';
+import { TagInput } from '@/components/TagInput';
+import { ReceiptPicker } from '@/components/ReceiptAttachments';
+import { useAttachments } from '@/hooks/useAttachments';
+import { collectTags } from '@/lib/tags';
+import { SplitSection, SplitDraft, createSplitDraft, getDraftShares, getDraftError } from '@/components/SplitSection';
+import { applyExchangeRate, findRate, formatRateInput, isForeignAmount } from '@/lib/currency';
 
 interface ExpenseEditDialogProps {
   expense: Expense | null;
@@ -37,26 +49,75 @@ export function ExpenseEditDialog({
   categories,
   onClose,
 }: ExpenseEditDialogProps) {
-  const { updateExpense, deleteExpense } = useExpenses();
+  const { state, updateExpense, deleteExpense } = useExpenses();
   const { settings } = useSettings();
   const { toast } = useToast();
+  const { rates } = useExchangeRates({ load: !!expense });
+  const { groups, splits, isLoading: splitsLoading, saveSplit, deleteSplit } = useSplits({ load: !!expense });
+  const { accounts } = useAccounts({ load: !!expense });
+  const existingSplit = expense ? splits.find((s) => s.expenseId === expense.id) : undefined;
 
   const [amount, setAmount] = useState('');
   const [date, setDate] = useState('');
   const [category, setCategory] = useState('');
   const [description, setDescription] = useState('');
+  const [direction, setDirection] = useState<TransactionDirection>('expense');
+  const [accountId, setAccountId] = useState('');
+  const [currency, setCurrency] = useState<CurrencyCode>(settings.currency);
+  const [rate, setRate] = useState('');
+  const [split, setSplit] = useState<SplitDraft>(createSplitDraft());
+  const [tags, setTags] = useState<string[]>([]);
+  const [attachments, setAttachments] = useState<ExpenseAttachment[]>([]);
   const [saving, setSaving] = useState(false);
+  const { upload, discard, isUploading } = useAttachments();
   const [deleting, setDeleting] = useState(false);
 
   // Reset form when expense changes
   useEffect(() => {
     if (expense) {
-      setAmount(expense.amount.toString());
+      // Foreign expenses are edited in their original currency at the rate they were saved with
+      if (isForeignAmount(expense, settings.currency)) {
+        setAmount(expense.originalAmount!.toString());
+        setCurrency(expense.originalCurrency!);
+        setRate(formatRateInput(expense.amount / expense.originalAmount!));
+      } else {
+        setAmount(expense.amount.toString());
+        setCurrency(settings.currency);
+        setRate('');
+      }
       setDate(expense.date);
       setCategory(expense.category);
       setDescription(expense.description);
+      setDirection(getDirection(expense));
+      setTags(expense.tags || []);
+      setAttachments(expense.attachments || []);
+      setAccountId(expense.accountId || '');
     }
-  }, [expense]);
+  }, [expense, settings.currency]);
+
+  const isSaved = (attachment: ExpenseAttachment) =>
+    !!expense?.attachments?.some((a) => a.id === attachment.id);
+
+  // Files added in this session can go right away; saved ones are only removed on save
+  const handleAttachmentsChange = (next: ExpenseAttachment[]) => {
+    discard(attachments.filter((a) => !isSaved(a) && !next.some((n) => n.id === a.id)));
+    setAttachments(next);
+  };
+
+  const handleClose = () => {
+    discard(attachments.filter((a) => !isSaved(a)));
+    onClose();
+  };
+
+  // Splits load separately, so the split form fills in once they arrive
+  useEffect(() => {
+    setSplit(createSplitDraft(existingSplit));
+  }, [expense, existingSplit]);
+
+  const handleCurrencyChange = (code: CurrencyCode) => {
+    setCurrency(code);
+    setRate(formatRateInput(findRate(rates, code, settings.currency)));
+  };
 
   const handleSave = async () => {
     if (!expense) return;
@@ -71,19 +132,62 @@ export function ExpenseEditDialog({
       return;
     }
 
+    const parsedRate = parseFloat(rate);
+    if (currency !== settings.currency && !(parsedRate > 0)) {
+      toast({
+        title: 'Exchange rate required',
+        description: `Enter the ${currency} → ${settings.currency} rate`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const amounts = applyExchangeRate(parsedAmount, currency, parsedRate, settings.currency);
+
+    const splitActive = split.enabled && direction === 'expense';
+    const splitError = splitActive ? getDraftError(split, amounts.amount) : null;
+    if (splitError) {
+      toast({
+        title: 'Check the split',
+        description: splitError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setSaving(true);
     try {
       await updateExpense({
         ...expense,
-        amount: parsedAmount,
+        ...amounts,
         date,
         category,
         description,
+        direction,
+        tags,
+        attachments: attachments.length > 0 ? attachments : undefined,
+        accountId: accountId || undefined,
       });
+      discard((expense.attachments || []).filter((a) => !attachments.some((n) => n.id === a.id)));
+
+      if (splitActive) {
+        await saveSplit({
+          id: existingSplit?.id,
+          expenseId: expense.id,
+          groupId: split.groupId,
+          date,
+          description: description || selectedCategory?.name || 'Shared expense',
+          amount: amounts.amount,
+          paidBy: split.paidBy,
+          mode: split.mode,
+          shares: getDraftShares(split, amounts.amount),
+        });
+      } else if (existingSplit) {
+        await deleteSplit(existingSplit.id);
+      }
 
       toast({
         title: 'Expense updated',
-        description: `${formatCurrency(parsedAmount, settings.currency)} saved`,
+        description: `${formatCurrency(amounts.amount, settings.currency)} saved`,
         variant: 'success',
       });
 
@@ -105,6 +209,7 @@ export function ExpenseEditDialog({
     setDeleting(true);
     try {
       await deleteExpense(expense.id);
+      discard(attachments.filter((a) => !isSaved(a)));
 
       toast({
         title: 'Expense deleted',
@@ -124,34 +229,49 @@ export function ExpenseEditDialog({
   };
 
   const selectedCategory = categories.find((c) => c.id === category);
+  const tagSuggestions = useMemo(() => collectTags(state.expenses), [state.expenses]);
 
   return (
-    <Dialog open={!!expense} onOpenChange={() => onClose()}>
+    <Dialog open={!!expense} onOpenChange={() => handleClose()}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle>Edit Expense</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          <DirectionToggle value={direction} onChange={setDirection} />
+
           {/* Amount */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-text-secondary">
               Amount
             </label>
-            <div className="relative">
-              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-text-muted">
-                {getCurrencySymbol(settings.currency)}
-              </span>
-              <Input
-                type="number"
-                step="0.01"
-                min="0"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                className="pl-8 text-2xl font-semibold font-mono"
-                placeholder="0.00"
-              />
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-text-muted">
+                  {getCurrencySymbol(currency)}
+                </span>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="pl-8 text-2xl font-semibold font-mono"
+                  placeholder="0.00"
+                />
+              </div>
+              <CurrencySelect value={currency} onChange={handleCurrencyChange} />
             </div>
+            {currency !== settings.currency && (
+              <ExchangeRateField
+                amount={amount}
+                currency={currency}
+                baseCurrency={settings.currency}
+                rate={rate}
+                onRateChange={setRate}
+              />
+            )}
           </div>
 
           {/* Date */}
@@ -199,6 +319,47 @@ export function ExpenseEditDialog({
             </Select>
           </div>
 
+          {/* Account */}
+          {accounts.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-text-secondary">
+                {direction === 'income' ? 'Received in' : 'Paid with'}
+              </label>
+              <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+            </div>
+          )}
+
+          {/* Tags */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-text-secondary">
+              Tags
+            </label>
+            <TagInput value={tags} onChange={setTags} suggestions={tagSuggestions} />
+          </div>
+
+          {/* Receipts */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-text-secondary">
+              Receipts
+            </label>
+            <ReceiptPicker
+              value={attachments}
+              onChange={handleAttachmentsChange}
+              upload={upload}
+              isUploading={isUploading}
+            />
+          </div>
+
+          {direction === 'expense' && !splitsLoading && (
+            <SplitSection
+              total={applyExchangeRate(parseAmount(amount), currency, parseFloat(rate) || 0, settings.currency).amount}
+              currency={settings.currency}
+              groups={groups}
+              value={split}
+              onChange={setSplit}
+            />
+          )}
+
           {/* Description */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-text-secondary">
@@ -224,10 +385,10 @@ export function ExpenseEditDialog({
           </Button>
 
           <div className="flex gap-2">
-            <Button variant="outline" onClick={onClose}>
+            <Button variant="outline" onClick={handleClose}>
               Cancel
             </Button>
-            <Button onClick={handleSave} disabled={saving}>
+            <Button onClick={handleSave} disabled={saving || isUploading}>
               {saving ? 'Saving...' : 'Save Changes'}
             </Button>
           </div>
@@ -15,6 +15,8 @@ import {
 import { useExpenses, useCategories } from '@/context/ExpenseContext';
 import { useSettings } from '@/context/SettingsContext';
 import { useToast } from '@/hooks/useToast';
+import { useAccounts } from '@/hooks/useAccounts';
+import { AccountSelect } from '@/components/AccountSelect';
 import { formatCurrency, parseAmount, getToday, getCurrencySymbol } from '@/lib/utils';
 
 interface ExpenseFormProps {
@@ -32,11 +34,13 @@ export function ExpenseForm({ onSuccess, initialValues }: ExpenseFormProps) {
   const { categories } = useCategories();
   const { settings } = useSettings();
   const { toast } = useToast();
+  const { accounts } = useAccounts();
 
   const [amount, setAmount] = useState(initialValues?.amount?.toString() || '');
   const [date, setDate] = useState(initialValues?.date || getToday());
   const [category, setCategory] = useState(initialValues?.category || '');
   const [description, setDescription] = useState(initialValues?.description || '');
+  const [accountId, setAccountId] = useState('');
   const [saving, setSaving] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -68,6 +72,7 @@ export function ExpenseForm({ onSuccess, initialValues }: ExpenseFormProps) {
         date,
         category,
         description,
+        accountId: accountId || undefined,
       });
 
       toast({
@@ -170,6 +175,16 @@ export function ExpenseForm({ onSuccess, initialValues }: ExpenseFormProps) {
         </Select>
       </div>
 
+      {/* Account */}
+      {accounts.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-text-secondary">
+            Paid with <span className="text-text-muted">(optional)</span>
+          </label>
+          <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+        </div>
+      )}
+
       {/* Description */}
       <div className="space-y-2">
         <label className="text-sm font-medium text-text-secondary">
@@ -7,6 +7,7 @@ import { Expense, Category } from '@/types';
 import { ExpenseCard } from './ExpenseCard';
 import { SkeletonList } from './SkeletonList';
 import { cn, groupExpensesByDay } from '@/lib/utils';
+import { collectTags } from '@/lib/tags';
 import { listItemVariants, smoothSpring } from '@/lib/animations';
 
 const PAGE_SIZE = 100;
@@ -17,6 +18,7 @@ interface ExpenseListProps {
   loading?: boolean;
   onEdit: (expense: Expense) => void;
   onDelete: (id: string) => void;
+  showTagFilter?: boolean;
   className?: string;
 }
 
@@ -26,9 +28,23 @@ export function ExpenseList({
   loading,
   onEdit,
   onDelete,
+  showTagFilter = true,
   className,
 }: ExpenseListProps) {
   const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+
+  const availableTags = useMemo(
+    () => (showTagFilter ? collectTags(expenses) : []),
+    [expenses, showTagFilter]
+  );
+  // A tag that no longer appears in the list (e.g. after switching category) stops filtering
+  const activeTag = selectedTag && availableTags.includes(selectedTag) ? selectedTag : null;
+
+  const taggedExpenses = useMemo(() => {
+    if (!activeTag) return expenses;
+    return expenses.filter((e) => e.tags?.includes(activeTag));
+  }, [expenses, activeTag]);
 
   const categoryMap = useMemo(() => {
     const map = new Map<string, Category>();
@@ -41,15 +57,15 @@ export function ExpenseList({
   const getCategoryById = (id: string) => categoryMap.get(id);
 
   const visibleExpenses = useMemo(() => {
-    return expenses.slice(0, visibleCount);
-  }, [expenses, visibleCount]);
+    return taggedExpenses.slice(0, visibleCount);
+  }, [taggedExpenses, visibleCount]);
 
   const groupedExpenses = useMemo(() => {
     return groupExpensesByDay(visibleExpenses);
   }, [visibleExpenses]);
 
-  const hasMore = expenses.length > visibleCount;
-  const remainingCount = expenses.length - visibleCount;
+  const hasMore = taggedExpenses.length > visibleCount;
+  const remainingCount = taggedExpenses.length - visibleCount;
 
   const loadMore = useCallback(() => {
     setVisibleCount((prev) => prev + PAGE_SIZE);
@@ -84,6 +100,27 @@ export function ExpenseList({
 
   return (
     <div className={cn('space-y-6 md:space-y-8', className)}>
+      {/* Tag filter */}
+      {availableTags.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto no-scrollbar py-1 -mb-2">
+          {availableTags.map((tag) => (
+            <motion.button
+              key={tag}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setSelectedTag(activeTag === tag ? null : tag)}
+              className={cn(
+                'flex-shrink-0 px-3 py-1 rounded-full text-xs font-medium transition-all duration-200',
+                activeTag === tag
+                  ? 'glass-pill text-text-primary'
+                  : 'text-text-secondary hover:text-text-primary'
+              )}
+            >
+              #{tag}
+            </motion.button>
+          ))}
+        </div>
+      )}
+
       {groupedExpenses.map((group, groupIndex) => (
         <motion.div
           key={group.day}
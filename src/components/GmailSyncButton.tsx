@@ -2,7 +2,7 @@
 
 import { Mail, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { SyncProgress } from '@/hooks/useGmailSync';
+import { SyncProgress, formatParserHitRate } from '@/hooks/useGmailSync';
 
 interface GmailSyncButtonProps {
   isSyncing: boolean;
@@ -37,6 +37,7 @@ export function GmailSyncButton({ isSyncing, progress, onTrigger }: GmailSyncBut
       size="sm"
       onClick={onTrigger}
       disabled={isSyncing}
+      title={formatParserHitRate(progress) || undefined}
     >
       {isSyncing ? (
         <Loader2 className="w-4 h-4 animate-spin mr-1" />
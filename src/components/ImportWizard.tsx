@@ -1,8 +1,8 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { BookmarkPlus, ChevronDown, FileSpreadsheet, Loader2, Lock, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -26,15 +26,43 @@ import {
 import { useCategories } from '@/context/ExpenseContext';
 import { usePendingTransactions } from '@/context/TransactionsContext';
 import { useToast } from '@/hooks/useToast';
-import { parseCSV, detectColumnMapping, parseCsvTransactions } from '@/lib/csvParser';
-import { PendingTransaction } from '@/types';
+import { CsvColumnMapping, detectColumnMapping, parseCsvTransactions } from '@/lib/csvParser';
+import {
+  BUILT_IN_CSV_PROFILES,
+  CSV_DATE_FORMATS,
+  CSV_SIGN_CONVENTIONS,
+  createCsvProfile,
+  detectProfileAccount,
+  matchCsvProfile,
+  profileToMapping,
+  sliceCsv,
+} from '@/lib/csv-profiles';
+import {
+  detectStatementFormat,
+  parseStatementFile,
+  PDF_FILE_ACCEPT,
+  STATEMENT_FILE_ACCEPT,
+} from '@/lib/statementParser';
+import { CsvProfile, CsvSignConvention, CsvTransaction, DetectedAccount, ParsedStatement, PendingTransaction } from '@/types';
+import { useAccounts } from '@/hooks/useAccounts';
+import { AccountSelect } from '@/components/AccountSelect';
+import { defaultAccountName, findMatchingAccount, formatAccountLabel } from '@/lib/accounts';
 import { smoothSpring } from '@/lib/animations';
+import { formatDate } from '@/lib/utils';
 
 const CATEGORY_COLORS = [
   '#86EFAC', '#93C5FD', '#FED7AA', '#C4B5FD', '#FBCFE8',
   '#FEF08A', '#99F6E4', '#FDA4AF', '#A5B4FC', '#D9F99D',
 ];
 
+const NO_PROFILE = '_none';
+const DETECTED_ACCOUNT = '_detected';
+
+interface CsvLayout {
+  headerRowOffset: number;
+  footerPattern: string;
+}
+
 interface ImportWizardProps {
   open: boolean;
   onClose: () => void;
@@ -49,15 +77,46 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
   const [isProcessing, setIsProcessing] = useState(false);
 
   // CSV state
-  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
-  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [csvContent, setCsvContent] = useState('');
+  const [layout, setLayout] = useState<CsvLayout>({ headerRowOffset: 0, footerPattern: '' });
   const [csvFileName, setCsvFileName] = useState('');
+  const [fileName, setFileName] = useState('');
   const [columnMapping, setColumnMapping] = useState({
     date: -1,
     description: -1,
     amount: -1,
+    credit: -1,
     category: -1,
   });
+  const [dateFormat, setDateFormat] = useState('auto');
+  const [signConvention, setSignConvention] = useState<CsvSignConvention>('auto');
+  const [showLayout, setShowLayout] = useState(false);
+
+  // OFX/QIF/PDF statements come already structured, so there are no columns to map
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+
+  // Password-protected PDF waiting for its password
+  const [lockedPdf, setLockedPdf] = useState<File | null>(null);
+  const [pdfPassword, setPdfPassword] = useState('');
+  const [pdfPasswordError, setPdfPasswordError] = useState('');
+
+  // Bank profiles: saved ones first so they win over built-ins with the same headers
+  const [customProfiles, setCustomProfiles] = useState<CsvProfile[]>([]);
+  const [profileId, setProfileId] = useState<string>(NO_PROFILE);
+  const [saveProfileOpen, setSaveProfileOpen] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const allProfiles = useMemo(() => [...customProfiles, ...BUILT_IN_CSV_PROFILES], [customProfiles]);
+
+  // Account the import is tagged with; DETECTED_ACCOUNT is one the file names that isn't saved yet
+  const { accounts, addAccount } = useAccounts({ load: open });
+  const [accountId, setAccountId] = useState('');
+  const [detectedAccount, setDetectedAccount] = useState<DetectedAccount | null>(null);
+
+  const { headers: csvHeaders, rows: csvRows } = useMemo(
+    () => sliceCsv(csvContent, layout.headerRowOffset, layout.footerPattern),
+    [csvContent, layout]
+  );
 
   // Category mapping
   const [csvCategories, setCsvCategories] = useState<string[]>([]);
@@ -69,14 +128,39 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
 
   const csvInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    if (!open) return;
+    const loadProfiles = async () => {
+      try {
+        const res = await fetch('/api/drive?type=csv-profiles');
+        const data = await res.json();
+        if (res.ok) setCustomProfiles(data.profiles || []);
+      } catch (error) {
+        console.error('Error loading CSV profiles:', error);
+      }
+    };
+    loadProfiles();
+  }, [open]);
+
   const resetWizard = useCallback(() => {
     setStep(1);
-    setCsvHeaders([]);
-    setCsvRows([]);
-    setColumnMapping({ date: -1, description: -1, amount: -1, category: -1 });
+    setCsvContent('');
+    setLayout({ headerRowOffset: 0, footerPattern: '' });
+    setColumnMapping({ date: -1, description: -1, amount: -1, credit: -1, category: -1 });
+    setDateFormat('auto');
+    setSignConvention('auto');
+    setProfileId(NO_PROFILE);
+    setShowLayout(false);
     setCsvCategories([]);
     setCategoryMapping({});
     setCsvFileName('');
+    setFileName('');
+    setStatement(null);
+    setLockedPdf(null);
+    setPdfPassword('');
+    setPdfPasswordError('');
+    setAccountId('');
+    setDetectedAccount(null);
     setIsProcessing(false);
   }, []);
 
@@ -85,83 +169,217 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
     onClose();
   }, [resetWizard, onClose]);
 
-  const handleCsvSelect = useCallback(async (file: File) => {
-    setIsProcessing(true);
-    setCsvFileName(file.name.replace(/\.csv$/i, ''));
-    try {
-      const content = await file.text();
-      const { headers, rows } = parseCSV(content);
-      if (rows.length === 0) throw new Error('No data found in CSV');
+  // Show the file's own category names and auto-map the ones matching existing names
+  const loadFileCategories = useCallback((names: (string | undefined)[]) => {
+    const uniqueCats = Array.from(new Set(
+      names.map(name => name?.trim()).filter((name): name is string => !!name)
+    ));
+    setCsvCategories(uniqueCats);
+    const autoMapping: Record<string, string> = {};
+    for (const csvCat of uniqueCats) {
+      const match = categories.find(
+        c => c.name.toLowerCase().trim() === csvCat.toLowerCase().trim()
+      );
+      if (match) autoMapping[csvCat] = match.id;
+    }
+    setCategoryMapping(autoMapping);
+  }, [categories]);
 
-      setCsvHeaders(headers);
-      setCsvRows(rows);
+  const loadCsvCategories = useCallback((rows: string[][], catIndex: number) => {
+    loadFileCategories(catIndex === -1 ? [] : rows.map(row => row[catIndex]));
+  }, [loadFileCategories]);
 
-      const mapping = detectColumnMapping(headers);
-      const catIndex = mapping?.categoryIndex ?? -1;
+  const applyColumns = useCallback((headers: string[], rows: string[][], mapping: CsvColumnMapping | null) => {
+    const catIndex = mapping?.categoryIndex ?? -1;
+    setColumnMapping({
+      date: mapping?.dateIndex ?? 0,
+      description: mapping?.descriptionIndex ?? Math.min(1, headers.length - 1),
+      amount: mapping?.amountIndex ?? Math.min(2, headers.length - 1),
+      credit: mapping?.creditIndex ?? -1,
+      category: catIndex,
+    });
+    loadCsvCategories(rows, catIndex);
+  }, [loadCsvCategories]);
 
-      setColumnMapping({
-        date: mapping?.dateIndex ?? 0,
-        description: mapping?.descriptionIndex ?? Math.min(1, headers.length - 1),
-        amount: mapping?.amountIndex ?? Math.min(2, headers.length - 1),
-        category: catIndex,
-      });
+  // Preselect the saved account a file names, or offer to add it when it has card/account digits
+  const selectDetectedAccount = useCallback((detected: DetectedAccount | undefined) => {
+    const match = detected && findMatchingAccount(accounts, detected);
+    const addable = !match && !!detected?.last4;
+    setDetectedAccount(addable ? detected! : null);
+    setAccountId(match ? match.id : addable ? DETECTED_ACCOUNT : '');
+  }, [accounts]);
 
-      if (catIndex !== -1) {
-        const uniqueCats = Array.from(new Set(
-          rows.map(row => row[catIndex]?.trim()).filter(Boolean)
-        ));
-        setCsvCategories(uniqueCats);
-        const autoMapping: Record<string, string> = {};
-        for (const csvCat of uniqueCats) {
-          const match = categories.find(
-            c => c.name.toLowerCase().trim() === csvCat.toLowerCase().trim()
-          );
-          if (match) autoMapping[csvCat] = match.id;
-        }
-        setCategoryMapping(autoMapping);
+  // Switch to a bank profile (or back to guessing columns) for the loaded file
+  const applyProfile = useCallback((content: string, profile: CsvProfile | null, headerRowOffset?: number) => {
+    const nextLayout: CsvLayout = profile
+      ? { headerRowOffset: headerRowOffset ?? profile.headerRowOffset, footerPattern: profile.footerPattern || '' }
+      : { headerRowOffset: headerRowOffset ?? 0, footerPattern: '' };
+    const { headers, rows } = sliceCsv(content, nextLayout.headerRowOffset, nextLayout.footerPattern);
+    const mapping = (profile && profileToMapping(profile, headers)) || detectColumnMapping(headers);
+
+    setLayout(nextLayout);
+    setProfileId(profile?.id || NO_PROFILE);
+    if (profile?.accountId) {
+      setDetectedAccount(null);
+      setAccountId(profile.accountId);
+    } else {
+      selectDetectedAccount(profile ? detectProfileAccount(content, profile, nextLayout.headerRowOffset) : undefined);
+    }
+    setDateFormat(mapping?.dateFormat || 'auto');
+    setSignConvention(mapping?.signConvention || 'auto');
+    applyColumns(headers, rows, mapping);
+    return rows.length;
+  }, [applyColumns, selectDetectedAccount]);
+
+  const handleCsvSelect = useCallback((content: string) => {
+    const match = matchCsvProfile(content, allProfiles);
+    const rowCount = applyProfile(content, match?.profile || null, match?.headerRowOffset);
+    if (rowCount === 0) throw new Error('No data found in CSV');
+
+    setStatement(null);
+    setCsvContent(content);
+  }, [allProfiles, applyProfile]);
+
+  const handleProfileChange = useCallback((id: string) => {
+    const profile = allProfiles.find(p => p.id === id) || null;
+    // Keep looking for the profile's headers in case this file's preamble is a different length
+    const offset = profile ? matchCsvProfile(csvContent, [profile])?.headerRowOffset : undefined;
+    applyProfile(csvContent, profile, offset);
+  }, [allProfiles, csvContent, applyProfile]);
+
+  const handleLayoutChange = useCallback((next: CsvLayout) => {
+    setLayout(next);
+    const { headers, rows } = sliceCsv(csvContent, next.headerRowOffset, next.footerPattern);
+    const profile = allProfiles.find(p => p.id === profileId);
+    applyColumns(headers, rows, (profile && profileToMapping(profile, headers)) || detectColumnMapping(headers));
+  }, [csvContent, allProfiles, profileId, applyColumns]);
+
+  // Statement PDFs are read on the server; protected ones come back asking for the password
+  const extractPdf = useCallback(async (file: File, password?: string) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (password) formData.append('password', password);
+
+    const res = await fetch('/api/pdf', { method: 'POST', body: formData });
+    const result = await res.json();
+    if (result.passwordRequired) {
+      setLockedPdf(file);
+      setPdfPasswordError(password ? result.error : '');
+      return;
+    }
+    if (!res.ok) throw new Error(result.error || 'Failed to read PDF');
+
+    setLockedPdf(null);
+    setPdfPassword('');
+    setStatement({ format: 'pdf', accounts: result.accounts, transactions: result.transactions, detectedAccount: result.detectedAccount });
+    selectDetectedAccount(result.detectedAccount);
+    setCategoryMapping({});
+    setCsvCategories([]);
+    setStep(2);
+  }, [selectDetectedAccount]);
+
+  const handleFileSelect = useCallback(async (file: File) => {
+    setIsProcessing(true);
+    try {
+      const content = await file.text();
+      const format = detectStatementFormat(file, content);
+      if (!format) {
+        toast({ title: 'Invalid file', description: 'Please select a CSV, OFX, QFX, QIF or PDF file', variant: 'destructive' });
+        return;
+      }
+
+      setFileName(file.name);
+      setCsvFileName(file.name.replace(/\.[^.]+$/, ''));
+      setLockedPdf(null);
+      if (format === 'pdf') {
+        await extractPdf(file);
+        return;
+      }
+      if (format === 'csv') {
+        handleCsvSelect(content);
+      } else {
+        const parsed = parseStatementFile(format, content, file.name);
+        setStatement(parsed);
+        selectDetectedAccount(parsed.detectedAccount);
+        loadFileCategories(parsed.transactions.map(t => t.category));
       }
       setStep(2);
     } catch (err) {
       toast({
         title: 'Error',
-        description: err instanceof Error ? err.message : 'Failed to parse CSV',
+        description: err instanceof Error ? err.message : 'Failed to read file',
         variant: 'destructive'
       });
     } finally {
       setIsProcessing(false);
     }
-  }, [toast, categories]);
+  }, [handleCsvSelect, loadFileCategories, extractPdf, selectDetectedAccount, toast]);
 
-  const handleFileSelect = useCallback(async (file: File) => {
-    if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
-      await handleCsvSelect(file);
-    } else {
-      toast({ title: 'Invalid file', description: 'Please select a CSV file', variant: 'destructive' });
+  const handleUnlockPdf = useCallback(async () => {
+    if (!lockedPdf || !pdfPassword) return;
+    setIsProcessing(true);
+    try {
+      await extractPdf(lockedPdf, pdfPassword);
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to read PDF',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsProcessing(false);
     }
-  }, [handleCsvSelect, toast]);
+  }, [lockedPdf, pdfPassword, extractPdf, toast]);
 
   const handleColumnChange = useCallback((key: string, value: number) => {
     setColumnMapping(prev => ({ ...prev, [key]: value }));
-    if (key === 'category') {
-      if (value === -1) {
-        setCsvCategories([]);
-        setCategoryMapping({});
-      } else {
-        const uniqueCats = Array.from(new Set(
-          csvRows.map(row => row[value]?.trim()).filter(Boolean)
-        ));
-        setCsvCategories(uniqueCats);
-        const autoMapping: Record<string, string> = {};
-        for (const csvCat of uniqueCats) {
-          const match = categories.find(
-            c => c.name.toLowerCase().trim() === csvCat.toLowerCase().trim()
-          );
-          if (match) autoMapping[csvCat] = match.id;
-        }
-        setCategoryMapping(autoMapping);
-      }
+    if (key === 'category') loadCsvCategories(csvRows, value);
+  }, [csvRows, loadCsvCategories]);
+
+  const currentMapping = useCallback((): CsvColumnMapping => ({
+    dateIndex: columnMapping.date,
+    descriptionIndex: columnMapping.description,
+    amountIndex: columnMapping.amount,
+    creditIndex: columnMapping.credit !== -1 ? columnMapping.credit : undefined,
+    categoryIndex: columnMapping.category !== -1 ? columnMapping.category : undefined,
+    dateFormat,
+    signConvention,
+  }), [columnMapping, dateFormat, signConvention]);
+
+  const handleSaveProfile = useCallback(async () => {
+    if (!profileName.trim()) return;
+    setIsSavingProfile(true);
+    try {
+      const profile: CsvProfile = {
+        ...createCsvProfile(profileName, csvHeaders, currentMapping(), layout),
+        accountId: accountId && accountId !== DETECTED_ACCOUNT ? accountId : undefined,
+      };
+      const res = await fetch('/api/drive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'csv-profile', data: profile }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || 'Failed to save profile');
+
+      const saved: CsvProfile = result.profile;
+      setCustomProfiles(prev => [
+        ...prev.filter(p => p.id !== saved.id && p.name.toLowerCase() !== saved.name.toLowerCase()),
+        saved,
+      ]);
+      setProfileId(saved.id);
+      setSaveProfileOpen(false);
+      toast({ title: 'Profile saved', description: `"${saved.name}" will be recognised next time`, variant: 'success' });
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to save profile',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSavingProfile(false);
     }
-  }, [csvRows, categories]);
+  }, [profileName, csvHeaders, currentMapping, layout, accountId, toast]);
 
   const handleCreateCategory = useCallback(async () => {
     if (!newCategoryName.trim() || !creatingCategoryFor) return;
@@ -182,23 +400,24 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
   }, [newCategoryName, newCategoryColor, creatingCategoryFor, addCategory, toast]);
 
   const handleImport = useCallback(async () => {
-    if (columnMapping.description === -1 || columnMapping.amount === -1) {
+    if (!statement && (columnMapping.description === -1 || columnMapping.amount === -1)) {
       toast({ title: 'Required', description: 'Please map Description and Amount columns', variant: 'destructive' });
       return;
     }
     setIsProcessing(true);
     try {
-      const parsed = parseCsvTransactions(csvRows, {
-        dateIndex: columnMapping.date,
-        descriptionIndex: columnMapping.description,
-        amountIndex: columnMapping.amount,
-        categoryIndex: columnMapping.category !== -1 ? columnMapping.category : undefined,
-      });
+      const parsed: CsvTransaction[] = statement?.transactions || parseCsvTransactions(csvRows, currentMapping());
       if (parsed.length === 0) {
         toast({ title: 'No transactions', description: 'Could not parse any transactions', variant: 'destructive' });
         setIsProcessing(false);
         return;
       }
+      // An account found in the file is only saved once the import goes ahead
+      // (accounts may have finished loading since, so it's matched once more)
+      const importAccountId = accountId === DETECTED_ACCOUNT && detectedAccount
+        ? (findMatchingAccount(accounts, detectedAccount) ||
+          await addAccount({ ...detectedAccount, name: defaultAccountName(detectedAccount) })).id
+        : accountId || undefined;
       const pendingTransactions: Omit<PendingTransaction, 'id' | 'createdAt'>[] = parsed.map(t => {
         let category: string | undefined;
         if (t.category) {
@@ -213,13 +432,18 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
           amount: t.amount,
           category,
           status: 'uncategorized' as const,
-          source: csvFileName || undefined,
+          source: t.source || csvFileName || undefined,
+          direction: t.direction,
+          externalId: t.externalId,
+          accountId: importAccountId,
         };
       });
-      await addPendingTransactions(pendingTransactions);
+      const added = await addPendingTransactions(pendingTransactions);
+      const skipped = pendingTransactions.length - added;
       toast({
         title: 'Import complete',
-        description: `${pendingTransactions.length} transactions added for review`,
+        description: `${added} transactions added for review` +
+          (skipped > 0 ? `, ${skipped} already imported skipped` : ''),
         variant: 'success'
       });
       handleClose();
@@ -232,12 +456,16 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
     } finally {
       setIsProcessing(false);
     }
-  }, [columnMapping, csvRows, categoryMapping, csvFileName, addPendingTransactions, toast, handleClose]);
+  }, [statement, columnMapping, csvRows, currentMapping, categoryMapping, csvFileName, accounts, accountId, detectedAccount, addAccount, addPendingTransactions, toast, handleClose]);
+
+  const rowCount = statement ? statement.transactions.length : csvRows.length;
+  const statementDates = statement?.transactions.map(t => t.date).sort() || [];
 
   const columnFields = [
     { key: 'date', label: 'Date Column' },
     { key: 'description', label: 'Description Column *' },
-    { key: 'amount', label: 'Amount Column *' },
+    { key: 'amount', label: columnMapping.credit !== -1 ? 'Money Out Column *' : 'Amount Column *' },
+    { key: 'credit', label: 'Money In Column', optional: true },
     { key: 'category', label: 'Category Column', optional: true },
   ];
 
@@ -246,7 +474,7 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
       <DialogContent className="max-w-md w-[95vw]">
         <DialogHeader>
           <DialogTitle>
-            {step === 1 ? 'Import Transactions' : 'Map Columns'}
+            {step === 1 ? 'Import Transactions' : statement ? 'Review Statement' : 'Map Columns'}
           </DialogTitle>
         </DialogHeader>
 
@@ -271,7 +499,7 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
                 <input
                   ref={csvInputRef}
                   type="file"
-                  accept=".csv,text/csv"
+                  accept={`${STATEMENT_FILE_ACCEPT},${PDF_FILE_ACCEPT}`}
                   onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
                   className="hidden"
                 />
@@ -281,10 +509,37 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
                   <FileSpreadsheet className="w-8 h-8 mx-auto mb-3 text-text-muted" />
                 )}
                 <p className="text-sm font-medium text-text-primary">
-                  {isProcessing ? 'Processing...' : 'Drop CSV or click to browse'}
+                  {isProcessing ? 'Processing...' : 'Drop a statement or click to browse'}
                 </p>
-                <p className="text-xs text-text-muted mt-1">Bank statement exports</p>
+                <p className="text-xs text-text-muted mt-1">CSV, OFX/QFX, QIF or PDF bank statements</p>
               </motion.div>
+
+              {/* Password prompt for protected PDFs */}
+              {lockedPdf && (
+                <div className="glass-card p-3 mt-3 space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Lock className="w-4 h-4 text-text-secondary flex-shrink-0" />
+                    <span className="text-text-primary truncate">{lockedPdf.name} is password protected</span>
+                  </div>
+                  <form
+                    onSubmit={(e) => { e.preventDefault(); handleUnlockPdf(); }}
+                    className="flex gap-2"
+                  >
+                    <Input
+                      type="password"
+                      value={pdfPassword}
+                      onChange={(e) => setPdfPassword(e.target.value)}
+                      placeholder="PDF password"
+                      className="h-9 text-sm flex-1"
+                      autoFocus
+                    />
+                    <Button type="submit" size="sm" disabled={isProcessing || !pdfPassword} className="h-9">
+                      {isProcessing ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Unlock'}
+                    </Button>
+                  </form>
+                  {pdfPasswordError && <p className="text-xs text-red-500">{pdfPasswordError}</p>}
+                </div>
+              )}
             </motion.div>
           )}
 
@@ -301,39 +556,201 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
               {/* File info */}
               <div className="flex items-center gap-2 px-3 py-2 rounded-lg glass-pill text-sm">
                 <FileSpreadsheet className="w-4 h-4 text-text-secondary flex-shrink-0" />
-                <span className="text-text-primary font-medium truncate">{csvFileName}.csv</span>
-                <span className="text-text-muted ml-auto flex-shrink-0">{csvRows.length} rows</span>
+                <span className="text-text-primary font-medium truncate">{fileName}</span>
+                <span className="text-text-muted ml-auto flex-shrink-0">{rowCount} rows</span>
               </div>
 
-              {/* Column mapping */}
-              <div className="space-y-3">
-                {columnFields.map(({ key, label, optional }) => (
-                  <div key={key} className="flex items-center gap-3">
-                    <label className="text-sm text-text-secondary w-36 flex-shrink-0">{label}</label>
-                    <Select
-                      value={columnMapping[key as keyof typeof columnMapping].toString()}
-                      onValueChange={(v) => handleColumnChange(key, parseInt(v))}
-                    >
+              {/* Statement summary */}
+              {statement && (
+                <div className="glass-card divide-y divide-[var(--glass-separator)] text-sm">
+                  <div className="flex justify-between px-3 py-2">
+                    <span className="text-text-secondary">{statement.accounts.length === 1 ? 'Account' : 'Accounts'}</span>
+                    <span className="text-text-primary truncate ml-3">{statement.accounts.join(', ') || 'Unknown'}</span>
+                  </div>
+                  <div className="flex justify-between px-3 py-2">
+                    <span className="text-text-secondary">Transactions</span>
+                    <span className="text-text-primary">{statement.transactions.length}</span>
+                  </div>
+                  <div className="flex justify-between px-3 py-2">
+                    <span className="text-text-secondary">Dates</span>
+                    <span className="text-text-primary">
+                      {formatDate(statementDates[0])} – {formatDate(statementDates[statementDates.length - 1])}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {/* Account */}
+              <div className="flex items-center gap-3">
+                <label className="text-sm text-text-secondary w-36 flex-shrink-0">Paid With</label>
+                <div className="flex-1 min-w-0">
+                  <AccountSelect
+                    accounts={accounts}
+                    value={accountId}
+                    onChange={setAccountId}
+                    className="h-9 text-sm"
+                    extraOption={detectedAccount ? {
+                      value: DETECTED_ACCOUNT,
+                      label: `New: ${formatAccountLabel({ name: defaultAccountName(detectedAccount), last4: detectedAccount.last4 })}`,
+                    } : undefined}
+                  />
+                </div>
+              </div>
+
+              {!statement && (
+                <>
+                  {/* Bank profile */}
+                  <div className="flex items-center gap-3">
+                    <label className="text-sm text-text-secondary w-36 flex-shrink-0">Bank Format</label>
+                    <Select value={profileId} onValueChange={handleProfileChange}>
                       <SelectTrigger className="h-9 text-sm flex-1">
-                        <SelectValue placeholder={optional ? 'None' : 'Select'} />
+                        <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {optional && <SelectItem value="-1">None</SelectItem>}
-                        {csvHeaders.map((h, i) => (
-                          <SelectItem key={i} value={i.toString()}>
-                            {h || `Column ${i + 1}`}
-                          </SelectItem>
+                        <SelectItem value={NO_PROFILE}>Generic (guess columns)</SelectItem>
+                        {allProfiles.map(p => (
+                          <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
+                    <Popover open={saveProfileOpen} onOpenChange={setSaveProfileOpen}>
+                      <PopoverTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-9 w-9 flex-shrink-0"
+                          title="Save this mapping as a bank format"
+                          onClick={() => setProfileName(customProfiles.find(p => p.id === profileId)?.name || csvFileName)}
+                        >
+                          <BookmarkPlus className="w-4 h-4" />
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent align="end" className="w-56 p-3">
+                        <p className="text-sm font-medium mb-1">Save Bank Format</p>
+                        <p className="text-xs text-text-muted mb-2">Files with these headers will be mapped like this next time.</p>
+                        <Input
+                          value={profileName}
+                          onChange={(e) => setProfileName(e.target.value)}
+                          placeholder="e.g. HDFC Credit Card"
+                          className="h-8 text-sm mb-2"
+                          autoFocus
+                        />
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="ghost" onClick={() => setSaveProfileOpen(false)} className="flex-1 h-7">
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={handleSaveProfile}
+                            disabled={isSavingProfile || !profileName.trim()}
+                            className="flex-1 h-7"
+                          >
+                            {isSavingProfile ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Save'}
+                          </Button>
+                        </div>
+                      </PopoverContent>
+                    </Popover>
                   </div>
-                ))}
-              </div>
+
+                  {/* Column mapping */}
+                  <div className="space-y-3">
+                    {columnFields.map(({ key, label, optional }) => (
+                      <div key={key} className="flex items-center gap-3">
+                        <label className="text-sm text-text-secondary w-36 flex-shrink-0">{label}</label>
+                        <Select
+                          value={columnMapping[key as keyof typeof columnMapping].toString()}
+                          onValueChange={(v) => handleColumnChange(key, parseInt(v))}
+                        >
+                          <SelectTrigger className="h-9 text-sm flex-1">
+                            <SelectValue placeholder={optional ? 'None' : 'Select'} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {optional && <SelectItem value="-1">None</SelectItem>}
+                            {csvHeaders.map((h, i) => (
+                              <SelectItem key={i} value={i.toString()}>
+                                {h || `Column ${i + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+
+                    <div className="flex items-center gap-3">
+                      <label className="text-sm text-text-secondary w-36 flex-shrink-0">Date Format</label>
+                      <Select value={dateFormat} onValueChange={setDateFormat}>
+                        <SelectTrigger className="h-9 text-sm flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CSV_DATE_FORMATS.map(f => (
+                            <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {columnMapping.credit === -1 && (
+                      <div className="flex items-center gap-3">
+                        <label className="text-sm text-text-secondary w-36 flex-shrink-0">Amount Signs</label>
+                        <Select value={signConvention} onValueChange={(v) => setSignConvention(v as CsvSignConvention)}>
+                          <SelectTrigger className="h-9 text-sm flex-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CSV_SIGN_CONVENTIONS.map(c => (
+                              <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Statement layout: preamble and footer rows */}
+                  <div>
+                    <button
+                      type="button"
+                      onClick={() => setShowLayout(v => !v)}
+                      className="flex items-center gap-1 text-xs font-medium text-text-secondary hover:text-text-primary"
+                    >
+                      <ChevronDown className={`w-3 h-3 transition-transform ${showLayout ? 'rotate-180' : ''}`} />
+                      Statement layout
+                    </button>
+                    {showLayout && (
+                      <div className="space-y-3 mt-3">
+                        <div className="flex items-center gap-3">
+                          <label className="text-sm text-text-secondary w-36 flex-shrink-0">Rows Before Header</label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={layout.headerRowOffset}
+                            onChange={(e) => handleLayoutChange({
+                              ...layout,
+                              headerRowOffset: Math.max(0, parseInt(e.target.value) || 0),
+                            })}
+                            className="h-9 text-sm flex-1"
+                          />
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <label className="text-sm text-text-secondary w-36 flex-shrink-0">Footer Starts At</label>
+                          <Input
+                            value={layout.footerPattern}
+                            onChange={(e) => handleLayoutChange({ ...layout, footerPattern: e.target.value })}
+                            placeholder="e.g. Statement Summary"
+                            className="h-9 text-sm flex-1"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
 
               {/* Category mapping */}
               {csvCategories.length > 0 && (
                 <div className="space-y-2">
-                  <p className="text-xs font-medium text-text-secondary">Map CSV Categories</p>
+                  <p className="text-xs font-medium text-text-secondary">Map File Categories</p>
                   <div className="glass-card divide-y divide-[var(--glass-separator)]">
                     {csvCategories.map(csvCat => (
                       <div key={csvCat} className="flex items-center justify-between px-3 py-2">
@@ -426,7 +843,7 @@ export function ImportWizard({ open, onClose }: ImportWizardProps) {
                   ) : (
                     <>
                       <Upload className="w-4 h-4 mr-2" />
-                      Import {csvRows.length} Rows
+                      Import {rowCount} Rows
                     </>
                   )}
                 </Button>
@@ -2,14 +2,17 @@
 
 import { motion } from 'framer-motion';
 import { ChevronRight } from 'lucide-react';
-import { CategoryBreakdown } from '@/types';
+import { CategoryBreakdown, BudgetProgress } from '@/types';
 import { formatCurrency, formatMonthYear, cn } from '@/lib/utils';
+import { getBudgetLevel, getBudgetColor } from '@/lib/budgets';
 import { useSettings } from '@/context/SettingsContext';
 
 interface MonthlyCardProps {
   month: string;
   total: number;
+  income?: number;
   breakdown: CategoryBreakdown[];
+  budget?: { categories: BudgetProgress[]; overall: BudgetProgress | null };
   onClick: () => void;
   className?: string;
 }
@@ -17,12 +20,17 @@ interface MonthlyCardProps {
 export function MonthlyCard({
   month,
   total,
+  income = 0,
   breakdown,
+  budget,
   onClick,
   className,
 }: MonthlyCardProps) {
   const { settings } = useSettings();
   const topCategories = breakdown.slice(0, 4);
+  const net = income - total;
+  const overall = budget?.overall;
+  const overBudgetCount = budget?.categories.filter((b) => b.ratio >= 1).length || 0;
 
   return (
     <motion.button
@@ -46,6 +54,48 @@ export function MonthlyCard({
         </div>
       </div>
 
+      {/* Net cash flow */}
+      {income > 0 && (
+        <div className="flex items-center justify-between text-xs mb-4">
+          <span className="text-text-secondary">
+            Income{' '}
+            <span className="font-mono text-green-600">
+              +{formatCurrency(income, settings.currency)}
+            </span>
+          </span>
+          <span className="text-text-secondary">
+            Net{' '}
+            <span className={cn('font-mono font-medium', net >= 0 ? 'text-green-600' : 'text-red-500')}>
+              {net >= 0 ? '+' : ''}{formatCurrency(net, settings.currency)}
+            </span>
+          </span>
+        </div>
+      )}
+
+      {/* Overall budget progress */}
+      {overall && (
+        <div className="mb-4">
+          <div className="h-1.5 bg-surface-hover rounded-full overflow-hidden mb-1">
+            <div
+              className="h-full rounded-full transition-all"
+              style={{
+                width: `${Math.min(overall.ratio, 1) * 100}%`,
+                backgroundColor: getBudgetColor(getBudgetLevel(overall.ratio)),
+              }}
+            />
+          </div>
+          <p className="text-xs text-text-muted">
+            {Math.round(overall.ratio * 100)}% of {formatCurrency(overall.budget, settings.currency)} budget
+          </p>
+        </div>
+      )}
+
+      {overBudgetCount > 0 && (
+        <p className="text-xs font-medium text-red-500 mb-3">
+          {overBudgetCount} {overBudgetCount === 1 ? 'category' : 'categories'} over budget
+        </p>
+      )}
+
       {/* Category breakdown bar */}
       {topCategories.length > 0 && (
         <>
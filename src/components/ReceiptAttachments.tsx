@@ -0,0 +1,192 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, ExternalLink, FileText, Loader2, Paperclip, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/useToast';
+import { ATTACHMENT_TYPES, ExpenseAttachment } from '@/types';
+import { cn } from '@/lib/utils';
+
+export function getAttachmentUrl(attachment: ExpenseAttachment, thumbnail = false): string {
+  return `/api/attachments?id=${encodeURIComponent(attachment.id)}${thumbnail ? '&thumbnail=1' : ''}`;
+}
+
+const isImage = (attachment: ExpenseAttachment) => attachment.mimeType.startsWith('image/');
+
+interface ReceiptThumbnailProps {
+  attachment: ExpenseAttachment;
+  className?: string;
+}
+
+/** Small preview: Drive thumbnail for images, an icon for PDFs */
+export function ReceiptThumbnail({ attachment, className }: ReceiptThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+
+  if (!isImage(attachment) || failed) {
+    return (
+      <div className={cn('flex items-center justify-center bg-surface-hover text-text-muted', className)}>
+        <FileText className="w-4 h-4" />
+      </div>
+    );
+  }
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={getAttachmentUrl(attachment, true)}
+      alt={attachment.name}
+      loading="lazy"
+      onError={() => setFailed(true)}
+      className={cn('object-cover bg-surface-hover', className)}
+    />
+  );
+}
+
+interface ReceiptViewerProps {
+  attachments: ExpenseAttachment[];
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+}
+
+/** Full-size viewer with paging between an expense's receipts */
+export function ReceiptViewer({ attachments, index, onIndexChange }: ReceiptViewerProps) {
+  const current = index !== null ? attachments[index] : undefined;
+
+  return (
+    <Dialog open={!!current} onOpenChange={(open) => !open && onIndexChange(null)}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-8">{current?.name || 'Receipt'}</DialogTitle>
+        </DialogHeader>
+
+        {current && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-center rounded-xl overflow-hidden bg-surface-hover min-h-[300px]">
+              {isImage(current) ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={getAttachmentUrl(current)}
+                  alt={current.name}
+                  className="max-h-[70vh] w-auto object-contain"
+                />
+              ) : (
+                <iframe
+                  src={getAttachmentUrl(current)}
+                  title={current.name}
+                  className="w-full h-[70vh]"
+                />
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={index === 0}
+                onClick={() => index !== null && onIndexChange(index - 1)}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <a
+                href={getAttachmentUrl(current)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1.5 text-sm text-text-secondary hover:text-text-primary"
+              >
+                <ExternalLink className="w-3.5 h-3.5" />
+                Open
+                {attachments.length > 1 && ` · ${(index ?? 0) + 1} of ${attachments.length}`}
+              </a>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={index === attachments.length - 1}
+                onClick={() => index !== null && onIndexChange(index + 1)}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ReceiptPickerProps {
+  value: ExpenseAttachment[];
+  onChange: (attachments: ExpenseAttachment[]) => void;
+  upload: (file: File) => Promise<ExpenseAttachment>;
+  isUploading: boolean;
+}
+
+/** Attach photos or PDFs from the add/edit dialogs */
+export function ReceiptPicker({ value, onChange, upload, isUploading }: ReceiptPickerProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const uploaded: ExpenseAttachment[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        uploaded.push(await upload(file));
+      } catch (error) {
+        toast({
+          title: 'Upload failed',
+          description: error instanceof Error ? error.message : `Could not upload ${file.name}`,
+          variant: 'destructive',
+        });
+      }
+    }
+    if (uploaded.length > 0) onChange([...value, ...uploaded]);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {value.map((attachment, i) => (
+          <div key={attachment.id} className="relative">
+            <button type="button" onClick={() => setViewerIndex(i)}>
+              <ReceiptThumbnail attachment={attachment} className="w-14 h-14 rounded-lg" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((a) => a.id !== attachment.id))}
+              className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-surface border border-border flex items-center justify-center text-text-muted hover:text-error"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={isUploading}
+          className="flex items-center gap-2 h-14 px-3 rounded-lg border border-dashed border-border text-sm text-text-secondary hover:text-text-primary transition-colors disabled:opacity-50"
+        >
+          {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Paperclip className="w-4 h-4" />}
+          {isUploading ? 'Uploading...' : 'Attach receipt'}
+        </button>
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ATTACHMENT_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <ReceiptViewer attachments={value} index={viewerIndex} onIndexChange={setViewerIndex} />
+    </div>
+  );
+}
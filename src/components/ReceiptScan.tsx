@@ -0,0 +1,125 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Check, ChevronDown, Loader2, ScanLine } from 'lucide-react';
+import { useToast } from '@/hooks/useToast';
+import { CurrencyCode, ParsedReceipt, ReceiptConfidence } from '@/types';
+import { formatCurrency, cn } from '@/lib/utils';
+
+interface ReceiptScanButtonProps {
+  onScanned: (receipt: ParsedReceipt, file: File) => void;
+  disabled?: boolean;
+}
+
+/** "Scan receipt" action: sends a photo or PDF to the OCR endpoint */
+export function ReceiptScanButton({ onScanned, disabled }: ReceiptScanButtonProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [scanning, setScanning] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setScanning(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await fetch('/api/receipt', { method: 'POST', body: formData });
+      const result = await res.json();
+      if (!res.ok || result.error) {
+        throw new Error(result.error || 'Failed to scan receipt');
+      }
+      onScanned(result.receipt as ParsedReceipt, file);
+    } catch (error) {
+      toast({
+        title: 'Scan failed',
+        description: error instanceof Error ? error.message : 'Could not read the receipt',
+        variant: 'destructive',
+      });
+    } finally {
+      setScanning(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || scanning}
+        className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl border border-dashed border-border text-sm text-text-secondary hover:text-text-primary hover:bg-surface-hover transition-colors disabled:opacity-50"
+      >
+        {scanning ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanLine className="w-4 h-4" />}
+        {scanning ? 'Reading receipt...' : 'Scan receipt'}
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*,application/pdf"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+    </>
+  );
+}
+
+/** Inline marker next to a field label showing how sure the scan was */
+export function ScanHint({ level }: { level: ReceiptConfidence | undefined }) {
+  if (!level) return null;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 ml-2 text-xs font-normal',
+        level === 'high' ? 'text-text-muted' : 'text-warning'
+      )}
+    >
+      {level === 'high' && <Check className="w-3 h-3" />}
+      {level === 'high' ? 'from receipt' : level === 'medium' ? 'check this' : 'not sure, please check'}
+    </span>
+  );
+}
+
+interface ReceiptLineItemsProps {
+  receipt: ParsedReceipt;
+  currency: CurrencyCode;
+}
+
+/** Collapsible list of the items read from the receipt */
+export function ReceiptLineItems({ receipt, currency }: ReceiptLineItemsProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (receipt.lineItems.length === 0) return null;
+
+  return (
+    <div className="rounded-xl bg-surface-hover/60 px-3 py-2">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs text-text-secondary"
+      >
+        <span>
+          {receipt.merchant || 'Receipt'} · {receipt.lineItems.length}{' '}
+          {receipt.lineItems.length === 1 ? 'item' : 'items'}
+        </span>
+        <ChevronDown className={cn('w-3.5 h-3.5 transition-transform', expanded && 'rotate-180')} />
+      </button>
+      {expanded && (
+        <div className="mt-2 space-y-1">
+          {receipt.lineItems.map((item, i) => (
+            <div key={i} className="flex items-center justify-between text-xs">
+              <span className="text-text-primary truncate">
+                {item.quantity && item.quantity !== 1 ? `${item.quantity} × ` : ''}
+                {item.description}
+              </span>
+              <span className="text-text-secondary font-mono ml-2 flex-shrink-0">
+                {formatCurrency(item.amount, currency)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
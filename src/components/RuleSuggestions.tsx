@@ -0,0 +1,134 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Check, Loader2, Wand2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCategories } from '@/context/ExpenseContext';
+import { usePendingTransactions } from '@/context/TransactionsContext';
+import { useToast } from '@/hooks/useToast';
+import { CategorizationExample, RuleSuggestion, suggestRules } from '@/lib/rule-suggestions';
+
+const DISMISSED_KEY = 'expense-tracker-dismissed-rule-suggestions';
+const MAX_SHOWN = 3;
+
+interface RuleSuggestionsProps {
+  localCategories?: Map<string, string>; // Unsaved category picks on the transactions page
+}
+
+/**
+ * Proposes rules for merchants the user keeps categorizing by hand, one click to accept
+ */
+export function RuleSuggestions({ localCategories }: RuleSuggestionsProps) {
+  const { categories } = useCategories();
+  const { pendingTransactions, rules, addRule } = usePendingTransactions();
+  const { toast } = useToast();
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [accepting, setAccepting] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(DISMISSED_KEY) || '[]');
+      if (Array.isArray(stored)) {
+        setDismissed(stored.filter((key): key is string => typeof key === 'string'));
+      }
+    } catch {
+      // Unreadable list, show everything again
+    }
+  }, []);
+
+  const suggestions = useMemo(() => {
+    const examples: CategorizationExample[] = [];
+
+    // Only manual picks (saved or not yet) and AI suggestions; confirmed expenses
+    // don't record how they were categorized, so rule-made ones would be learned again
+    for (const t of pendingTransactions) {
+      if (t.status === 'ignored') continue;
+      const category = localCategories?.get(t.id) ||
+        (t.categorySource === 'manual' || t.categorySource === 'ai' ? t.category : undefined);
+      if (category) {
+        examples.push({ description: t.originalDescription ?? t.description, category, amount: t.amount, date: t.date });
+      }
+    }
+
+    return suggestRules(examples, rules, dismissed).slice(0, MAX_SHOWN);
+  }, [pendingTransactions, localCategories, rules, dismissed]);
+
+  const dismiss = (key: string) => {
+    const next = [...dismissed, key];
+    setDismissed(next);
+    localStorage.setItem(DISMISSED_KEY, JSON.stringify(next));
+  };
+
+  const accept = async (suggestion: RuleSuggestion) => {
+    setAccepting(suggestion.key);
+    try {
+      await addRule(suggestion.rule);
+      toast({
+        title: 'Rule created',
+        description: `"${suggestion.merchant}" will be categorized automatically`,
+        variant: 'success',
+      });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to create rule', variant: 'destructive' });
+    } finally {
+      setAccepting(null);
+    }
+  };
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="glass-card p-3 mb-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-text-primary">
+        <Wand2 className="w-4 h-4 text-[var(--accent)]" />
+        Suggested rules
+      </div>
+      {suggestions.map((suggestion) => {
+        const category = categories.find((c) => c.id === suggestion.categoryId);
+        return (
+          <div key={suggestion.key} className="flex items-center gap-2 text-sm">
+            <div className="flex-1 min-w-0" title={suggestion.examples.join('\n')}>
+              <div className="flex items-center gap-1.5 flex-wrap">
+                <span className="font-medium">{suggestion.merchant}</span>
+                <span className="text-text-muted">→</span>
+                {category && (
+                  <span
+                    className="text-xs px-2 py-0.5 rounded-full"
+                    style={{ backgroundColor: category.color + '30', color: category.color }}
+                  >
+                    {category.icon} {category.name}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-text-muted truncate">
+                Categorized this way {suggestion.count} times · e.g. {suggestion.examples[0]}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => accept(suggestion)}
+              disabled={accepting !== null}
+              className="h-7"
+            >
+              {accepting === suggestion.key ? (
+                <Loader2 className="w-3 h-3 animate-spin mr-1" />
+              ) : (
+                <Check className="w-3 h-3 mr-1" />
+              )}
+              Create Rule
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => dismiss(suggestion.key)}
+              className="h-7 w-7 text-text-muted"
+              aria-label="Dismiss suggestion"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -8,6 +8,10 @@ import { Expense, Category } from '@/types';
 import { formatCurrency, formatDate, cn } from '@/lib/utils';
 import { useSettings } from '@/context/SettingsContext';
 import { liquidSpring } from '@/lib/animations';
+import { collectTags } from '@/lib/tags';
+import { TagList } from '@/components/TagInput';
+
+const MAX_TAG_SHORTCUTS = 8;
 
 interface SearchCommandProps {
   open: boolean;
@@ -39,6 +43,11 @@ export function SearchCommand({
 
   const getCategoryById = (id: string) => categoryMap.get(id);
 
+  const tagShortcuts = useMemo(
+    () => collectTags(expenses).slice(0, MAX_TAG_SHORTCUTS),
+    [expenses]
+  );
+
   // Server-side search with debounce
   useEffect(() => {
     if (!search.trim()) {
@@ -97,7 +106,7 @@ export function SearchCommand({
                 <Command.Input
                   value={search}
                   onValueChange={setSearch}
-                  placeholder="Search expenses..."
+                  placeholder="Search expenses or #tags..."
                   className="flex-1 py-4 bg-transparent outline-none text-text-primary placeholder:text-text-muted"
                 />
                 {search && (
@@ -123,6 +132,26 @@ export function SearchCommand({
                   </Command.Empty>
                 )}
 
+                {!search.trim() && tagShortcuts.length > 0 && (
+                  <Command.Group heading="Tags" className="px-2 py-1.5 text-xs text-text-muted font-medium">
+                    <div className="flex flex-wrap gap-1.5 px-1 pb-1">
+                      {tagShortcuts.map((tag) => (
+                        <Command.Item
+                          key={tag}
+                          value={`tag:${tag}`}
+                          onSelect={() => setSearch(`#${tag} `)}
+                          className={cn(
+                            'px-2.5 py-1 rounded-full text-xs text-text-secondary cursor-pointer',
+                            'hover:bg-surface-hover data-[selected=true]:bg-surface-hover'
+                          )}
+                        >
+                          #{tag}
+                        </Command.Item>
+                      ))}
+                    </div>
+                  </Command.Group>
+                )}
+
                 {!isSearching && !search.trim() && filteredExpenses.length > 0 && (
                   <Command.Group heading="Recent Expenses" className="px-2 py-1.5 text-xs text-text-muted font-medium">
                     {filteredExpenses.map((expense) => {
@@ -152,6 +181,7 @@ export function SearchCommand({
                             </div>
                             <p className="text-xs text-text-muted">
                               {category?.name} · {formatDate(expense.date)}
+                              <TagList tags={expense.tags} className="ml-1.5 align-middle" />
                             </p>
                           </div>
                           <span className="text-sm font-medium text-text-primary flex-shrink-0 font-mono">
@@ -192,6 +222,7 @@ export function SearchCommand({
                             </div>
                             <p className="text-xs text-text-muted">
                               {category?.name} · {formatDate(expense.date)}
+                              <TagList tags={expense.tags} className="ml-1.5 align-middle" />
                             </p>
                           </div>
                           <span className="text-sm font-medium text-text-primary flex-shrink-0 font-mono">
@@ -206,7 +237,7 @@ export function SearchCommand({
 
               {/* Footer */}
               <div className="flex items-center justify-between px-4 py-2 border-t border-glass-separator text-xs text-text-muted">
-                <span>Type to search</span>
+                <span>Type to search · #tag to filter</span>
                 <span>
                   <kbd className="px-1.5 py-0.5 bg-surface-hover rounded text-xs">esc</kbd>
                   {' '}to close
@@ -14,7 +14,7 @@ import {
 } from 'recharts';
 import { Expense } from '@/types';
 import { useSettings } from '@/context/SettingsContext';
-import { formatCurrency, getMonthKey, getCurrentMonthKey } from '@/lib/utils';
+import { formatCurrency, getMonthKey, getCurrentMonthKey, isExpense, calculateCashFlow } from '@/lib/utils';
 import { format, subMonths, isSameMonth, parseISO, startOfMonth, endOfMonth, eachDayOfInterval, isAfter, isBefore } from 'date-fns';
 
 interface SpendingTrendChartProps {
@@ -38,12 +38,12 @@ export function SpendingTrendChart({ expenses, className }: SpendingTrendChartPr
       end: endOfMonth(today),
     });
 
-    // Filter expenses for current and previous month
+    // Filter spending for current and previous month (income/transfers excluded)
     const currentMonthExpenses = expenses.filter(
-      (e) => getMonthKey(e.date) === currentMonthKey
+      (e) => isExpense(e) && getMonthKey(e.date) === currentMonthKey
     );
     const prevMonthExpenses = expenses.filter(
-      (e) => getMonthKey(e.date) === prevMonthKey
+      (e) => isExpense(e) && getMonthKey(e.date) === prevMonthKey
     );
 
     let currentCumulative = 0;
@@ -84,6 +84,12 @@ export function SpendingTrendChart({ expenses, className }: SpendingTrendChartPr
     });
   }, [expenses, currentMonthKey, prevMonthKey]);
 
+  // Net cash flow for the current month
+  const cashFlow = useMemo(
+    () => calculateCashFlow(expenses.filter((e) => getMonthKey(e.date) === currentMonthKey)),
+    [expenses, currentMonthKey]
+  );
+
   // Calculate totals for summary
   const currentTotal = data[data.length - 1]?.current || 0; // This might be null if end of month is future
   // Find last non-null current value
@@ -185,6 +191,20 @@ export function SpendingTrendChart({ expenses, className }: SpendingTrendChartPr
           </AreaChart>
         </ResponsiveContainer>
       </div>
+
+      {cashFlow.income > 0 && (
+        <div className="flex items-center justify-between mt-4 pt-4 border-t border-border text-xs">
+          <span className="text-text-muted">
+            Income <span className="font-mono text-green-600">+{formatCurrency(cashFlow.income, settings.currency)}</span>
+          </span>
+          <span className="text-text-muted">
+            Net cash flow{' '}
+            <span className={`font-mono font-medium ${cashFlow.net >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+              {cashFlow.net >= 0 ? '+' : ''}{formatCurrency(cashFlow.net, settings.currency)}
+            </span>
+          </span>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,222 @@
+'use client';
+
+import Link from 'next/link';
+import { Users } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { CurrencyCode, ExpenseSplit, SplitGroup, SplitMode, SplitShare, SPLIT_MODES } from '@/types';
+import { formatCurrency, cn } from '@/lib/utils';
+import { computeShares, getParticipants, validateSplit } from '@/lib/splits';
+
+/** Form state for splitting an expense; values are kept as typed */
+export interface SplitDraft {
+  enabled: boolean;
+  groupId: string;
+  paidBy: string;
+  mode: SplitMode;
+  included: string[];
+  values: Record<string, string>;
+}
+
+export function createSplitDraft(split?: ExpenseSplit): SplitDraft {
+  if (!split) {
+    return { enabled: false, groupId: '', paidBy: '', mode: 'equal', included: [], values: {} };
+  }
+  return {
+    enabled: true,
+    groupId: split.groupId,
+    paidBy: split.paidBy,
+    mode: split.mode,
+    included: split.shares.map((s) => s.participant),
+    values: Object.fromEntries(
+      split.shares.map((s) => [s.participant, s.value !== undefined ? String(s.value) : ''])
+    ),
+  };
+}
+
+export function getDraftShares(draft: SplitDraft, total: number): SplitShare[] {
+  return computeShares(
+    total,
+    draft.mode,
+    draft.included.map((participant) => ({
+      participant,
+      value: draft.mode === 'equal' ? undefined : parseFloat(draft.values[participant] || '') || 0,
+    }))
+  );
+}
+
+/** Problem that blocks saving, or null when the split is off or valid */
+export function getDraftError(draft: SplitDraft, total: number): string | null {
+  if (!draft.enabled) return null;
+  if (!draft.groupId) return 'Choose a group to split with';
+  return validateSplit(total, draft.mode, getDraftShares(draft, total));
+}
+
+interface SplitSectionProps {
+  total: number;
+  currency: CurrencyCode;
+  groups: SplitGroup[];
+  value: SplitDraft;
+  onChange: (value: SplitDraft) => void;
+}
+
+/** "Split this expense" controls shared by the add and edit dialogs */
+export function SplitSection({ total, currency, groups, value, onChange }: SplitSectionProps) {
+  const group = groups.find((g) => g.id === value.groupId);
+  const participants = group ? getParticipants(group) : [];
+  const shares = getDraftShares(value, total);
+  const error = value.enabled && group ? validateSplit(total, value.mode, shares) : null;
+
+  const selectGroup = (groupId: string) => {
+    const next = groups.find((g) => g.id === groupId);
+    const everyone = next ? getParticipants(next) : [];
+    onChange({ ...value, groupId, paidBy: everyone[0] || '', included: everyone, values: {} });
+  };
+
+  const toggleParticipant = (participant: string) => {
+    const included = value.included.includes(participant)
+      ? value.included.filter((p) => p !== participant)
+      : participants.filter((p) => p === participant || value.included.includes(p));
+    onChange({ ...value, included });
+  };
+
+  if (!value.enabled) {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange({ ...value, enabled: true })}
+        className="flex items-center gap-2 text-sm font-medium text-text-secondary hover:text-text-primary transition-colors"
+      >
+        <Users className="w-4 h-4" />
+        Split this expense
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border border-[var(--glass-separator)] p-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-medium text-text-secondary">
+          <Users className="w-4 h-4" />
+          Split
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, enabled: false })}
+          className="text-xs text-text-muted hover:text-text-primary"
+        >
+          Don&apos;t split
+        </button>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-text-muted">
+          No groups yet.{' '}
+          <Link href="/splits" className="underline">
+            Create one on the Splits page
+          </Link>
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={value.groupId} onValueChange={selectGroup}>
+              <SelectTrigger>
+                <SelectValue placeholder="Group" />
+              </SelectTrigger>
+              <SelectContent>
+                {groups.map((g) => (
+                  <SelectItem key={g.id} value={g.id}>
+                    {g.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={value.mode}
+              onValueChange={(mode) => onChange({ ...value, mode: mode as SplitMode, values: {} })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SPLIT_MODES.map((m) => (
+                  <SelectItem key={m.value} value={m.value}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {group && (
+            <>
+              <div className="flex items-center gap-2 text-sm text-text-secondary">
+                <span className="flex-shrink-0">Paid by</span>
+                <Select value={value.paidBy} onValueChange={(paidBy) => onChange({ ...value, paidBy })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {participants.map((p) => (
+                      <SelectItem key={p} value={p}>
+                        {p}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5">
+                {participants.map((p) => {
+                  const included = value.included.includes(p);
+                  const share = shares.find((s) => s.participant === p);
+                  return (
+                    <div key={p} className="flex items-center gap-2">
+                      <label className="flex flex-1 items-center gap-2 text-sm text-text-primary min-w-0">
+                        <input
+                          type="checkbox"
+                          checked={included}
+                          onChange={() => toggleParticipant(p)}
+                        />
+                        <span className="truncate">{p}</span>
+                      </label>
+                      {included && value.mode !== 'equal' && (
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={value.values[p] ?? ''}
+                          onChange={(e) =>
+                            onChange({ ...value, values: { ...value.values, [p]: e.target.value } })
+                          }
+                          placeholder={value.mode === 'percentage' ? '%' : '0.00'}
+                          className="w-24 h-8 font-mono"
+                        />
+                      )}
+                      <span
+                        className={cn(
+                          'w-24 text-right text-sm font-mono',
+                          included ? 'text-text-primary' : 'text-text-muted'
+                        )}
+                      >
+                        {included && share ? formatCurrency(share.amount, currency) : '—'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {error && <p className="text-xs text-error">{error}</p>}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { mergeTags, normalizeTag } from '@/lib/tags';
+import { cn } from '@/lib/utils';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+/** Chips plus a free-text field; Enter or comma adds a tag */
+export function TagInput({ value, onChange, suggestions = [], placeholder = 'Add tags' }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+
+  const addTags = (raw: string[]) => {
+    const next = mergeTags(value, raw);
+    if (next.length !== value.length) onChange(next);
+    setDraft('');
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter((t) => t !== tag));
+
+  const prefix = normalizeTag(draft);
+  const matches = prefix
+    ? suggestions.filter((s) => !value.includes(s) && s.startsWith(prefix)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5 min-h-12 w-full rounded-2xl border border-border bg-surface px-4 py-2 transition-colors focus-within:border-border-focus focus-within:ring-2 focus-within:ring-accent focus-within:ring-offset-2 focus-within:ring-offset-background">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-surface-hover text-text-primary"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-text-muted hover:text-text-primary"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={draft}
+          onChange={(e) => {
+            const text = e.target.value;
+            if (text.includes(',')) {
+              addTags(text.split(','));
+            } else {
+              setDraft(text);
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && draft.trim()) {
+              e.preventDefault();
+              addTags([draft]);
+            } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+              removeTag(value[value.length - 1]);
+            }
+          }}
+          onBlur={() => draft.trim() && addTags([draft])}
+          placeholder={value.length === 0 ? placeholder : ''}
+          className="flex-1 min-w-[80px] bg-transparent text-base text-text-primary outline-none placeholder:text-text-muted"
+        />
+      </div>
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {matches.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTags([tag])}
+              className="text-xs px-2 py-0.5 rounded-full text-text-secondary hover:text-text-primary hover:bg-surface-hover transition-colors"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Read-only tag chips for list rows */
+export function TagList({ tags, className }: { tags?: string[]; className?: string }) {
+  if (!tags || tags.length === 0) return null;
+  return (
+    <span className={cn('inline-flex flex-wrap gap-1', className)}>
+      {tags.map((tag) => (
+        <span key={tag} className="text-[11px] px-1.5 py-px rounded-full bg-surface-hover text-text-secondary">
+          #{tag}
+        </span>
+      ))}
+    </span>
+  );
+}
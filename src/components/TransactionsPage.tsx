@@ -16,6 +16,9 @@ import {
   Sparkles,
   ArrowLeft,
   Pencil,
+  Repeat,
+  Copy,
+  Merge,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -36,12 +39,18 @@ import { useCategories, useExpenses } from '@/context/ExpenseContext';
 import { usePendingTransactions } from '@/context/TransactionsContext';
 import { useSettings } from '@/context/SettingsContext';
 import { useToast } from '@/hooks/useToast';
+import { useBudgetAlerts } from '@/hooks/useBudgetAlerts';
 import { ImportWizard } from '@/components/ImportWizard';
 import { GmailSyncButton } from '@/components/GmailSyncButton';
+import { RuleSuggestions } from '@/components/RuleSuggestions';
 import { useGmailSync } from '@/hooks/useGmailSync';
-import { PendingTransaction, Category, CurrencyCode, CategorySource } from '@/types';
-import { formatCurrency, formatDate } from '@/lib/utils';
+import { PendingTransaction, Category, CurrencyCode, CategorySource, Expense, DuplicateResolution } from '@/types';
+import { formatCurrency, formatDate, getDirection } from '@/lib/utils';
 import { bouncySpring } from '@/lib/animations';
+import { isRecurringSource } from '@/lib/recurring';
+import { findDuplicateOriginal } from '@/lib/duplicates';
+import { transactionToExpenseData } from '@/lib/ruleEngine';
+import { TagList } from '@/components/TagInput';
 
 function CategoryBadge({ source }: { source?: CategorySource }) {
   if (!source) return null;
@@ -127,6 +136,8 @@ function TransactionRow({
   onIgnore,
   onUnignore,
   onDelete,
+  duplicateOriginal,
+  onResolveDuplicate,
   isIgnoredView,
 }: {
   transaction: PendingTransaction;
@@ -141,6 +152,8 @@ function TransactionRow({
   onIgnore: () => void;
   onUnignore: () => void;
   onDelete: () => void;
+  duplicateOriginal?: PendingTransaction | Expense | null;
+  onResolveDuplicate: (action: DuplicateResolution) => void;
   isIgnoredView: boolean;
 }) {
   const finalCategory = localCategory || transaction.category;
@@ -180,13 +193,45 @@ function TransactionRow({
           />
         )}
         {transaction.source && (
-          <span className="text-[10px] text-text-muted truncate block">
+          <span className="flex items-center gap-1 text-[10px] text-text-muted truncate">
+            {isRecurringSource(transaction.source) && <Repeat className="w-2.5 h-2.5 flex-shrink-0" />}
             {transaction.source}
           </span>
         )}
+        <TagList tags={transaction.tags} />
+        {transaction.duplicateOf && !isIgnoredView && (
+          <div className="flex items-center gap-1.5 mt-0.5 text-[10px]">
+            <Copy className="w-2.5 h-2.5 flex-shrink-0 text-warning" />
+            <span className="text-warning truncate">
+              {duplicateOriginal
+                ? `Possible duplicate of ${duplicateOriginal.description} · ${formatDate(duplicateOriginal.date)}${
+                    'status' in duplicateOriginal ? ' (pending)' : ''
+                  }`
+                : 'Possible duplicate'}
+            </span>
+            <button
+              onClick={() => onResolveDuplicate('merge')}
+              className="flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 flex-shrink-0"
+              title="Drop this one and keep the original"
+            >
+              <Merge className="w-2.5 h-2.5" />
+              Merge
+            </button>
+            <button
+              onClick={() => onResolveDuplicate('keep-both')}
+              className="px-1.5 py-0.5 rounded text-text-muted hover:bg-surface flex-shrink-0"
+            >
+              Keep both
+            </button>
+          </div>
+        )}
       </div>
-      <span className="text-text-primary font-medium w-16 text-right flex-shrink-0 text-xs font-mono">
-        {formatCurrency(transaction.amount, currency)}
+      <span
+        className={`font-medium w-16 text-right flex-shrink-0 text-xs font-mono ${
+          getDirection(transaction) === 'income' ? 'text-green-600' : 'text-text-primary'
+        }`}
+      >
+        {getDirection(transaction) === 'income' ? '+' : ''}{formatCurrency(transaction.amount, currency)}
       </span>
 
       {isIgnoredView ? (
@@ -334,12 +379,14 @@ export function TransactionsPage() {
     isLoading,
     ignoreTransaction,
     unignoreTransaction,
+    resolveDuplicate,
     deleteTransaction,
     aiCategorize,
     refreshPendingTransactions,
   } = usePendingTransactions();
   const { settings } = useSettings();
   const { toast } = useToast();
+  const notifyBudgetAlerts = useBudgetAlerts();
   const { isSyncing, progress, triggerSync } = useGmailSync();
 
   const [showIgnored, setShowIgnored] = useState(false);
@@ -373,12 +420,16 @@ export function TransactionsPage() {
     currentPage * PAGE_SIZE
   );
 
-  // Count categorized (from any source or local override)
-  const categorizedCount = useMemo(() => {
-    return active.filter((t) => localCategories.get(t.id) || t.category).length;
+  // Count categorized (from any source or local override); likely duplicates wait until resolved
+  const { categorizedCount, uncategorizedCount, duplicateCount } = useMemo(() => {
+    const hasCategory = (t: PendingTransaction) =>
+      !!(localCategories.get(t.id) || t.category) || getDirection(t) !== 'expense';
+    return {
+      categorizedCount: active.filter((t) => hasCategory(t) && !t.duplicateOf).length,
+      uncategorizedCount: active.filter((t) => !hasCategory(t)).length,
+      duplicateCount: active.filter((t) => t.duplicateOf).length,
+    };
   }, [active, localCategories]);
-
-  const uncategorizedCount = active.length - categorizedCount;
   const totalAmount = fullList.reduce((sum, t) => sum + t.amount, 0);
 
   // Selection
@@ -505,17 +556,18 @@ export function TransactionsPage() {
   // Confirm All categorized
   const handleConfirmAll = async () => {
     const toConfirm = active.filter((t) => {
+      if (t.duplicateOf) return false;
       const finalCat = localCategories.get(t.id) || t.category;
-      return !!finalCat;
+      // Income and transfers can be confirmed without a spending category
+      return !!finalCat || getDirection(t) !== 'expense';
     });
     if (toConfirm.length === 0) return;
 
     setSaving(true);
     try {
-      const expensesData = toConfirm.map((t) => ({
-        amount: t.amount,
-        date: t.date,
-        category: localCategories.get(t.id) || t.category!,
+      const expensesData = toConfirm.map((t) => transactionToExpenseData({
+        ...t,
+        category: localCategories.get(t.id) || t.category,
         description: localDescriptions.get(t.id) || t.description,
       }));
 
@@ -525,6 +577,7 @@ export function TransactionsPage() {
         body: JSON.stringify({ type: 'expenses-batch', data: expensesData }),
       });
       if (!response.ok) throw new Error('Failed to save');
+      const { budgetAlerts } = await response.json();
 
       const confirmedIds = new Set(toConfirm.map((t) => t.id));
       const remaining = pendingTransactions.filter((t) => !confirmedIds.has(t.id));
@@ -546,6 +599,7 @@ export function TransactionsPage() {
         description: `${toConfirm.length} expenses saved`,
         variant: 'success',
       });
+      notifyBudgetAlerts(budgetAlerts);
     } catch {
       toast({
         title: 'Error',
@@ -590,6 +644,18 @@ export function TransactionsPage() {
     }
   };
 
+  const handleResolveDuplicate = async (id: string, action: DuplicateResolution) => {
+    try {
+      await resolveDuplicate(id, action);
+      if (action === 'merge') {
+        setLocalCategories((prev) => { const n = new Map(prev); n.delete(id); return n; });
+        setLocalDescriptions((prev) => { const n = new Map(prev); n.delete(id); return n; });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to resolve duplicate', variant: 'destructive' });
+    }
+  };
+
   // Pagination
   const getPageNumbers = () => {
     const pages: (number | 'ellipsis')[] = [];
@@ -633,6 +699,7 @@ export function TransactionsPage() {
             <p className="text-sm text-text-muted">
               {active.length} pending
               {uncategorizedCount > 0 ? ` · ${uncategorizedCount} uncategorized` : ''}
+              {duplicateCount > 0 ? ` · ${duplicateCount} possible duplicate${duplicateCount !== 1 ? 's' : ''}` : ''}
             </p>
           )}
         </div>
@@ -668,6 +735,9 @@ export function TransactionsPage() {
         </div>
       </div>
 
+      {/* Rules learned from manual categorizations */}
+      {!showIgnored && <RuleSuggestions localCategories={localCategories} />}
+
       {/* Actions Bar */}
       {currentList.length > 0 && (
         <div className="flex items-center justify-between mb-3 p-2.5 glass-tab-bar text-sm">
@@ -801,6 +871,8 @@ export function TransactionsPage() {
                 onIgnore={() => handleIgnore(transaction.id)}
                 onUnignore={() => handleUnignore(transaction.id)}
                 onDelete={() => handleDelete(transaction.id)}
+                duplicateOriginal={findDuplicateOriginal(transaction, pendingTransactions, expenseState.expenses)?.record}
+                onResolveDuplicate={(action) => handleResolveDuplicate(transaction.id, action)}
                 isIgnoredView={showIgnored}
               />
             ))}
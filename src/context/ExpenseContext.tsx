@@ -12,6 +12,7 @@ import {
 } from 'react';
 import { useSession } from 'next-auth/react';
 import { extractYearFromId } from '@/lib/id-utils';
+import { useBudgetAlerts } from '@/hooks/useBudgetAlerts';
 import {
   Expense,
   Category,
@@ -25,6 +26,7 @@ import {
 // Cache keys for sessionStorage
 const EXPENSES_CACHE_KEY = 'expense-tracker-expenses';
 const CATEGORIES_CACHE_KEY = 'expense-tracker-categories';
+const OVERALL_BUDGET_CACHE_KEY = 'expense-tracker-overall-budget';
 
 // Cache helpers
 const getCachedExpenses = (): Expense[] | null => {
@@ -75,6 +77,25 @@ const updateCategoriesCache = (categories: Category[]) => {
   }
 };
 
+const getCachedOverallBudget = (): number | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const cached = sessionStorage.getItem(OVERALL_BUDGET_CACHE_KEY);
+    return cached ? JSON.parse(cached) : null;
+  } catch {
+    return null;
+  }
+};
+
+const updateOverallBudgetCache = (amount: number | null) => {
+  if (typeof window === 'undefined') return;
+  try {
+    sessionStorage.setItem(OVERALL_BUDGET_CACHE_KEY, JSON.stringify(amount));
+  } catch {
+    // Ignore storage errors
+  }
+};
+
 // Expense Reducer
 function expenseReducer(state: ExpenseState, action: ExpenseAction): ExpenseState {
   switch (action.type) {
@@ -122,6 +143,8 @@ export function DataProvider({ children }: DataProviderProps) {
   const [categories, setCategories] = useState<Category[]>(() => getCachedCategories() || DEFAULT_CATEGORIES);
   const categoriesRef = useRef(categories);
   categoriesRef.current = categories;
+  const [overallBudget, setOverallBudgetState] = useState<number | null>(() => getCachedOverallBudget());
+  const notifyBudgetAlerts = useBudgetAlerts();
 
   const cachedExpenses = getCachedExpenses();
   const [state, dispatch] = useReducer(expenseReducer, {
@@ -155,6 +178,8 @@ export function DataProvider({ children }: DataProviderProps) {
 
       if (!categoryData.error) {
         setCategories(categoryData.categories);
+        setOverallBudgetState(categoryData.overallBudget ?? null);
+        updateOverallBudgetCache(categoryData.overallBudget ?? null);
       }
 
       // Cache all data for instant loads on navigation
@@ -184,7 +209,7 @@ export function DataProvider({ children }: DataProviderProps) {
 
   // Expense operations
   const addExpense = useCallback(
-    async (expenseData: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>) => {
+    async (expenseData: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>): Promise<Expense> => {
       const expenseYear = new Date(expenseData.date).getFullYear();
 
       const res = await fetch('/api/drive', {
@@ -208,8 +233,10 @@ export function DataProvider({ children }: DataProviderProps) {
         (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
       );
       updateExpensesCache(updatedExpenses);
+      notifyBudgetAlerts(result.budgetAlerts);
+      return result.expense;
     },
-    [state.expenses]
+    [state.expenses, notifyBudgetAlerts]
   );
 
   const updateExpense = useCallback(
@@ -357,9 +384,26 @@ export function DataProvider({ children }: DataProviderProps) {
 
     if (!data.error) {
       setCategories(data.categories);
+      setOverallBudgetState(data.overallBudget ?? null);
     }
   }, []);
 
+  const setOverallBudget = useCallback(async (amount: number | null) => {
+    const res = await fetch('/api/drive', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'overall-budget', data: amount }),
+    });
+
+    const result = await res.json();
+    if (result.error) {
+      throw new Error(result.error);
+    }
+
+    setOverallBudgetState(result.overallBudget);
+    updateOverallBudgetCache(result.overallBudget);
+  }, []);
+
   const expenseContextValue: ExpenseContextType = {
     state,
     dispatch,
@@ -375,6 +419,8 @@ export function DataProvider({ children }: DataProviderProps) {
     updateCategory,
     deleteCategory,
     refreshCategories,
+    overallBudget,
+    setOverallBudget,
   };
 
   return (
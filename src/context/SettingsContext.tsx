@@ -10,6 +10,7 @@ import {
 } from 'react';
 import { useSession } from 'next-auth/react';
 import { UserSettings, DEFAULT_SETTINGS, SettingsContextType } from '@/types';
+import { normalizeGmailSyncSettings } from '@/lib/gmail-filters';
 
 const SettingsContext = createContext<SettingsContextType | null>(null);
 
@@ -21,7 +22,10 @@ const getCachedSettings = (): UserSettings | null => {
   if (typeof window === 'undefined') return null;
   try {
     const cached = sessionStorage.getItem(SETTINGS_CACHE_KEY);
-    return cached ? JSON.parse(cached) : null;
+    if (!cached) return null;
+    // Caches written before a setting existed lack it
+    const settings = JSON.parse(cached) as UserSettings;
+    return { ...DEFAULT_SETTINGS, ...settings, gmailSync: normalizeGmailSyncSettings(settings.gmailSync) };
   } catch {
     return null;
   }
@@ -106,7 +110,7 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
       setCachedSettings(updatedSettings, spreadsheetId);
 
       try {
-        await fetch('/api/settings', {
+        const res = await fetch('/api/settings', {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -114,6 +118,10 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
             spreadsheetId,
           }),
         });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to save settings');
+        }
       } catch (error) {
         console.error('Error saving settings:', error);
         // Revert on error
@@ -2,11 +2,33 @@
 
 import { createContext, useContext, useReducer, useCallback, useEffect, ReactNode } from 'react';
 import { useSession } from 'next-auth/react';
-import { PendingTransaction, TransactionRule, PendingTransactionsContextType } from '@/types';
-import { applyRulesToTransactions, applyNewRuleToTransactions, ensureModernRuleFormat } from '@/lib/ruleEngine';
+import {
+  PendingTransaction,
+  TransactionRule,
+  PendingTransactionsContextType,
+  DuplicateResolution,
+  RuleSetImportOptions,
+  RuleSetImportResult,
+} from '@/types';
+import {
+  applyRulesToTransactions,
+  applyNewRuleToTransactions,
+  applyRuleActions,
+  ensureModernRuleFormat,
+  findMatchingRule,
+  reorderRulePriorities,
+  splitAutoConfirmed,
+  transactionToExpenseData,
+} from '@/lib/ruleEngine';
+import { dropKnownExternalIds, findDuplicateOriginal, flagDuplicates } from '@/lib/duplicates';
+import { mergeTags } from '@/lib/tags';
+import { useExpenses } from '@/context/ExpenseContext';
+import { useBudgetAlerts } from '@/hooks/useBudgetAlerts';
+import { getToday } from '@/lib/utils';
 
 const PENDING_CACHE_KEY = 'expense-tracker-pending';
 const RULES_CACHE_KEY = 'expense-tracker-rules';
+const RECURRING_RUN_KEY = 'expense-tracker-recurring-run';
 
 interface State {
   pendingTransactions: PendingTransaction[];
@@ -65,6 +87,8 @@ const PendingTransactionsContext = createContext<PendingTransactionsContextType
 
 export function PendingTransactionsProvider({ children }: { children: ReactNode }) {
   const { data: session } = useSession();
+  const notifyBudgetAlerts = useBudgetAlerts();
+  const { state: expenseState, refreshExpenses, updateExpense } = useExpenses();
 
   const [state, dispatch] = useReducer(reducer, {
     pendingTransactions: [],
@@ -87,10 +111,23 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
         dispatch({ type: 'SET_PENDING', payload: JSON.parse(cachedPending) });
       }
       if (cachedRules) {
-        dispatch({ type: 'SET_RULES', payload: JSON.parse(cachedRules) });
+        dispatch({ type: 'SET_RULES', payload: JSON.parse(cachedRules).map(ensureModernRuleFormat) });
       }
 
       try {
+        // Materialize due recurring expenses (once per day per tab) before loading pending
+        const today = getToday();
+        if (sessionStorage.getItem(RECURRING_RUN_KEY) !== today) {
+          const recurringRes = await fetch('/api/drive', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ type: 'recurring-run' }),
+          });
+          if (recurringRes.ok) {
+            sessionStorage.setItem(RECURRING_RUN_KEY, today);
+          }
+        }
+
         const year = new Date().getFullYear();
         const [pendingRes, rulesRes] = await Promise.all([
           fetch(`/api/drive?type=pending&year=${year}`),
@@ -146,8 +183,9 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
       if (rulesRes.ok) {
         const rulesData = await rulesRes.json();
         if (rulesData.rules) {
-          dispatch({ type: 'SET_RULES', payload: rulesData.rules });
-          sessionStorage.setItem(RULES_CACHE_KEY, JSON.stringify(rulesData.rules));
+          const migratedRules = rulesData.rules.map(ensureModernRuleFormat);
+          dispatch({ type: 'SET_RULES', payload: migratedRules });
+          sessionStorage.setItem(RULES_CACHE_KEY, JSON.stringify(migratedRules));
         }
       }
     } catch (error) {
@@ -159,14 +197,18 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
 
   const addPendingTransactions = useCallback(
     async (transactions: Omit<PendingTransaction, 'id' | 'createdAt'>[]) => {
-      if (!session) return;
+      if (!session) return 0;
 
       try {
         const year = new Date().getFullYear();
         const now = new Date().toISOString();
 
+        // Statement rows already imported once (same bank transaction ID) are skipped outright
+        const freshTransactions = dropKnownExternalIds(transactions, state.pendingTransactions, expenseState.expenses);
+        if (freshTransactions.length === 0) return 0;
+
         // Build transactions with proper status
-        const processedTransactions = transactions.map((t, i) => {
+        const ruledTransactions = freshTransactions.map((t, i) => {
           const base = {
             ...t,
             id: `temp-${i}`,
@@ -175,20 +217,10 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
 
           // Check if any rule matches (for uncategorized transactions)
           if (!t.category) {
-            const matchedRule = state.rules.find(rule =>
-              rule.enabled && rule.conditions.some(c =>
-                c.field === 'description' &&
-                t.description?.toLowerCase().includes(c.value.toLowerCase())
-              )
-            );
+            const uncategorized: PendingTransaction = { ...base, status: 'uncategorized' };
+            const matchedRule = findMatchingRule(uncategorized, state.rules.filter(rule => rule.enabled));
             if (matchedRule) {
-              return {
-                ...base,
-                status: 'auto-mapped' as const,
-                category: matchedRule.categoryId,
-                matchedRuleId: matchedRule.id,
-                categorySource: 'rule' as const,
-              };
+              return applyRuleActions(uncategorized, matchedRule);
             }
           }
 
@@ -200,6 +232,13 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
           };
         });
 
+        // The same purchase may already be here from Gmail, another statement or manual entry
+        const processedTransactions = flagDuplicates(
+          ruledTransactions,
+          state.pendingTransactions,
+          expenseState.expenses
+        );
+
         const response = await fetch('/api/drive', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -221,12 +260,20 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
           const newPending = [...state.pendingTransactions, ...result.pendingTransactions];
           sessionStorage.setItem(PENDING_CACHE_KEY, JSON.stringify(newPending));
         }
+
+        // Auto-confirm rules wrote some straight to expenses
+        if (result.confirmed > 0) {
+          notifyBudgetAlerts(result.budgetAlerts);
+          await refreshExpenses();
+        }
+
+        return freshTransactions.length;
       } catch (error) {
         console.error('Error adding pending transactions:', error);
         throw error;
       }
     },
-    [session, state.rules, state.pendingTransactions]
+    [session, state.rules, state.pendingTransactions, expenseState.expenses, notifyBudgetAlerts, refreshExpenses]
   );
 
   const confirmTransaction = useCallback(
@@ -238,20 +285,17 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
 
       try {
         // Add to expenses
-        await fetch('/api/drive', {
+        const addResponse = await fetch('/api/drive', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             type: 'expense',
-            data: {
-              amount: transaction.amount,
-              date: transaction.date,
-              category: transaction.category,
-              description: transaction.description,
-            },
+            data: transactionToExpenseData(transaction),
           }),
         });
 
+        notifyBudgetAlerts((await addResponse.json()).budgetAlerts);
+
         // Delete from pending
         const year = new Date().getFullYear();
         await fetch(`/api/drive?type=pending&id=${id}&year=${year}`, {
@@ -268,7 +312,7 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
         throw error;
       }
     },
-    [session, state.pendingTransactions]
+    [session, state.pendingTransactions, notifyBudgetAlerts]
   );
 
   const confirmAllAutoMapped = useCallback(async () => {
@@ -286,12 +330,7 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           type: 'expenses-batch',
-          data: autoMapped.map((t) => ({
-            amount: t.amount,
-            date: t.date,
-            category: t.category,
-            description: t.description,
-          })),
+          data: autoMapped.map(transactionToExpenseData),
         }),
       });
 
@@ -300,6 +339,7 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
         console.error('Failed to save expenses:', errorData);
         throw new Error(errorData.error || 'Failed to save expenses');
       }
+      notifyBudgetAlerts((await response.json()).budgetAlerts);
 
       // Delete from import sheet
       const remaining = state.pendingTransactions.filter((t) => t.status !== 'auto-mapped' || !t.category);
@@ -315,7 +355,7 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
       console.error('Error confirming all auto-mapped:', error);
       throw error;
     }
-  }, [session, state.pendingTransactions]);
+  }, [session, state.pendingTransactions, notifyBudgetAlerts]);
 
   // Save manually categorized uncategorized transactions directly to expenses
   const saveMappedUncategorized = useCallback(async (): Promise<number> => {
@@ -329,20 +369,17 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
 
     try {
       // Add all to expenses
-      await fetch('/api/drive', {
+      const saveResponse = await fetch('/api/drive', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           type: 'expenses-batch',
-          data: mappedUncategorized.map((t) => ({
-            amount: t.amount,
-            date: t.date,
-            category: t.category,
-            description: t.description,
-          })),
+          data: mappedUncategorized.map(transactionToExpenseData),
         }),
       });
 
+      notifyBudgetAlerts((await saveResponse.json()).budgetAlerts);
+
       // Remove saved transactions from pending
       const mappedIds = new Set(mappedUncategorized.map((t) => t.id));
       const remaining = state.pendingTransactions.filter((t) => !mappedIds.has(t.id));
@@ -362,7 +399,7 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
       console.error('Error saving mapped uncategorized:', error);
       throw error;
     }
-  }, [session, state.pendingTransactions]);
+  }, [session, state.pendingTransactions, notifyBudgetAlerts]);
 
   const updateTransactionCategory = useCallback(
     async (id: string, categoryId: string) => {
@@ -491,6 +528,79 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
     [session, state.pendingTransactions]
   );
 
+  const resolveDuplicate = useCallback(
+    async (id: string, action: DuplicateResolution) => {
+      if (!session) return;
+
+      const transaction = state.pendingTransactions.find((t) => t.id === id);
+      if (!transaction) return;
+
+      try {
+        const year = new Date().getFullYear();
+        let newPending: PendingTransaction[];
+
+        if (action === 'keep-both') {
+          const updated: PendingTransaction = { ...transaction, duplicateOf: undefined };
+          await fetch('/api/drive', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ type: 'pending', data: updated, year }),
+          });
+          dispatch({ type: 'UPDATE_PENDING', payload: updated });
+          newPending = state.pendingTransactions.map((t) => (t.id === id ? updated : t));
+        } else {
+          // The original picks up whatever the duplicate knew that it didn't, including
+          // its bank ID so the next import of the same row is dropped as known
+          const original = findDuplicateOriginal(transaction, state.pendingTransactions, expenseState.expenses);
+          let merged: PendingTransaction | null = null;
+          if (original?.kind === 'pending') {
+            merged = {
+              ...original.record,
+              category: original.record.category || transaction.category,
+              categorySource: original.record.category ? original.record.categorySource : transaction.categorySource,
+              status: original.record.category || !transaction.category ? original.record.status : 'auto-mapped',
+              tags: mergeTags(original.record.tags, transaction.tags),
+              source: original.record.source || transaction.source,
+              externalId: original.record.externalId || transaction.externalId,
+              accountId: original.record.accountId || transaction.accountId,
+            };
+            await fetch('/api/drive', {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ type: 'pending', data: merged, year }),
+            });
+            dispatch({ type: 'UPDATE_PENDING', payload: merged });
+          } else if (
+            original?.kind === 'expense' &&
+            ((!original.record.externalId && transaction.externalId) ||
+              (!original.record.accountId && transaction.accountId))
+          ) {
+            await updateExpense({
+              ...original.record,
+              externalId: original.record.externalId || transaction.externalId,
+              accountId: original.record.accountId || transaction.accountId,
+            });
+          }
+
+          await fetch(`/api/drive?type=pending&id=${id}&year=${year}`, {
+            method: 'DELETE',
+          });
+          dispatch({ type: 'DELETE_PENDING', payload: id });
+          newPending = state.pendingTransactions
+            .filter((t) => t.id !== id)
+            .map((t) => (merged && t.id === merged.id ? merged : t));
+        }
+
+        // Update cache
+        sessionStorage.setItem(PENDING_CACHE_KEY, JSON.stringify(newPending));
+      } catch (error) {
+        console.error('Error resolving duplicate:', error);
+        throw error;
+      }
+    },
+    [session, state.pendingTransactions, expenseState.expenses, updateExpense]
+  );
+
   const aiCategorize = useCallback(
     async (suggestions: { transactionId: string; categoryId: string }[]) => {
       if (!session || suggestions.length === 0) return;
@@ -526,8 +636,43 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
     [session, state.pendingTransactions]
   );
 
+  // Save pending transactions after rules were re-applied; auto-confirm rules move theirs to expenses
+  const savePendingAfterRules = useCallback(
+    async (transactions: PendingTransaction[], rules: TransactionRule[]) => {
+      const year = new Date().getFullYear();
+      const { confirmed, pending } = splitAutoConfirmed(transactions, rules);
+
+      if (confirmed.length > 0) {
+        const response = await fetch('/api/drive', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ type: 'expenses-batch', data: confirmed.map(transactionToExpenseData) }),
+        });
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to save expenses');
+        }
+        notifyBudgetAlerts((await response.json()).budgetAlerts);
+      }
+
+      dispatch({ type: 'SET_PENDING', payload: pending });
+      sessionStorage.setItem(PENDING_CACHE_KEY, JSON.stringify(pending));
+
+      await fetch('/api/drive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'pending-update-all', data: pending, year }),
+      });
+
+      if (confirmed.length > 0) {
+        await refreshExpenses();
+      }
+    },
+    [notifyBudgetAlerts, refreshExpenses]
+  );
+
   const addRule = useCallback(
-    async (rule: Omit<TransactionRule, 'id' | 'createdAt'>) => {
+    async (rule: Omit<TransactionRule, 'id' | 'createdAt' | 'priority'>) => {
       if (!session) return undefined;
 
       try {
@@ -552,17 +697,9 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
           const newRules = [...state.rules, result.rule];
           sessionStorage.setItem(RULES_CACHE_KEY, JSON.stringify(newRules));
 
-          // Apply new rule to uncategorized transactions
+          // Apply new rule to uncategorized transactions and save them
           const updatedPending = applyNewRuleToTransactions(state.pendingTransactions, result.rule);
-          dispatch({ type: 'SET_PENDING', payload: updatedPending });
-          sessionStorage.setItem(PENDING_CACHE_KEY, JSON.stringify(updatedPending));
-
-          // Save updated pending transactions
-          await fetch('/api/drive', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ type: 'pending-update-all', data: updatedPending, year }),
-          });
+          await savePendingAfterRules(updatedPending, newRules);
 
           return result.rule;
         } else {
@@ -574,7 +711,7 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
         throw error;
       }
     },
-    [session, state.rules, state.pendingTransactions]
+    [session, state.rules, state.pendingTransactions, savePendingAfterRules]
   );
 
   const updateRule = useCallback(
@@ -602,20 +739,13 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
 
         // Re-apply all rules to pending transactions
         const updatedPending = applyRulesToTransactions(state.pendingTransactions, newRules);
-        dispatch({ type: 'SET_PENDING', payload: updatedPending });
-        sessionStorage.setItem(PENDING_CACHE_KEY, JSON.stringify(updatedPending));
-
-        await fetch('/api/drive', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ type: 'pending-update-all', data: updatedPending, year }),
-        });
+        await savePendingAfterRules(updatedPending, newRules);
       } catch (error) {
         console.error('Error updating rule:', error);
         throw error;
       }
     },
-    [session, state.rules, state.pendingTransactions]
+    [session, state.rules, state.pendingTransactions, savePendingAfterRules]
   );
 
   const deleteRule = useCallback(
@@ -643,20 +773,81 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
 
         // Re-apply remaining rules to pending transactions
         const updatedPending = applyRulesToTransactions(state.pendingTransactions, newRules);
-        dispatch({ type: 'SET_PENDING', payload: updatedPending });
-        sessionStorage.setItem(PENDING_CACHE_KEY, JSON.stringify(updatedPending));
+        await savePendingAfterRules(updatedPending, newRules);
+      } catch (error) {
+        console.error('Error deleting rule:', error);
+        throw error;
+      }
+    },
+    [session, state.rules, state.pendingTransactions, savePendingAfterRules]
+  );
 
-        await fetch('/api/drive', {
+  const reorderRules = useCallback(
+    async (ruleIds: string[]) => {
+      if (!session) return;
+
+      const previousRules = state.rules;
+      const newRules = reorderRulePriorities(state.rules, ruleIds);
+      // Reorder right away so the dragged list doesn't jump back while saving
+      dispatch({ type: 'SET_RULES', payload: newRules });
+
+      try {
+        const year = new Date().getFullYear();
+        const response = await fetch('/api/drive', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ type: 'rules-save', data: newRules, year }),
+        });
+
+        if (!response.ok) {
+          dispatch({ type: 'SET_RULES', payload: previousRules });
+          const errorData = await response.json();
+          console.error('Rule reorder failed:', errorData);
+          throw new Error(errorData.error || 'Failed to reorder rules');
+        }
+
+        sessionStorage.setItem(RULES_CACHE_KEY, JSON.stringify(newRules));
+
+        // A different rule may now win for some pending transactions
+        const updatedPending = applyRulesToTransactions(state.pendingTransactions, newRules);
+        await savePendingAfterRules(updatedPending, newRules);
+      } catch (error) {
+        console.error('Error reordering rules:', error);
+        throw error;
+      }
+    },
+    [session, state.rules, state.pendingTransactions, savePendingAfterRules]
+  );
+
+  const importRules = useCallback(
+    async (file: unknown, options: RuleSetImportOptions): Promise<RuleSetImportResult> => {
+      try {
+        const response = await fetch('/api/drive', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ type: 'pending-update-all', data: updatedPending, year }),
+          body: JSON.stringify({ type: 'rules-import', data: { file, ...options } }),
         });
+
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to import rules');
+        }
+
+        const newRules: TransactionRule[] = result.rules;
+        dispatch({ type: 'SET_RULES', payload: newRules });
+        sessionStorage.setItem(RULES_CACHE_KEY, JSON.stringify(newRules));
+
+        // Imported rules apply to what's already waiting for review
+        const updatedPending = applyRulesToTransactions(state.pendingTransactions, newRules);
+        await savePendingAfterRules(updatedPending, newRules);
+
+        return result.result;
       } catch (error) {
-        console.error('Error deleting rule:', error);
+        console.error('Error importing rules:', error);
         throw error;
       }
     },
-    [session, state.rules, state.pendingTransactions]
+    [state.pendingTransactions, savePendingAfterRules]
   );
 
   return (
@@ -673,10 +864,13 @@ export function PendingTransactionsProvider({ children }: { children: ReactNode
         ignoreTransaction,
         unignoreTransaction,
         deleteTransaction,
+        resolveDuplicate,
         aiCategorize,
         addRule,
         updateRule,
         deleteRule,
+        reorderRules,
+        importRules,
         refreshPendingTransactions,
       }}
     >
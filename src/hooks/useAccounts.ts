@@ -0,0 +1,67 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { Account } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Payment accounts (cards, bank accounts, wallets), loaded on demand (the
+ * accounts page, expense dialogs, import and monthly views)
+ */
+export function useAccounts({ load = true }: { load?: boolean } = {}) {
+  const { data: session } = useSession();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [isLoading, setIsLoading] = useState(load);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/drive?type=accounts');
+      if (res.ok) {
+        const data = await res.json();
+        setAccounts(data.accounts || []);
+      }
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session && load) refresh();
+  }, [session, load, refresh]);
+
+  const saveAll = useCallback(async (next: Account[]) => {
+    const res = await fetch('/api/drive', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'accounts-save', data: next }),
+    });
+    if (!res.ok) throw new Error('Failed to save accounts');
+    setAccounts(next);
+  }, []);
+
+  const addAccount = useCallback(
+    async (account: Omit<Account, 'id' | 'createdAt'>) => {
+      const created: Account = { ...account, id: uuidv4(), createdAt: new Date().toISOString() };
+      await saveAll([...accounts, created]);
+      return created;
+    },
+    [accounts, saveAll]
+  );
+
+  const updateAccount = useCallback(
+    (account: Account) => saveAll(accounts.map((a) => (a.id === account.id ? account : a))),
+    [accounts, saveAll]
+  );
+
+  // Expenses keep the deleted account's ID and show up as having no account
+  const deleteAccount = useCallback(
+    (id: string) => saveAll(accounts.filter((a) => a.id !== id)),
+    [accounts, saveAll]
+  );
+
+  return { accounts, isLoading, refresh, addAccount, updateAccount, deleteAccount };
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { ExpenseAttachment } from '@/types';
+
+/**
+ * Upload and remove receipt attachments. Uploads happen as soon as a file is
+ * picked; the expense only stores the returned references.
+ */
+export function useAttachments() {
+  const [uploading, setUploading] = useState(0);
+
+  const upload = useCallback(async (file: File): Promise<ExpenseAttachment> => {
+    setUploading((n) => n + 1);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await fetch('/api/attachments', { method: 'POST', body: formData });
+      const result = await res.json();
+      if (!res.ok || result.error) {
+        throw new Error(result.error || 'Failed to upload attachment');
+      }
+      return result.attachment as ExpenseAttachment;
+    } finally {
+      setUploading((n) => n - 1);
+    }
+  }, []);
+
+  /** Best-effort cleanup of files that never got linked or were unlinked */
+  const discard = useCallback(async (attachments: ExpenseAttachment[]) => {
+    await Promise.all(
+      attachments.map((a) =>
+        fetch(`/api/attachments?id=${encodeURIComponent(a.id)}`, { method: 'DELETE' }).catch((error) =>
+          console.error('Error deleting attachment:', error)
+        )
+      )
+    );
+  }, []);
+
+  return { upload, discard, isUploading: uploading > 0 };
+}
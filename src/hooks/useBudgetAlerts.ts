@@ -0,0 +1,26 @@
+'use client';
+
+import { useCallback } from 'react';
+import { BudgetAlert } from '@/types';
+import { useSettings } from '@/context/SettingsContext';
+import { formatBudgetAlert } from '@/lib/budgets';
+import { toast } from '@/hooks/useToast';
+
+/**
+ * Returns a callback that shows a toast for each budget alert from the API
+ */
+export function useBudgetAlerts() {
+  const { settings } = useSettings();
+
+  return useCallback(
+    (alerts: BudgetAlert[] | undefined) => {
+      for (const alert of alerts || []) {
+        toast({
+          ...formatBudgetAlert(alert, settings.currency),
+          variant: alert.threshold >= 1 ? 'destructive' : 'default',
+        });
+      }
+    },
+    [settings.currency]
+  );
+}
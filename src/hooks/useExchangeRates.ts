@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { ExchangeRate } from '@/types';
+
+/**
+ * Rate table into the base currency; fetched when `load` becomes true
+ */
+export function useExchangeRates({ load = true }: { load?: boolean } = {}) {
+  const { data: session } = useSession();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(load);
+  const [loaded, setLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/drive?type=rates');
+      if (res.ok) {
+        const data = await res.json();
+        setRates(data.rates || []);
+        setLoaded(true);
+      }
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session && load && !loaded) refresh();
+  }, [session, load, loaded, refresh]);
+
+  const saveRates = useCallback(async (next: ExchangeRate[]) => {
+    const res = await fetch('/api/drive', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'rates', data: next }),
+    });
+    if (!res.ok) throw new Error('Failed to save exchange rates');
+
+    const data = await res.json();
+    setRates(data.rates || next);
+  }, []);
+
+  return { rates, isLoading, refresh, saveRates };
+}
@@ -6,7 +6,7 @@ import { useSettings } from '@/context/SettingsContext';
 import { usePendingTransactions } from '@/context/TransactionsContext';
 import { useToast } from '@/hooks/useToast';
 
-const SYNC_COOLDOWN_MS = 6 * 60 * 60 * 1000; // 6 hours
+const HOUR_MS = 60 * 60 * 1000;
 const LAST_SYNC_KEY = 'gmail-last-sync-date';
 
 export interface SyncProgress {
@@ -16,6 +16,8 @@ export interface SyncProgress {
   chunk: number;
   totalChunks: number;
   totalSaved: number;
+  templateHits: number;   // Emails read by bank alert templates, without the LLM
+  emailsParsed: number;
 }
 
 const IDLE_PROGRESS: SyncProgress = {
@@ -25,9 +27,29 @@ const IDLE_PROGRESS: SyncProgress = {
   chunk: 0,
   totalChunks: 0,
   totalSaved: 0,
+  templateHits: 0,
+  emailsParsed: 0,
 };
 
-export function useGmailSync() {
+// "9 of 12 emails read by bank templates (75%)"
+export function formatParserHitRate(progress: Pick<SyncProgress, 'templateHits' | 'emailsParsed'>): string | null {
+  if (progress.emailsParsed === 0) return null;
+  const rate = Math.round((progress.templateHits / progress.emailsParsed) * 100);
+  return `${progress.templateHits} of ${progress.emailsParsed} emails read by bank templates (${rate}%)`;
+}
+
+// A regular sync reads new mail; a re-scan reads a date range again and a
+// reprocess chosen emails, both without duplicating
+type SyncRequest =
+  | { type: 'sync' }
+  | { type: 'rescan'; from: string; to: string }
+  | { type: 'reprocess'; messageIds: string[] };
+
+interface UseGmailSyncOptions {
+  autoSync?: boolean; // Sync on mount once the interval has passed
+}
+
+export function useGmailSync({ autoSync = true }: UseGmailSyncOptions = {}) {
   const { status } = useSession();
   const { settings, isLoading: settingsLoading } = useSettings();
   const { refreshPendingTransactions } = usePendingTransactions();
@@ -43,7 +65,7 @@ export function useGmailSync() {
     if (stored) setLastSync(stored);
   }, []);
 
-  const doSync = useCallback(async () => {
+  const doSync = useCallback(async (request: SyncRequest) => {
     if (isSyncing) return;
     setIsSyncing(true);
     setProgress({ ...IDLE_PROGRESS, status: 'scanning' });
@@ -52,7 +74,7 @@ export function useGmailSync() {
       const res = await fetch('/api/gmail', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: 'sync' }),
+        body: JSON.stringify(request),
       });
 
       if (!res.ok || !res.body) {
@@ -68,6 +90,8 @@ export function useGmailSync() {
       const decoder = new TextDecoder();
       let buffer = '';
       let finalSaved = 0;
+      let finalSkipped = 0;
+      let finalStats = { templateHits: 0, emailsParsed: 0 };
 
       while (true) {
         const { done, value } = await reader.read();
@@ -98,10 +122,14 @@ export function useGmailSync() {
                 chunk: event.chunk,
                 totalChunks: event.totalChunks,
                 totalSaved: event.totalSaved,
+                templateHits: event.templateHits,
+                emailsParsed: event.emailsParsed,
               }));
             } else if (event.type === 'done') {
               finalSaved = event.totalSaved;
-              setProgress((p) => ({ ...p, status: 'done', totalSaved: event.totalSaved }));
+              finalSkipped = event.dupsSkipped;
+              finalStats = { templateHits: event.templateHits, emailsParsed: event.emailsParsed };
+              setProgress((p) => ({ ...p, status: 'done', totalSaved: event.totalSaved, ...finalStats }));
             } else if (event.type === 'error') {
               toast({ title: 'Gmail Sync', description: event.message, variant: 'destructive' });
               setProgress({ ...IDLE_PROGRESS, status: 'error' });
@@ -114,16 +142,25 @@ export function useGmailSync() {
       // Refresh context so new transactions appear in the list
       await refreshPendingTransactions();
 
+      const hitRate = formatParserHitRate(finalStats);
+      if (request.type !== 'sync') {
+        toast({
+          title: request.type === 'rescan' ? 'Gmail Re-scan' : 'Gmail Reprocess',
+          description: `Added ${finalSaved} transactions, skipped ${finalSkipped} already recorded`,
+          variant: finalSaved > 0 ? 'success' : undefined,
+        });
+        return;
+      }
       if (finalSaved > 0) {
         toast({
           title: 'Gmail Sync',
-          description: `Synced ${finalSaved} new transactions from Gmail`,
+          description: `Synced ${finalSaved} new transactions from Gmail` + (hitRate ? `. ${hitRate}` : ''),
           variant: 'success',
         });
       } else {
         toast({
           title: 'Gmail Sync',
-          description: 'No new transactions found',
+          description: 'No new transactions found' + (hitRate ? `. ${hitRate}` : ''),
         });
       }
 
@@ -140,22 +177,33 @@ export function useGmailSync() {
     }
   }, [isSyncing, refreshPendingTransactions, toast]);
 
-  // Auto-sync on mount when enabled + cooldown passed
+  // Auto-sync on mount when enabled + the user's interval passed (0 = manual only)
+  const intervalHours = settings.gmailSync.autoSyncIntervalHours;
   useEffect(() => {
-    if (autoSyncTriggered.current) return;
+    if (!autoSync || autoSyncTriggered.current) return;
     if (settingsLoading || status !== 'authenticated') return;
-    if (!settings.gmailSyncEnabled) return;
+    if (!settings.gmailSyncEnabled || intervalHours <= 0) return;
 
     const lastSyncTime = lastSync ? new Date(lastSync).getTime() : 0;
-    if (Date.now() - lastSyncTime < SYNC_COOLDOWN_MS) return;
+    if (Date.now() - lastSyncTime < intervalHours * HOUR_MS) return;
 
     autoSyncTriggered.current = true;
-    doSync();
-  }, [settingsLoading, status, settings.gmailSyncEnabled, lastSync, doSync]);
+    doSync({ type: 'sync' });
+  }, [autoSync, settingsLoading, status, settings.gmailSyncEnabled, intervalHours, lastSync, doSync]);
 
   const triggerSync = useCallback(() => {
-    doSync();
+    doSync({ type: 'sync' });
+  }, [doSync]);
+
+  // Dates are YYYY-MM-DD, both inclusive
+  const triggerRescan = useCallback((from: string, to: string) => {
+    doSync({ type: 'rescan', from, to });
+  }, [doSync]);
+
+  // Resolves once the run finishes, so callers can reload the sync log
+  const triggerReprocess = useCallback((messageIds: string[]) => {
+    return doSync({ type: 'reprocess', messageIds });
   }, [doSync]);
 
-  return { isSyncing, progress, lastSync, triggerSync };
+  return { isSyncing, progress, lastSync, triggerSync, triggerRescan, triggerReprocess };
 }
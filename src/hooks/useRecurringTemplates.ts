@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { RecurringTemplate } from '@/types';
+
+type NewRecurringTemplate = Omit<RecurringTemplate, 'id' | 'createdAt' | 'enabled'> & { enabled?: boolean };
+
+/**
+ * Recurring expense templates, loaded on demand (only the settings page and
+ * the add dialog need them)
+ */
+export function useRecurringTemplates({ load = true }: { load?: boolean } = {}) {
+  const { data: session } = useSession();
+  const [templates, setTemplates] = useState<RecurringTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(load);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/drive?type=recurring');
+      if (res.ok) {
+        const data = await res.json();
+        setTemplates(data.templates || []);
+      }
+    } catch (error) {
+      console.error('Error loading recurring templates:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session && load) refresh();
+  }, [session, load, refresh]);
+
+  const addTemplate = useCallback(async (template: NewRecurringTemplate) => {
+    const res = await fetch('/api/drive', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'recurring', data: template }),
+    });
+    if (!res.ok) throw new Error('Failed to add recurring template');
+
+    const { template: created } = await res.json();
+    setTemplates((prev) => [...prev, created]);
+    return created as RecurringTemplate;
+  }, []);
+
+  const saveAll = useCallback(async (next: RecurringTemplate[]) => {
+    const res = await fetch('/api/drive', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'recurring-save', data: next }),
+    });
+    if (!res.ok) throw new Error('Failed to save recurring templates');
+    setTemplates(next);
+  }, []);
+
+  const updateTemplate = useCallback(
+    (template: RecurringTemplate) =>
+      saveAll(templates.map((t) => (t.id === template.id ? template : t))),
+    [templates, saveAll]
+  );
+
+  const deleteTemplate = useCallback(
+    (id: string) => saveAll(templates.filter((t) => t.id !== id)),
+    [templates, saveAll]
+  );
+
+  /** Materialize due instances now; returns how many pending transactions were created */
+  const runDueTemplates = useCallback(async () => {
+    try {
+      const res = await fetch('/api/drive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'recurring-run' }),
+      });
+      if (!res.ok) return 0;
+
+      const { pendingTransactions } = await res.json();
+      const created = pendingTransactions?.length || 0;
+      if (created > 0) await refresh();
+      return created;
+    } catch (error) {
+      console.error('Error running recurring templates:', error);
+      return 0;
+    }
+  }, [refresh]);
+
+  return { templates, isLoading, refresh, addTemplate, updateTemplate, deleteTemplate, runDueTemplates };
+}
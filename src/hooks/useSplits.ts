@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { ExpenseSplit, SplitGroup } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+type SplitInput = Omit<ExpenseSplit, 'id' | 'createdAt'> & { id?: string };
+
+/**
+ * Split groups and shared expenses, loaded on demand (the splits page and the
+ * expense dialogs)
+ */
+export function useSplits({ load = true }: { load?: boolean } = {}) {
+  const { data: session } = useSession();
+  const [groups, setGroups] = useState<SplitGroup[]>([]);
+  const [splits, setSplits] = useState<ExpenseSplit[]>([]);
+  const [isLoading, setIsLoading] = useState(load);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/drive?type=splits');
+      if (res.ok) {
+        const data = await res.json();
+        setGroups(data.groups || []);
+        setSplits(data.splits || []);
+      }
+    } catch (error) {
+      console.error('Error loading splits:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session && load) refresh();
+  }, [session, load, refresh]);
+
+  const saveGroups = useCallback(async (next: SplitGroup[]) => {
+    const res = await fetch('/api/drive', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'split-groups-save', data: next }),
+    });
+    if (!res.ok) throw new Error('Failed to save split groups');
+    setGroups(next);
+  }, []);
+
+  const addGroup = useCallback(
+    async (group: Omit<SplitGroup, 'id' | 'createdAt'>) => {
+      const created: SplitGroup = { ...group, id: uuidv4(), createdAt: new Date().toISOString() };
+      await saveGroups([...groups, created]);
+      return created;
+    },
+    [groups, saveGroups]
+  );
+
+  const updateGroup = useCallback(
+    (group: SplitGroup) => saveGroups(groups.map((g) => (g.id === group.id ? group : g))),
+    [groups, saveGroups]
+  );
+
+  const deleteGroup = useCallback(
+    (id: string) => saveGroups(groups.filter((g) => g.id !== id)),
+    [groups, saveGroups]
+  );
+
+  /** Create or replace a split (an expense keeps at most one) */
+  const saveSplit = useCallback(async (split: SplitInput) => {
+    const res = await fetch('/api/drive', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'split', data: split }),
+    });
+    const result = await res.json();
+    if (!res.ok || result.error) throw new Error(result.error || 'Failed to save split');
+
+    const saved = result.split as ExpenseSplit;
+    setSplits((prev) => [...prev.filter((s) => s.id !== saved.id), saved]);
+    return saved;
+  }, []);
+
+  const deleteSplit = useCallback(async (id: string) => {
+    const res = await fetch(`/api/drive?type=split&id=${id}`, { method: 'DELETE' });
+    if (!res.ok) throw new Error('Failed to delete split');
+    setSplits((prev) => prev.filter((s) => s.id !== id));
+  }, []);
+
+  return {
+    groups,
+    splits,
+    isLoading,
+    refresh,
+    addGroup,
+    updateGroup,
+    deleteGroup,
+    saveSplit,
+    deleteSplit,
+  };
+}
@@ -0,0 +1,143 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Account, AccountType, DetectedAccount, TransactionDirection, ACCOUNT_TYPES } from '@/types';
+import { isExpense } from '@/lib/utils';
+
+// Account filter value for transactions with no account ('' shows all)
+export const NO_ACCOUNT_FILTER = 'none';
+
+export interface AccountTotal {
+  accountId: string; // Empty for spending with no account
+  total: number;
+  count: number;
+}
+
+export function getAccountTypeLabel(type: AccountType): string {
+  return ACCOUNT_TYPES.find((t) => t.value === type)?.label || type;
+}
+
+// "HDFC Bank Credit Card ••1234"
+export function formatAccountLabel(account: Pick<Account, 'name' | 'last4'>): string {
+  return account.last4 ? `${account.name} ••${account.last4}` : account.name;
+}
+
+// "XXXX1234", "4111 XXXX XXXX 1234", "**123" → "1234", "1234", "123"
+export function readLast4(value: string | undefined): string | undefined {
+  const digits = value?.replace(/\D/g, '') || '';
+  return digits.length >= 3 ? digits.slice(-4) : undefined;
+}
+
+// "Account No : 50100123456789", "A/C NO. XXXX1234", "Card Number 4111 XXXX XXXX 1234"
+const ACCOUNT_NUMBER = /(?:account|a\/c|card)\s*(?:no\.?|number|#)?\s*[:.-]?\s*([X*\d][X*\d\s-]{3,}\d)/i;
+
+/** Account or card number printed in a statement's header text, digits and masks only */
+export function findAccountNumber(lines: string[]): string | null {
+  for (const line of lines) {
+    const match = line.match(ACCOUNT_NUMBER);
+    if (match) return match[1].replace(/[\s-]/g, '');
+  }
+  return null;
+}
+
+function sameText(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Alerts sometimes print three digits of a four-digit tail ("**234")
+function sameTail(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  return a.length >= b.length ? a.endsWith(b) : b.endsWith(a);
+}
+
+/**
+ * Saved account a detected one refers to. The last digits decide when
+ * known (type and institution break ties); without them an institution
+ * only matches when exactly one account of that type is with it.
+ */
+export function findMatchingAccount(accounts: Account[], detected: DetectedAccount): Account | undefined {
+  if (detected.last4) {
+    const candidates = accounts.filter((a) => sameTail(a.last4, detected.last4));
+    return candidates.find((a) => a.type === detected.type && (!detected.institution || !a.institution || sameText(a.institution, detected.institution))) ||
+      candidates.find((a) => a.type === detected.type) ||
+      candidates[0];
+  }
+  if (!detected.institution) return undefined;
+  const candidates = accounts.filter((a) => a.type === detected.type && sameText(a.institution, detected.institution));
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+// Name for an account created from an alert or statement
+export function defaultAccountName(detected: DetectedAccount): string {
+  const typeLabel = getAccountTypeLabel(detected.type);
+  if (!detected.institution) return typeLabel;
+  return detected.type === 'bank' ? detected.institution : `${detected.institution} ${typeLabel}`;
+}
+
+export function createAccount(detected: DetectedAccount, name?: string): Account {
+  return {
+    id: uuidv4(),
+    name: name?.trim() || defaultAccountName(detected),
+    type: detected.type,
+    last4: detected.last4,
+    institution: detected.institution,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Account IDs for detected accounts, in order. Ones with known last digits
+ * and no saved match become new accounts; vaguer ones stay unassigned rather
+ * than guessing.
+ */
+export function resolveAccounts(
+  accounts: Account[],
+  detected: (DetectedAccount | undefined)[]
+): { ids: (string | undefined)[]; created: Account[] } {
+  const known = [...accounts];
+  const created: Account[] = [];
+  const ids = detected.map((d) => {
+    if (!d) return undefined;
+    const match = findMatchingAccount(known, d);
+    if (match) return match.id;
+    if (!d.last4) return undefined;
+    const account = createAccount(d);
+    known.push(account);
+    created.push(account);
+    return account.id;
+  });
+  return { ids, created };
+}
+
+// Expenses whose account was deleted count as having none
+function knownAccountId(accountId: string | undefined, accounts: Pick<Account, 'id'>[]): string {
+  return accountId && accounts.some((a) => a.id === accountId) ? accountId : '';
+}
+
+/**
+ * Spending per account, largest first. Expenses without a saved account are
+ * totalled under an empty ID so the rows add up to the month's spending.
+ */
+export function calculateAccountTotals(
+  transactions: { amount: number; accountId?: string; direction?: TransactionDirection }[],
+  accounts: Pick<Account, 'id'>[]
+): AccountTotal[] {
+  const totals = new Map<string, AccountTotal>();
+  for (const t of transactions.filter(isExpense)) {
+    const accountId = knownAccountId(t.accountId, accounts);
+    const current = totals.get(accountId) || { accountId, total: 0, count: 0 };
+    current.total += t.amount;
+    current.count += 1;
+    totals.set(accountId, current);
+  }
+  return Array.from(totals.values()).sort((a, b) => b.total - a.total);
+}
+
+/** Transactions paid with an account; NO_ACCOUNT_FILTER keeps those without one */
+export function filterByAccount<T extends { accountId?: string }>(
+  transactions: T[],
+  accountFilter: string,
+  accounts: Pick<Account, 'id'>[]
+): T[] {
+  if (!accountFilter) return transactions;
+  const wanted = accountFilter === NO_ACCOUNT_FILTER ? '' : accountFilter;
+  return transactions.filter((t) => knownAccountId(t.accountId, accounts) === wanted);
+}
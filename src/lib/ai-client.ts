@@ -354,7 +354,18 @@ async function* callOpenAIProvider(
 
 // ── Non-Streaming LLM Call ──────────────────────────────────────────────
 
-export async function callLLMNonStreaming(prompt: string): Promise<string> {
+/**
+ * Strip markdown code fences that LLMs sometimes wrap around JSON.
+ */
+export function cleanJsonResponse(raw: string): string {
+  return raw
+    .replace(/^```(?:json)?\s*\n?/i, '')
+    .replace(/\n?```\s*$/i, '')
+    .trim();
+}
+
+// `images` are JPEG base64 strings sent alongside the prompt (vision models only)
+export async function callLLMNonStreaming(prompt: string, images: string[] = []): Promise<string> {
   const ollama = getOllamaConfig();
   const gemini = getGeminiConfig();
 
@@ -369,7 +380,11 @@ export async function callLLMNonStreaming(prompt: string): Promise<string> {
         headers,
         body: JSON.stringify({
           model: ollama.model,
-          messages: [{ role: 'user', content: prompt }],
+          messages: [
+            images.length > 0
+              ? { role: 'user', content: prompt, images }
+              : { role: 'user', content: prompt },
+          ],
           stream: false,
           format: 'json',
         }),
@@ -392,7 +407,20 @@ export async function callLLMNonStreaming(prompt: string): Promise<string> {
       },
       body: JSON.stringify({
         model: gemini.model,
-        messages: [{ role: 'user', content: prompt }],
+        messages: [
+          {
+            role: 'user',
+            content: images.length > 0
+              ? [
+                  { type: 'text', text: prompt },
+                  ...images.map((img) => ({
+                    type: 'image_url',
+                    image_url: { url: `data:image/jpeg;base64,${img}` },
+                  })),
+                ]
+              : prompt,
+          },
+        ],
         response_format: { type: 'json_object' },
       }),
     });
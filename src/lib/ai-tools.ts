@@ -1,17 +1,12 @@
 import { v4 as uuidv4 } from 'uuid';
 import { Category, Expense, PendingTransaction } from '@/types';
-import {
-  getExpenses,
-  addExpense,
-  updateExpense,
-  deleteExpense,
-  addCategory,
-  addExpensesBatch,
-  addPendingTransactions,
-} from '@/lib/google-sheets';
+import type { StorageBackend } from '@/lib/storage';
 import { extractYearFromId } from '@/lib/id-utils';
-import { formatCurrency, formatDate } from '@/lib/utils';
-import type { CurrencyCode } from '@/types';
+import { formatCurrency, formatDate, isExpense, calculateCashFlow } from '@/lib/utils';
+import type { CurrencyCode, TransactionDirection } from '@/types';
+import { SUPPORTED_CURRENCIES } from '@/types';
+import { convertToBase } from '@/lib/currency';
+import { mergeTags } from '@/lib/tags';
 
 // OpenAI-compatible tool definitions
 export const TOOL_DEFINITIONS = [
@@ -24,9 +19,24 @@ export const TOOL_DEFINITIONS = [
         type: 'object',
         properties: {
           amount: { type: 'number', description: 'The expense amount' },
+          currency: {
+            type: 'string',
+            enum: SUPPORTED_CURRENCIES.map((c) => c.code),
+            description: "Currency the amount was paid in, if different from the user's currency. Converted to the user's currency using their rate table.",
+          },
           date: { type: 'string', description: 'Date in YYYY-MM-DD format. Defaults to today.' },
           category: { type: 'string', description: 'Category ID (e.g. "groceries", "transport", "dining")' },
           description: { type: 'string', description: 'Description of the expense' },
+          direction: {
+            type: 'string',
+            enum: ['expense', 'income', 'transfer'],
+            description: 'Money flow. Use "income" for salary, refunds or money received. Defaults to "expense".',
+          },
+          tags: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional free-form tags such as "reimbursable" or "trip-goa-2026"',
+          },
         },
         required: ['amount', 'description', 'category'],
       },
@@ -36,11 +46,11 @@ export const TOOL_DEFINITIONS = [
     type: 'function' as const,
     function: {
       name: 'search_expenses',
-      description: 'Search expenses by description or amount. Use this when the user asks to find specific expenses.',
+      description: 'Search expenses by description, amount or tag. Use this when the user asks to find specific expenses.',
       parameters: {
         type: 'object',
         properties: {
-          query: { type: 'string', description: 'Search query to match against descriptions or amounts' },
+          query: { type: 'string', description: 'Search query to match against descriptions, amounts or tags' },
         },
         required: ['query'],
       },
@@ -187,8 +197,7 @@ export const TOOL_DEFINITIONS = [
 
 // Context passed to avoid redundant API calls within a single chat request
 export interface ToolContext {
-  accessToken: string;
-  spreadsheetId: string;
+  storage: StorageBackend;
   categories: Category[];
   currency: CurrencyCode;
 }
@@ -200,27 +209,48 @@ export async function executeTool(
   ctx: ToolContext
 ): Promise<{ success: boolean; data: unknown; summary: string }> {
   try {
-    const { accessToken, spreadsheetId, categories, currency } = ctx;
+    const { storage, categories, currency } = ctx;
 
     switch (toolName) {
       case 'add_expense': {
         const now = new Date().toISOString();
         const date = (args.date as string) || now.split('T')[0];
         const year = new Date(date).getFullYear();
+        const amount = args.amount as number;
+        const paidIn = (args.currency as CurrencyCode | undefined) || currency;
+
+        let baseAmount = amount;
+        if (paidIn !== currency) {
+          const rates = await storage.getExchangeRates(currency);
+          const converted = convertToBase(amount, paidIn, rates, currency);
+          if (converted === null) {
+            return {
+              success: false,
+              data: null,
+              summary: `No exchange rate for ${paidIn} → ${currency}. Set one in Settings → Currency.`,
+            };
+          }
+          baseAmount = converted;
+        }
+
         const expense: Expense = {
           id: `${year}-${uuidv4()}`,
-          amount: args.amount as number,
+          amount: baseAmount,
           date,
           category: args.category as string,
           description: args.description as string,
           createdAt: now,
           updatedAt: now,
+          direction: (args.direction as TransactionDirection) || 'expense',
+          tags: mergeTags(args.tags as string[] | undefined),
+          ...(paidIn !== currency && { originalAmount: amount, originalCurrency: paidIn }),
         };
-        await addExpense(accessToken, expense);
+        await storage.addExpense(expense);
         return {
           success: true,
           data: expense,
-          summary: `Added ${formatCurrency(expense.amount, currency)} for "${expense.description}"`,
+          summary: `Added ${formatCurrency(expense.amount, currency)} for "${expense.description}"`
+            + (paidIn !== currency ? ` (${formatCurrency(amount, paidIn)})` : ''),
         };
       }
 
@@ -229,15 +259,16 @@ export async function executeTool(
         const currentYear = new Date().getFullYear();
         const filterFn = (e: Expense) =>
           e.description?.toLowerCase().includes(query) ||
-          String(e.amount).includes(query);
+          String(e.amount).includes(query) ||
+          !!e.tags?.some((tag) => tag.includes(query.replace(/^#/, '')));
 
         // Search current year first
-        let expenses = await getExpenses(accessToken, spreadsheetId, currentYear);
+        let expenses = await storage.getExpenses(currentYear);
         let filtered = expenses.filter(filterFn);
 
         // If few results, also search previous year
         if (filtered.length < 10) {
-          const prevYear = await getExpenses(accessToken, spreadsheetId, currentYear - 1);
+          const prevYear = await storage.getExpenses(currentYear - 1);
           filtered = [...filtered, ...prevYear.filter(filterFn)];
         }
 
@@ -254,10 +285,10 @@ export async function executeTool(
         const limit = Math.min((args.limit as number) || 10, 50);
         const currentYear = new Date().getFullYear();
 
-        let expenses = await getExpenses(accessToken, spreadsheetId, currentYear);
+        let expenses = await storage.getExpenses(currentYear);
         // If current year has fewer than requested, also fetch previous year
         if (expenses.length < limit) {
-          const prevYear = await getExpenses(accessToken, spreadsheetId, currentYear - 1);
+          const prevYear = await storage.getExpenses(currentYear - 1);
           expenses = [...expenses, ...prevYear];
         }
 
@@ -272,7 +303,7 @@ export async function executeTool(
 
       case 'update_expense': {
         const expYear = extractYearFromId(args.id as string) || new Date().getFullYear();
-        const yearExpenses = await getExpenses(accessToken, spreadsheetId, expYear);
+        const yearExpenses = await storage.getExpenses(expYear);
         const existing = yearExpenses.find((e) => e.id === args.id);
         if (!existing) {
           return { success: false, data: null, summary: `Expense with ID "${args.id}" not found` };
@@ -285,7 +316,7 @@ export async function executeTool(
           description: (args.description as string) ?? existing.description,
           updatedAt: new Date().toISOString(),
         };
-        await updateExpense(accessToken, updated);
+        await storage.updateExpense(updated);
         return {
           success: true,
           data: updated,
@@ -294,7 +325,7 @@ export async function executeTool(
       }
 
       case 'delete_expense': {
-        await deleteExpense(accessToken, spreadsheetId, args.id as string);
+        await storage.deleteExpense(args.id as string);
         return {
           success: true,
           data: { id: args.id },
@@ -318,7 +349,7 @@ export async function executeTool(
           color: args.color as string,
           icon: (args.icon as string) || undefined,
         };
-        await addCategory(accessToken, spreadsheetId, cat);
+        await storage.addCategory(cat);
         return {
           success: true,
           data: cat,
@@ -343,7 +374,7 @@ export async function executeTool(
           createdAt: now,
           updatedAt: now,
         }));
-        await addExpensesBatch(accessToken, expenses);
+        await storage.addExpensesBatch(expenses);
         const total = expenses.reduce((s, e) => s + e.amount, 0);
         return {
           success: true,
@@ -371,7 +402,7 @@ export async function executeTool(
           source: source || undefined,
           createdAt: now,
         }));
-        await addPendingTransactions(accessToken, spreadsheetId, pending);
+        await storage.addPendingTransactions(pending);
         const total = pending.reduce((s, t) => s + t.amount, 0);
         return {
           success: true,
@@ -384,9 +415,10 @@ export async function executeTool(
         const targetMonth =
           (args.month as string) || new Date().toISOString().slice(0, 7);
         const year = parseInt(targetMonth.split('-')[0], 10);
-        const yearExpenses = await getExpenses(accessToken, spreadsheetId, year);
-        const monthExpenses = yearExpenses.filter((e) => e.date.startsWith(targetMonth));
-        const total = monthExpenses.reduce((s, e) => s + e.amount, 0);
+        const yearExpenses = await storage.getExpenses(year);
+        const monthTransactions = yearExpenses.filter((e) => e.date.startsWith(targetMonth));
+        const monthExpenses = monthTransactions.filter(isExpense);
+        const { spent: total, income, net } = calculateCashFlow(monthTransactions);
 
         // Category breakdown
         const catMap = new Map(categories.map((c) => [c.id, c.name]));
@@ -400,11 +432,15 @@ export async function executeTool(
           success: true,
           data: {
             month: targetMonth,
+            currency,
             total,
+            income,
+            netCashFlow: net,
             count: monthExpenses.length,
             byCategory,
           },
-          summary: `${targetMonth}: ${formatCurrency(total, currency)} across ${monthExpenses.length} expenses`,
+          summary: `${targetMonth}: ${formatCurrency(total, currency)} across ${monthExpenses.length} expenses`
+            + (income > 0 ? `, ${formatCurrency(income, currency)} income` : ''),
         };
       }
 
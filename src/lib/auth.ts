@@ -1,5 +1,44 @@
 import { NextAuthOptions } from 'next-auth';
 import GoogleProvider from 'next-auth/providers/google';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import crypto from 'crypto';
+
+// Placeholder token for local sessions; the file backend ignores it
+export const LOCAL_ACCESS_TOKEN = 'local';
+
+// Shared password for local sign-in; without it the local provider stays off
+const LOCAL_AUTH_PASSWORD = process.env.LOCAL_AUTH_PASSWORD;
+
+// Hashing first gives equal-length buffers, so the comparison doesn't leak the length
+function passwordMatches(input: string, expected: string): boolean {
+  const a = crypto.createHash('sha256').update(input).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// With the file storage backend, allow signing in without a Google account
+// using the password from LOCAL_AUTH_PASSWORD
+const localProviders = process.env.STORAGE_BACKEND === 'file' && LOCAL_AUTH_PASSWORD
+  ? [
+      CredentialsProvider({
+        id: 'local',
+        name: 'Local',
+        credentials: {
+          password: { label: 'Password', type: 'password' },
+        },
+        async authorize(credentials) {
+          if (!credentials?.password || !passwordMatches(credentials.password, LOCAL_AUTH_PASSWORD)) {
+            return null;
+          }
+          return { id: 'local', name: 'Local User', email: 'local@localhost' };
+        },
+      }),
+    ]
+  : [];
+
+if (process.env.STORAGE_BACKEND === 'file' && !LOCAL_AUTH_PASSWORD) {
+  console.warn('LOCAL_AUTH_PASSWORD is not set; local sign-in is disabled');
+}
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -22,11 +61,14 @@ export const authOptions: NextAuthOptions = {
         },
       },
     }),
+    ...localProviders,
   ],
   callbacks: {
     async jwt({ token, account, profile }) {
       // Persist the OAuth access_token and refresh_token to the token
-      if (account) {
+      if (account?.provider === 'local') {
+        token.accessToken = LOCAL_ACCESS_TOKEN;
+      } else if (account) {
         token.accessToken = account.access_token;
         token.refreshToken = account.refresh_token;
         token.expiresAt = account.expires_at;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { matchBankAlert } from '@/lib/bank-alerts';
+import { GmailEmail } from '@/lib/gmail-client';
+
+function email(from: string, body: string, subject = 'Transaction alert'): GmailEmail {
+  return { id: 'm1', from, subject, body, date: 'Thu, 15 Oct 2026 10:00:00 +0530' };
+}
+
+describe('matchBankAlert', () => {
+  it('reads an HDFC UPI debit with the payee as merchant', () => {
+    const result = matchBankAlert(email(
+      'HDFC Bank InstaAlerts <alerts@hdfcbank.net>',
+      'Dear Customer, Rs.450.00 has been debited from account **1234 to VPA swiggy@icici SWIGGY on 15-10-26.'
+    ));
+    expect(result).toMatchObject({
+      templateId: 'hdfc',
+      amount: 450,
+      date: '2026-10-15',
+      description: 'SWIGGY',
+      direction: 'expense',
+      account: { type: 'bank', last4: '1234', institution: 'HDFC Bank' },
+    });
+  });
+
+  it('tags card alerts as credit cards and strips thousands separators', () => {
+    const result = matchBankAlert(email(
+      'alerts@hdfcbank.net',
+      'Thank you for using HDFC Bank Credit Card ending 9876 for Rs 1,299.00 at AMAZON on 15-10-2026 10:20:30.'
+    ));
+    expect(result).toMatchObject({ amount: 1299, description: 'AMAZON', account: { type: 'credit-card', last4: '9876' } });
+  });
+
+  it('reads the direction from ICICI account alerts', () => {
+    const result = matchBankAlert(email(
+      'credit_cards@icicibank.com',
+      'ICICI Bank Account XX123 credited with Rs 2,000.00 on 14-Oct-26; JOHN DOE debited. UPI:123456.'
+    ));
+    expect(result).toMatchObject({ amount: 2000, date: '2026-10-14', direction: 'income', account: { last4: '123' } });
+  });
+
+  it('leaves unknown senders and unmatched layouts to the LLM', () => {
+    expect(matchBankAlert(email('news@shop.com', 'Rs.450.00 has been debited from account **1234'))).toBeNull();
+    expect(matchBankAlert(email('alerts@hdfcbank.net', 'Your OTP is 123456'))).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+import { parse, isValid, format, differenceInCalendarDays } from 'date-fns';
+import { AccountType, ParsedEmailTransaction, TransactionDirection } from '@/types';
+import { GmailEmail } from '@/lib/gmail-client';
+
+// Dates in alerts are day-first; anything further than this from the email's own date is misread
+const MAX_DATE_DRIFT_DAYS = 45;
+
+const ALERT_DATE_FORMATS = [
+  'dd-MM-yy', 'dd-MM-yyyy', 'dd/MM/yy', 'dd/MM/yyyy', 'dd-MMM-yy', 'dd-MMM-yyyy',
+  'ddMMMyy', 'ddMMMyyyy', 'dd MMM yyyy', 'dd MMM yy', 'MMM d, yyyy', 'yyyy-MM-dd',
+];
+
+const AMOUNT = String.raw`(?:Rs\.?|INR|₹)\s*([\d,]+(?:\.\d{1,2})?)`;
+
+interface AlertPattern {
+  regex: RegExp;
+  // Fixed, or read from a group containing "debit"/"credit"
+  direction: TransactionDirection | { group: number };
+  // Capture group numbers; merchant falls back to `payee` (e.g. a UPI VPA)
+  amount: number;
+  merchant?: number;
+  payee?: number;
+  date?: number;
+  account?: number;
+  accountType?: AccountType; // Of the `account` group; a bank account unless set
+  // Read from the subject instead of the body (UPI app receipts)
+  inSubject?: boolean;
+}
+
+interface BankAlertTemplate {
+  id: string;
+  name: string;
+  from: RegExp;
+  patterns: AlertPattern[];
+}
+
+export interface AlertMatch extends ParsedEmailTransaction {
+  templateId: string;
+}
+
+export const BANK_ALERT_TEMPLATES: BankAlertTemplate[] = [
+  {
+    id: 'hdfc',
+    name: 'HDFC Bank',
+    from: /@hdfcbank\.(net|com|bank\.in)/i,
+    patterns: [
+      {
+        // "Rs.450.00 has been debited from account **1234 to VPA swiggy@icici SWIGGY on 15-10-26."
+        regex: new RegExp(`${AMOUNT} has been debited from (?:account|a/c) \\**(\\d{3,4}) to VPA (\\S+)\\s*(.*?) on (\\d{2}-\\d{2}-\\d{2,4})`, 'i'),
+        direction: 'expense', amount: 1, account: 2, payee: 3, merchant: 4, date: 5,
+      },
+      {
+        // "Rs. 500.00 is successfully credited to your account **1234 by VPA john@okaxis JOHN DOE on 15-10-26."
+        regex: new RegExp(`${AMOUNT} is successfully credited to your account \\**(\\d{3,4}) by VPA (\\S+)\\s*(.*?) on (\\d{2}-\\d{2}-\\d{2,4})`, 'i'),
+        direction: 'income', amount: 1, account: 2, payee: 3, merchant: 4, date: 5,
+      },
+      {
+        // "...HDFC Bank Credit Card ending 1234 for Rs 1,299.00 at AMAZON on 15-10-2026 10:20:30"
+        regex: new RegExp(`Card ending (\\d{4}) for ${AMOUNT} at (.+?) on (\\d{2}-\\d{2}-\\d{4})`, 'i'),
+        direction: 'expense', account: 1, accountType: 'credit-card', amount: 2, merchant: 3, date: 4,
+      },
+      {
+        // "Rs.2000.00 has been debited from account **1234 to Acme Utilities on 15-10-26"
+        regex: new RegExp(`${AMOUNT} has been (debited|credited) (?:from|to) (?:your )?(?:account|a/c) \\**(\\d{3,4}) (?:to|by|towards) (.+?) on (\\d{2}-\\d{2}-\\d{2,4})`, 'i'),
+        direction: { group: 2 }, amount: 1, account: 3, merchant: 4, date: 5,
+      },
+    ],
+  },
+  {
+    id: 'icici',
+    name: 'ICICI Bank',
+    from: /@icicibank\.com/i,
+    patterns: [
+      {
+        // "ICICI Bank Account XX123 debited for Rs 450.00 on 15-Oct-26; SWIGGY credited. UPI:123456."
+        regex: new RegExp(`Account (?:No\\.? )?XX(\\d{3,4}) (debited|credited) (?:for|with) ${AMOUNT} on (\\d{2}-[A-Za-z]{3}-\\d{2,4})(?:[;.,]\\s*(.+?) (?:credited|debited)\\b)?`, 'i'),
+        direction: { group: 2 }, account: 1, amount: 3, date: 4, merchant: 5,
+      },
+      {
+        // "Your ICICI Bank Credit Card XX1234 has been used for a transaction of INR 1,299.00 on Oct 15, 2026 at 10:20:30. Info: AMAZON."
+        regex: new RegExp(`Credit Card XX(\\d{4}) has been used for a transaction of ${AMOUNT} on ([A-Za-z]{3} \\d{1,2}, \\d{4}).*?Info:\\s*([^.]+)`, 'i'),
+        direction: 'expense', account: 1, accountType: 'credit-card', amount: 2, date: 3, merchant: 4,
+      },
+    ],
+  },
+  {
+    id: 'sbi',
+    name: 'State Bank of India',
+    from: /@(alerts\.)?sbi\.co\.in|@sbicard\.com/i,
+    patterns: [
+      {
+        // "Rs.1,299.00 spent on your SBI Credit Card ending 1234 at AMAZON on 15/10/26."
+        regex: new RegExp(`${AMOUNT} spent on your SBI Credit Card ending (?:with )?(\\d{4}) at (.+?) on (\\d{2}/\\d{2}/\\d{2,4})`, 'i'),
+        direction: 'expense', amount: 1, account: 2, accountType: 'credit-card', merchant: 3, date: 4,
+      },
+      {
+        // "Your A/C XXXXX1234 has a debit by transfer of Rs 450.00 on 15Oct26 ... transfer to SWIGGY Ref No 123"
+        regex: new RegExp(`A/C X+(\\d{3,4}) has a (debit|credit) by \\w+ of ${AMOUNT} on (\\d{1,2}[A-Za-z]{3}\\d{2,4})(?:.*?transfer (?:to|from) (.+?)(?: Ref\\b|\\.|$))?`, 'i'),
+        direction: { group: 2 }, account: 1, amount: 3, date: 4, merchant: 5,
+      },
+      {
+        // "Dear UPI user A/C X1234 debited by 450.0 on date 15Oct26 trf to SWIGGY Refno 123"
+        regex: /A\/C X+(\d{3,4}) (debited|credited) by ([\d,]+(?:\.\d{1,2})?) on date (\d{1,2}[A-Za-z]{3}\d{2,4}) (?:trf to|transfer from) (.+?)(?: Refno\b|\.|$)/i,
+        direction: { group: 2 }, account: 1, amount: 3, date: 4, merchant: 5,
+      },
+    ],
+  },
+  {
+    id: 'axis',
+    name: 'Axis Bank',
+    from: /@axisbank\.com/i,
+    patterns: [
+      {
+        // "Amount Debited: INR 450.00 Account Number: XX1234 Date & Time: 15-10-26, 10:20:30 IST Transaction Info: UPI/P2M/123456/SWIGGY"
+        regex: /Amount (Debited|Credited):\s*INR\s*([\d,]+(?:\.\d{1,2})?).*?Account Number:\s*XX(\d{3,4}).*?Date (?:&|and) Time:\s*(\d{2}-\d{2}-\d{2,4}).*?Transaction Info:\s*(\S+)/i,
+        direction: { group: 1 }, amount: 2, account: 3, date: 4, merchant: 5,
+      },
+      {
+        // "INR 1299.00 was spent on your Axis Bank Credit Card no. XX1234 at AMAZON on 15-10-2026"
+        regex: new RegExp(`${AMOUNT} (?:was )?spent on your Axis Bank Credit Card (?:no\\.? )?XX(\\d{4}) at (.+?) on (\\d{2}-\\d{2}-\\d{2,4})`, 'i'),
+        direction: 'expense', amount: 1, account: 2, accountType: 'credit-card', merchant: 3, date: 4,
+      },
+    ],
+  },
+  {
+    id: 'upi-apps',
+    name: 'UPI apps',
+    from: /@(phonepe\.com|paytm\.com|google\.com)|Google Pay/i,
+    patterns: [
+      // "Paid ₹450 to Swiggy", "You paid ₹450.00 to Swiggy", "Rs.450 paid to Swiggy"
+      { regex: new RegExp(`^(?:You )?(?:paid|sent) ${AMOUNT} to (.+)$`, 'i'), direction: 'expense', amount: 1, merchant: 2, inSubject: true },
+      { regex: new RegExp(`^${AMOUNT} (?:paid|sent) to (.+)$`, 'i'), direction: 'expense', amount: 1, merchant: 2, inSubject: true },
+      // "Received ₹500 from John Doe", "You received ₹500 from John Doe"
+      { regex: new RegExp(`^(?:You )?received ${AMOUNT} from (.+)$`, 'i'), direction: 'income', amount: 1, merchant: 2, inSubject: true },
+    ],
+  },
+];
+
+function emailDate(email: GmailEmail): Date {
+  const date = new Date(email.date);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+function parseAlertDate(token: string | undefined, sentAt: Date): string {
+  if (token) {
+    for (const pattern of ALERT_DATE_FORMATS) {
+      const date = parse(token.trim(), pattern, sentAt);
+      if (isValid(date) && Math.abs(differenceInCalendarDays(date, sentAt)) <= MAX_DATE_DRIFT_DAYS) {
+        return format(date, 'yyyy-MM-dd');
+      }
+    }
+  }
+  return format(sentAt, 'yyyy-MM-dd');
+}
+
+// "UPI/P2M/123456/SWIGGY" → "SWIGGY", "swiggy@icici" → "swiggy"
+function readMerchant(value: string | undefined): string | undefined {
+  const cleaned = value?.replace(/\s+/g, ' ').replace(/[.;,]+$/, '').trim();
+  if (!cleaned) return undefined;
+  if (cleaned.includes('/')) return cleaned.split('/').filter(Boolean).pop();
+  if (/^\S+@\S+$/.test(cleaned)) return cleaned.split('@')[0];
+  return cleaned;
+}
+
+function readDirection(pattern: AlertPattern, match: RegExpMatchArray): TransactionDirection {
+  if (typeof pattern.direction === 'string') return pattern.direction;
+  return /credit/i.test(match[pattern.direction.group] || '') ? 'income' : 'expense';
+}
+
+/**
+ * Read a bank or UPI app alert with the sender's fixed templates, no LLM
+ * involved. Returns null when the sender isn't known or no template fits
+ * (promotions, OTPs, a changed layout), leaving the email to the LLM.
+ */
+export function matchBankAlert(email: GmailEmail): AlertMatch | null {
+  const templates = BANK_ALERT_TEMPLATES.filter((template) => template.from.test(email.from));
+  if (templates.length === 0) return null;
+
+  const body = email.body.replace(/\s+/g, ' ');
+  const subject = email.subject.replace(/\s+/g, ' ').trim();
+
+  for (const template of templates) {
+    for (const pattern of template.patterns) {
+      const match = (pattern.inSubject ? subject : body).match(pattern.regex);
+      if (!match) continue;
+
+      const amount = parseFloat(match[pattern.amount].replace(/,/g, ''));
+      if (!(amount > 0)) continue;
+
+      const merchant = readMerchant(pattern.merchant ? match[pattern.merchant] : undefined) ||
+        readMerchant(pattern.payee ? match[pattern.payee] : undefined);
+
+      return {
+        emailId: email.id,
+        amount,
+        date: parseAlertDate(pattern.date ? match[pattern.date] : undefined, emailDate(email)),
+        description: merchant || subject,
+        direction: readDirection(pattern, match),
+        account: pattern.account
+          ? { type: pattern.accountType || 'bank', last4: match[pattern.account], institution: template.name }
+          : undefined,
+        templateId: template.id,
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,172 @@
+import { Expense, Category, BudgetProgress, BudgetAlert } from '@/types';
+import { getMonthKey, isExpense, formatCurrency, formatMonthYear } from '@/lib/utils';
+import type { StorageBackend } from '@/lib/storage';
+import type { CurrencyCode } from '@/types';
+
+// Alert when spending crosses these fractions of a budget
+export const BUDGET_THRESHOLDS = [0.8, 1];
+
+export type BudgetLevel = 'ok' | 'warning' | 'over';
+
+export function getBudgetLevel(ratio: number): BudgetLevel {
+  if (ratio >= 1) return 'over';
+  if (ratio >= BUDGET_THRESHOLDS[0]) return 'warning';
+  return 'ok';
+}
+
+/** Bar color for a budget level */
+export function getBudgetColor(level: BudgetLevel): string {
+  if (level === 'over') return '#EF4444';
+  if (level === 'warning') return '#F59E0B';
+  return '#22C55E';
+}
+
+/** Monthly budget per category ID, for categories that have one */
+export function getCategoryBudgets(categories: Category[]): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  for (const c of categories) {
+    if (c.budget && c.budget > 0) budgets[c.id] = c.budget;
+  }
+  return budgets;
+}
+
+/**
+ * Spending vs budget for one month's transactions.
+ * Only categories with a budget are included.
+ */
+export function calculateBudgetProgress(
+  monthTransactions: Expense[],
+  categories: Category[],
+  overallBudget: number | null
+): { categories: BudgetProgress[]; overall: BudgetProgress | null } {
+  const spentByCategory = new Map<string, number>();
+  let totalSpent = 0;
+
+  for (const e of monthTransactions) {
+    if (!isExpense(e)) continue;
+    spentByCategory.set(e.category, (spentByCategory.get(e.category) || 0) + e.amount);
+    totalSpent += e.amount;
+  }
+
+  const categoryProgress = categories
+    .filter((c) => c.budget && c.budget > 0)
+    .map((c) => {
+      const spent = spentByCategory.get(c.id) || 0;
+      return {
+        categoryId: c.id,
+        name: c.name,
+        spent,
+        budget: c.budget!,
+        ratio: spent / c.budget!,
+      };
+    })
+    .sort((a, b) => b.ratio - a.ratio);
+
+  const overall = overallBudget && overallBudget > 0
+    ? { name: 'Overall', spent: totalSpent, budget: overallBudget, ratio: totalSpent / overallBudget }
+    : null;
+
+  return { categories: categoryProgress, overall };
+}
+
+/**
+ * Budgets whose threshold was crossed by adding `added` on top of `existing`.
+ * Returns at most one alert (the highest threshold) per budget and month.
+ */
+export function findBudgetAlerts(
+  existing: Expense[],
+  added: Expense[],
+  categories: Category[],
+  overallBudget: number | null
+): BudgetAlert[] {
+  const alerts: BudgetAlert[] = [];
+  const months = Array.from(new Set(added.filter(isExpense).map((e) => getMonthKey(e.date))));
+
+  for (const month of months) {
+    const inMonth = (e: Expense) => getMonthKey(e.date) === month;
+    const before = calculateBudgetProgress(existing.filter(inMonth), categories, overallBudget);
+    const after = calculateBudgetProgress(
+      [...existing, ...added].filter(inMonth),
+      categories,
+      overallBudget
+    );
+
+    const pairs: [BudgetProgress | null, BudgetProgress | null][] = [
+      ...after.categories.map((a): [BudgetProgress | null, BudgetProgress] => [
+        before.categories.find((b) => b.categoryId === a.categoryId) || null,
+        a,
+      ]),
+      [before.overall, after.overall],
+    ];
+
+    for (const [prev, next] of pairs) {
+      if (!next) continue;
+      const prevRatio = prev?.ratio || 0;
+      const crossed = BUDGET_THRESHOLDS.filter((t) => prevRatio < t && next.ratio >= t);
+      if (crossed.length === 0) continue;
+
+      alerts.push({
+        categoryId: next.categoryId,
+        name: next.name,
+        month,
+        threshold: crossed[crossed.length - 1],
+        spent: next.spent,
+        budget: next.budget,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Server-side: budget alerts for expenses that were just written to storage
+ */
+export async function getBudgetAlertsForNewExpenses(
+  storage: StorageBackend,
+  newExpenses: Expense[]
+): Promise<BudgetAlert[]> {
+  if (newExpenses.length === 0) return [];
+
+  try {
+    const [categories, overallBudget] = await Promise.all([
+      storage.getCategories(),
+      storage.getOverallBudget(),
+    ]);
+    if (!overallBudget && !categories.some((c) => c.budget && c.budget > 0)) {
+      return [];
+    }
+
+    const years = Array.from(new Set(newExpenses.map((e) => new Date(e.date).getFullYear())));
+    const stored = (await Promise.all(years.map((y) => storage.getExpenses(y)))).flat();
+
+    const newIds = new Set(newExpenses.map((e) => e.id));
+    const existing = stored.filter((e) => !newIds.has(e.id));
+
+    return findBudgetAlerts(existing, newExpenses, categories, overallBudget);
+  } catch (error) {
+    // Alerts are best-effort; never fail the write because of them
+    console.error('Error computing budget alerts:', error);
+    return [];
+  }
+}
+
+/** Toast content for a budget alert */
+export function formatBudgetAlert(
+  alert: BudgetAlert,
+  currency: CurrencyCode
+): { title: string; description: string } {
+  const label = alert.categoryId ? alert.name : 'Overall budget';
+  const amounts = `${formatCurrency(alert.spent, currency)} of ${formatCurrency(alert.budget, currency)}`;
+
+  if (alert.threshold >= 1) {
+    return {
+      title: `${label} over budget`,
+      description: `${amounts} spent in ${formatMonthYear(alert.month)}`,
+    };
+  }
+  return {
+    title: `${label} at ${Math.round(alert.threshold * 100)}% of budget`,
+    description: `${amounts} spent in ${formatMonthYear(alert.month)}`,
+  };
+}
@@ -0,0 +1,265 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CsvProfile, CsvSignConvention, DetectedAccount } from '@/types';
+import { CsvColumnMapping, parseCsvRows } from '@/lib/csvParser';
+import { findAccountNumber, readLast4 } from '@/lib/accounts';
+
+// Preambles (account holder, address, period) rarely run past this
+const MAX_HEADER_SEARCH_ROWS = 40;
+
+export const CSV_DATE_FORMATS: { value: string; label: string }[] = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'd/M/yyyy', label: 'DD/MM/YYYY' },
+  { value: 'M/d/yyyy', label: 'MM/DD/YYYY' },
+  { value: 'd/M/yy', label: 'DD/MM/YY' },
+  { value: 'M/d/yy', label: 'MM/DD/YY' },
+  { value: 'd-M-yyyy', label: 'DD-MM-YYYY' },
+  { value: 'yyyy-MM-dd', label: 'YYYY-MM-DD' },
+  { value: 'd MMM yyyy', label: 'DD Mon YYYY' },
+  { value: 'd-MMM-yyyy', label: 'DD-Mon-YYYY' },
+  { value: 'd-MMM-yy', label: 'DD-Mon-YY' },
+];
+
+export const CSV_SIGN_CONVENTIONS: { value: CsvSignConvention; label: string }[] = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'negative-is-expense', label: 'Negative = money out' },
+  { value: 'positive-is-expense', label: 'Positive = money out' },
+];
+
+export const BUILT_IN_CSV_PROFILES: CsvProfile[] = [
+  {
+    id: 'builtin-hdfc',
+    name: 'HDFC Bank',
+    signature: ['Narration', 'Withdrawal Amt.', 'Deposit Amt.'],
+    headerRowOffset: 0,
+    dateFormat: 'd/M/yy',
+    columns: { date: 'Date', description: 'Narration', debit: 'Withdrawal Amt.', credit: 'Deposit Amt.' },
+    signConvention: 'auto',
+    footerPattern: '^\\*{5,}|STATEMENT SUMMARY',
+    accountType: 'bank',
+    institution: 'HDFC Bank',
+    builtIn: true,
+    createdAt: '',
+  },
+  {
+    id: 'builtin-icici',
+    name: 'ICICI Bank',
+    signature: ['Transaction Remarks', 'Withdrawal Amount (INR )', 'Deposit Amount (INR )'],
+    headerRowOffset: 12,
+    dateFormat: 'd/M/yyyy',
+    columns: {
+      date: 'Transaction Date',
+      description: 'Transaction Remarks',
+      debit: 'Withdrawal Amount (INR )',
+      credit: 'Deposit Amount (INR )',
+    },
+    signConvention: 'auto',
+    footerPattern: '^Legends? Used|^Page \\d+',
+    accountType: 'bank',
+    institution: 'ICICI Bank',
+    builtIn: true,
+    createdAt: '',
+  },
+  {
+    id: 'builtin-sbi',
+    name: 'State Bank of India',
+    signature: ['Txn Date', 'Description', 'Debit', 'Credit'],
+    headerRowOffset: 19,
+    dateFormat: 'd MMM yyyy',
+    columns: { date: 'Txn Date', description: 'Description', debit: 'Debit', credit: 'Credit' },
+    signConvention: 'auto',
+    footerPattern: 'computer generated statement',
+    accountType: 'bank',
+    institution: 'State Bank of India',
+    builtIn: true,
+    createdAt: '',
+  },
+  {
+    id: 'builtin-chase-card',
+    name: 'Chase Credit Card',
+    signature: ['Transaction Date', 'Post Date', 'Description', 'Category', 'Type', 'Amount'],
+    headerRowOffset: 0,
+    dateFormat: 'M/d/yyyy',
+    columns: { date: 'Transaction Date', description: 'Description', amount: 'Amount', category: 'Category' },
+    signConvention: 'negative-is-expense',
+    accountType: 'credit-card',
+    institution: 'Chase',
+    builtIn: true,
+    createdAt: '',
+  },
+  {
+    id: 'builtin-chase-checking',
+    name: 'Chase Checking',
+    signature: ['Details', 'Posting Date', 'Description', 'Amount', 'Balance'],
+    headerRowOffset: 0,
+    dateFormat: 'M/d/yyyy',
+    columns: { date: 'Posting Date', description: 'Description', amount: 'Amount' },
+    signConvention: 'negative-is-expense',
+    accountType: 'bank',
+    institution: 'Chase',
+    builtIn: true,
+    createdAt: '',
+  },
+  {
+    id: 'builtin-amex',
+    name: 'American Express',
+    signature: ['Date', 'Description', 'Card Member', 'Amount'],
+    headerRowOffset: 0,
+    dateFormat: 'M/d/yyyy',
+    columns: { date: 'Date', description: 'Description', amount: 'Amount', category: 'Category' },
+    signConvention: 'positive-is-expense',
+    accountType: 'credit-card',
+    institution: 'American Express',
+    builtIn: true,
+    createdAt: '',
+  },
+];
+
+export interface CsvProfileMatch {
+  profile: CsvProfile;
+  headerRowOffset: number;     // Where the header row actually was
+}
+
+function normalizeHeader(header: string): string {
+  return header.replace(/"/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function hasHeaders(row: string[], wanted: string[]): boolean {
+  const present = new Set(row.map(normalizeHeader));
+  return wanted.every((header) => present.has(normalizeHeader(header)));
+}
+
+function safeRegex(pattern: string | undefined): RegExp | null {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the profile whose signature headers appear in the file. The profile's
+ * header offset is tried first; other offsets are accepted too since preamble
+ * length varies with the account holder's address. When several match, the
+ * most specific signature wins, custom profiles before built-in ones.
+ */
+export function matchCsvProfile(content: string, profiles: CsvProfile[]): CsvProfileMatch | null {
+  const rows = parseCsvRows(content).slice(0, MAX_HEADER_SEARCH_ROWS);
+  let best: CsvProfileMatch | null = null;
+
+  for (const profile of profiles) {
+    if (profile.signature.length === 0) continue;
+
+    const offset = hasHeaders(rows[profile.headerRowOffset] || [], profile.signature)
+      ? profile.headerRowOffset
+      : rows.findIndex((row) => hasHeaders(row, profile.signature));
+    if (offset === -1) continue;
+
+    const contentPattern = safeRegex(profile.contentPattern);
+    if (contentPattern && !contentPattern.test(rows.slice(0, offset).map((row) => row.join(' ')).join('\n'))) {
+      continue;
+    }
+
+    if (!best || profile.signature.length > best.profile.signature.length) {
+      best = { profile, headerRowOffset: offset };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Account a statement is for, going by what a built-in profile says about
+ * the bank and any account number printed in the preamble
+ */
+export function detectProfileAccount(
+  content: string,
+  profile: CsvProfile,
+  headerRowOffset: number
+): DetectedAccount | undefined {
+  if (!profile.accountType) return undefined;
+  const preamble = parseCsvRows(content).slice(0, headerRowOffset).map((row) => row.join(' '));
+  return {
+    type: profile.accountType,
+    institution: profile.institution,
+    last4: readLast4(findAccountNumber(preamble) || undefined),
+  };
+}
+
+/**
+ * Header and data rows of a statement: skips the preamble and drops the
+ * footer from the first row matching `footerPattern`.
+ */
+export function sliceCsv(
+  content: string,
+  headerRowOffset: number,
+  footerPattern?: string
+): { headers: string[]; rows: string[][] } {
+  const [headers = [], ...rest] = parseCsvRows(content).slice(headerRowOffset);
+  const footer = safeRegex(footerPattern);
+  const footerIndex = footer ? rest.findIndex((row) => footer.test(row.join(' ').trim())) : -1;
+  const rows = footerIndex === -1 ? rest : rest.slice(0, footerIndex);
+  return { headers, rows: rows.filter((row) => row.some((cell) => cell)) };
+}
+
+/**
+ * Column indexes for a profile in a file's header row, or null when a
+ * required column is missing
+ */
+export function profileToMapping(profile: CsvProfile, headers: string[]): CsvColumnMapping | null {
+  const normalized = headers.map(normalizeHeader);
+  const indexOf = (header?: string) => (header ? normalized.indexOf(normalizeHeader(header)) : -1);
+
+  const { columns } = profile;
+  const dateIndex = indexOf(columns.date);
+  const descriptionIndex = indexOf(columns.description);
+  const debitIndex = indexOf(columns.debit);
+  const creditIndex = indexOf(columns.credit);
+  const amountIndex = debitIndex !== -1 && creditIndex !== -1 ? debitIndex : indexOf(columns.amount);
+  const categoryIndex = indexOf(columns.category);
+
+  if (dateIndex === -1 || descriptionIndex === -1 || amountIndex === -1) return null;
+
+  return {
+    dateIndex,
+    descriptionIndex,
+    amountIndex,
+    creditIndex: debitIndex !== -1 && creditIndex !== -1 ? creditIndex : undefined,
+    categoryIndex: categoryIndex !== -1 ? categoryIndex : undefined,
+    dateFormat: profile.dateFormat,
+    signConvention: profile.signConvention,
+  };
+}
+
+/**
+ * A custom profile from a mapping the user set up in the import wizard.
+ * Every named header becomes part of the signature so it only matches this layout.
+ */
+export function createCsvProfile(
+  name: string,
+  headers: string[],
+  mapping: CsvColumnMapping,
+  layout: { headerRowOffset: number; footerPattern?: string }
+): CsvProfile {
+  const header = (index?: number) => (index !== undefined && index >= 0 ? headers[index] : undefined);
+  const hasCredit = mapping.creditIndex !== undefined;
+
+  return {
+    id: uuidv4(),
+    name: name.trim(),
+    signature: headers.filter((h) => h.trim()),
+    headerRowOffset: layout.headerRowOffset,
+    dateFormat: mapping.dateFormat || 'auto',
+    columns: {
+      date: header(mapping.dateIndex)!,
+      description: header(mapping.descriptionIndex)!,
+      amount: hasCredit ? undefined : header(mapping.amountIndex),
+      debit: hasCredit ? header(mapping.amountIndex) : undefined,
+      credit: header(mapping.creditIndex),
+      category: header(mapping.categoryIndex),
+    },
+    signConvention: mapping.signConvention || 'auto',
+    footerPattern: layout.footerPattern || undefined,
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -1,13 +1,20 @@
-import { CsvTransaction } from '@/types';
+import { CsvSignConvention, CsvTransaction } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
+import { format, isValid, parse } from 'date-fns';
 
-interface CsvColumnMapping {
+export interface CsvColumnMapping {
   dateIndex: number;
   descriptionIndex: number;
-  amountIndex: number;
+  amountIndex: number;           // Money out when creditIndex is set
+  creditIndex?: number;          // Separate money-in column
   categoryIndex?: number;
+  dateFormat?: string;           // date-fns pattern; inferred from the file when missing or 'auto'
+  signConvention?: CsvSignConvention;
 }
 
+// Time of day some banks append to the date ("05/10/2026 14:32:10")
+const TIME_SUFFIX = /\s+\d{1,2}:\d{2}(:\d{2})?(\s*[ap]m)?$/i;
+
 // Suggest category based on transaction description
 function suggestCategory(description: string): string | undefined {
   const desc = description.toLowerCase();
@@ -33,36 +40,36 @@ function suggestCategory(description: string): string | undefined {
   return undefined;
 }
 
-export function parseCSV(csvContent: string): { headers: string[]; rows: string[][] } {
-  const lines = csvContent.split(/\r?\n/).filter(line => line.trim());
-  if (lines.length === 0) {
-    return { headers: [], rows: [] };
-  }
-
-  const parseRow = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
+function parseCsvLine(line: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
     }
-    result.push(current.trim());
-    return result;
-  };
+  }
+  result.push(current.trim());
+  return result;
+}
 
-  const headers = parseRow(lines[0]);
-  const rows = lines.slice(1).map(parseRow).filter(row => row.some(cell => cell));
+/**
+ * Every non-empty line of a CSV file as cells, header row included
+ */
+export function parseCsvRows(csvContent: string): string[][] {
+  return csvContent.split(/\r?\n/).filter(line => line.trim()).map(parseCsvLine);
+}
 
-  return { headers, rows };
+export function parseCSV(csvContent: string): { headers: string[]; rows: string[][] } {
+  const [headers = [], ...rows] = parseCsvRows(csvContent);
+  return { headers, rows: rows.filter(row => row.some(cell => cell)) };
 }
 
 export function detectColumnMapping(headers: string[]): CsvColumnMapping | null {
@@ -126,19 +133,58 @@ export function detectColumnMapping(headers: string[]): CsvColumnMapping | null
     return null;
   }
 
+  // Separate money-out / money-in columns ("Withdrawal Amt.", "Deposit Amt.")
+  const debitIndex = lowerHeaders.findIndex(h => /\b(withdrawals?|debit|dr)\b/.test(h));
+  const creditIndex = lowerHeaders.findIndex(h => /\b(deposits?|credit|cr)\b/.test(h));
+  const hasDebitCredit = debitIndex !== -1 && creditIndex !== -1 && debitIndex !== creditIndex;
+
   return {
     dateIndex,
     descriptionIndex,
-    amountIndex,
+    amountIndex: hasDebitCredit ? debitIndex : amountIndex,
+    creditIndex: hasDebitCredit ? creditIndex : undefined,
     categoryIndex: categoryIndex !== -1 ? categoryIndex : undefined,
   };
 }
 
-function parseCsvDate(dateStr: string): string | null {
+/**
+ * Settle DD/MM vs MM/DD once for the whole file: a first part above 12 means
+ * day-first, a second part above 12 means month-first. Returns 'auto' when
+ * the dates don't say (or contradict each other).
+ */
+export function inferDateFormat(values: string[]): string {
+  let dayFirst = false;
+  let monthFirst = false;
+  let separator = '/';
+  let year = 'yyyy';
+
+  for (const value of values) {
+    const match = value?.replace(/"/g, '').trim().match(/^(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})\b/);
+    if (!match) continue;
+    if (parseInt(match[1]) > 12) dayFirst = true;
+    if (parseInt(match[3]) > 12) monthFirst = true;
+    separator = match[2];
+    year = match[4].length === 2 ? 'yy' : 'yyyy';
+  }
+
+  if (dayFirst === monthFirst) return 'auto';
+  return dayFirst ? `d${separator}M${separator}${year}` : `M${separator}d${separator}${year}`;
+}
+
+/**
+ * Parse a statement date to YYYY-MM-DD. With an explicit date-fns pattern only
+ * that pattern is accepted; 'auto' tries common formats (US order when ambiguous).
+ */
+export function parseCsvDate(dateStr: string, dateFormat = 'auto'): string | null {
   if (!dateStr) return null;
 
   const cleaned = dateStr.replace(/"/g, '').trim();
 
+  if (dateFormat !== 'auto') {
+    const date = parse(cleaned.replace(TIME_SUFFIX, ''), dateFormat, new Date());
+    return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+  }
+
   // Try ISO format first (YYYY-MM-DD)
   if (/^\d{4}-\d{2}-\d{2}/.test(cleaned)) {
     const date = new Date(cleaned);
@@ -197,12 +243,90 @@ function parseCsvDate(dateStr: string): string | null {
   return null;
 }
 
+const CREDIT_MARKER = /\bcr\.?\s*$/i;
+const DEBIT_MARKER = /\bdr\.?\s*$/i;
+
+/**
+ * Parse a signed amount from a CSV cell. "Cr"/"Dr" markers override the sign.
+ */
+function parseCsvAmount(amountStr: string): number | null {
+  const cleanAmount = amountStr
+    .replace(/[^0-9.\-,]/g, '')
+    .replace(/,(?=\d{3})/g, '') // Remove thousand separators
+    .replace(',', '.'); // Convert European decimal separator
+
+  const amount = parseFloat(cleanAmount);
+  if (isNaN(amount)) return null;
+
+  if (CREDIT_MARKER.test(amountStr.trim())) return Math.abs(amount);
+  if (DEBIT_MARKER.test(amountStr.trim())) return -Math.abs(amount);
+  return amount;
+}
+
+/**
+ * Amount and direction of one row, or null when it has no amount
+ */
+function readRowAmount(
+  row: string[],
+  mapping: CsvColumnMapping,
+  signConvention: CsvSignConvention,
+  hasNegativeAmounts: boolean
+): { amount: number; isCredit: boolean } | null {
+  if (mapping.creditIndex !== undefined) {
+    const debit = Math.abs(parseCsvAmount(row[mapping.amountIndex] || '') || 0);
+    if (debit > 0) return { amount: debit, isCredit: false };
+    const credit = Math.abs(parseCsvAmount(row[mapping.creditIndex] || '') || 0);
+    return credit > 0 ? { amount: credit, isCredit: true } : null;
+  }
+
+  const amountStr = row[mapping.amountIndex];
+  const signedAmount = parseCsvAmount(amountStr);
+  if (signedAmount === null || signedAmount === 0) return null;
+
+  const trimmed = amountStr.trim();
+  let isCredit: boolean;
+  if (CREDIT_MARKER.test(trimmed) || DEBIT_MARKER.test(trimmed)) {
+    isCredit = signedAmount > 0;
+  } else if (signConvention === 'negative-is-expense') {
+    isCredit = signedAmount > 0;
+  } else if (signConvention === 'positive-is-expense') {
+    isCredit = signedAmount < 0;
+  } else {
+    isCredit = hasNegativeAmounts && signedAmount > 0;
+  }
+  return { amount: Math.abs(signedAmount), isCredit };
+}
+
+/**
+ * One description from a payee/name field and a memo, skipping whichever
+ * repeats the other (banks often put a truncated copy in one of them)
+ */
+export function combineDescription(name?: string, memo?: string): string {
+  const a = name?.trim() || '';
+  const b = memo?.trim() || '';
+  if (!a || b.toLowerCase().includes(a.toLowerCase())) return b.slice(0, 100);
+  if (!b || a.toLowerCase().includes(b.toLowerCase())) return a.slice(0, 100);
+  return `${a} ${b}`.slice(0, 100);
+}
+
 export function parseCsvTransactions(
   rows: string[][],
   mapping: CsvColumnMapping
 ): CsvTransaction[] {
   const transactions: CsvTransaction[] = [];
 
+  // Without a sign convention, statements that mix signs use negative = money out, positive = money in.
+  // If every amount is positive, treat them all as expenses (e.g. card statements).
+  const hasNegativeAmounts = rows.some((row) => {
+    const amount = row[mapping.amountIndex] !== undefined ? parseCsvAmount(row[mapping.amountIndex]) : null;
+    return amount !== null && amount < 0;
+  });
+
+  // A known date format also weeds out preamble and summary rows that slipped through
+  const dateFormat = mapping.dateFormat && mapping.dateFormat !== 'auto'
+    ? mapping.dateFormat
+    : inferDateFormat(rows.map((row) => row[mapping.dateIndex]));
+
   for (const row of rows) {
     if (row.length <= Math.max(mapping.dateIndex, mapping.descriptionIndex, mapping.amountIndex)) {
       continue;
@@ -210,24 +334,16 @@ export function parseCsvTransactions(
 
     const dateStr = row[mapping.dateIndex];
     const description = row[mapping.descriptionIndex];
-    const amountStr = row[mapping.amountIndex];
     const categoryFromCsv = mapping.categoryIndex !== undefined ? row[mapping.categoryIndex] : undefined;
 
-    // Parse amount - handle various formats
-    const cleanAmount = amountStr
-      .replace(/[^0-9.\-,]/g, '')
-      .replace(/,(?=\d{3})/g, '') // Remove thousand separators
-      .replace(',', '.'); // Convert European decimal separator
-
-    let amount = parseFloat(cleanAmount);
-    if (isNaN(amount)) continue;
-
-    // Handle negative amounts (expenses are typically negative in statements)
-    amount = Math.abs(amount);
-    if (amount <= 0) continue;
+    const parsedAmount = readRowAmount(row, mapping, mapping.signConvention || 'auto', hasNegativeAmounts);
+    if (!parsedAmount) continue;
+    const { amount, isCredit } = parsedAmount;
 
     // Parse date
-    const date = parseCsvDate(dateStr) || new Date().toISOString().split('T')[0];
+    const parsedDate = parseCsvDate(dateStr, dateFormat);
+    if (!parsedDate && dateFormat !== 'auto') continue;
+    const date = parsedDate || new Date().toISOString().split('T')[0];
 
     // Clean description
     const cleanDesc = description
@@ -243,7 +359,8 @@ export function parseCsvTransactions(
       description: cleanDesc,
       amount,
       selected: true,
-      category: categoryFromCsv?.toLowerCase() || suggestCategory(cleanDesc),
+      category: isCredit ? undefined : categoryFromCsv?.toLowerCase() || suggestCategory(cleanDesc),
+      direction: isCredit ? 'income' : 'expense',
     });
   }
 
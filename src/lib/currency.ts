@@ -0,0 +1,74 @@
+import { CurrencyCode, ExchangeRate, SUPPORTED_CURRENCIES } from '@/types';
+
+/** Manual override if set, otherwise the market rate */
+export function getEffectiveRate(rate: ExchangeRate | undefined): number | null {
+  if (!rate) return null;
+  if (rate.override && rate.override > 0) return rate.override;
+  return rate.rate && rate.rate > 0 ? rate.rate : null;
+}
+
+/** Value of 1 unit of `currency` in `baseCurrency`, or null when unknown */
+export function findRate(
+  rates: ExchangeRate[],
+  currency: CurrencyCode,
+  baseCurrency: CurrencyCode
+): number | null {
+  if (currency === baseCurrency) return 1;
+  return getEffectiveRate(rates.find((r) => r.currency === currency));
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** Convert an amount to the base currency, or null when no rate is known */
+export function convertToBase(
+  amount: number,
+  currency: CurrencyCode,
+  rates: ExchangeRate[],
+  baseCurrency: CurrencyCode
+): number | null {
+  const rate = findRate(rates, currency, baseCurrency);
+  return rate === null ? null : roundMoney(amount * rate);
+}
+
+/**
+ * One row per supported currency other than the base, filled from stored rows
+ */
+export function buildRateTable(stored: ExchangeRate[], baseCurrency: CurrencyCode): ExchangeRate[] {
+  const byCurrency = new Map(stored.map((r) => [r.currency, r]));
+  return SUPPORTED_CURRENCIES
+    .filter((c) => c.code !== baseCurrency)
+    .map((c) => byCurrency.get(c.code) || { currency: c.code, rate: null });
+}
+
+/** Whether an expense was entered in a currency other than the base */
+export function isForeignAmount(
+  expense: { originalAmount?: number; originalCurrency?: CurrencyCode },
+  baseCurrency: CurrencyCode
+): boolean {
+  return !!expense.originalCurrency
+    && expense.originalCurrency !== baseCurrency
+    && expense.originalAmount !== undefined;
+}
+
+/**
+ * Amount fields for an expense entered in `currency` at `rate`.
+ * Foreign amounts keep the original; `amount` is always in the base currency.
+ */
+export function applyExchangeRate(
+  amount: number,
+  currency: CurrencyCode,
+  rate: number,
+  baseCurrency: CurrencyCode
+): { amount: number; originalAmount?: number; originalCurrency?: CurrencyCode } {
+  if (currency === baseCurrency) {
+    return { amount, originalAmount: undefined, originalCurrency: undefined };
+  }
+  return { amount: roundMoney(amount * rate), originalAmount: amount, originalCurrency: currency };
+}
+
+/** Rate string for a form input, trimmed of float noise */
+export function formatRateInput(rate: number | null): string {
+  return rate === null ? '' : String(parseFloat(rate.toPrecision(6)));
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { descriptionSimilarity, dropKnownExternalIds, duplicateScore, flagDuplicates } from '@/lib/duplicates';
+import { Expense, PendingTransaction } from '@/types';
+
+function pending(id: string, fields: Partial<PendingTransaction> = {}): PendingTransaction {
+  return {
+    id,
+    date: '2026-03-10',
+    description: 'UPI/40212/SWIGGY/BANGALORE',
+    amount: 450,
+    status: 'uncategorized',
+    createdAt: '2026-03-10T10:00:00.000Z',
+    ...fields,
+  };
+}
+
+function expense(id: string, fields: Partial<Expense> = {}): Expense {
+  return {
+    id,
+    amount: 450,
+    date: '2026-03-10',
+    category: 'food',
+    description: 'Swiggy',
+    createdAt: '2026-03-10T10:00:00.000Z',
+    updatedAt: '2026-03-10T10:00:00.000Z',
+    ...fields,
+  };
+}
+
+describe('descriptionSimilarity', () => {
+  it('compares against the shorter description', () => {
+    expect(descriptionSimilarity('SWIGGY', 'UPI/40212/SWIGGY/BANGALORE')).toBe(1);
+  });
+
+  it('matches merchant prefixes of four letters or more', () => {
+    expect(descriptionSimilarity('Amazon', 'AMAZONIN MARKETPLACE')).toBe(1);
+  });
+
+  it('has nothing to say about descriptions without words', () => {
+    expect(descriptionSimilarity('123456', 'Swiggy')).toBeNull();
+  });
+});
+
+describe('duplicateScore', () => {
+  const alert = pending('p');
+
+  it('scores the same purchase from another source highly', () => {
+    expect(duplicateScore(alert, expense('e'))).toBeCloseTo(1);
+  });
+
+  it('never matches across directions, amounts or the date window', () => {
+    expect(duplicateScore(alert, expense('e', { direction: 'income' }))).toBe(0);
+    expect(duplicateScore(alert, expense('e', { amount: 500 }))).toBe(0);
+    expect(duplicateScore(alert, expense('e', { date: '2026-03-14' }))).toBe(0);
+  });
+
+  it('tolerates small amount and date differences', () => {
+    const score = duplicateScore(alert, expense('e', { amount: 452, date: '2026-03-11' }));
+    expect(score).toBeGreaterThanOrEqual(0.75);
+    expect(score).toBeLessThan(1);
+  });
+});
+
+describe('flagDuplicates', () => {
+  it('points a look-alike at the recorded original', () => {
+    const [flagged] = flagDuplicates([pending('new')], [], [expense('e1')]);
+    expect(flagged.duplicateOf).toBe('e1');
+  });
+
+  it('lets each original absorb only one incoming transaction', () => {
+    const result = flagDuplicates([pending('a'), pending('b')], [], [expense('e1')]);
+    expect(result.map((t) => t.duplicateOf)).toEqual(['e1', undefined]);
+  });
+
+  it('skips ignored and already-flagged pending records as originals', () => {
+    const existing = [pending('ignored', { status: 'ignored' }), pending('flagged', { duplicateOf: 'x' })];
+    expect(flagDuplicates([pending('new')], existing, [])[0].duplicateOf).toBeUndefined();
+  });
+
+  it('leaves ignored incoming transactions alone', () => {
+    const [result] = flagDuplicates([pending('new', { status: 'ignored' })], [], [expense('e1')]);
+    expect(result.duplicateOf).toBeUndefined();
+  });
+});
+
+describe('dropKnownExternalIds', () => {
+  it('drops IDs already pending, confirmed or repeated in the batch', () => {
+    const incoming = [
+      pending('a', { externalId: 'acct:1' }),
+      pending('b', { externalId: 'acct:2' }),
+      pending('c', { externalId: 'acct:3' }),
+      pending('d', { externalId: 'acct:3' }),
+      pending('e'),
+    ];
+    const result = dropKnownExternalIds(
+      incoming,
+      [pending('p', { externalId: 'acct:1' })],
+      [expense('x', { externalId: 'acct:2' })]
+    );
+    expect(result.map((t) => t.id)).toEqual(['c', 'e']);
+  });
+});
@@ -0,0 +1,147 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { Expense, PendingTransaction } from '@/types';
+import { descriptionTokens } from '@/lib/rule-suggestions';
+import { getDirection } from '@/lib/utils';
+
+const DATE_WINDOW_DAYS = 3;            // Alerts, statements and manual entries rarely agree on the day
+const AMOUNT_TOLERANCE = 0.01;         // Share of the amount (FX rounding, card fees)
+const MIN_PREFIX_LENGTH = 4;           // "amazon" matches "amazonin"; shorter prefixes are too ambiguous
+const DUPLICATE_THRESHOLD = 0.75;
+
+// Weights add up to 1
+const AMOUNT_WEIGHT = 0.4;
+const DATE_WEIGHT = 0.3;
+const TEXT_WEIGHT = 0.3;
+
+export interface DuplicateMatch {
+  id: string;
+  kind: 'pending' | 'expense';
+  score: number;                       // 0-1, at least DUPLICATE_THRESHOLD
+}
+
+type Comparable = Pick<PendingTransaction, 'date' | 'description' | 'amount' | 'direction'>;
+type Candidate = Omit<DuplicateMatch, 'score'> & { record: Comparable };
+
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  return short.length >= MIN_PREFIX_LENGTH && long.startsWith(short);
+}
+
+/**
+ * How much two descriptions share, 0-1. Measured against the shorter one so
+ * "SWIGGY" and "UPI/40212/SWIGGY/BANGALORE" count as the same merchant.
+ * Returns null when either side has nothing to compare (e.g. "123456").
+ */
+export function descriptionSimilarity(a: string, b: string): number | null {
+  const left = descriptionTokens(a);
+  const right = descriptionTokens(b);
+  if (left.length === 0 || right.length === 0) return null;
+
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  const shared = shorter.filter((token) => longer.some((other) => tokensMatch(token, other))).length;
+  return shared / shorter.length;
+}
+
+/**
+ * Likelihood (0-1) that two records are the same purchase. Different
+ * directions, amounts or dates outside the window never match.
+ */
+export function duplicateScore(a: Comparable, b: Comparable): number {
+  if (getDirection(a) !== getDirection(b)) return 0;
+
+  const amountDiff = Math.abs(a.amount - b.amount);
+  if (amountDiff > Math.max(a.amount, b.amount) * AMOUNT_TOLERANCE) return 0;
+  const amountScore = amountDiff < 0.005 ? 1 : 0.7;
+
+  const days = Math.abs(differenceInCalendarDays(parseISO(a.date), parseISO(b.date)));
+  if (!(days <= DATE_WINDOW_DAYS)) return 0;
+  const dateScore = 1 - days / (DATE_WINDOW_DAYS + 1);
+
+  // Manual entries like "Lunch" say nothing either way
+  const textScore = descriptionSimilarity(a.description, b.description) ?? 0.5;
+
+  return AMOUNT_WEIGHT * amountScore + DATE_WEIGHT * dateScore + TEXT_WEIGHT * textScore;
+}
+
+/**
+ * Mark incoming transactions that look like something already recorded, as
+ * pending or confirmed, by setting `duplicateOf`. Each existing record can
+ * absorb at most one incoming transaction, so two identical charges against
+ * one alert leave the second unflagged. Incoming items aren't compared with
+ * each other: repeats within one statement are usually real.
+ */
+export function flagDuplicates<T extends Comparable & { duplicateOf?: string; status?: PendingTransaction['status'] }>(
+  incoming: T[],
+  pending: PendingTransaction[],
+  expenses: Expense[]
+): T[] {
+  // Ignored or already-flagged records aren't a reliable original
+  const candidates: Candidate[] = [
+    ...pending
+      .filter((t) => t.status !== 'ignored' && !t.duplicateOf)
+      .map((t) => ({ id: t.id, kind: 'pending' as const, record: t })),
+    ...expenses.map((e) => ({ id: e.id, kind: 'expense' as const, record: e })),
+  ];
+
+  const claimed = new Set<string>();
+  return incoming.map((transaction) => {
+    if (transaction.status === 'ignored') return transaction;
+
+    const match = findDuplicate(transaction, candidates.filter((c) => !claimed.has(c.id)));
+    if (!match) return transaction;
+    claimed.add(match.id);
+    return { ...transaction, duplicateOf: match.id };
+  });
+}
+
+/**
+ * Drop incoming transactions whose external ID (e.g. an OFX FITID) is already
+ * pending or confirmed, or repeats earlier in the same batch. Unlike the
+ * fuzzy check these are certain repeats, so they're skipped, not flagged.
+ */
+export function dropKnownExternalIds<T extends { externalId?: string }>(
+  incoming: T[],
+  pending: PendingTransaction[],
+  expenses: Expense[]
+): T[] {
+  const known = new Set<string>();
+  for (const record of [...pending, ...expenses]) {
+    if (record.externalId) known.add(record.externalId);
+  }
+
+  return incoming.filter((transaction) => {
+    if (!transaction.externalId) return true;
+    if (known.has(transaction.externalId)) return false;
+    known.add(transaction.externalId);
+    return true;
+  });
+}
+
+function findDuplicate(transaction: Comparable, candidates: Candidate[]): DuplicateMatch | null {
+  let best: DuplicateMatch | null = null;
+  for (const { id, kind, record } of candidates) {
+    const score = duplicateScore(transaction, record);
+    if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score)) {
+      best = { id, kind, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Where a flagged transaction's original lives now. It may have been
+ * confirmed or deleted since, in which case nothing is returned.
+ */
+export function findDuplicateOriginal(
+  transaction: PendingTransaction,
+  pending: PendingTransaction[],
+  expenses: Expense[]
+): { kind: 'pending'; record: PendingTransaction } | { kind: 'expense'; record: Expense } | null {
+  if (!transaction.duplicateOf) return null;
+  const pendingMatch = pending.find((t) => t.id === transaction.duplicateOf);
+  if (pendingMatch) return { kind: 'pending', record: pendingMatch };
+  const expenseMatch = expenses.find((e) => e.id === transaction.duplicateOf);
+  if (expenseMatch) return { kind: 'expense', record: expenseMatch };
+  return null;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { buildExportQuery, getExportFileName, parseExportQuery } from '@/lib/export';
+import { ExportOptions } from '@/types';
+
+describe('parseExportQuery', () => {
+  it('round-trips the options built by the UI', () => {
+    const options: ExportOptions = {
+      format: 'xlsx',
+      from: '2026-01-01',
+      to: '2026-03-31',
+      categories: ['food', 'travel'],
+      query: 'swiggy',
+      categoryNames: true,
+      formattedAmounts: false,
+      includeTotals: true,
+    };
+    const parsed = parseExportQuery(new URLSearchParams(buildExportQuery(options)));
+    expect(parsed).toMatchObject(options);
+    expect(getExportFileName(parsed!)).toBe('expenses-2026-01-01-to-2026-03-31.xlsx');
+  });
+
+  it('rejects dates that are not YYYY-MM-DD', () => {
+    for (const date of ['2026-1-1', '01/03/2026', '2026-01-01"\r\nSet-Cookie: x=1']) {
+      expect(parseExportQuery(new URLSearchParams({ from: date }))).toBeNull();
+      expect(parseExportQuery(new URLSearchParams({ to: date }))).toBeNull();
+    }
+  });
+
+  it('falls back to CSV for unknown formats', () => {
+    expect(parseExportQuery(new URLSearchParams({ format: 'exe' }))?.format).toBe('csv');
+  });
+});
@@ -0,0 +1,238 @@
+import { Category, CurrencyCode, Expense, ExportFormat, ExportOptions } from '@/types';
+import { hasAllTags, parseTagQuery, serializeTags } from '@/lib/tags';
+import { calculateCashFlow, calculateCategoryBreakdown, formatCurrency, getDirection } from '@/lib/utils';
+import { createXlsx } from '@/lib/xlsx';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', mimeType: 'text/csv; charset=utf-8' },
+  { value: 'xlsx', label: 'Excel', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { value: 'json', label: 'JSON', mimeType: 'application/json' },
+];
+
+export type ExportCell = string | number | null;
+
+export interface ExportTable {
+  headers: string[];
+  rows: ExportCell[][];
+  totalRows: number[]; // Indexes into `rows` holding totals
+}
+
+const DIRECTION_LABELS = { expense: 'Expense', income: 'Income', transfer: 'Transfer' } as const;
+
+/**
+ * Search-box matching: "#tag" words must all be present, the remaining text
+ * matches description, amount or a tag.
+ */
+export function matchesExpenseQuery(expense: Expense, query: string): boolean {
+  const { text, tags } = parseTagQuery(query.toLowerCase());
+  return hasAllTags(expense, tags) && (
+    !text ||
+    expense.description?.toLowerCase().includes(text) ||
+    String(expense.amount).includes(text) ||
+    !!expense.tags?.some((tag) => tag.includes(text))
+  );
+}
+
+export function filterExpensesForExport(expenses: Expense[], options: ExportOptions): Expense[] {
+  return expenses
+    .filter((e) => !options.from || e.date >= options.from)
+    .filter((e) => !options.to || e.date <= options.to)
+    .filter((e) => !options.categories?.length || options.categories.includes(e.category))
+    .filter((e) => !options.tags?.length || hasAllTags(e, options.tags))
+    .filter((e) => !options.query?.trim() || matchesExpenseQuery(e, options.query))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Flatten expenses into rows shared by the CSV and XLSX writers.
+ */
+export function buildExportTable(
+  expenses: Expense[],
+  categories: Category[],
+  options: ExportOptions,
+  currency: CurrencyCode
+): ExportTable {
+  const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+  const categoryLabel = (id: string) => (options.categoryNames ? categoryNames.get(id) || id : id);
+  const money = (amount: number, code: CurrencyCode = currency): ExportCell =>
+    options.formattedAmounts ? formatCurrency(amount, code) : Math.round(amount * 100) / 100;
+
+  const headers = [
+    'Date',
+    'Description',
+    'Category',
+    'Type',
+    `Amount (${currency})`,
+    'Original Amount',
+    'Original Currency',
+    'Tags',
+    'ID',
+  ];
+
+  const rows: ExportCell[][] = expenses.map((e) => [
+    e.date,
+    e.description,
+    e.category ? categoryLabel(e.category) : '',
+    DIRECTION_LABELS[getDirection(e)],
+    money(e.amount),
+    e.originalAmount !== undefined && e.originalCurrency
+      ? money(e.originalAmount, e.originalCurrency)
+      : null,
+    e.originalCurrency || null,
+    serializeTags(e.tags),
+    e.id,
+  ]);
+
+  const totalRows: number[] = [];
+  if (options.includeTotals && expenses.length > 0) {
+    const totalRow = (label: string, amount: number, category = ''): ExportCell[] => {
+      totalRows.push(rows.length);
+      return [label, '', category, '', money(amount), null, null, '', ''];
+    };
+
+    rows.push([]);
+    for (const item of calculateCategoryBreakdown(expenses, categories)) {
+      rows.push(totalRow(`Total ${item.categoryName}`, item.total, categoryLabel(item.categoryId)));
+    }
+    const cashFlow = calculateCashFlow(expenses);
+    rows.push(totalRow('Total spent', cashFlow.spent));
+    if (cashFlow.income > 0) {
+      rows.push(totalRow('Total income', cashFlow.income));
+      rows.push(totalRow('Net', cashFlow.net));
+    }
+  }
+
+  return { headers, rows, totalRows };
+}
+
+/**
+ * Descriptions come from emails and statements, so text that Excel or Sheets
+ * would read as a formula ("=HYPERLINK(...)", "+1+1", "@SUM") gets a leading
+ * apostrophe. Numbers are left alone.
+ */
+export function escapeFormula(value: ExportCell): ExportCell {
+  return typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function escapeCsvCell(value: ExportCell): string {
+  if (value === null) return '';
+  const text = String(escapeFormula(value));
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function tableToCsv(table: ExportTable): string {
+  return [table.headers, ...table.rows]
+    .map((row) => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+}
+
+export function tableToXlsx(table: ExportTable): Buffer {
+  const rows = table.rows.map((row) => row.map(escapeFormula));
+  return createXlsx('Expenses', table.headers, rows, table.totalRows);
+}
+
+/**
+ * JSON keeps structure (tags as arrays, totals as an object) rather than
+ * mirroring the flat table.
+ */
+export function buildExportJson(
+  expenses: Expense[],
+  categories: Category[],
+  options: ExportOptions,
+  currency: CurrencyCode
+) {
+  const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+  const money = (amount: number, code: CurrencyCode = currency) =>
+    options.formattedAmounts ? formatCurrency(amount, code) : Math.round(amount * 100) / 100;
+
+  const cashFlow = calculateCashFlow(expenses);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    currency,
+    filters: {
+      from: options.from,
+      to: options.to,
+      categories: options.categories,
+      tags: options.tags,
+      query: options.query,
+    },
+    count: expenses.length,
+    expenses: expenses.map((e) => ({
+      id: e.id,
+      date: e.date,
+      description: e.description,
+      category: options.categoryNames ? categoryNames.get(e.category) || e.category : e.category,
+      direction: getDirection(e),
+      amount: money(e.amount),
+      ...(e.originalAmount !== undefined && e.originalCurrency
+        ? { originalAmount: money(e.originalAmount, e.originalCurrency), originalCurrency: e.originalCurrency }
+        : {}),
+      tags: e.tags || [],
+    })),
+    ...(options.includeTotals
+      ? {
+          totals: {
+            spent: money(cashFlow.spent),
+            income: money(cashFlow.income),
+            net: money(cashFlow.net),
+            byCategory: calculateCategoryBreakdown(expenses, categories).map((item) => ({
+              category: options.categoryNames ? item.categoryName : item.categoryId,
+              total: money(item.total),
+              count: item.count,
+            })),
+          },
+        }
+      : {}),
+  };
+}
+
+export function getExportFileName(options: ExportOptions): string {
+  const range = options.from || options.to
+    ? `-${options.from || 'start'}-to-${options.to || 'today'}`
+    : '';
+  return `expenses${range}.${options.format}`;
+}
+
+// ── Query string round trip (UI → /api/export) ─────────────────────────
+
+export function buildExportQuery(options: ExportOptions): string {
+  const params = new URLSearchParams({ format: options.format });
+  if (options.from) params.set('from', options.from);
+  if (options.to) params.set('to', options.to);
+  if (options.categories?.length) params.set('categories', options.categories.join(','));
+  if (options.tags?.length) params.set('tags', options.tags.join(','));
+  if (options.query?.trim()) params.set('q', options.query.trim());
+  if (options.categoryNames) params.set('names', '1');
+  if (options.formattedAmounts) params.set('formatted', '1');
+  if (options.includeTotals) params.set('totals', '1');
+  return params.toString();
+}
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read export options from the query string.
+ * Null when a date isn't YYYY-MM-DD; dates end up in the download file name.
+ */
+export function parseExportQuery(params: URLSearchParams): ExportOptions | null {
+  const list = (key: string) => params.get(key)?.split(',').filter(Boolean) || undefined;
+  const format = params.get('format') as ExportFormat;
+  const from = params.get('from') || undefined;
+  const to = params.get('to') || undefined;
+  if ((from && !DATE_PARAM.test(from)) || (to && !DATE_PARAM.test(to))) {
+    return null;
+  }
+
+  return {
+    format: EXPORT_FORMATS.some((f) => f.value === format) ? format : 'csv',
+    from,
+    to,
+    categories: list('categories'),
+    tags: list('tags'),
+    query: params.get('q') || undefined,
+    categoryNames: params.get('names') === '1',
+    formattedAmounts: params.get('formatted') === '1',
+    includeTotals: params.get('totals') === '1',
+  };
+}
@@ -0,0 +1,310 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  Expense,
+  Category,
+  UserSettings,
+  PendingTransaction,
+  TransactionRule,
+  GmailSyncState,
+  LegacyGmailSyncState,
+  GmailSyncLogEntry,
+  RecurringTemplate,
+  ExchangeRate,
+  SplitGroup,
+  ExpenseSplit,
+  ExpenseAttachment,
+  CsvProfile,
+  Account,
+  CurrencyCode,
+  DEFAULT_CATEGORIES,
+  DEFAULT_SETTINGS,
+} from '@/types';
+import { extractYearFromId } from '@/lib/id-utils';
+import { ensureModernRuleFormat } from '@/lib/ruleEngine';
+import type { StorageBackend } from '@/lib/storage';
+import { buildRateTable } from '@/lib/currency';
+import { normalizeGmailSyncSettings } from '@/lib/gmail-filters';
+import { createGmailSyncState, compactGmailSyncState, migrateGmailSyncState } from '@/lib/gmail-sync-state';
+import { v4 as uuidv4 } from 'uuid';
+
+// ============================================
+// Local JSON file storage (STORAGE_BACKEND=file)
+// ============================================
+
+const DEFAULT_DATA_FILE = path.join(process.cwd(), '.data', 'expense-tracker.json');
+const MAX_SYNC_LOG_ENTRIES = 2000;
+
+interface FileStoreData {
+  expenses: Expense[];
+  categories: Category[];
+  overallBudget: number | null;
+  settings: UserSettings;
+  pending: PendingTransaction[];
+  rules: TransactionRule[];
+  recurring: RecurringTemplate[];
+  csvProfiles: CsvProfile[];
+  accounts: Account[];
+  splitGroups: SplitGroup[];
+  splits: ExpenseSplit[];
+  attachments: ExpenseAttachment[];
+  exchangeRates: { base: CurrencyCode | null; rates: ExchangeRate[] };
+  gmailSyncState: GmailSyncState | LegacyGmailSyncState;
+  gmailSyncLog: GmailSyncLogEntry[];
+}
+
+function createEmptyStore(): FileStoreData {
+  return {
+    expenses: [],
+    categories: [...DEFAULT_CATEGORIES],
+    overallBudget: null,
+    settings: { ...DEFAULT_SETTINGS },
+    pending: [],
+    rules: [],
+    recurring: [],
+    csvProfiles: [],
+    accounts: [],
+    splitGroups: [],
+    splits: [],
+    attachments: [],
+    exchangeRates: { base: null, rates: [] },
+    gmailSyncState: createGmailSyncState(),
+    gmailSyncLog: [],
+  };
+}
+
+// Writes are serialized per file so concurrent requests don't clobber each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+async function readStore(filePath: string): Promise<FileStoreData> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf-8');
+    return { ...createEmptyStore(), ...(JSON.parse(raw) as Partial<FileStoreData>) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createEmptyStore();
+    }
+    throw error;
+  }
+}
+
+async function writeStore(filePath: string, data: FileStoreData): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
+
+function mutateStore(
+  filePath: string,
+  mutate: (data: FileStoreData) => void
+): Promise<void> {
+  const previous = writeQueues.get(filePath) || Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const data = await readStore(filePath);
+      mutate(data);
+      await writeStore(filePath, data);
+    });
+  writeQueues.set(filePath, next);
+  return next;
+}
+
+function getExpenseYear(expense: Expense): number {
+  return extractYearFromId(expense.id) || new Date(expense.date).getFullYear();
+}
+
+/**
+ * StorageBackend that keeps everything in a single JSON file on disk
+ */
+export function createFileStorage(dataFile?: string): StorageBackend {
+  const filePath = path.resolve(dataFile || DEFAULT_DATA_FILE);
+  const read = () => readStore(filePath);
+  const mutate = (fn: (data: FileStoreData) => void) => mutateStore(filePath, fn);
+  // Attachment contents live next to the data file; metadata is in the store
+  const attachmentsDir = path.join(path.dirname(filePath), 'attachments');
+  const attachmentPath = (id: string) => path.join(attachmentsDir, path.basename(id));
+
+  return {
+    getStoreId: async () => filePath,
+
+    // Expenses
+    getExpenses: async (year) => {
+      const targetYear = year || new Date().getFullYear();
+      const { expenses } = await read();
+      return expenses.filter((e) => getExpenseYear(e) === targetYear);
+    },
+    getAllExpenses: async () => (await read()).expenses,
+    addExpense: (expense) => mutate((data) => {
+      data.expenses.push(expense);
+    }),
+    addExpensesBatch: (expenses) => mutate((data) => {
+      data.expenses.push(...expenses);
+    }),
+    updateExpense: (expense) => mutate((data) => {
+      const index = data.expenses.findIndex((e) => e.id === expense.id);
+      if (index !== -1) data.expenses[index] = expense;
+    }),
+    updateExpensesBatch: (expenses) => mutate((data) => {
+      const updates = new Map(expenses.map((e) => [e.id, e]));
+      data.expenses = data.expenses.map((e) => updates.get(e.id) || e);
+    }),
+    deleteExpense: (expenseId) => mutate((data) => {
+      data.expenses = data.expenses.filter((e) => e.id !== expenseId);
+    }),
+
+    // Categories
+    getCategories: async () => (await read()).categories,
+    addCategory: (category) => mutate((data) => {
+      data.categories.push(category);
+    }),
+    updateCategory: (category) => mutate((data) => {
+      const index = data.categories.findIndex((c) => c.id === category.id);
+      if (index !== -1) data.categories[index] = category;
+    }),
+    deleteCategory: (categoryId) => mutate((data) => {
+      data.categories = data.categories.filter((c) => c.id !== categoryId);
+    }),
+    getOverallBudget: async () => (await read()).overallBudget,
+    setOverallBudget: (amount) => mutate((data) => {
+      data.overallBudget = amount;
+    }),
+
+    // Settings
+    getSettings: async () => {
+      const { settings } = await read();
+      return { ...DEFAULT_SETTINGS, ...settings, gmailSync: normalizeGmailSyncSettings(settings.gmailSync) };
+    },
+    updateSettings: (settings) => mutate((data) => {
+      data.settings = settings;
+    }),
+
+    // Pending transactions
+    getPendingTransactions: async () => (await read()).pending,
+    addPendingTransactions: (transactions) => mutate((data) => {
+      data.pending.push(...transactions);
+    }),
+    updatePendingTransaction: (transaction) => mutate((data) => {
+      const index = data.pending.findIndex((t) => t.id === transaction.id);
+      if (index !== -1) data.pending[index] = transaction;
+    }),
+    deletePendingTransaction: (transactionId) => mutate((data) => {
+      data.pending = data.pending.filter((t) => t.id !== transactionId);
+    }),
+    updateAllPendingTransactions: (transactions) => mutate((data) => {
+      data.pending = transactions;
+    }),
+    moveTransactionsToExpenses: (transactionIds) => mutate((data) => {
+      const ids = new Set(transactionIds);
+      const now = new Date().toISOString();
+      // Ignored transactions stay put, matching the Sheets backend
+      const toMove = data.pending.filter((t) => ids.has(t.id) && t.status !== 'ignored');
+
+      data.expenses.push(...toMove.map((t) => ({
+        id: t.id,
+        amount: t.amount,
+        date: t.date,
+        category: t.category || '',
+        description: t.description,
+        createdAt: now,
+        updatedAt: now,
+        direction: t.direction || 'expense',
+        tags: t.tags,
+        externalId: t.externalId,
+        accountId: t.accountId,
+      })));
+      const moved = new Set(toMove.map((t) => t.id));
+      data.pending = data.pending.filter((t) => !moved.has(t.id));
+    }),
+
+    // Rules
+    // Stores written before rule actions still hold single-category rules
+    getRules: async () => (await read()).rules.map(ensureModernRuleFormat),
+    saveRules: (rules) => mutate((data) => {
+      data.rules = rules;
+    }),
+
+    // Recurring templates
+    getRecurringTemplates: async () => (await read()).recurring,
+    saveRecurringTemplates: (templates) => mutate((data) => {
+      data.recurring = templates;
+    }),
+
+    // Custom CSV statement profiles
+    getCsvProfiles: async () => (await read()).csvProfiles,
+    saveCsvProfiles: (profiles) => mutate((data) => {
+      data.csvProfiles = profiles;
+    }),
+
+    // Accounts
+    getAccounts: async () => (await read()).accounts,
+    saveAccounts: (accounts) => mutate((data) => {
+      data.accounts = accounts;
+    }),
+
+    // Split groups and shared expenses
+    getSplitGroups: async () => (await read()).splitGroups,
+    saveSplitGroups: (groups) => mutate((data) => {
+      data.splitGroups = groups;
+    }),
+    getSplits: async () => (await read()).splits,
+    saveSplits: (splits) => mutate((data) => {
+      data.splits = splits;
+    }),
+
+    // Exchange rates (no market feed locally, so only overrides carry a rate)
+    getExchangeRates: async (baseCurrency) => {
+      const { exchangeRates } = await read();
+      const stored = exchangeRates.base === baseCurrency ? exchangeRates.rates : [];
+      return buildRateTable(stored, baseCurrency);
+    },
+    saveExchangeRates: (rates, baseCurrency) => mutate((data) => {
+      data.exchangeRates = { base: baseCurrency, rates: buildRateTable(rates, baseCurrency) };
+    }),
+
+    // Receipt attachments (no thumbnails locally, the full file is served)
+    uploadAttachment: async (file) => {
+      const attachment: ExpenseAttachment = {
+        id: uuidv4(),
+        name: file.name,
+        mimeType: file.mimeType,
+      };
+      await fs.mkdir(attachmentsDir, { recursive: true });
+      await fs.writeFile(attachmentPath(attachment.id), file.data);
+      await mutate((data) => {
+        data.attachments.push(attachment);
+      });
+      return attachment;
+    },
+    getAttachment: async (attachmentId) => {
+      const attachment = (await read()).attachments.find((a) => a.id === attachmentId);
+      if (!attachment) return null;
+      try {
+        const data = await fs.readFile(attachmentPath(attachmentId));
+        return { name: attachment.name, mimeType: attachment.mimeType, data };
+      } catch {
+        return null;
+      }
+    },
+    deleteAttachment: async (attachmentId) => {
+      await mutate((data) => {
+        data.attachments = data.attachments.filter((a) => a.id !== attachmentId);
+      });
+      await fs.rm(attachmentPath(attachmentId), { force: true });
+    },
+
+    // Gmail sync state
+    // Stores saved before watermarks hold every processed ID; they're converted on read
+    getGmailSyncState: async () => migrateGmailSyncState((await read()).gmailSyncState),
+    updateGmailSyncState: (state) => mutate((data) => {
+      data.gmailSyncState = compactGmailSyncState(state);
+    }),
+
+    // Gmail sync log, trimmed like the Sheets backend
+    getGmailSyncLog: async () => (await read()).gmailSyncLog,
+    addGmailSyncLogEntries: (entries) => mutate((data) => {
+      data.gmailSyncLog = [...data.gmailSyncLog, ...entries].slice(-MAX_SYNC_LOG_ENTRIES);
+    }),
+  };
+}
@@ -1,4 +1,5 @@
 import { google, gmail_v1 } from 'googleapis';
+import { ProcessedGmailMessage } from '@/types';
 
 export interface GmailEmail {
   id: string;
@@ -14,36 +15,23 @@ export function createGmailClient(accessToken: string): gmail_v1.Gmail {
   return google.gmail({ version: 'v1', auth });
 }
 
-const TRANSACTION_QUERY =
-  'subject:(transaction OR debited OR credited OR payment OR UPI OR alert OR spent OR withdrawn)';
+// Most new message IDs listed per sync or re-scan; the rest wait for the next one
+const MAX_NEW_MESSAGES = 500;
 
 /**
- * Phase 1: Fast — fetch only message IDs, filter out already-processed ones.
- * Returns new IDs + stats. No body fetching here.
+ * Phase 1: Fast — fetch only message IDs matching the query (see
+ * buildGmailQuery), filter out already-processed ones.
+ * Returns new IDs + stats, and whether every match was listed. No body fetching here.
  */
 export async function fetchNewMessageIds(
   accessToken: string,
-  afterDate: string | null,
-  processedIds: string[]
-): Promise<{ newIds: string[]; totalFound: number; skippedDupes: number }> {
+  query: string,
+  processedIds: Set<string>
+): Promise<{ newIds: string[]; totalFound: number; skippedDupes: number; complete: boolean }> {
   const gmail = createGmailClient(accessToken);
-  const processedSet = new Set(processedIds);
-
-  let query = TRANSACTION_QUERY;
-  if (afterDate) {
-    const formatted = afterDate.replace(/-/g, '/');
-    query += ` after:${formatted}`;
-  } else {
-    // Explicit 6-month backfill date (newer_than:6m is unreliable)
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-    const y = sixMonthsAgo.getFullYear();
-    const m = String(sixMonthsAgo.getMonth() + 1).padStart(2, '0');
-    const d = String(sixMonthsAgo.getDate()).padStart(2, '0');
-    query += ` after:${y}/${m}/${d}`;
-  }
 
   const allMessageIds: string[] = [];
+  const newIds: string[] = [];
   let pageToken: string | undefined;
 
   do {
@@ -56,29 +44,33 @@ export async function fetchNewMessageIds(
 
     const messages = listRes.data.messages || [];
     for (const msg of messages) {
-      if (msg.id) allMessageIds.push(msg.id);
+      if (!msg.id) continue;
+      allMessageIds.push(msg.id);
+      if (!processedIds.has(msg.id)) newIds.push(msg.id);
     }
 
     pageToken = listRes.data.nextPageToken || undefined;
-  } while (pageToken && allMessageIds.length < 500);
+  } while (pageToken && newIds.length < MAX_NEW_MESSAGES);
 
   const totalFound = allMessageIds.length;
-  const newIds = allMessageIds.filter((id) => !processedSet.has(id));
   const skippedDupes = totalFound - newIds.length;
 
-  return { newIds, totalFound, skippedDupes };
+  return { newIds, totalFound, skippedDupes, complete: !pageToken };
 }
 
 /**
  * Phase 2: Fetch full bodies for a chunk of message IDs.
- * Call this repeatedly with slices of newIds.
+ * Call this repeatedly with slices of newIds. Emails without a readable body
+ * come back with an empty one; failed fetches are left out of both lists, and
+ * the sync keeps its watermark so they're tried again.
  */
 export async function fetchEmailBodies(
   accessToken: string,
   messageIds: string[]
-): Promise<GmailEmail[]> {
+): Promise<{ emails: GmailEmail[]; fetched: ProcessedGmailMessage[] }> {
   const gmail = createGmailClient(accessToken);
   const emails: GmailEmail[] = [];
+  const fetched: ProcessedGmailMessage[] = [];
 
   // Fetch in parallel batches of 20
   const batchSize = 20;
@@ -93,18 +85,18 @@ export async function fetchEmailBodies(
     );
 
     for (const res of results) {
-      if (!res?.data) continue;
-      const email = extractEmailContent(res.data);
-      if (email) emails.push(email);
+      if (!res?.data?.id) continue;
+      fetched.push({ id: res.data.id, internalDate: Number(res.data.internalDate) || Date.now() });
+      emails.push(extractEmailContent(res.data));
     }
   }
 
-  return emails;
+  return { emails, fetched };
 }
 
 function extractEmailContent(
   message: gmail_v1.Schema$Message
-): GmailEmail | null {
+): GmailEmail {
   const headers = message.payload?.headers || [];
   const getHeader = (name: string) =>
     headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
@@ -115,7 +107,6 @@ function extractEmailContent(
   const dateStr = getHeader('Date');
 
   const body = extractBody(message.payload || {});
-  if (!body) return null;
 
   return { id, subject, from, date: dateStr, body };
 }
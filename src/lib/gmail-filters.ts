@@ -0,0 +1,86 @@
+import { format, subMonths, addDays, parseISO, isValid } from 'date-fns';
+import { GmailSyncSettings, DEFAULT_SETTINGS } from '@/types';
+
+// Subjects bank and UPI alerts tend to use; user keywords are searched on top
+const TRANSACTION_KEYWORDS = ['transaction', 'debited', 'credited', 'payment', 'UPI', 'alert', 'spent', 'withdrawn'];
+
+const DEFAULT_BACKFILL_MONTHS = 6;
+
+export interface GmailDateRange {
+  after: string;   // YYYY-MM-DD inclusive, or epoch seconds
+  before?: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Fill in fields missing from stored or cached settings (older saves, a
+ * malformed JSON cell) so callers can rely on every list being present.
+ */
+export function normalizeGmailSyncSettings(value: Partial<GmailSyncSettings> | null | undefined): GmailSyncSettings {
+  const defaults = DEFAULT_SETTINGS.gmailSync;
+  const list = (items: unknown): string[] =>
+    Array.isArray(items) ? items.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+  const interval = Number(value?.autoSyncIntervalHours);
+
+  return {
+    allowSenders: list(value?.allowSenders),
+    denySenders: list(value?.denySenders),
+    extraKeywords: list(value?.extraKeywords),
+    labels: list(value?.labels),
+    backfillStart: typeof value?.backfillStart === 'string' && isValid(parseISO(value.backfillStart))
+      ? value.backfillStart
+      : defaults.backfillStart,
+    autoSyncIntervalHours: Number.isFinite(interval) && interval >= 0 ? interval : defaults.autoSyncIntervalHours,
+  };
+}
+
+// "a@x.com, b.com\nc" → ['a@x.com', 'b.com', 'c']
+export function parseListInput(text: string): string[] {
+  const items = text.split(/[,\n]/).map((item) => item.trim()).filter(Boolean);
+  return Array.from(new Set(items));
+}
+
+// First day a sync looks at when nothing has been synced yet
+export function backfillStartDate(settings: GmailSyncSettings, now: Date = new Date()): string {
+  return settings.backfillStart || format(subMonths(now, DEFAULT_BACKFILL_MONTHS), 'yyyy-MM-dd');
+}
+
+function quoteTerm(term: string): string {
+  return /[\s()"]/.test(term) ? `"${term.replace(/"/g, '')}"` : term;
+}
+
+// Gmail searches labels by name with spaces and slashes as dashes
+function labelTerm(label: string): string {
+  return `label:${label.trim().toLowerCase().replace(/[\s/]+/g, '-')}`;
+}
+
+function gmailDate(date: string): string {
+  return date.replace(/-/g, '/');
+}
+
+/**
+ * Gmail search query for transaction emails within a date range, narrowed by
+ * the user's sender lists and labels. Gmail's `before:` is exclusive, so the
+ * range's last day is searched by asking for the day after.
+ */
+export function buildGmailQuery(settings: GmailSyncSettings, range: GmailDateRange): string {
+  const keywords = Array.from(new Set([...TRANSACTION_KEYWORDS, ...settings.extraKeywords]));
+  const terms = [`subject:(${keywords.map(quoteTerm).join(' OR ')})`];
+
+  if (settings.allowSenders.length > 0) {
+    terms.push(`from:(${settings.allowSenders.map(quoteTerm).join(' OR ')})`);
+  }
+  for (const sender of settings.denySenders) {
+    terms.push(`-from:${quoteTerm(sender)}`);
+  }
+  if (settings.labels.length === 1) {
+    terms.push(labelTerm(settings.labels[0]));
+  } else if (settings.labels.length > 1) {
+    terms.push(`{${settings.labels.map(labelTerm).join(' ')}}`);
+  }
+
+  terms.push(`after:${gmailDate(range.after)}`);
+  if (range.before) {
+    terms.push(`before:${format(addDays(parseISO(range.before), 1), 'yyyy/MM/dd')}`);
+  }
+  return terms.join(' ');
+}
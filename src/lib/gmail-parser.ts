@@ -1,6 +1,8 @@
-import { callLLMNonStreaming } from '@/lib/ai-client';
-import { ParsedEmailTransaction } from '@/types';
+import { callLLMNonStreaming, cleanJsonResponse } from '@/lib/ai-client';
+import { ParsedEmailTransaction, GmailSyncOutcome, DetectedAccount, ACCOUNT_TYPES } from '@/types';
 import { GmailEmail } from '@/lib/gmail-client';
+import { matchBankAlert, BANK_ALERT_TEMPLATES } from '@/lib/bank-alerts';
+import { readLast4 } from '@/lib/accounts';
 
 const LLM_BATCH_SIZE = 10;
 const MAX_BODY_LENGTH = 1500;
@@ -11,16 +13,17 @@ interface LLMParsedItem {
   amount?: number;
   date?: string;
   description?: string;
+  accountLast4?: string | number;
+  accountType?: string;
+  institution?: string;
 }
 
-/**
- * Strip markdown code fences that LLMs sometimes wrap around JSON.
- */
-function cleanJsonResponse(raw: string): string {
-  return raw
-    .replace(/^```(?:json)?\s*\n?/i, '')
-    .replace(/\n?```\s*$/i, '')
-    .trim();
+// Only an account with its last digits is worth keeping; the type falls back to a bank account
+function readLLMAccount(item: LLMParsedItem): DetectedAccount | undefined {
+  const last4 = readLast4(item.accountLast4?.toString());
+  if (!last4) return undefined;
+  const type = ACCOUNT_TYPES.find((t) => t.value === item.accountType)?.value || 'bank';
+  return { type, last4, institution: item.institution?.trim() || undefined };
 }
 
 /**
@@ -60,11 +63,24 @@ function cleanDescription(raw: string): string {
   return cleaned || raw.trim();
 }
 
+// How the parser read one email; the sync settles duplicates and rule effects after
+export interface EmailParseOutcome {
+  emailId: string;
+  outcome: Extract<GmailSyncOutcome, 'parsed' | 'not-transaction' | 'parse-failed'>;
+  reason: string;
+}
+
+interface BatchResult {
+  transactions: ParsedEmailTransaction[];
+  outcomes: EmailParseOutcome[];
+}
+
 /**
  * Parse a batch of emails using LLM.
- * Returns only debit transactions with valid amount and date.
+ * Returns debits as expenses and credits as income, with valid amount and date,
+ * and an outcome for every email in the batch.
  */
-export async function parseBatch(emails: GmailEmail[]): Promise<ParsedEmailTransaction[]> {
+export async function parseBatch(emails: GmailEmail[]): Promise<BatchResult> {
   const emailTexts = emails.map((email, idx) => {
     const body = email.body.slice(0, MAX_BODY_LENGTH);
     return `--- Email ${idx + 1} ---
@@ -85,13 +101,16 @@ Respond with ONLY a JSON object (no markdown, no code fences) containing a "tran
 - "type": "debit", "credit", or "not-a-transaction"
 - "amount": the transaction amount as a number (no currency symbols)
 - "date": transaction date in YYYY-MM-DD format (extract from email content or email date)
-- "description": ONLY the merchant or payee name. Do NOT include prefixes like "UPI Debit to", "Credit card payment for", "Payment to", "Txn at", etc. Just the clean merchant/payee/store name.
+- "description": ONLY the merchant or payee name (for credits, the payer or source such as employer name). Do NOT include prefixes like "UPI Debit to", "Credit card payment for", "Payment to", "Txn at", etc. Just the clean merchant/payee/store name.
   Good: "Swiggy", "Amazon India", "Zomato", "BigBazaar", "John Doe"
   Bad: "UPI Debit to Swiggy", "Credit card payment for Amazon", "Payment to Zomato"
+- "accountLast4": last digits of the card or account used, e.g. "1234" for "card ending 1234" or "A/c XX1234" (omit if not stated)
+- "accountType": "credit-card", "bank", "upi" or "wallet" (omit if not stated)
+- "institution": the bank or card issuer, e.g. "HDFC Bank" (omit if unclear)
 
 Only include entries where you can confidently extract the amount. Skip promotional emails, OTP messages, and non-transaction notifications.
 
-Example: {"transactions": [{"emailIndex": 1, "type": "debit", "amount": 500, "date": "2025-01-15", "description": "Amazon"}]}`;
+Example: {"transactions": [{"emailIndex": 1, "type": "debit", "amount": 500, "date": "2025-01-15", "description": "Amazon", "accountLast4": "1234", "accountType": "credit-card", "institution": "HDFC Bank"}]}`;
 
   const raw = await callLLMNonStreaming(prompt);
   const content = cleanJsonResponse(raw);
@@ -99,14 +118,33 @@ Example: {"transactions": [{"emailIndex": 1, "type": "debit", "amount": 500, "da
   const items: LLMParsedItem[] = parsed.transactions || [];
 
   const results: ParsedEmailTransaction[] = [];
+  // Emails the model leaves out were judged not worth extracting
+  const outcomes = new Map<string, EmailParseOutcome>(emails.map((email) => [
+    email.id,
+    { emailId: email.id, outcome: 'not-transaction', reason: 'No transaction found by the LLM' },
+  ]));
+  const setOutcome = (emailId: string, outcome: EmailParseOutcome['outcome'], reason: string) => {
+    if (outcomes.get(emailId)?.outcome !== 'parsed') outcomes.set(emailId, { emailId, outcome, reason });
+  };
 
   for (const item of items) {
-    if (item.type !== 'debit') continue;
-    if (!item.amount || item.amount <= 0) continue;
-    if (!item.date || !/^\d{4}-\d{2}-\d{2}$/.test(item.date)) continue;
-
     const emailIdx = item.emailIndex - 1;
     if (emailIdx < 0 || emailIdx >= emails.length) continue;
+    const emailId = emails[emailIdx].id;
+
+    if (item.type !== 'debit' && item.type !== 'credit') {
+      setOutcome(emailId, 'not-transaction', 'LLM classified it as not a transaction');
+      continue;
+    }
+    if (!item.amount || item.amount <= 0) {
+      setOutcome(emailId, 'parse-failed', `No valid amount in the ${item.type}`);
+      continue;
+    }
+    if (!item.date || !/^\d{4}-\d{2}-\d{2}$/.test(item.date)) {
+      setOutcome(emailId, 'parse-failed', `Invalid date "${item.date || ''}"`);
+      continue;
+    }
+    setOutcome(emailId, 'parsed', `Read by the LLM as a ${item.type}`);
 
     const rawDesc = item.description || emails[emailIdx].subject;
 
@@ -115,30 +153,59 @@ Example: {"transactions": [{"emailIndex": 1, "type": "debit", "amount": 500, "da
       amount: item.amount,
       date: item.date,
       description: cleanDescription(rawDesc),
+      direction: item.type === 'credit' ? 'income' : 'expense',
+      account: readLLMAccount(item),
     });
   }
 
-  return results;
+  return { transactions: results, outcomes: Array.from(outcomes.values()) };
+}
+
+export interface EmailChunkResult {
+  transactions: ParsedEmailTransaction[];
+  outcomes: EmailParseOutcome[];  // One per email
+  templateHits: number;   // Emails read by a bank alert template
+  llmEmails: number;      // Emails left to the LLM
 }
 
 /**
- * Process a chunk of emails: split into LLM-sized batches, parse each, collect results.
- * Tolerates individual LLM batch failures.
+ * Process a chunk of emails: known bank alerts are read by template, the rest
+ * are split into LLM-sized batches. Tolerates individual LLM batch failures.
  */
-export async function parseEmailChunk(
-  emails: GmailEmail[]
-): Promise<ParsedEmailTransaction[]> {
+export async function parseEmailChunk(emails: GmailEmail[]): Promise<EmailChunkResult> {
   const results: ParsedEmailTransaction[] = [];
+  const outcomes: EmailParseOutcome[] = [];
+  const unmatched: GmailEmail[] = [];
+  let templateHits = 0;
+
+  for (const email of emails) {
+    if (!email.body) {
+      outcomes.push({ emailId: email.id, outcome: 'parse-failed', reason: 'No readable text in the email' });
+      continue;
+    }
+    const match = matchBankAlert(email);
+    if (match) {
+      const template = BANK_ALERT_TEMPLATES.find((t) => t.id === match.templateId);
+      results.push({ ...match, description: cleanDescription(match.description) });
+      outcomes.push({ emailId: email.id, outcome: 'parsed', reason: `Read by the ${template?.name || match.templateId} template` });
+      templateHits++;
+    } else {
+      unmatched.push(email);
+    }
+  }
 
-  for (let i = 0; i < emails.length; i += LLM_BATCH_SIZE) {
-    const batch = emails.slice(i, i + LLM_BATCH_SIZE);
+  for (let i = 0; i < unmatched.length; i += LLM_BATCH_SIZE) {
+    const batch = unmatched.slice(i, i + LLM_BATCH_SIZE);
     try {
       const parsed = await parseBatch(batch);
-      results.push(...parsed);
+      results.push(...parsed.transactions);
+      outcomes.push(...parsed.outcomes);
     } catch (error) {
       console.error(`Gmail parser: LLM batch failed, skipping:`, error);
+      const reason = `LLM batch failed: ${error instanceof Error ? error.message : 'unknown error'}`;
+      outcomes.push(...batch.map((email) => ({ emailId: email.id, outcome: 'parse-failed' as const, reason })));
     }
   }
 
-  return results;
+  return { transactions: results, outcomes, templateHits, llmEmails: unmatched.length };
 }
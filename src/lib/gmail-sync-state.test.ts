@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createGmailSyncState,
+  isProcessed,
+  migrateGmailSyncState,
+  recordProcessed,
+  syncWindowStart,
+} from '@/lib/gmail-sync-state';
+import { GmailSyncState, ProcessedGmailMessage } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const at = (iso: string) => Date.parse(iso);
+
+/**
+ * What a sync would read: Gmail returns mail after the window start, and the
+ * listing skips IDs already in the state (as fetchNewMessageIds does).
+ */
+function nextSyncReads(state: GmailSyncState, mailbox: ProcessedGmailMessage[]): string[] {
+  const windowStart = syncWindowStart(state);
+  const recent = new Set(state.recentIds.map((m) => m.id));
+  return mailbox
+    .filter((m) => windowStart === null || m.internalDate >= windowStart * 1000)
+    .filter((m) => !recent.has(m.id))
+    .map((m) => m.id);
+}
+
+describe('migrateGmailSyncState', () => {
+  it('starts empty for missing or unreadable state', () => {
+    expect(migrateGmailSyncState(undefined)).toEqual(createGmailSyncState());
+    expect(migrateGmailSyncState('nonsense')).toEqual(createGmailSyncState());
+  });
+
+  it('dates legacy IDs at the end of the last sync day and puts the watermark at its start', () => {
+    const state = migrateGmailSyncState({ lastSyncDate: '2026-03-10', processedMessageIds: ['a', 'b', 'a', ''] });
+    expect(state.watermark).toBe(at('2026-03-10T00:00:00Z'));
+    expect(state.lastSyncDate).toBe('2026-03-10');
+    expect(state.recentIds).toEqual([
+      { id: 'a', internalDate: at('2026-03-11T00:00:00Z') },
+      { id: 'b', internalDate: at('2026-03-11T00:00:00Z') },
+    ]);
+  });
+
+  it('keeps legacy IDs without a sync date and leaves the watermark unset', () => {
+    const now = at('2026-03-10T09:00:00Z');
+    const state = migrateGmailSyncState({ lastSyncDate: '', processedMessageIds: ['a'] }, now);
+    expect(state.watermark).toBe(0);
+    expect(state.recentIds).toEqual([{ id: 'a', internalDate: now }]);
+    expect(syncWindowStart(state)).toBeNull();
+  });
+
+  it('drops malformed entries from the current format', () => {
+    const state = migrateGmailSyncState({
+      version: 2,
+      lastSyncDate: '2026-03-10',
+      watermark: at('2026-03-10T08:00:00Z'),
+      recentIds: [{ id: 'a', internalDate: 1 }, { id: 5 }, null],
+    });
+    expect(state.recentIds).toEqual([{ id: 'a', internalDate: 1 }]);
+  });
+
+  it('reads no email twice across the migration', () => {
+    const mailbox = [
+      { id: 'old', internalDate: at('2026-03-09T10:00:00Z') },
+      { id: 'late', internalDate: at('2026-03-10T12:00:00Z') },
+      { id: 'new', internalDate: at('2026-03-11T08:00:00Z') },
+    ];
+    // The legacy sync on 2026-03-10 read both emails that had arrived by then
+    let state = migrateGmailSyncState({ lastSyncDate: '2026-03-10', processedMessageIds: ['old', 'late'] });
+
+    const first = nextSyncReads(state, mailbox);
+    expect(first).toEqual(['new']);
+    state = recordProcessed(state, mailbox.filter((m) => first.includes(m.id)), { startedAt: at('2026-03-11T09:00:00Z') });
+
+    // The overlap window still covers the legacy IDs, and they're still known
+    expect(nextSyncReads(state, mailbox)).toEqual([]);
+    for (const message of mailbox) {
+      expect(isProcessed(state, message.id, message.internalDate)).toBe(true);
+    }
+  });
+});
+
+describe('recordProcessed', () => {
+  const startedAt = at('2026-03-20T09:00:00Z');
+
+  it('moves the watermark and last sync date after a complete sync', () => {
+    const state = recordProcessed(createGmailSyncState(), [], { startedAt });
+    expect(state.watermark).toBe(startedAt);
+    expect(state.lastSyncDate).toBe('2026-03-20');
+    expect(syncWindowStart(state)).toBe((startedAt - 2 * DAY_MS) / 1000);
+  });
+
+  it('keeps the watermark after a partial sync or a re-scan', () => {
+    const base = recordProcessed(createGmailSyncState(), [], { startedAt });
+    const message = { id: 'x', internalDate: startedAt + DAY_MS };
+    const state = recordProcessed(base, [message]);
+    expect(state.watermark).toBe(startedAt);
+    expect(state.recentIds).toEqual([message]);
+  });
+
+  it('never moves the watermark back', () => {
+    const base = recordProcessed(createGmailSyncState(), [], { startedAt });
+    expect(recordProcessed(base, [], { startedAt: startedAt - DAY_MS }).watermark).toBe(startedAt);
+  });
+
+  it('forgets IDs the next search can no longer return and drops repeats', () => {
+    const state = recordProcessed(
+      createGmailSyncState(),
+      [
+        { id: 'before-window', internalDate: startedAt - 3 * DAY_MS },
+        { id: 'in-overlap', internalDate: startedAt - DAY_MS },
+        { id: 'in-overlap', internalDate: startedAt - DAY_MS },
+      ],
+      { startedAt }
+    );
+    expect(state.recentIds.map((m) => m.id)).toEqual(['in-overlap']);
+  });
+
+  it('keeps every ID before the first complete sync', () => {
+    const messages = [{ id: 'a', internalDate: 1 }, { id: 'b', internalDate: 2 }];
+    expect(recordProcessed(createGmailSyncState(), messages).recentIds).toEqual(messages);
+  });
+});
+
+describe('isProcessed', () => {
+  const startedAt = at('2026-03-20T09:00:00Z');
+  const state = recordProcessed(
+    createGmailSyncState(),
+    [{ id: 'seen', internalDate: startedAt - DAY_MS }],
+    { startedAt }
+  );
+
+  it('knows IDs in the overlap window', () => {
+    expect(isProcessed(state, 'seen', startedAt - DAY_MS)).toBe(true);
+    expect(isProcessed(state, 'seen')).toBe(true);
+  });
+
+  it('treats unknown emails in the overlap window as unread', () => {
+    expect(isProcessed(state, 'other', startedAt - DAY_MS)).toBe(false);
+    expect(isProcessed(state, 'other', startedAt + DAY_MS)).toBe(false);
+  });
+
+  it('treats emails received before the window as read', () => {
+    expect(isProcessed(state, 'other', startedAt - 3 * DAY_MS)).toBe(true);
+  });
+
+  it('needs a date to judge emails it has no ID for', () => {
+    expect(isProcessed(state, 'other')).toBe(false);
+    expect(isProcessed(createGmailSyncState(), 'other', 1)).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { GmailSyncState, LegacyGmailSyncState, ProcessedGmailMessage } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Searches reach this far behind the watermark for mail Gmail indexed late
+const OVERLAP_MS = 2 * DAY_MS;
+
+export function createGmailSyncState(): GmailSyncState {
+  return { version: 2, lastSyncDate: '', watermark: 0, recentIds: [] };
+}
+
+/**
+ * Epoch seconds the next search starts from (Gmail's `after:` takes seconds),
+ * or null before the first complete sync, when the backfill date applies.
+ */
+export function syncWindowStart(state: GmailSyncState): number | null {
+  if (state.watermark <= 0) return null;
+  return Math.floor((state.watermark - OVERLAP_MS) / 1000);
+}
+
+/**
+ * Whether an email was already read: its ID is in the window, or it was
+ * received before the window (when its date is known).
+ */
+export function isProcessed(state: GmailSyncState, id: string, internalDate?: number): boolean {
+  if (state.recentIds.some((message) => message.id === id)) return true;
+  const windowStart = syncWindowStart(state);
+  return windowStart !== null && internalDate !== undefined && internalDate < windowStart * 1000;
+}
+
+/**
+ * Drop IDs the next search can't return anymore, one second before the
+ * window so the `after:` boundary never lets an email back in, and repeats.
+ */
+export function compactGmailSyncState(state: GmailSyncState): GmailSyncState {
+  const windowStart = syncWindowStart(state);
+  const cutoff = windowStart === null ? -Infinity : (windowStart - 1) * 1000;
+  const seen = new Set<string>();
+  const recentIds = state.recentIds.filter((message) => {
+    if (message.internalDate < cutoff || seen.has(message.id)) return false;
+    seen.add(message.id);
+    return true;
+  });
+  return { ...state, recentIds };
+}
+
+/**
+ * Record emails as read. A complete sync (every matching email listed, none
+ * left for later) moves the watermark up to when it started; a partial one
+ * or a re-scan only adds IDs, so emails it didn't reach are still searched.
+ */
+export function recordProcessed(
+  state: GmailSyncState,
+  messages: ProcessedGmailMessage[],
+  sync?: { startedAt: number }
+): GmailSyncState {
+  const next: GmailSyncState = { ...state, recentIds: [...state.recentIds, ...messages] };
+  if (sync) {
+    next.watermark = Math.max(state.watermark, sync.startedAt);
+    next.lastSyncDate = new Date(sync.startedAt).toISOString().split('T')[0];
+  }
+  return compactGmailSyncState(next);
+}
+
+function isLegacyState(value: object): value is LegacyGmailSyncState {
+  return Array.isArray((value as LegacyGmailSyncState).processedMessageIds);
+}
+
+/**
+ * Read stored state in either format. Legacy IDs carry no dates, so each is
+ * dated at the end of the last sync day (nothing it read arrived later) and
+ * kept until the window moves past that. The watermark is the start of that
+ * day, as the old search went by date only.
+ */
+export function migrateGmailSyncState(value: unknown, now: number = Date.now()): GmailSyncState {
+  if (!value || typeof value !== 'object') return createGmailSyncState();
+
+  if (isLegacyState(value)) {
+    const dayStart = value.lastSyncDate ? Date.parse(`${value.lastSyncDate}T00:00:00Z`) : NaN;
+    const synced = Number.isFinite(dayStart);
+    const internalDate = synced ? dayStart + DAY_MS : now;
+    return compactGmailSyncState({
+      version: 2,
+      lastSyncDate: synced ? value.lastSyncDate : '',
+      watermark: synced ? dayStart : 0,
+      recentIds: value.processedMessageIds
+        .filter((id) => typeof id === 'string' && id)
+        .map((id) => ({ id, internalDate })),
+    });
+  }
+
+  const state = value as Partial<GmailSyncState>;
+  return {
+    version: 2,
+    lastSyncDate: typeof state.lastSyncDate === 'string' ? state.lastSyncDate : '',
+    watermark: typeof state.watermark === 'number' && state.watermark > 0 ? state.watermark : 0,
+    recentIds: Array.isArray(state.recentIds)
+      ? state.recentIds.filter((m) => typeof m?.id === 'string' && typeof m.internalDate === 'number')
+      : [],
+  };
+}
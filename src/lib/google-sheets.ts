@@ -1,7 +1,14 @@
 import { google, sheets_v4 } from 'googleapis';
 import crypto from 'crypto';
-import { Expense, Category, UserSettings, DEFAULT_CATEGORIES, DEFAULT_SETTINGS, PendingTransaction, TransactionRule, GmailSyncState } from '@/types';
+import { Readable } from 'stream';
+import { Expense, Category, UserSettings, DEFAULT_CATEGORIES, DEFAULT_SETTINGS, PendingTransaction, TransactionRule, GmailSyncState, GmailSyncLogEntry, GmailSyncOutcome, TransactionDirection, RecurringTemplate, ExchangeRate, CurrencyCode, SplitGroup, ExpenseSplit, SplitMode, SplitShare, ExpenseAttachment, CsvProfile, CsvProfileColumns, CsvSignConvention, Account, AccountType } from '@/types';
 import { extractYearFromId } from '@/lib/id-utils';
+import type { StorageBackend, AttachmentFile } from '@/lib/storage';
+import { buildRateTable } from '@/lib/currency';
+import { parseTags, serializeTags } from '@/lib/tags';
+import { ensureModernRuleFormat } from '@/lib/ruleEngine';
+import { normalizeGmailSyncSettings } from '@/lib/gmail-filters';
+import { createGmailSyncState, compactGmailSyncState, migrateGmailSyncState } from '@/lib/gmail-sync-state';
 
 // ============================================
 // In-memory cache with TTL
@@ -43,6 +50,13 @@ const SETTINGS_CACHE_TTL = 5 * 60 * 1000;     // 5 minutes
 // Sheet names for main spreadsheet
 const CATEGORIES_SHEET = 'Categories';
 const SETTINGS_SHEET = 'Settings';
+const RECURRING_SHEET = 'Recurring';
+const CSV_PROFILES_SHEET = 'CSV Profiles';
+const RATES_SHEET = 'Exchange Rates';
+const SPLIT_GROUPS_SHEET = 'Split Groups';
+const SPLITS_SHEET = 'Splits';
+const SYNC_LOG_SHEET = 'Sync Log';
+const ACCOUNTS_SHEET = 'Accounts';
 const getExpensesSheetName = (year: number) => `Expenses ${year}`;
 
 // Sheet names for import spreadsheet
@@ -53,9 +67,32 @@ const IGNORED_SHEET = 'Ignored';
 const MAIN_SPREADSHEET_NAME = 'Expense Tracker';
 const IMPORT_SPREADSHEET_NAME = 'Expense Tracker - Import';
 const LEGACY_SPREADSHEET_NAME = 'Expense Tracker Data';
+const RECEIPTS_FOLDER_NAME = 'Expense Tracker Receipts';
 
 // Transaction columns for import sheets
-const TRANSACTION_HEADERS = ['id', 'date', 'description', 'amount', 'category', 'matchedRuleId', 'createdAt', 'source', 'categorySource', 'status'];
+const TRANSACTION_HEADERS = ['id', 'date', 'description', 'amount', 'category', 'matchedRuleId', 'createdAt', 'source', 'categorySource', 'status', 'direction', 'tags', 'originalDescription', 'duplicateOf', 'externalId', 'accountId'];
+const EXPENSE_HEADERS = ['id', 'amount', 'date', 'category', 'description', 'createdAt', 'updatedAt', 'direction', 'originalAmount', 'originalCurrency', 'tags', 'attachments', 'externalId', 'accountId'];
+const RECURRING_HEADERS = ['id', 'description', 'amount', 'category', 'direction', 'frequency', 'startDate', 'endDate', 'lastGeneratedDate', 'enabled', 'createdAt'];
+const CSV_PROFILE_HEADERS = ['id', 'name', 'signature', 'contentPattern', 'headerRowOffset', 'dateFormat', 'columns', 'signConvention', 'footerPattern', 'createdAt', 'accountId'];
+const SPLIT_GROUP_HEADERS = ['id', 'name', 'members', 'createdAt'];
+const ACCOUNT_HEADERS = ['id', 'name', 'type', 'last4', 'institution', 'createdAt'];
+const SYNC_LOG_HEADERS = ['id', 'syncId', 'syncType', 'syncedAt', 'messageId', 'subject', 'from', 'emailDate', 'outcome', 'reason', 'transactionIds'];
+const SPLIT_HEADERS = ['id', 'expenseId', 'groupId', 'date', 'description', 'amount', 'paidBy', 'mode', 'shares', 'createdAt'];
+
+// Last column letter for a header row (A-Z)
+const lastColumn = (headers: string[]) => String.fromCharCode(64 + headers.length);
+const TRANSACTION_LAST_COL = lastColumn(TRANSACTION_HEADERS);
+const EXPENSE_LAST_COL = lastColumn(EXPENSE_HEADERS);
+
+// JSON-encoded cell (arrays/objects), falling back when empty or malformed
+function parseJsonCell<T>(value: string | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
 
 export function createSheetsClient(accessToken: string): sheets_v4.Sheets {
   const auth = new google.auth.OAuth2();
@@ -149,10 +186,10 @@ export async function getOrCreateSpreadsheet(
   // Add headers to Categories sheet
   await sheets.spreadsheets.values.update({
     spreadsheetId,
-    range: `${CATEGORIES_SHEET}!A1:D1`,
+    range: `${CATEGORIES_SHEET}!A1:E1`,
     valueInputOption: 'RAW',
     requestBody: {
-      values: [['id', 'name', 'color', 'icon']],
+      values: [['id', 'name', 'color', 'icon', 'budget']],
     },
   });
 
@@ -200,10 +237,10 @@ export async function getOrCreateSpreadsheet(
   // Add headers to current year Expenses sheet
   await sheets.spreadsheets.values.update({
     spreadsheetId,
-    range: `'${getExpensesSheetName(currentYear)}'!A1:G1`,
+    range: `'${getExpensesSheetName(currentYear)}'!A1:${EXPENSE_LAST_COL}1`,
     valueInputOption: 'RAW',
     requestBody: {
-      values: [['id', 'amount', 'date', 'category', 'description', 'createdAt', 'updatedAt']],
+      values: [EXPENSE_HEADERS],
     },
   });
 
@@ -241,14 +278,21 @@ async function ensureYearExpensesSheet(
       },
     });
 
+  }
+
+  // Write headers for new sheets, and once per cache window for older sheets
+  // that predate newly added columns
+  const headersKey = `expenseHeaders:${spreadsheetId}:${year}`;
+  if (!sheetExists || !cacheGet<boolean>(headersKey)) {
     await sheets.spreadsheets.values.update({
       spreadsheetId,
-      range: `'${sheetName}'!A1:G1`,
+      range: `'${sheetName}'!A1:${EXPENSE_LAST_COL}1`,
       valueInputOption: 'RAW',
       requestBody: {
-        values: [['id', 'amount', 'date', 'category', 'description', 'createdAt', 'updatedAt']],
+        values: [EXPENSE_HEADERS],
       },
     });
+    cacheSet(headersKey, true, SPREADSHEET_CACHE_TTL);
   }
 }
 
@@ -304,7 +348,7 @@ export async function getOrCreateImportSpreadsheet(accessToken: string): Promise
   for (const sheetName of [PENDING_SHEET, IGNORED_SHEET]) {
     await sheets.spreadsheets.values.update({
       spreadsheetId,
-      range: `${sheetName}!A1:J1`,
+      range: `${sheetName}!A1:${TRANSACTION_LAST_COL}1`,
       valueInputOption: 'RAW',
       requestBody: {
         values: [TRANSACTION_HEADERS],
@@ -347,7 +391,7 @@ async function ensureImportSheet(
 
     await sheets.spreadsheets.values.update({
       spreadsheetId,
-      range: `${sheetName}!A1:J1`,
+      range: `${sheetName}!A1:${TRANSACTION_LAST_COL}1`,
       valueInputOption: 'RAW',
       requestBody: {
         values: [TRANSACTION_HEADERS],
@@ -360,6 +404,44 @@ async function ensureImportSheet(
 // Expense Operations (using year-specific sheets)
 // ============================================
 
+function expenseToRow(expense: Expense): (string | number)[] {
+  return [
+    expense.id,
+    expense.amount,
+    expense.date,
+    expense.category,
+    expense.description,
+    expense.createdAt,
+    expense.updatedAt,
+    expense.direction || 'expense',
+    expense.originalAmount ?? '',
+    expense.originalCurrency || '',
+    serializeTags(expense.tags),
+    expense.attachments?.length ? JSON.stringify(expense.attachments) : '',
+    expense.externalId || '',
+    expense.accountId || '',
+  ];
+}
+
+function rowToExpense(row: string[]): Expense {
+  return {
+    id: row[0] || '',
+    amount: parseFloat(row[1]) || 0,
+    date: row[2] || '',
+    category: row[3] || '',
+    description: row[4] || '',
+    createdAt: row[5] || '',
+    updatedAt: row[6] || '',
+    direction: (row[7] as TransactionDirection) || 'expense',
+    originalAmount: row[8] ? parseFloat(row[8]) : undefined,
+    originalCurrency: (row[9] as CurrencyCode) || undefined,
+    tags: parseTags(row[10]),
+    attachments: parseJsonCell<ExpenseAttachment[]>(row[11], []),
+    externalId: row[12] || undefined,
+    accountId: row[13] || undefined,
+  };
+}
+
 export async function getExpenses(
   accessToken: string,
   spreadsheetId: string,
@@ -374,7 +456,7 @@ export async function getExpenses(
 
     const response = await sheets.spreadsheets.values.get({
       spreadsheetId,
-      range: `'${sheetName}'!A2:G`,
+      range: `'${sheetName}'!A2:${EXPENSE_LAST_COL}`,
     });
 
     const rows = response.data.values;
@@ -382,15 +464,7 @@ export async function getExpenses(
       return [];
     }
 
-    return rows.map((row) => ({
-      id: row[0] || '',
-      amount: parseFloat(row[1]) || 0,
-      date: row[2] || '',
-      category: row[3] || '',
-      description: row[4] || '',
-      createdAt: row[5] || '',
-      updatedAt: row[6] || '',
-    }));
+    return rows.map(rowToExpense);
   } catch (error) {
     console.error(`Error reading expenses for year ${targetYear}:`, error);
     return [];
@@ -420,20 +494,12 @@ export async function getAllExpenses(
     try {
       const response = await sheets.spreadsheets.values.get({
         spreadsheetId,
-        range: `'${sheetName}'!A2:G`,
+        range: `'${sheetName}'!A2:${EXPENSE_LAST_COL}`,
       });
 
       const rows = response.data.values;
       if (rows && rows.length > 0) {
-        const expenses = rows.map((row) => ({
-          id: row[0] || '',
-          amount: parseFloat(row[1]) || 0,
-          date: row[2] || '',
-          category: row[3] || '',
-          description: row[4] || '',
-          createdAt: row[5] || '',
-          updatedAt: row[6] || '',
-        }));
+        const expenses = rows.map(rowToExpense);
         allExpenses.push(...expenses);
       }
     } catch {
@@ -457,19 +523,11 @@ export async function addExpense(
 
   await sheets.spreadsheets.values.append({
     spreadsheetId,
-    range: `'${sheetName}'!A2:G`,
+    range: `'${sheetName}'!A2:${EXPENSE_LAST_COL}`,
     valueInputOption: 'RAW',
     insertDataOption: 'INSERT_ROWS',
     requestBody: {
-      values: [[
-        expense.id,
-        expense.amount,
-        expense.date,
-        expense.category,
-        expense.description,
-        expense.createdAt,
-        expense.updatedAt,
-      ]],
+      values: [expenseToRow(expense)],
     },
   });
 }
@@ -500,22 +558,61 @@ export async function updateExpense(
 
   await sheets.spreadsheets.values.update({
     spreadsheetId,
-    range: `'${sheetName}'!A${sheetRow}:G${sheetRow}`,
+    range: `'${sheetName}'!A${sheetRow}:${EXPENSE_LAST_COL}${sheetRow}`,
     valueInputOption: 'RAW',
     requestBody: {
-      values: [[
-        expense.id,
-        expense.amount,
-        expense.date,
-        expense.category,
-        expense.description,
-        expense.createdAt,
-        expense.updatedAt,
-      ]],
+      values: [expenseToRow(expense)],
     },
   });
 }
 
+/**
+ * Rewrite many expenses with one read and one write per year sheet
+ */
+export async function updateExpensesBatch(
+  accessToken: string,
+  expenses: Expense[]
+): Promise<void> {
+  if (expenses.length === 0) return;
+
+  const spreadsheetId = await getOrCreateSpreadsheet(accessToken);
+  const sheets = createSheetsClient(accessToken);
+
+  const byYear = new Map<number, Expense[]>();
+  for (const expense of expenses) {
+    const year = new Date(expense.date).getFullYear();
+    byYear.set(year, [...(byYear.get(year) || []), expense]);
+  }
+
+  const data: sheets_v4.Schema$ValueRange[] = [];
+  for (const [year, yearExpenses] of Array.from(byYear.entries())) {
+    const sheetName = getExpensesSheetName(year);
+    await ensureYearExpensesSheet(sheets, spreadsheetId, year);
+
+    const response = await sheets.spreadsheets.values.get({
+      spreadsheetId,
+      range: `'${sheetName}'!A:A`,
+    });
+    const ids = (response.data.values || []).map((row) => row[0]);
+
+    for (const expense of yearExpenses) {
+      const rowIndex = ids.indexOf(expense.id);
+      if (rowIndex === -1) continue;
+      const sheetRow = rowIndex + 1;
+      data.push({
+        range: `'${sheetName}'!A${sheetRow}:${EXPENSE_LAST_COL}${sheetRow}`,
+        values: [expenseToRow(expense)],
+      });
+    }
+  }
+
+  if (data.length === 0) return;
+  await sheets.spreadsheets.values.batchUpdate({
+    spreadsheetId,
+    requestBody: { valueInputOption: 'RAW', data },
+  });
+}
+
 export async function deleteExpense(
   accessToken: string,
   spreadsheetId: string,
@@ -589,19 +686,11 @@ export async function addExpensesBatch(
 
     await ensureYearExpensesSheet(sheets, spreadsheetId, year);
 
-    const values = expensesByYear[year].map((expense) => [
-      expense.id,
-      expense.amount,
-      expense.date,
-      expense.category,
-      expense.description,
-      expense.createdAt,
-      expense.updatedAt,
-    ]);
+    const values = expensesByYear[year].map(expenseToRow);
 
     await sheets.spreadsheets.values.append({
       spreadsheetId,
-      range: `'${sheetName}'!A2:G`,
+      range: `'${sheetName}'!A2:${EXPENSE_LAST_COL}`,
       valueInputOption: 'RAW',
       insertDataOption: 'INSERT_ROWS',
       requestBody: {
@@ -627,7 +716,7 @@ export async function getCategories(
 
   const response = await sheets.spreadsheets.values.get({
     spreadsheetId,
-    range: `${CATEGORIES_SHEET}!A2:D`,
+    range: `${CATEGORIES_SHEET}!A2:E`,
   });
 
   const rows = response.data.values;
@@ -641,6 +730,7 @@ export async function getCategories(
     name: row[1] || '',
     color: row[2] || '#D4D4D4',
     icon: row[3] || undefined,
+    budget: parseFloat(row[4]) || undefined,
   }));
   cacheSet(cacheKey, categories, CATEGORIES_CACHE_TTL);
   return categories;
@@ -655,7 +745,7 @@ export async function addCategory(
 
   await sheets.spreadsheets.values.append({
     spreadsheetId,
-    range: `${CATEGORIES_SHEET}!A2:D`,
+    range: `${CATEGORIES_SHEET}!A2:E`,
     valueInputOption: 'RAW',
     insertDataOption: 'INSERT_ROWS',
     requestBody: {
@@ -664,6 +754,7 @@ export async function addCategory(
         category.name,
         category.color,
         category.icon || '',
+        category.budget || '',
       ]],
     },
   });
@@ -692,7 +783,7 @@ export async function updateCategory(
 
   await sheets.spreadsheets.values.update({
     spreadsheetId,
-    range: `${CATEGORIES_SHEET}!A${sheetRow}:D${sheetRow}`,
+    range: `${CATEGORIES_SHEET}!A${sheetRow}:E${sheetRow}`,
     valueInputOption: 'RAW',
     requestBody: {
       values: [[
@@ -700,6 +791,7 @@ export async function updateCategory(
         category.name,
         category.color,
         category.icon || '',
+        category.budget || '',
       ]],
     },
   });
@@ -750,6 +842,52 @@ export async function deleteCategory(
   cacheDelete(`categories:${spreadsheetId}`);
 }
 
+// Overall monthly cap lives beside the category table (Categories!G1:H1)
+const OVERALL_BUDGET_RANGE = `${CATEGORIES_SHEET}!G1:H1`;
+
+export async function getOverallBudget(
+  accessToken: string,
+  spreadsheetId: string
+): Promise<number | null> {
+  const cacheKey = `overallBudget:${spreadsheetId}`;
+  const cached = cacheGet<{ value: number | null }>(cacheKey);
+  if (cached) return cached.value;
+
+  const sheets = createSheetsClient(accessToken);
+
+  try {
+    const response = await sheets.spreadsheets.values.get({
+      spreadsheetId,
+      range: OVERALL_BUDGET_RANGE,
+    });
+
+    const value = parseFloat(response.data.values?.[0]?.[1]) || null;
+    cacheSet(cacheKey, { value }, CATEGORIES_CACHE_TTL);
+    return value;
+  } catch (error) {
+    console.error('Error reading overall budget:', error);
+    return null;
+  }
+}
+
+export async function setOverallBudget(
+  accessToken: string,
+  spreadsheetId: string,
+  amount: number | null
+): Promise<void> {
+  const sheets = createSheetsClient(accessToken);
+
+  await sheets.spreadsheets.values.update({
+    spreadsheetId,
+    range: OVERALL_BUDGET_RANGE,
+    valueInputOption: 'RAW',
+    requestBody: {
+      values: [['overallBudget', amount && amount > 0 ? amount : '']],
+    },
+  });
+  cacheDelete(`overallBudget:${spreadsheetId}`);
+}
+
 // ============================================
 // Settings Operations
 // ============================================
@@ -788,6 +926,8 @@ export async function getSettings(
         settings.onboardingCompleted = value === 'true';
       } else if (key === 'gmailSyncEnabled') {
         settings.gmailSyncEnabled = value === 'true';
+      } else if (key === 'gmailSync') {
+        settings.gmailSync = normalizeGmailSyncSettings(parseJsonCell(value, DEFAULT_SETTINGS.gmailSync));
       }
     }
 
@@ -799,6 +939,50 @@ export async function getSettings(
   }
 }
 
+/**
+ * Write key/value rows to the Settings sheet by key, updating rows in place
+ * and appending missing keys. The sheet also holds rules and sync state, so
+ * rows are never addressed by position.
+ */
+async function upsertSettingsRows(
+  sheets: sheets_v4.Sheets,
+  spreadsheetId: string,
+  entries: [string, string][]
+): Promise<void> {
+  const response = await sheets.spreadsheets.values.get({
+    spreadsheetId,
+    range: `${SETTINGS_SHEET}!A2:B`,
+  });
+  const rows = response.data.values || [];
+
+  const updates: sheets_v4.Schema$ValueRange[] = [];
+  const missing: [string, string][] = [];
+  for (const [key, value] of entries) {
+    const rowIndex = rows.findIndex((row) => row[0] === key);
+    if (rowIndex === -1) {
+      missing.push([key, value]);
+    } else {
+      const sheetRow = rowIndex + 2;
+      updates.push({ range: `${SETTINGS_SHEET}!A${sheetRow}:B${sheetRow}`, values: [[key, value]] });
+    }
+  }
+
+  if (updates.length > 0) {
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: { valueInputOption: 'RAW', data: updates },
+    });
+  }
+  if (missing.length > 0) {
+    await sheets.spreadsheets.values.append({
+      spreadsheetId,
+      range: `${SETTINGS_SHEET}!A2:B`,
+      valueInputOption: 'RAW',
+      requestBody: { values: missing },
+    });
+  }
+}
+
 export async function updateSettings(
   accessToken: string,
   spreadsheetId: string,
@@ -839,18 +1023,12 @@ export async function updateSettings(
       });
     }
 
-    await sheets.spreadsheets.values.update({
-      spreadsheetId,
-      range: `${SETTINGS_SHEET}!A2:B4`,
-      valueInputOption: 'RAW',
-      requestBody: {
-        values: [
-          ['currency', settings.currency],
-          ['onboardingCompleted', settings.onboardingCompleted.toString()],
-          ['gmailSyncEnabled', settings.gmailSyncEnabled.toString()],
-        ],
-      },
-    });
+    await upsertSettingsRows(sheets, spreadsheetId, [
+      ['currency', settings.currency],
+      ['onboardingCompleted', settings.onboardingCompleted.toString()],
+      ['gmailSyncEnabled', settings.gmailSyncEnabled.toString()],
+      ['gmailSync', JSON.stringify(normalizeGmailSyncSettings(settings.gmailSync))],
+    ]);
   } catch (error) {
     console.error('Error updating settings:', error);
     throw error;
@@ -878,6 +1056,12 @@ function transactionToRow(t: PendingTransaction): (string | number)[] {
     t.source || '',
     t.categorySource || '',
     t.status,
+    t.direction || 'expense',
+    serializeTags(t.tags),
+    t.originalDescription || '',
+    t.duplicateOf || '',
+    t.externalId || '',
+    t.accountId || '',
   ];
 }
 
@@ -893,6 +1077,12 @@ function rowToTransaction(row: string[], fallbackStatus: PendingTransaction['sta
     createdAt: row[6] || '',
     source: row[7] || undefined,
     categorySource: (row[8] as PendingTransaction['categorySource']) || undefined,
+    direction: (row[10] as TransactionDirection) || 'expense',
+    tags: parseTags(row[11]),
+    originalDescription: row[12] || undefined,
+    duplicateOf: row[13] || undefined,
+    externalId: row[14] || undefined,
+    accountId: row[15] || undefined,
   };
 }
 
@@ -915,7 +1105,7 @@ export async function getPendingTransactions(
 
       const response = await sheets.spreadsheets.values.get({
         spreadsheetId: importSpreadsheetId,
-        range: `${config.name}!A2:J`,
+        range: `${config.name}!A2:${TRANSACTION_LAST_COL}`,
       });
 
       const rows = response.data.values;
@@ -956,7 +1146,7 @@ export async function addPendingTransactions(
 
     await sheets.spreadsheets.values.append({
       spreadsheetId: importSpreadsheetId,
-      range: `${sheetName}!A2:J`,
+      range: `${sheetName}!A2:${TRANSACTION_LAST_COL}`,
       valueInputOption: 'RAW',
       insertDataOption: 'INSERT_ROWS',
       requestBody: { values },
@@ -996,7 +1186,7 @@ export async function updatePendingTransaction(
         const sheetRow = rowIndex + 1;
         await sheets.spreadsheets.values.update({
           spreadsheetId: importSpreadsheetId,
-          range: `${sheetName}!A${sheetRow}:J${sheetRow}`,
+          range: `${sheetName}!A${sheetRow}:${TRANSACTION_LAST_COL}${sheetRow}`,
           valueInputOption: 'RAW',
           requestBody: {
             values: [transactionToRow(transaction)],
@@ -1033,7 +1223,7 @@ export async function updatePendingTransaction(
         await ensureImportSheet(sheets, importSpreadsheetId, targetSheet);
         await sheets.spreadsheets.values.append({
           spreadsheetId: importSpreadsheetId,
-          range: `${targetSheet}!A2:I`,
+          range: `${targetSheet}!A2:${TRANSACTION_LAST_COL}`,
           valueInputOption: 'RAW',
           insertDataOption: 'INSERT_ROWS',
           requestBody: {
@@ -1164,7 +1354,7 @@ export async function updateAllPendingTransactions(
 
       await sheets.spreadsheets.values.append({
         spreadsheetId: importSpreadsheetId,
-        range: `${sheetName}!A2:J`,
+        range: `${sheetName}!A2:${TRANSACTION_LAST_COL}`,
         valueInputOption: 'RAW',
         insertDataOption: 'INSERT_ROWS',
         requestBody: { values },
@@ -1199,7 +1389,7 @@ export async function moveTransactionsToExpenses(
     if (sheet?.properties?.sheetId) {
       const response = await sheets.spreadsheets.values.get({
         spreadsheetId: importSpreadsheetId,
-        range: `${PENDING_SHEET}!A2:J`,
+        range: `${PENDING_SHEET}!A2:${TRANSACTION_LAST_COL}`,
       });
 
       const rows = response.data.values;
@@ -1232,6 +1422,10 @@ export async function moveTransactionsToExpenses(
     description: t.description,
     createdAt: now,
     updatedAt: now,
+    direction: t.direction || 'expense',
+    tags: t.tags,
+    externalId: t.externalId,
+    accountId: t.accountId,
   }));
 
   // Group by year and add to appropriate sheets
@@ -1250,19 +1444,11 @@ export async function moveTransactionsToExpenses(
 
     await ensureYearExpensesSheet(sheets, mainSpreadsheetId, year);
 
-    const values = expensesByYear[year].map((expense) => [
-      expense.id,
-      expense.amount,
-      expense.date,
-      expense.category,
-      expense.description,
-      expense.createdAt,
-      expense.updatedAt,
-    ]);
+    const values = expensesByYear[year].map(expenseToRow);
 
     await sheets.spreadsheets.values.append({
       spreadsheetId: mainSpreadsheetId,
-      range: `'${sheetName}'!A2:G`,
+      range: `'${sheetName}'!A2:${EXPENSE_LAST_COL}`,
       valueInputOption: 'RAW',
       insertDataOption: 'INSERT_ROWS',
       requestBody: {
@@ -1323,7 +1509,8 @@ export async function getRules(
     }
 
     try {
-      return JSON.parse(rulesRow[1]) as TransactionRule[];
+      const rules = JSON.parse(rulesRow[1]) as Parameters<typeof ensureModernRuleFormat>[0][];
+      return rules.map(ensureModernRuleFormat);
     } catch {
       return [];
     }
@@ -1372,13 +1559,510 @@ export async function saveRules(
 }
 
 // ============================================
-// Gmail Sync State Operations
+// Table sheets in the main spreadsheet (one row per record)
 // ============================================
 
-const DEFAULT_GMAIL_SYNC_STATE: GmailSyncState = {
-  lastSyncDate: '',
-  processedMessageIds: [],
-};
+/**
+ * Ensure a sheet with the given header row exists in the main spreadsheet
+ */
+async function ensureTableSheet(
+  sheets: sheets_v4.Sheets,
+  spreadsheetId: string,
+  sheetName: string,
+  headers: string[]
+): Promise<void> {
+  const cacheKey = `tableSheet:${spreadsheetId}:${sheetName}`;
+  if (cacheGet<boolean>(cacheKey)) return;
+
+  const spreadsheet = await sheets.spreadsheets.get({ spreadsheetId });
+  const sheetExists = spreadsheet.data.sheets?.some(
+    (s) => s.properties?.title === sheetName
+  );
+
+  if (!sheetExists) {
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: [
+          {
+            addSheet: {
+              properties: {
+                title: sheetName,
+                gridProperties: { frozenRowCount: 1 },
+              },
+            },
+          },
+        ],
+      },
+    });
+
+    await sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: `'${sheetName}'!A1:${lastColumn(headers)}1`,
+      valueInputOption: 'RAW',
+      requestBody: {
+        values: [headers],
+      },
+    });
+  }
+  cacheSet(cacheKey, true, SPREADSHEET_CACHE_TTL);
+}
+
+async function readTableRows(
+  accessToken: string,
+  spreadsheetId: string,
+  sheetName: string,
+  headers: string[]
+): Promise<string[][]> {
+  const sheets = createSheetsClient(accessToken);
+  await ensureTableSheet(sheets, spreadsheetId, sheetName, headers);
+
+  const response = await sheets.spreadsheets.values.get({
+    spreadsheetId,
+    range: `'${sheetName}'!A2:${lastColumn(headers)}`,
+  });
+  return (response.data.values || []).filter((row) => row[0]);
+}
+
+/**
+ * Replace all data rows of a table sheet (these tables are small, so they're
+ * rewritten wholesale rather than patched row by row)
+ */
+async function replaceTableRows(
+  accessToken: string,
+  spreadsheetId: string,
+  sheetName: string,
+  headers: string[],
+  rows: (string | number)[][]
+): Promise<void> {
+  const sheets = createSheetsClient(accessToken);
+  const lastCol = lastColumn(headers);
+  await ensureTableSheet(sheets, spreadsheetId, sheetName, headers);
+
+  await sheets.spreadsheets.values.clear({
+    spreadsheetId,
+    range: `'${sheetName}'!A2:${lastCol}`,
+  });
+
+  if (rows.length > 0) {
+    await sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: `'${sheetName}'!A2:${lastCol}${rows.length + 1}`,
+      valueInputOption: 'RAW',
+      requestBody: { values: rows },
+    });
+  }
+}
+
+// ============================================
+// Recurring Templates Operations (Recurring sheet of main spreadsheet)
+// ============================================
+
+function recurringToRow(t: RecurringTemplate): (string | number)[] {
+  return [
+    t.id,
+    t.description,
+    t.amount,
+    t.category || '',
+    t.direction || 'expense',
+    t.frequency,
+    t.startDate,
+    t.endDate || '',
+    t.lastGeneratedDate || '',
+    t.enabled.toString(),
+    t.createdAt,
+  ];
+}
+
+function rowToRecurring(row: string[]): RecurringTemplate {
+  return {
+    id: row[0] || '',
+    description: row[1] || '',
+    amount: parseFloat(row[2]) || 0,
+    category: row[3] || undefined,
+    direction: (row[4] as TransactionDirection) || 'expense',
+    frequency: (row[5] as RecurringTemplate['frequency']) || 'monthly',
+    startDate: row[6] || '',
+    endDate: row[7] || undefined,
+    lastGeneratedDate: row[8] || undefined,
+    enabled: row[9] !== 'false',
+    createdAt: row[10] || '',
+  };
+}
+
+export async function getRecurringTemplates(
+  accessToken: string,
+  spreadsheetId: string
+): Promise<RecurringTemplate[]> {
+  try {
+    const rows = await readTableRows(accessToken, spreadsheetId, RECURRING_SHEET, RECURRING_HEADERS);
+    return rows.map(rowToRecurring);
+  } catch (error) {
+    console.error('Error reading recurring templates:', error);
+    return [];
+  }
+}
+
+export async function saveRecurringTemplates(
+  accessToken: string,
+  spreadsheetId: string,
+  templates: RecurringTemplate[]
+): Promise<void> {
+  await replaceTableRows(
+    accessToken,
+    spreadsheetId,
+    RECURRING_SHEET,
+    RECURRING_HEADERS,
+    templates.map(recurringToRow)
+  );
+}
+
+// ============================================
+// CSV Profile Operations (CSV Profiles sheet of main spreadsheet)
+// ============================================
+
+function csvProfileToRow(p: CsvProfile): (string | number)[] {
+  return [
+    p.id,
+    p.name,
+    JSON.stringify(p.signature),
+    p.contentPattern || '',
+    p.headerRowOffset,
+    p.dateFormat,
+    JSON.stringify(p.columns),
+    p.signConvention,
+    p.footerPattern || '',
+    p.createdAt,
+    p.accountId || '',
+  ];
+}
+
+function rowToCsvProfile(row: string[]): CsvProfile {
+  return {
+    id: row[0] || '',
+    name: row[1] || '',
+    signature: parseJsonCell<string[]>(row[2], []),
+    contentPattern: row[3] || undefined,
+    headerRowOffset: parseInt(row[4]) || 0,
+    dateFormat: row[5] || 'auto',
+    columns: parseJsonCell<CsvProfileColumns>(row[6], { date: '', description: '' }),
+    signConvention: (row[7] as CsvSignConvention) || 'auto',
+    footerPattern: row[8] || undefined,
+    createdAt: row[9] || '',
+    accountId: row[10] || undefined,
+  };
+}
+
+export async function getCsvProfiles(
+  accessToken: string,
+  spreadsheetId: string
+): Promise<CsvProfile[]> {
+  try {
+    const rows = await readTableRows(accessToken, spreadsheetId, CSV_PROFILES_SHEET, CSV_PROFILE_HEADERS);
+    return rows.map(rowToCsvProfile);
+  } catch (error) {
+    console.error('Error reading CSV profiles:', error);
+    return [];
+  }
+}
+
+export async function saveCsvProfiles(
+  accessToken: string,
+  spreadsheetId: string,
+  profiles: CsvProfile[]
+): Promise<void> {
+  await replaceTableRows(
+    accessToken,
+    spreadsheetId,
+    CSV_PROFILES_SHEET,
+    CSV_PROFILE_HEADERS,
+    profiles.map(csvProfileToRow)
+  );
+}
+
+// ============================================
+// Account Operations (Accounts sheet of main spreadsheet)
+// ============================================
+
+function accountToRow(a: Account): (string | number)[] {
+  return [a.id, a.name, a.type, a.last4 || '', a.institution || '', a.createdAt];
+}
+
+function rowToAccount(row: string[]): Account {
+  return {
+    id: row[0] || '',
+    name: row[1] || '',
+    type: (row[2] as AccountType) || 'bank',
+    last4: row[3] || undefined,
+    institution: row[4] || undefined,
+    createdAt: row[5] || '',
+  };
+}
+
+export async function getAccounts(
+  accessToken: string,
+  spreadsheetId: string
+): Promise<Account[]> {
+  try {
+    const rows = await readTableRows(accessToken, spreadsheetId, ACCOUNTS_SHEET, ACCOUNT_HEADERS);
+    return rows.map(rowToAccount);
+  } catch (error) {
+    console.error('Error reading accounts:', error);
+    return [];
+  }
+}
+
+export async function saveAccounts(
+  accessToken: string,
+  spreadsheetId: string,
+  accounts: Account[]
+): Promise<void> {
+  await replaceTableRows(
+    accessToken,
+    spreadsheetId,
+    ACCOUNTS_SHEET,
+    ACCOUNT_HEADERS,
+    accounts.map(accountToRow)
+  );
+}
+
+// ============================================
+// Split Operations (Split Groups and Splits sheets of main spreadsheet)
+// ============================================
+
+function splitGroupToRow(g: SplitGroup): (string | number)[] {
+  return [g.id, g.name, JSON.stringify(g.members), g.createdAt];
+}
+
+function rowToSplitGroup(row: string[]): SplitGroup {
+  return {
+    id: row[0] || '',
+    name: row[1] || '',
+    members: parseJsonCell<string[]>(row[2], []),
+    createdAt: row[3] || '',
+  };
+}
+
+function splitToRow(s: ExpenseSplit): (string | number)[] {
+  return [
+    s.id,
+    s.expenseId || '',
+    s.groupId,
+    s.date,
+    s.description,
+    s.amount,
+    s.paidBy,
+    s.mode,
+    JSON.stringify(s.shares),
+    s.createdAt,
+  ];
+}
+
+function rowToSplit(row: string[]): ExpenseSplit {
+  return {
+    id: row[0] || '',
+    expenseId: row[1] || undefined,
+    groupId: row[2] || '',
+    date: row[3] || '',
+    description: row[4] || '',
+    amount: parseFloat(row[5]) || 0,
+    paidBy: row[6] || '',
+    mode: (row[7] as SplitMode) || 'equal',
+    shares: parseJsonCell<SplitShare[]>(row[8], []),
+    createdAt: row[9] || '',
+  };
+}
+
+export async function getSplitGroups(
+  accessToken: string,
+  spreadsheetId: string
+): Promise<SplitGroup[]> {
+  try {
+    const rows = await readTableRows(accessToken, spreadsheetId, SPLIT_GROUPS_SHEET, SPLIT_GROUP_HEADERS);
+    return rows.map(rowToSplitGroup);
+  } catch (error) {
+    console.error('Error reading split groups:', error);
+    return [];
+  }
+}
+
+export async function saveSplitGroups(
+  accessToken: string,
+  spreadsheetId: string,
+  groups: SplitGroup[]
+): Promise<void> {
+  await replaceTableRows(
+    accessToken,
+    spreadsheetId,
+    SPLIT_GROUPS_SHEET,
+    SPLIT_GROUP_HEADERS,
+    groups.map(splitGroupToRow)
+  );
+}
+
+export async function getSplits(
+  accessToken: string,
+  spreadsheetId: string
+): Promise<ExpenseSplit[]> {
+  try {
+    const rows = await readTableRows(accessToken, spreadsheetId, SPLITS_SHEET, SPLIT_HEADERS);
+    return rows.map(rowToSplit);
+  } catch (error) {
+    console.error('Error reading splits:', error);
+    return [];
+  }
+}
+
+export async function saveSplits(
+  accessToken: string,
+  spreadsheetId: string,
+  splits: ExpenseSplit[]
+): Promise<void> {
+  await replaceTableRows(
+    accessToken,
+    spreadsheetId,
+    SPLITS_SHEET,
+    SPLIT_HEADERS,
+    splits.map(splitToRow)
+  );
+}
+
+// ============================================
+// Exchange Rates Operations (Exchange Rates sheet of main spreadsheet)
+// ============================================
+
+// Columns: currency | rate (GOOGLEFINANCE formula) | override | updatedAt.
+// The base currency the formulas were written for is kept in F1:G1.
+const RATES_BASE_RANGE = `'${RATES_SHEET}'!F1:G1`;
+const RATES_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+async function writeExchangeRates(
+  sheets: sheets_v4.Sheets,
+  spreadsheetId: string,
+  rates: ExchangeRate[],
+  baseCurrency: CurrencyCode
+): Promise<void> {
+  const spreadsheet = await sheets.spreadsheets.get({ spreadsheetId });
+  const sheetExists = spreadsheet.data.sheets?.some(
+    (s) => s.properties?.title === RATES_SHEET
+  );
+
+  if (!sheetExists) {
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: [
+          {
+            addSheet: {
+              properties: {
+                title: RATES_SHEET,
+                gridProperties: { frozenRowCount: 1 },
+              },
+            },
+          },
+        ],
+      },
+    });
+  } else {
+    await sheets.spreadsheets.values.clear({
+      spreadsheetId,
+      range: `'${RATES_SHEET}'!A2:D`,
+    });
+  }
+
+  // USER_ENTERED so the GOOGLEFINANCE formulas are evaluated by Sheets
+  await sheets.spreadsheets.values.update({
+    spreadsheetId,
+    range: `'${RATES_SHEET}'!A1:D${rates.length + 1}`,
+    valueInputOption: 'USER_ENTERED',
+    requestBody: {
+      values: [
+        ['currency', 'rate', 'override', 'updatedAt'],
+        ...rates.map((r) => [
+          r.currency,
+          `=IFERROR(GOOGLEFINANCE("CURRENCY:${r.currency}${baseCurrency}"), "")`,
+          r.override ?? '',
+          r.updatedAt || '',
+        ]),
+      ],
+    },
+  });
+
+  await sheets.spreadsheets.values.update({
+    spreadsheetId,
+    range: RATES_BASE_RANGE,
+    valueInputOption: 'RAW',
+    requestBody: {
+      values: [['base', baseCurrency]],
+    },
+  });
+}
+
+export async function getExchangeRates(
+  accessToken: string,
+  spreadsheetId: string,
+  baseCurrency: CurrencyCode
+): Promise<ExchangeRate[]> {
+  const cacheKey = `rates:${spreadsheetId}:${baseCurrency}`;
+  const cached = cacheGet<ExchangeRate[]>(cacheKey);
+  if (cached) return cached;
+
+  const sheets = createSheetsClient(accessToken);
+
+  try {
+    let response = await sheets.spreadsheets.values.batchGet({
+      spreadsheetId,
+      ranges: [`'${RATES_SHEET}'!A2:D`, RATES_BASE_RANGE],
+      valueRenderOption: 'UNFORMATTED_VALUE',
+    }).catch(() => null);
+
+    // Missing sheet, or formulas written for a different base currency:
+    // (re)write the table. Overrides are relative to the old base, so drop them.
+    const storedBase = response?.data.valueRanges?.[1]?.values?.[0]?.[1];
+    const rewritten = !response || storedBase !== baseCurrency;
+    if (!response || rewritten) {
+      await writeExchangeRates(sheets, spreadsheetId, buildRateTable([], baseCurrency), baseCurrency);
+      response = await sheets.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges: [`'${RATES_SHEET}'!A2:D`],
+        valueRenderOption: 'UNFORMATTED_VALUE',
+      });
+    }
+
+    const rows = response.data.valueRanges?.[0]?.values || [];
+    const stored: ExchangeRate[] = rows
+      .filter((row) => row[0])
+      .map((row) => ({
+        currency: row[0] as CurrencyCode,
+        rate: typeof row[1] === 'number' ? row[1] : null,
+        override: typeof row[2] === 'number' ? row[2] : undefined,
+        updatedAt: row[3] ? String(row[3]) : undefined,
+      }));
+
+    const rates = buildRateTable(stored, baseCurrency);
+    // Fresh formulas may still be loading; don't cache their empty values
+    if (!rewritten) cacheSet(cacheKey, rates, RATES_CACHE_TTL);
+    return rates;
+  } catch (error) {
+    console.error('Error reading exchange rates:', error);
+    return buildRateTable([], baseCurrency);
+  }
+}
+
+export async function saveExchangeRates(
+  accessToken: string,
+  spreadsheetId: string,
+  rates: ExchangeRate[],
+  baseCurrency: CurrencyCode
+): Promise<void> {
+  const sheets = createSheetsClient(accessToken);
+  await writeExchangeRates(sheets, spreadsheetId, buildRateTable(rates, baseCurrency), baseCurrency);
+  cacheDelete(`rates:${spreadsheetId}:${baseCurrency}`);
+}
+
+// ============================================
+// Gmail Sync State Operations
+// ============================================
 
 export async function getGmailSyncState(
   accessToken: string,
@@ -1393,19 +2077,13 @@ export async function getGmailSyncState(
     });
 
     const rows = response.data.values;
-    if (!rows) return DEFAULT_GMAIL_SYNC_STATE;
+    const syncRow = rows?.find((row) => row[0] === 'gmailSyncState');
 
-    const syncRow = rows.find((row) => row[0] === 'gmailSyncState');
-    if (!syncRow || !syncRow[1]) return DEFAULT_GMAIL_SYNC_STATE;
-
-    try {
-      return JSON.parse(syncRow[1]) as GmailSyncState;
-    } catch {
-      return DEFAULT_GMAIL_SYNC_STATE;
-    }
+    // Rows written before watermarks hold every processed ID; they're converted on read
+    return migrateGmailSyncState(parseJsonCell<unknown>(syncRow?.[1], null));
   } catch (error) {
     console.error('Error reading gmail sync state:', error);
-    return DEFAULT_GMAIL_SYNC_STATE;
+    return createGmailSyncState();
   }
 }
 
@@ -1415,11 +2093,7 @@ export async function updateGmailSyncState(
   state: GmailSyncState
 ): Promise<void> {
   const sheets = createSheetsClient(accessToken);
-
-  // Cap processedMessageIds at 5000 (FIFO eviction)
-  if (state.processedMessageIds.length > 5000) {
-    state.processedMessageIds = state.processedMessageIds.slice(-5000);
-  }
+  const compacted = compactGmailSyncState(state);
 
   const response = await sheets.spreadsheets.values.get({
     spreadsheetId,
@@ -1436,7 +2110,7 @@ export async function updateGmailSyncState(
       range: `${SETTINGS_SHEET}!A${sheetRow}:B${sheetRow}`,
       valueInputOption: 'RAW',
       requestBody: {
-        values: [['gmailSyncState', JSON.stringify(state)]],
+        values: [['gmailSyncState', JSON.stringify(compacted)]],
       },
     });
   } else {
@@ -1445,12 +2119,197 @@ export async function updateGmailSyncState(
       range: `${SETTINGS_SHEET}!A2:B`,
       valueInputOption: 'RAW',
       requestBody: {
-        values: [['gmailSyncState', JSON.stringify(state)]],
+        values: [['gmailSyncState', JSON.stringify(compacted)]],
+      },
+    });
+  }
+}
+
+// ============================================
+// Gmail Sync Log (Sync Log sheet of main spreadsheet)
+// ============================================
+
+// Oldest rows are dropped past this, a few weeks of syncs for most inboxes
+const MAX_SYNC_LOG_ROWS = 2000;
+
+function syncLogToRow(e: GmailSyncLogEntry): string[] {
+  return [
+    e.id,
+    e.syncId,
+    e.syncType,
+    e.syncedAt,
+    e.messageId,
+    e.subject,
+    e.from,
+    e.emailDate,
+    e.outcome,
+    e.reason,
+    JSON.stringify(e.transactionIds),
+  ];
+}
+
+function rowToSyncLog(row: string[]): GmailSyncLogEntry {
+  return {
+    id: row[0] || '',
+    syncId: row[1] || '',
+    syncType: (row[2] as GmailSyncLogEntry['syncType']) || 'sync',
+    syncedAt: row[3] || '',
+    messageId: row[4] || '',
+    subject: row[5] || '',
+    from: row[6] || '',
+    emailDate: row[7] || '',
+    outcome: (row[8] as GmailSyncOutcome) || 'parse-failed',
+    reason: row[9] || '',
+    transactionIds: parseJsonCell<string[]>(row[10], []),
+  };
+}
+
+export async function getGmailSyncLog(
+  accessToken: string,
+  spreadsheetId: string
+): Promise<GmailSyncLogEntry[]> {
+  try {
+    const rows = await readTableRows(accessToken, spreadsheetId, SYNC_LOG_SHEET, SYNC_LOG_HEADERS);
+    return rows.map(rowToSyncLog);
+  } catch (error) {
+    console.error('Error reading sync log:', error);
+    return [];
+  }
+}
+
+export async function addGmailSyncLogEntries(
+  accessToken: string,
+  spreadsheetId: string,
+  entries: GmailSyncLogEntry[]
+): Promise<void> {
+  if (entries.length === 0) return;
+  const rows = await readTableRows(accessToken, spreadsheetId, SYNC_LOG_SHEET, SYNC_LOG_HEADERS);
+
+  // Appending is the common case; once full, the sheet is rewritten without its oldest rows
+  if (rows.length + entries.length > MAX_SYNC_LOG_ROWS) {
+    const kept = [...rows, ...entries.map(syncLogToRow)].slice(-MAX_SYNC_LOG_ROWS);
+    await replaceTableRows(accessToken, spreadsheetId, SYNC_LOG_SHEET, SYNC_LOG_HEADERS, kept);
+    return;
+  }
+
+  const sheets = createSheetsClient(accessToken);
+  await sheets.spreadsheets.values.append({
+    spreadsheetId,
+    range: `'${SYNC_LOG_SHEET}'!A2:${lastColumn(SYNC_LOG_HEADERS)}`,
+    valueInputOption: 'RAW',
+    requestBody: { values: entries.map(syncLogToRow) },
+  });
+}
+
+// ============================================
+// Receipt Attachments (Drive folder next to the spreadsheet)
+// ============================================
+
+async function getOrCreateReceiptsFolder(accessToken: string): Promise<string> {
+  const cacheKey = `receiptsFolder:${hashToken(accessToken)}`;
+  const cached = cacheGet<string>(cacheKey);
+  if (cached) return cached;
+
+  const drive = createDriveClient(accessToken);
+  const searchResponse = await drive.files.list({
+    q: `name='${RECEIPTS_FOLDER_NAME}' and mimeType='application/vnd.google-apps.folder' and trashed=false`,
+    fields: 'files(id)',
+  });
+
+  let folderId = searchResponse.data.files?.[0]?.id;
+  if (!folderId) {
+    const created = await drive.files.create({
+      requestBody: {
+        name: RECEIPTS_FOLDER_NAME,
+        mimeType: 'application/vnd.google-apps.folder',
       },
+      fields: 'id',
+    });
+    folderId = created.data.id!;
+  }
+
+  cacheSet(cacheKey, folderId, SPREADSHEET_CACHE_TTL);
+  return folderId;
+}
+
+export async function uploadAttachment(
+  accessToken: string,
+  file: AttachmentFile
+): Promise<ExpenseAttachment> {
+  const drive = createDriveClient(accessToken);
+  const folderId = await getOrCreateReceiptsFolder(accessToken);
+
+  const response = await drive.files.create({
+    requestBody: {
+      name: file.name,
+      mimeType: file.mimeType,
+      parents: [folderId],
+    },
+    media: {
+      mimeType: file.mimeType,
+      body: Readable.from(file.data),
+    },
+    fields: 'id,name,mimeType',
+  });
+
+  return {
+    id: response.data.id!,
+    name: response.data.name || file.name,
+    mimeType: response.data.mimeType || file.mimeType,
+  };
+}
+
+export async function getAttachment(
+  accessToken: string,
+  attachmentId: string,
+  thumbnail = false
+): Promise<AttachmentFile | null> {
+  const drive = createDriveClient(accessToken);
+  try {
+    const meta = await drive.files.get({
+      fileId: attachmentId,
+      fields: 'name,mimeType,thumbnailLink',
     });
+    const name = meta.data.name || attachmentId;
+
+    // Drive renders previews for images and PDFs; fall back to the full file
+    if (thumbnail && meta.data.thumbnailLink) {
+      const preview = await fetch(meta.data.thumbnailLink, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (preview.ok) {
+        return {
+          name,
+          mimeType: preview.headers.get('content-type') || 'image/png',
+          data: Buffer.from(await preview.arrayBuffer()),
+        };
+      }
+    }
+
+    const content = await drive.files.get(
+      { fileId: attachmentId, alt: 'media' },
+      { responseType: 'arraybuffer' }
+    );
+    return {
+      name,
+      mimeType: meta.data.mimeType || 'application/octet-stream',
+      data: Buffer.from(content.data as ArrayBuffer),
+    };
+  } catch (error) {
+    console.error('Error reading attachment:', error);
+    return null;
   }
 }
 
+export async function deleteAttachment(accessToken: string, attachmentId: string): Promise<void> {
+  const drive = createDriveClient(accessToken);
+  // Trashed rather than deleted so a mistaken removal can be recovered from Drive
+  await drive.files.update({
+    fileId: attachmentId,
+    requestBody: { trashed: true },
+  });
+}
+
 // Legacy compatibility - keep old function signatures working
 export async function getExpense(
   accessToken: string,
@@ -1460,3 +2319,79 @@ export async function getExpense(
   const expenses = await getAllExpenses(accessToken, spreadsheetId);
   return expenses.find((e) => e.id === expenseId) || null;
 }
+
+// ============================================
+// Storage Backend Adapter
+// ============================================
+
+/**
+ * Google Sheets implementation of StorageBackend, bound to a user's token
+ */
+export function createSheetsStorage(accessToken: string): StorageBackend {
+  const spreadsheetId = () => getOrCreateSpreadsheet(accessToken);
+
+  return {
+    getStoreId: spreadsheetId,
+
+    getExpenses: async (year) => getExpenses(accessToken, await spreadsheetId(), year),
+    getAllExpenses: async () => getAllExpenses(accessToken, await spreadsheetId()),
+    addExpense: (expense) => addExpense(accessToken, expense),
+    addExpensesBatch: (expenses) => addExpensesBatch(accessToken, expenses),
+    updateExpense: (expense) => updateExpense(accessToken, expense),
+    updateExpensesBatch: (expenses) => updateExpensesBatch(accessToken, expenses),
+    deleteExpense: async (expenseId, year) =>
+      deleteExpense(accessToken, await spreadsheetId(), expenseId, year),
+
+    getCategories: async () => getCategories(accessToken, await spreadsheetId()),
+    addCategory: async (category) => addCategory(accessToken, await spreadsheetId(), category),
+    updateCategory: async (category) => updateCategory(accessToken, await spreadsheetId(), category),
+    deleteCategory: async (categoryId) => deleteCategory(accessToken, await spreadsheetId(), categoryId),
+    getOverallBudget: async () => getOverallBudget(accessToken, await spreadsheetId()),
+    setOverallBudget: async (amount) => setOverallBudget(accessToken, await spreadsheetId(), amount),
+
+    getSettings: async () => getSettings(accessToken, await spreadsheetId()),
+    updateSettings: async (settings) => updateSettings(accessToken, await spreadsheetId(), settings),
+
+    getPendingTransactions: () => getPendingTransactions(accessToken),
+    addPendingTransactions: (transactions) => addPendingTransactions(accessToken, '', transactions),
+    updatePendingTransaction: (transaction) => updatePendingTransaction(accessToken, '', transaction),
+    deletePendingTransaction: (transactionId) => deletePendingTransaction(accessToken, '', transactionId),
+    updateAllPendingTransactions: (transactions) =>
+      updateAllPendingTransactions(accessToken, '', transactions),
+    moveTransactionsToExpenses: (transactionIds) => moveTransactionsToExpenses(accessToken, transactionIds),
+
+    getRules: () => getRules(accessToken),
+    saveRules: (rules) => saveRules(accessToken, '', rules),
+
+    getRecurringTemplates: async () => getRecurringTemplates(accessToken, await spreadsheetId()),
+    saveRecurringTemplates: async (templates) =>
+      saveRecurringTemplates(accessToken, await spreadsheetId(), templates),
+
+    getCsvProfiles: async () => getCsvProfiles(accessToken, await spreadsheetId()),
+    saveCsvProfiles: async (profiles) => saveCsvProfiles(accessToken, await spreadsheetId(), profiles),
+
+    getAccounts: async () => getAccounts(accessToken, await spreadsheetId()),
+    saveAccounts: async (accounts) => saveAccounts(accessToken, await spreadsheetId(), accounts),
+
+    getSplitGroups: async () => getSplitGroups(accessToken, await spreadsheetId()),
+    saveSplitGroups: async (groups) => saveSplitGroups(accessToken, await spreadsheetId(), groups),
+    getSplits: async () => getSplits(accessToken, await spreadsheetId()),
+    saveSplits: async (splits) => saveSplits(accessToken, await spreadsheetId(), splits),
+
+    getExchangeRates: async (baseCurrency) =>
+      getExchangeRates(accessToken, await spreadsheetId(), baseCurrency),
+    saveExchangeRates: async (rates, baseCurrency) =>
+      saveExchangeRates(accessToken, await spreadsheetId(), rates, baseCurrency),
+
+    uploadAttachment: (file) => uploadAttachment(accessToken, file),
+    getAttachment: (attachmentId, thumbnail) => getAttachment(accessToken, attachmentId, thumbnail),
+    deleteAttachment: (attachmentId) => deleteAttachment(accessToken, attachmentId),
+
+    getGmailSyncState: async () => getGmailSyncState(accessToken, await spreadsheetId()),
+    updateGmailSyncState: async (state) =>
+      updateGmailSyncState(accessToken, await spreadsheetId(), state),
+    getGmailSyncLog: async () => getGmailSyncLog(accessToken, await spreadsheetId()),
+    addGmailSyncLogEntries: async (entries) =>
+      addGmailSyncLogEntries(accessToken, await spreadsheetId(), entries),
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseOfx } from '@/lib/ofxParser';
+
+function ofx(amounts: string[]): string {
+  const entries = amounts.map((amount, i) => `
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115120000.000[-5:EST]
+<TRNAMT>${amount}
+<FITID>F${i}
+<NAME>Payee ${i}
+</STMTTRN>`);
+  return `OFXHEADER:100
+<OFX>
+<SIGNONMSGSRSV1><SONRS><FI><ORG>Example Bank</FI></SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM><ACCTID>000123456789</BANKACCTFROM>
+<BANKTRANLIST>${entries.join('')}
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+}
+
+describe('parseOfx', () => {
+  it('strips thousands separators', () => {
+    const { transactions } = parseOfx(ofx(['-1,234.50', '2,000,000.00']));
+    expect(transactions.map((t) => [t.amount, t.direction])).toEqual([
+      [1234.5, 'expense'],
+      [2000000, 'income'],
+    ]);
+  });
+
+  it('reads a lone comma as the decimal point', () => {
+    const { transactions } = parseOfx(ofx(['-12,50']));
+    expect(transactions[0].amount).toBe(12.5);
+  });
+
+  it('scopes FITIDs to the account and detects it', () => {
+    const result = parseOfx(ofx(['-5.00']));
+    expect(result.transactions[0]).toMatchObject({ date: '2024-01-15', externalId: '000123456789:F0' });
+    expect(result.detectedAccount).toEqual({ type: 'bank', last4: '6789', institution: 'Example Bank' });
+  });
+});
@@ -0,0 +1,93 @@
+import { CsvTransaction, DetectedAccount, ParsedStatement } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import { combineDescription } from '@/lib/csvParser';
+import { readLast4 } from '@/lib/accounts';
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#\d+|[a-z]+);/gi, (match, entity: string) =>
+    entity.startsWith('#') ? String.fromCharCode(parseInt(entity.slice(1))) : ENTITIES[entity.toLowerCase()] ?? match
+  );
+}
+
+/**
+ * Value of a leaf element. OFX 1.x (SGML) leaves have no closing tag, so the
+ * value runs to the next tag or line break; OFX 2.x (XML) works the same way.
+ */
+function readTag(block: string, tag: string): string | undefined {
+  const value = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+// Aggregates (STMTRS, STMTTRN, ...) are closed in both versions
+function readBlocks(text: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  return Array.from(text.matchAll(pattern), (match) => match[1]);
+}
+
+// "20261013120000.000[-5:EST]" → "2026-10-13"
+function parseOfxDate(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * OFX amounts use "." or "," as the decimal point. A comma alongside a
+ * point is a thousands separator: "-1,234.50" → -1234.5, "12,50" → 12.5.
+ */
+function parseOfxAmount(value: string | undefined): number {
+  const text = value?.replace(/\s+/g, '') || '';
+  return parseFloat(text.includes('.') ? text.replace(/,/g, '') : text.replace(',', '.'));
+}
+
+export function isOfxContent(content: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(content.slice(0, 2000));
+}
+
+/**
+ * Parse an OFX or QFX (Quicken's OFX) file. Each bank or card statement in
+ * the file contributes its account ID as the transactions' source, and
+ * FITIDs become account-scoped external IDs for exact dedupe on re-import.
+ */
+export function parseOfx(content: string): ParsedStatement {
+  const statements = [
+    ...readBlocks(content, 'STMTRS').map((block) => ({ block, isCard: false })),
+    ...readBlocks(content, 'CCSTMTRS').map((block) => ({ block, isCard: true })),
+  ];
+  const accounts: string[] = [];
+  const transactions: CsvTransaction[] = [];
+  let detectedAccount: DetectedAccount | undefined;
+
+  for (const { block: statement, isCard } of statements) {
+    // BANKACCTFROM or CCACCTFROM
+    const account = readTag(statement, 'ACCTID') || 'OFX';
+    if (!accounts.includes(account)) accounts.push(account);
+    const last4 = readLast4(readTag(statement, 'ACCTID'));
+    if (last4) detectedAccount = { type: isCard ? 'credit-card' : 'bank', last4, institution: readTag(content, 'ORG') };
+
+    for (const entry of readBlocks(statement, 'STMTTRN')) {
+      const amount = parseOfxAmount(readTag(entry, 'TRNAMT'));
+      const date = parseOfxDate(readTag(entry, 'DTPOSTED') || readTag(entry, 'DTUSER'));
+      if (isNaN(amount) || amount === 0 || !date) continue;
+
+      const description = combineDescription(readTag(entry, 'NAME'), readTag(entry, 'MEMO')) ||
+        `Check ${readTag(entry, 'CHECKNUM') || ''}`.trim();
+      const fitId = readTag(entry, 'FITID');
+
+      transactions.push({
+        id: uuidv4(),
+        date,
+        description,
+        amount: Math.abs(amount),
+        selected: true,
+        direction: amount > 0 ? 'income' : 'expense',
+        externalId: fitId ? `${account}:${fitId}` : undefined,
+        source: account,
+      });
+    }
+  }
+
+  // The import applies one account, so files covering several don't get one
+  return { format: 'ofx', accounts, transactions, detectedAccount: accounts.length === 1 ? detectedAccount : undefined };
+}
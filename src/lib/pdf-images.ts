@@ -0,0 +1,29 @@
+// Shared PDF/image preprocessing for vision LLM calls (chat attachments, receipt scans)
+
+// Convert PDF base64 to array of JPEG base64 images (max 5 pages, low res)
+export const MAX_PDF_PAGES = 5;
+export async function pdfToImages(pdfBase64: string, maxPages = MAX_PDF_PAGES): Promise<string[]> {
+  const { pdf } = await import('pdf-to-img');
+  const sharp = (await import('sharp')).default;
+  const buffer = Buffer.from(pdfBase64, 'base64');
+  const images: string[] = [];
+  const pages = await pdf(buffer, { scale: 1 });
+  for await (const page of pages) {
+    if (images.length >= maxPages) break;
+    const jpeg = await sharp(page).jpeg({ quality: 70 }).toBuffer();
+    images.push(jpeg.toString('base64'));
+  }
+  return images;
+}
+
+// Downscale a photo to a JPEG base64 the LLM can read without blowing the request size
+const MAX_IMAGE_DIMENSION = 1600;
+export async function imageToJpeg(image: Buffer): Promise<string> {
+  const sharp = (await import('sharp')).default;
+  const jpeg = await sharp(image)
+    .rotate() // Respect EXIF orientation from phone cameras
+    .resize(MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+  return jpeg.toString('base64');
+}
@@ -0,0 +1,110 @@
+// Server-side text layer extraction for statement PDFs (no OCR)
+
+import { PdfTextCell, PdfTextLine } from '@/types';
+
+const LINE_TOLERANCE = 0.5;        // Share of the font size two baselines may differ by and stay one line
+const CELL_GAP = 1.5;              // Gaps wider than this share of the font size start a new cell
+const MIN_TEXT_PER_PAGE = 20;      // Characters; less means a scanned image with no text layer
+
+export type PdfTextResult =
+  | { status: 'ok'; pages: PdfTextLine[][] }
+  | { status: 'scanned'; pageCount: number }
+  | { status: 'password-required' | 'password-incorrect' };
+
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+// Group a page's text runs into lines top to bottom, then into cells at wide gaps
+function toLines(items: PositionedText[]): PdfTextLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PositionedText[][] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= Math.max(row[0].size, item.size) * LINE_TOLERANCE) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows.map((row) => {
+    const cells: (PdfTextCell & { size: number })[] = [];
+    for (const item of row.sort((a, b) => a.x - b.x)) {
+      const last = cells[cells.length - 1];
+      if (last && item.x - last.right <= item.size * CELL_GAP) {
+        last.text += (item.x - last.right > item.size * 0.15 ? ' ' : '') + item.text;
+        last.right = Math.max(last.right, item.x + item.width);
+      } else {
+        cells.push({ text: item.text, x: item.x, right: item.x + item.width, size: item.size });
+      }
+    }
+    return cells
+      .map(({ text, x, right }) => ({ text: text.replace(/\s+/g, ' ').trim(), x, right }))
+      .filter((cell) => cell.text);
+  }).filter((line) => line.length > 0);
+}
+
+/**
+ * Read the positioned text of every page. Encrypted files report whether a
+ * password is needed or the given one was wrong; files without a real text
+ * layer report 'scanned' so the caller can fall back to OCR.
+ */
+export async function extractPdfText(data: Buffer, password?: string): Promise<PdfTextResult> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  let document;
+  try {
+    document = await pdfjs.getDocument({
+      data: new Uint8Array(data),
+      password,
+      isEvalSupported: false,
+      verbosity: pdfjs.VerbosityLevel.ERRORS,
+    }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      const { code } = error as Error & { code: number };
+      return { status: code === pdfjs.PasswordResponses.INCORRECT_PASSWORD ? 'password-incorrect' : 'password-required' };
+    }
+    throw error;
+  }
+
+  try {
+    const pages: PdfTextLine[][] = [];
+    let textLength = 0;
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: PositionedText[] = [];
+
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        const [scaleX, skewY, , scaleY, x, y] = item.transform as number[];
+        items.push({
+          text: item.str,
+          x,
+          y,
+          width: item.width,
+          size: Math.abs(scaleY) || Math.hypot(scaleX, skewY) || 10,
+        });
+        textLength += item.str.trim().length;
+      }
+
+      pages.push(toLines(items));
+      page.cleanup();
+    }
+
+    if (textLength < MIN_TEXT_PER_PAGE * document.numPages) {
+      return { status: 'scanned', pageCount: document.numPages };
+    }
+    return { status: 'ok', pages };
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,252 @@
+import { CsvTransaction, ParsedStatement, PdfTextCell, PdfTextLine } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import { parse, isValid, format } from 'date-fns';
+import { inferDateFormat, parseCsvDate } from '@/lib/csvParser';
+import { findAccountNumber, readLast4 } from '@/lib/accounts';
+
+type ColumnRole = 'date' | 'description' | 'debit' | 'credit' | 'amount' | 'balance';
+
+interface Column {
+  role: ColumnRole;
+  center: number;
+  x: number;
+}
+
+interface DraftRow {
+  date: string;
+  description: string[];
+  amount?: number;
+  direction?: 'expense' | 'income';
+  balance?: number;
+}
+
+// Leading date token: 01/10/26, 2026-10-01, 01 Oct 2026, 01-Oct-26, Oct 1, 2026, and yearless 10/01 or 01 Oct
+const DATE_TOKEN = /^(\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?|\d{1,2}[ -][A-Za-z]{3,9}\.?(?:[ ,-]+\d{2,4})?|[A-Za-z]{3,9}\.? \d{1,2}(?:,? \d{4})?)(?=\s|$)/;
+
+// Money with two decimals so reference numbers and dates aren't mistaken for amounts
+const AMOUNT_CELL = /^([-+(]?)\s*(?:[A-Z]{3}\s*|[$€£₹]\s*)?(\d{1,3}(?:[,\s]?\d{2,3})*\.\d{2})\s*\)?\s*(cr|dr|-)?$/i;
+
+const HEADER_ROLES: [ColumnRole, RegExp][] = [
+  ['balance', /balance/i],
+  ['debit', /debit|withdrawal|paid out|money out|^dr\b/i],
+  ['credit', /credit|deposit|paid in|money in|^cr\b/i],
+  ['amount', /amount/i],
+  ['date', /\bdate\b|^dt\b/i],
+  ['description', /narration|description|particulars|details|transaction|remarks/i],
+];
+
+// Lines that end the transaction table on a page (summaries, legal footers)
+const FOOTER_LINE = /statement summary|opening balance|closing balance|total|page \d+|continued|computer generated|^\*{3,}/i;
+const REFERENCE_CELL = /^\d{5,}$/;
+const BALANCE_ROW = /^(opening|closing) balance|^balance (b\/f|c\/f|brought|carried)|^b\/f\b|^c\/f\b/i;
+
+const MONTH_DATE_FORMATS = ['d MMM yyyy', 'd MMM yy', 'MMM d yyyy', 'd MMMM yyyy', 'MMMM d yyyy', 'd MMMM yy'];
+
+function lineText(line: PdfTextLine): string {
+  return line.map((cell) => cell.text).join(' ');
+}
+
+function center(cell: PdfTextCell): number {
+  return (cell.x + cell.right) / 2;
+}
+
+interface StatementAmount {
+  value: number;
+  sign: 1 | -1 | 0;                // 0 when printed without a sign or Cr/Dr marker
+  marker: boolean;                 // Cr/Dr said which way, which holds for cards and bank accounts alike
+}
+
+function readAmount(text: string): StatementAmount | null {
+  const match = text.trim().match(AMOUNT_CELL);
+  if (!match) return null;
+  const value = parseFloat(match[2].replace(/[,\s]/g, ''));
+  const suffix = match[3]?.toLowerCase();
+  const marker = suffix === 'cr' || suffix === 'dr';
+  if (match[1] === '-' || match[1] === '(' || suffix === 'dr' || suffix === '-') return { value, sign: -1, marker };
+  if (suffix === 'cr' || match[1] === '+') return { value, sign: 1, marker };
+  return { value, sign: 0, marker };
+}
+
+// Card statements print charges unsigned and payments or refunds negative
+function signedDirection(amount: StatementAmount, isCard: boolean): 'expense' | 'income' | undefined {
+  if (!amount.sign) return undefined;
+  if (isCard && !amount.marker) return amount.sign < 0 ? 'income' : 'expense';
+  return amount.sign < 0 ? 'expense' : 'income';
+}
+
+// A table header names a date column and at least one money column
+function readHeader(line: PdfTextLine): Column[] | null {
+  if (line.some((cell) => readAmount(cell.text))) return null;
+  const columns: Column[] = [];
+  for (const cell of line) {
+    const role = HEADER_ROLES.find(([, pattern]) => pattern.test(cell.text))?.[0];
+    if (role) columns.push({ role, center: center(cell), x: cell.x });
+  }
+  const roles = new Set(columns.map((c) => c.role));
+  const hasMoney = roles.has('debit') || roles.has('credit') || roles.has('amount');
+  return roles.has('date') && hasMoney ? columns : null;
+}
+
+// Money column nearest the cell, by horizontal center
+function moneyColumn(cell: PdfTextCell, columns: Column[]): ColumnRole | null {
+  let best: Column | null = null;
+  for (const column of columns) {
+    if (column.role === 'date' || column.role === 'description') continue;
+    if (!best || Math.abs(column.center - center(cell)) < Math.abs(best.center - center(cell))) best = column;
+  }
+  return best?.role ?? null;
+}
+
+// The statement's year, for dates printed without one (US card statements)
+function statementYear(pages: PdfTextLine[][]): string | null {
+  for (const line of pages[0] || []) {
+    const years = lineText(line).match(/\b(19|20)\d{2}\b/g);
+    if (years) return years[years.length - 1];
+  }
+  return null;
+}
+
+function withYear(token: string, year: string | null): string {
+  if (!year) return token;
+  if (/^\d{1,2}[/.-]\d{1,2}$/.test(token)) return `${token}${token.match(/[/.-]/)![0]}${year}`;
+  if (/^\d{1,2}[ -][A-Za-z]{3,9}\.?$/.test(token) || /^[A-Za-z]{3,9}\.? \d{1,2}$/.test(token)) return `${token} ${year}`;
+  return token;
+}
+
+function parseMonthDate(token: string): string | null {
+  const cleaned = token.replace(/[.,]/g, '').replace(/[-\s]+/g, ' ').trim();
+  for (const pattern of MONTH_DATE_FORMATS) {
+    const date = parse(cleaned, pattern, new Date());
+    if (isValid(date) && date.getFullYear() > 1900) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+}
+
+/**
+ * Pull transactions out of a statement's text lines. A row starts with a
+ * date and carries at least one amount; wrapped narration lines below it are
+ * joined onto its description. When the table has a header, amounts go by
+ * column (debit, credit, balance); otherwise the sign or Cr/Dr marker decides
+ * and a running balance, when printed, breaks ties.
+ */
+export function parsePdfStatement(pages: PdfTextLine[][], fallbackSource?: string): ParsedStatement {
+  const year = statementYear(pages);
+  const isCard = (pages[0] || []).some((line) => /credit card|card (no|number)/i.test(lineText(line)));
+  const drafts: DraftRow[] = [];
+  let columns: Column[] | null = null;
+  let current: DraftRow | null = null;
+
+  for (const lines of pages) {
+    current = null;
+    for (const line of lines) {
+      const header = readHeader(line);
+      if (header) {
+        columns = header;
+        current = null;
+        continue;
+      }
+
+      const [first, ...rest] = line;
+      const dateMatch = first.text.match(DATE_TOKEN);
+      const amounts = line
+        .map((cell) => ({ cell, amount: readAmount(cell.text) }))
+        .filter((entry): entry is { cell: PdfTextCell; amount: StatementAmount } => !!entry.amount);
+
+      if (!dateMatch || amounts.length === 0) {
+        const text = lineText(line);
+        if (FOOTER_LINE.test(text)) {
+          current = null;
+        } else if (current && amounts.length === 0 && !dateMatch) {
+          // Wrapped narration sits right of the date column
+          const dateColumn = columns?.find((c) => c.role === 'date');
+          if (!dateColumn || first.x > dateColumn.x + 5) current.description.push(text);
+        }
+        continue;
+      }
+
+      // Date cell may have the description glued on when columns sit close together;
+      // value dates and cheque/reference numbers in other cells aren't part of it
+      const remainder = first.text.slice(dateMatch[0].length).trim();
+      const description = [remainder, ...rest.filter((cell) => !amounts.some((a) => a.cell === cell)).map((c) => c.text)]
+        .filter((text) => text && !REFERENCE_CELL.test(text) && text.match(DATE_TOKEN)?.[0] !== text)
+        .join(' ')
+        .trim();
+      if (!description || BALANCE_ROW.test(description)) {
+        current = null;
+        continue;
+      }
+
+      const draft: DraftRow = { date: withYear(dateMatch[0], year), description: [description] };
+
+      if (columns) {
+        for (const { cell, amount } of amounts) {
+          const role = moneyColumn(cell, columns);
+          if (role === 'balance') draft.balance = amount.value * (amount.sign || 1);
+          else if (role === 'debit' && draft.amount === undefined) {
+            draft.amount = amount.value;
+            draft.direction = 'expense';
+          } else if (role === 'credit' && draft.amount === undefined) {
+            draft.amount = amount.value;
+            draft.direction = 'income';
+          } else if (role === 'amount' && draft.amount === undefined) {
+            draft.amount = amount.value;
+            draft.direction = signedDirection(amount, isCard);
+          }
+        }
+      } else {
+        // Without a header the last of several amounts is usually the running balance
+        const [transaction, balance] = amounts.length > 1
+          ? [amounts[amounts.length - 2].amount, amounts[amounts.length - 1].amount]
+          : [amounts[0].amount, undefined];
+        draft.amount = transaction.value;
+        draft.direction = signedDirection(transaction, isCard);
+        if (balance) draft.balance = balance.value * (balance.sign || 1);
+      }
+
+      if (!draft.amount) {
+        current = null;
+        continue;
+      }
+      drafts.push(draft);
+      current = draft;
+    }
+  }
+
+  // Fill in missing directions from balance movement, otherwise treat as spending
+  let previousBalance: number | undefined;
+  for (const draft of drafts) {
+    if (!draft.direction) {
+      draft.direction = previousBalance !== undefined && draft.balance !== undefined && draft.balance > previousBalance
+        ? 'income'
+        : 'expense';
+    }
+    if (draft.balance !== undefined) previousBalance = draft.balance;
+  }
+
+  const accountNumber = findAccountNumber((pages[0] || []).slice(0, 40).map(lineText));
+  const account = accountNumber || fallbackSource;
+  const dateFormat = inferDateFormat(drafts.map((d) => d.date));
+  const transactions: CsvTransaction[] = [];
+  for (const draft of drafts) {
+    const date = /[A-Za-z]/.test(draft.date) ? parseMonthDate(draft.date) : parseCsvDate(draft.date, dateFormat);
+    if (!date) continue;
+    transactions.push({
+      id: uuidv4(),
+      date,
+      description: draft.description.join(' ').slice(0, 200),
+      amount: draft.amount!,
+      selected: true,
+      direction: draft.direction,
+      source: account,
+    });
+  }
+
+  const last4 = readLast4(accountNumber || undefined);
+  return {
+    format: 'pdf',
+    accounts: account && transactions.length > 0 ? [account] : [],
+    transactions,
+    detectedAccount: last4 ? { type: isCard ? 'credit-card' : 'bank', last4 } : undefined,
+  };
+}
+
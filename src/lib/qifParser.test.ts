@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseQif } from '@/lib/qifParser';
+
+function qif(...records: string[][]): string {
+  return ['!Type:Bank', ...records.flatMap((lines) => [...lines, '^'])].join('\n');
+}
+
+describe('parseQif', () => {
+  it('reads two-digit slash years with a pivot', () => {
+    const { transactions } = parseQif(qif(
+      ['D01/15/24', 'T-12.50', 'PCoffee'],
+      ['D12/31/99', 'T-3.00', 'PNewspaper'],
+    ));
+    expect(transactions.map((t) => t.date)).toEqual(['2024-01-15', '1999-12-31']);
+  });
+
+  it("reads Quicken's apostrophe years as 2000s", () => {
+    const { transactions } = parseQif(qif(['D10/13\'75', 'T-8.00', 'PLunch']));
+    expect(transactions[0].date).toBe('2075-10-13');
+  });
+
+  it('keeps four-digit years', () => {
+    const { transactions } = parseQif(qif(['D1/5/2026', 'T1,200.00', 'PSalary']));
+    expect(transactions[0]).toMatchObject({ date: '2026-01-05', amount: 1200, direction: 'income' });
+  });
+
+  it('treats negative amounts as expenses and skips transfer categories', () => {
+    const { transactions } = parseQif(qif(
+      ['D02/01/24', 'T-40.00', 'PGrocer', 'LFood'],
+      ['D02/02/24', 'T-100.00', 'PTo savings', 'L[Savings]'],
+    ));
+    expect(transactions[0]).toMatchObject({ amount: 40, direction: 'expense', category: 'Food' });
+    expect(transactions[1].category).toBeUndefined();
+  });
+});
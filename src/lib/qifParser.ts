@@ -0,0 +1,99 @@
+import { CsvTransaction, ParsedStatement } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import { combineDescription, inferDateFormat, parseCsvDate } from '@/lib/csvParser';
+
+// Field codes of one QIF record, first occurrence wins (split lines repeat some)
+type QifRecord = Record<string, string>;
+
+export function isQifContent(content: string): boolean {
+  return /^\s*!(type|account|option)/im.test(content.slice(0, 2000));
+}
+
+// Two-digit years below this are 20xx, the rest 19xx
+const TWO_DIGIT_YEAR_PIVOT = 50;
+
+/**
+ * Quicken marks two-digit years from 2000 on with an apostrophe
+ * ("10/13'26" → "10/13/2026"). Banks' exports use a plain separator, read
+ * with a pivot: "01/15/24" → "01/15/2024", "12/31/99" → "12/31/1999".
+ */
+function normalizeQifDate(value: string): string {
+  const compact = value.replace(/\s+/g, '');
+  const match = compact.match(/^(\d{1,2}[/.-]\d{1,2})(['/.-])(\d{2}|\d{4})$/);
+  if (!match) return compact;
+  const [, dayMonth, separator, year] = match;
+  if (year.length === 4) return `${dayMonth}/${year}`;
+  const century = separator === "'" || Number(year) < TWO_DIGIT_YEAR_PIVOT ? '20' : '19';
+  return `${dayMonth}/${century}${year}`;
+}
+
+/**
+ * Parse a QIF file. Amounts are signed (negative = money out, cards included).
+ * Dates follow the file's own DD/MM or MM/DD order when it can be told,
+ * otherwise Quicken's US order. QIF has no transaction IDs, so repeats are
+ * left to the fuzzy duplicate check.
+ */
+export function parseQif(content: string, fallbackSource?: string): ParsedStatement {
+  const records: { fields: QifRecord; account?: string }[] = [];
+  const accounts: string[] = [];
+  let account: string | undefined;
+  let inAccountBlock = false;
+  let fields: QifRecord = {};
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (line.startsWith('!')) {
+      const header = line.toLowerCase();
+      if (header === '!account') inAccountBlock = true;
+      else if (header.startsWith('!type:')) inAccountBlock = false;
+      continue;
+    }
+
+    if (line === '^') {
+      if (inAccountBlock) {
+        // Account list entries describe the account the following !Type section belongs to
+        account = fields.N || account;
+        if (account && !accounts.includes(account)) accounts.push(account);
+      } else if (fields.D && (fields.T || fields.U)) {
+        records.push({ fields, account });
+      }
+      fields = {};
+      continue;
+    }
+
+    const code = line[0].toUpperCase();
+    if (!(code in fields)) fields[code] = line.slice(1).trim();
+  }
+
+  const dateFormat = inferDateFormat(records.map((r) => normalizeQifDate(r.fields.D)));
+  const transactions: CsvTransaction[] = [];
+
+  for (const { fields: record, account: recordAccount } of records) {
+    const amount = parseFloat((record.T || record.U).replace(/,/g, ''));
+    const date = parseCsvDate(normalizeQifDate(record.D), dateFormat);
+    if (isNaN(amount) || amount === 0 || !date) continue;
+
+    const description = combineDescription(record.P, record.M) || (record.N ? `Check ${record.N}` : '');
+    if (!description) continue;
+
+    // "[Savings]" is a transfer to another account, not a category
+    const category = record.L && !record.L.startsWith('[') ? record.L : undefined;
+    const source = recordAccount || fallbackSource;
+
+    transactions.push({
+      id: uuidv4(),
+      date,
+      description,
+      amount: Math.abs(amount),
+      selected: true,
+      category: amount < 0 ? category : undefined,
+      direction: amount > 0 ? 'income' : 'expense',
+      source,
+    });
+  }
+
+  if (accounts.length === 0 && fallbackSource && transactions.length > 0) accounts.push(fallbackSource);
+  return { format: 'qif', accounts, transactions };
+}
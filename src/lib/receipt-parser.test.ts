@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { ReceiptLLM, scanReceipt } from '@/lib/receipt-parser';
+import { Category, TransactionRule } from '@/types';
+
+const categories: Category[] = [
+  { id: 'dining', name: 'Dining', color: '#f97316' },
+  { id: 'groceries', name: 'Groceries', color: '#22c55e' },
+];
+
+const rules: TransactionRule[] = [
+  {
+    id: 'r1',
+    name: 'Supermarket',
+    conditions: [{ id: 'c1', field: 'description', matchType: 'contains', value: 'mart' }],
+    logicMode: 'all',
+    actions: [{ type: 'setCategory', categoryId: 'groceries' }],
+    priority: 0,
+    enabled: true,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  },
+];
+
+/** Answers every scan with the given text */
+function llm(response: object | string): ReceiptLLM {
+  return async () => (typeof response === 'string' ? response : JSON.stringify(response));
+}
+
+function scan(response: object | string) {
+  return scanReceipt(['image'], categories, rules, llm(response));
+}
+
+describe('scanReceipt', () => {
+  it('reads a plain JSON response', async () => {
+    const receipt = await scan({
+      merchant: ' Blue Tokai ',
+      total: 420,
+      date: '2026-03-14',
+      currency: 'inr',
+      confidence: { merchant: 'high', total: 'high', date: 'medium' },
+    });
+    expect(receipt).toMatchObject({ merchant: 'Blue Tokai', total: 420, date: '2026-03-14', currency: 'INR' });
+    expect(receipt.confidence).toMatchObject({ merchant: 'high', total: 'high', date: 'medium' });
+  });
+
+  it('strips markdown code fences', async () => {
+    const receipt = await scan('```json\n{"merchant": "Blue Tokai", "total": 420}\n```');
+    expect(receipt).toMatchObject({ merchant: 'Blue Tokai', total: 420 });
+  });
+
+  it('drops missing, malformed and future dates', async () => {
+    for (const date of [undefined, '14/03/2026', '2026-13-45', '2999-01-01']) {
+      const receipt = await scan({ merchant: 'Cafe', total: 100, date, confidence: { date: 'high' } });
+      expect(receipt.date).toBeNull();
+      expect(receipt.confidence.date).toBe('low');
+    }
+  });
+
+  it('reads totals sent as formatted strings', async () => {
+    const receipt = await scan({ merchant: 'Cafe', total: '1,299.00' });
+    expect(receipt.total).toBe(1299);
+  });
+
+  it('keeps valid line items and checks the total against them', async () => {
+    const receipt = await scan({
+      merchant: 'Cafe',
+      total: 420,
+      lineItems: [
+        { description: 'Cappuccino', quantity: '2', amount: '400' },
+        { description: 'GST', amount: 20 },
+        { description: '', amount: 5 },
+        { description: 'Smudge', amount: 'n/a' },
+      ],
+      confidence: { total: 'low' },
+    });
+    expect(receipt.lineItems).toEqual([
+      { description: 'Cappuccino', quantity: 2, amount: 400 },
+      { description: 'GST', quantity: undefined, amount: 20 },
+    ]);
+    expect(receipt.confidence.total).toBe('high');
+  });
+
+  it('falls back to the line item sum when the total is unreadable', async () => {
+    const receipt = await scan({ merchant: 'Cafe', lineItems: [{ description: 'Tea', amount: 60 }, { description: 'Bun', amount: 40 }] });
+    expect(receipt.total).toBe(100);
+    expect(receipt.confidence.total).toBe('low');
+  });
+
+  it('prefers a matching rule over the model category', async () => {
+    const receipt = await scan({ merchant: 'Fresh Mart', total: 250, category: 'Dining' });
+    expect(receipt).toMatchObject({ category: 'groceries', categorySource: 'rule' });
+    expect(receipt.confidence.category).toBe('high');
+  });
+
+  it('maps the model category onto the given categories', async () => {
+    const receipt = await scan({ merchant: 'Blue Tokai', total: 420, category: 'dining', confidence: { category: 'medium' } });
+    expect(receipt).toMatchObject({ category: 'dining', categorySource: 'ai' });
+    expect(receipt.confidence.category).toBe('medium');
+  });
+
+  it('leaves unknown categories unset', async () => {
+    const receipt = await scan({ merchant: 'Blue Tokai', total: 420, category: 'Travel' });
+    expect(receipt.category).toBeNull();
+    expect(receipt.categorySource).toBeUndefined();
+    expect(receipt.confidence.category).toBe('low');
+  });
+
+  it('rejects malformed JSON', async () => {
+    await expect(scan('The receipt shows a total of 420')).rejects.toThrow('Could not read the receipt');
+  });
+
+  it('needs at least one image', async () => {
+    await expect(scanReceipt([], categories, rules, llm({}))).rejects.toThrow('No receipt image to scan');
+  });
+});
@@ -0,0 +1,208 @@
+import { callLLMNonStreaming, cleanJsonResponse } from '@/lib/ai-client';
+import { findMatchingRule, getRuleCategoryId } from '@/lib/ruleEngine';
+import { getToday } from '@/lib/utils';
+import {
+  Category,
+  CurrencyCode,
+  ParsedReceipt,
+  ReceiptConfidence,
+  ReceiptLineItem,
+  SUPPORTED_CURRENCIES,
+  TransactionRule,
+} from '@/types';
+
+/**
+ * Prompt + JPEG base64 images in, raw model text out.
+ * `callLLMNonStreaming` in production; a canned responder when testing locally.
+ */
+export type ReceiptLLM = (prompt: string, images: string[]) => Promise<string>;
+
+interface LLMReceipt {
+  merchant?: string;
+  total?: number | string;
+  date?: string;
+  currency?: string;
+  category?: string;
+  lineItems?: Array<{ description?: string; quantity?: number | string; amount?: number | string }>;
+  confidence?: Partial<Record<'merchant' | 'total' | 'date' | 'category', string>>;
+}
+
+const CONFIDENCE_LEVELS: ReceiptConfidence[] = ['low', 'medium', 'high'];
+
+function toConfidence(value: string | undefined, fallback: ReceiptConfidence = 'medium'): ReceiptConfidence {
+  const level = value?.toLowerCase() as ReceiptConfidence;
+  return CONFIDENCE_LEVELS.includes(level) ? level : fallback;
+}
+
+function lowerConfidence(a: ReceiptConfidence, b: ReceiptConfidence): ReceiptConfidence {
+  return CONFIDENCE_LEVELS[Math.min(CONFIDENCE_LEVELS.indexOf(a), CONFIDENCE_LEVELS.indexOf(b))];
+}
+
+// Models sometimes return amounts as "1,234.50" or "₹ 250"
+function toAmount(value: number | string | undefined): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (!value) return null;
+  const parsed = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function isValidDate(value: string | undefined): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Build the extraction prompt. Category names are listed so the guess maps
+ * back onto the user's own categories.
+ */
+export function buildReceiptPrompt(categories: Category[]): string {
+  const categoryNames = categories.map((c) => c.name).join(', ');
+
+  return `You are a receipt scanner. Read the attached receipt image(s) and extract the purchase details.
+
+Respond with ONLY a JSON object (no markdown, no code fences) with:
+- "merchant": the store or business name, without addresses or branch codes
+- "total": the final amount paid as a number (after tax, tips and discounts; no currency symbols)
+- "date": the purchase date in YYYY-MM-DD format
+- "currency": ISO 4217 code if printed on the receipt (e.g. "INR", "USD"), otherwise omit
+- "lineItems": array of {"description", "quantity", "amount"} for each purchased item; include tax and tip as their own items
+- "category": the best matching category from this list: ${categoryNames}
+- "confidence": {"merchant", "total", "date", "category"} each "high", "medium" or "low" depending on how legible and certain the value is
+
+Omit fields you cannot read rather than guessing.
+
+Example: {"merchant": "Blue Tokai", "total": 420, "date": "2026-03-14", "currency": "INR", "lineItems": [{"description": "Cappuccino", "quantity": 2, "amount": 400}, {"description": "GST", "amount": 20}], "category": "Dining", "confidence": {"merchant": "high", "total": "high", "date": "medium", "category": "high"}}`;
+}
+
+/**
+ * Guess a category: a matching user rule wins over the model's suggestion.
+ */
+function guessCategory(
+  merchant: string,
+  total: number | null,
+  date: string | null,
+  llmCategory: string | undefined,
+  llmConfidence: ReceiptConfidence,
+  categories: Category[],
+  rules: TransactionRule[]
+): Pick<ParsedReceipt, 'category' | 'categorySource'> & { confidence: ReceiptConfidence } {
+  if (merchant) {
+    const rule = findMatchingRule(
+      {
+        id: 'receipt',
+        date: date || getToday(),
+        description: merchant,
+        amount: total ?? 0,
+        status: 'uncategorized',
+        createdAt: '',
+      },
+      rules.filter((r) => r.enabled)
+    );
+    const categoryId = rule && getRuleCategoryId(rule);
+    if (categoryId && categories.some((c) => c.id === categoryId)) {
+      return { category: categoryId, categorySource: 'rule', confidence: 'high' };
+    }
+  }
+
+  const name = llmCategory?.trim().toLowerCase();
+  const match = name ? categories.find((c) => c.name.toLowerCase() === name || c.id === name) : undefined;
+  if (match) {
+    return { category: match.id, categorySource: 'ai', confidence: llmConfidence };
+  }
+
+  return { category: null, confidence: 'low' };
+}
+
+/**
+ * Turn the raw model response into a validated receipt.
+ * Pure so it can be exercised with canned responses.
+ */
+export function parseReceiptResponse(
+  raw: string,
+  categories: Category[],
+  rules: TransactionRule[],
+  today: string = getToday()
+): ParsedReceipt {
+  let parsed: LLMReceipt;
+  try {
+    parsed = JSON.parse(cleanJsonResponse(raw));
+  } catch {
+    throw new Error('Could not read the receipt');
+  }
+
+  const confidence = parsed.confidence || {};
+
+  const lineItems: ReceiptLineItem[] = (parsed.lineItems || [])
+    .map((item) => {
+      const quantity = toAmount(item.quantity);
+      return {
+        description: (item.description || '').trim(),
+        quantity: quantity && quantity > 0 ? quantity : undefined,
+        amount: toAmount(item.amount) ?? NaN,
+      };
+    })
+    .filter((item) => item.description && Number.isFinite(item.amount));
+  const itemsTotal = Math.round(lineItems.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+
+  // Cross-check the total against the line items
+  let total = toAmount(parsed.total);
+  let totalConfidence = toConfidence(confidence.total);
+  if (total === null || total <= 0) {
+    total = itemsTotal > 0 ? itemsTotal : null;
+    totalConfidence = 'low';
+  } else if (lineItems.length > 0) {
+    const matchesItems = Math.abs(itemsTotal - total) < 0.01;
+    totalConfidence = matchesItems ? 'high' : lowerConfidence(totalConfidence, 'medium');
+  }
+
+  // Receipts can't be from the future; a misread year usually lands there
+  const date = isValidDate(parsed.date) && parsed.date <= today ? parsed.date : null;
+  const dateConfidence = date ? toConfidence(confidence.date) : 'low';
+
+  const merchant = (parsed.merchant || '').trim();
+  const merchantConfidence = merchant ? toConfidence(confidence.merchant) : 'low';
+
+  const currencyCode = parsed.currency?.trim().toUpperCase();
+  const currency = SUPPORTED_CURRENCIES.find((c) => c.code === currencyCode)?.code as CurrencyCode | undefined;
+
+  const category = guessCategory(
+    merchant,
+    total,
+    date,
+    parsed.category,
+    toConfidence(confidence.category),
+    categories,
+    rules
+  );
+
+  return {
+    merchant,
+    total,
+    date,
+    currency,
+    lineItems,
+    category: category.category,
+    categorySource: category.categorySource,
+    confidence: {
+      merchant: merchantConfidence,
+      total: totalConfidence,
+      date: dateConfidence,
+      category: category.confidence,
+    },
+  };
+}
+
+/**
+ * Scan receipt images (already converted to JPEG base64) into a structured result.
+ */
+export async function scanReceipt(
+  images: string[],
+  categories: Category[],
+  rules: TransactionRule[],
+  llm: ReceiptLLM = callLLMNonStreaming
+): Promise<ParsedReceipt> {
+  if (images.length === 0) {
+    throw new Error('No receipt image to scan');
+  }
+  const raw = await llm(buildReceiptPrompt(categories), images);
+  return parseReceiptResponse(raw, categories, rules);
+}
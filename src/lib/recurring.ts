@@ -0,0 +1,149 @@
+import { addDays, addWeeks, addMonths, addYears, format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { PendingTransaction, RecurringFrequency, RecurringTemplate, RECURRING_FREQUENCIES } from '@/types';
+import { getToday } from '@/lib/utils';
+import { dropKnownExternalIds } from '@/lib/duplicates';
+import type { StorageBackend } from '@/lib/storage';
+
+// Source label prefix on pending transactions created from a template
+export const RECURRING_SOURCE = 'Recurring';
+
+// Safety cap so a template with an old start date can't flood the review queue
+const MAX_OCCURRENCES_PER_RUN = 60;
+
+// One ID per template occurrence, so a repeated run can't add it twice
+export function recurringExternalId(templateId: string, date: string): string {
+  return `recurring:${templateId}:${date}`;
+}
+
+export function isRecurringSource(source?: string): boolean {
+  return !!source && source.startsWith(RECURRING_SOURCE);
+}
+
+export function getFrequencyLabel(frequency: RecurringFrequency): string {
+  return RECURRING_FREQUENCIES.find((f) => f.value === frequency)?.label || frequency;
+}
+
+/**
+ * Date of the nth occurrence (0 = startDate). Always computed from the start
+ * date so monthly templates on the 31st don't drift after a short month.
+ */
+export function getOccurrenceDate(
+  startDate: string,
+  frequency: RecurringFrequency,
+  index: number
+): string {
+  const start = parseISO(startDate);
+  const step = {
+    daily: addDays,
+    weekly: addWeeks,
+    monthly: addMonths,
+    yearly: addYears,
+  }[frequency];
+  return format(step(start, index), 'yyyy-MM-dd');
+}
+
+/**
+ * Occurrences that are due on or before `today` and haven't been generated yet
+ */
+export function getDueDates(template: RecurringTemplate, today: string = getToday()): string[] {
+  if (!template.enabled || !template.startDate) return [];
+
+  const due: string[] = [];
+  for (let i = 0; due.length < MAX_OCCURRENCES_PER_RUN; i++) {
+    const date = getOccurrenceDate(template.startDate, template.frequency, i);
+    if (date > today) break;
+    if (template.endDate && date > template.endDate) break;
+    if (template.lastGeneratedDate && date <= template.lastGeneratedDate) continue;
+    due.push(date);
+  }
+  return due;
+}
+
+/** Next occurrence after the last generated one, or null if the template has ended */
+export function getNextDueDate(template: RecurringTemplate): string | null {
+  if (!template.startDate) return null;
+
+  for (let i = 0; ; i++) {
+    const date = getOccurrenceDate(template.startDate, template.frequency, i);
+    if (template.endDate && date > template.endDate) return null;
+    if (!template.lastGeneratedDate || date > template.lastGeneratedDate) return date;
+  }
+}
+
+/**
+ * Build pending transactions for every due occurrence and advance each
+ * template's lastGeneratedDate. Pure: the caller persists both results.
+ */
+export function materializeRecurring(
+  templates: RecurringTemplate[],
+  today: string = getToday()
+): { transactions: PendingTransaction[]; templates: RecurringTemplate[] } {
+  const now = new Date().toISOString();
+  const transactions: PendingTransaction[] = [];
+
+  const updated = templates.map((template) => {
+    const dates = getDueDates(template, today);
+    if (dates.length === 0) return template;
+
+    for (const date of dates) {
+      transactions.push({
+        id: `${date.slice(0, 4)}-${uuidv4()}`,
+        date,
+        description: template.description,
+        amount: template.amount,
+        category: template.category,
+        status: template.category ? 'auto-mapped' : 'uncategorized',
+        categorySource: template.category ? 'manual' : undefined,
+        source: `${RECURRING_SOURCE} · ${getFrequencyLabel(template.frequency)}`,
+        direction: template.direction || 'expense',
+        externalId: recurringExternalId(template.id, date),
+        createdAt: now,
+      });
+    }
+    return { ...template, lastGeneratedDate: dates[dates.length - 1] };
+  });
+
+  return { transactions, templates: updated };
+}
+
+/**
+ * Keep the newest lastGeneratedDate when saving templates edited from a
+ * possibly stale client copy, so already created instances aren't repeated
+ */
+export function mergeGeneratedDates(
+  stored: RecurringTemplate[],
+  incoming: RecurringTemplate[]
+): RecurringTemplate[] {
+  const storedById = new Map(stored.map((t) => [t.id, t]));
+
+  return incoming.map((template) => {
+    const previous = storedById.get(template.id)?.lastGeneratedDate;
+    if (previous && (!template.lastGeneratedDate || previous > template.lastGeneratedDate)) {
+      return { ...template, lastGeneratedDate: previous };
+    }
+    return template;
+  });
+}
+
+/**
+ * Server-side: add due recurring instances to the pending queue. Runs from
+ * every open tab and device, so occurrences already pending or confirmed
+ * (matched by external ID) are skipped rather than trusting lastGeneratedDate.
+ */
+export async function runRecurringTemplates(storage: StorageBackend): Promise<PendingTransaction[]> {
+  const templates = await storage.getRecurringTemplates();
+  const result = materializeRecurring(templates);
+  if (result.transactions.length === 0) return [];
+
+  const [pending, expenses] = await Promise.all([
+    storage.getPendingTransactions(),
+    storage.getAllExpenses(),
+  ]);
+  const fresh = dropKnownExternalIds(result.transactions, pending, expenses);
+
+  // Advance the templates first so a failure can't create the same instances twice
+  await storage.saveRecurringTemplates(result.templates);
+  if (fresh.length > 0) await storage.addPendingTransactions(fresh);
+  return fresh;
+}
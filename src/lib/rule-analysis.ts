@@ -0,0 +1,166 @@
+import { format, parseISO, subMonths } from 'date-fns';
+import { Expense, PendingTransaction, TransactionRule } from '@/types';
+import { getRuleCategoryId, matchRule, sortRulesByPriority } from '@/lib/ruleEngine';
+import { getToday } from '@/lib/utils';
+
+const MAX_CONFLICT_EXAMPLES = 3;
+const BACKTEST_SAMPLE_SIZE = 5;
+
+export const ANALYSIS_WINDOWS = [3, 6, 12] as const;
+
+export interface RuleConflict {
+  winner: TransactionRule;         // Higher priority, so it's the one that applies
+  loser: TransactionRule;
+  count: number;                   // Transactions both rules match
+  examples: Expense[];
+}
+
+// A rule being edited: no id, priority or timestamps yet
+export type RuleDraft = Pick<TransactionRule, 'conditions' | 'logicMode' | 'actions'>;
+
+export interface BacktestSample {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  category?: string;               // Current category
+  confirmed: boolean;              // Expense (true) or pending transaction
+}
+
+export interface RuleBacktest {
+  pendingMatches: number;
+  pendingUncategorized: number;    // Pending matches that have no category yet
+  expenseMatches: number;
+  categoryChanges: number;         // Confirmed expenses the rule would move to another category
+  samples: BacktestSample[];       // Most recent matches
+}
+
+export interface RuleAnalysis {
+  checked: number;                 // Transactions inside the window
+  matchCounts: Record<string, number>;
+  conflicts: RuleConflict[];
+  unused: TransactionRule[];       // Enabled rules with no matches in the window
+}
+
+// Rules match pending transactions; confirmed expenses carry the same fields
+function expenseToTransaction(expense: Expense): PendingTransaction {
+  return {
+    id: expense.id,
+    date: expense.date,
+    description: expense.description,
+    amount: expense.amount,
+    status: 'uncategorized',
+    direction: expense.direction,
+    tags: expense.tags,
+    createdAt: expense.createdAt,
+  };
+}
+
+/**
+ * Run every enabled rule over the last `months` of expenses to find rules
+ * that compete for the same transactions with different categories, and
+ * rules that no longer match anything.
+ */
+export function analyzeRules(
+  rules: TransactionRule[],
+  expenses: Expense[],
+  months: number,
+  today: string = getToday()
+): RuleAnalysis {
+  const since = format(subMonths(parseISO(today), months), 'yyyy-MM-dd');
+  const recent = expenses.filter((e) => e.date >= since && e.date <= today);
+  const enabled = sortRulesByPriority(rules.filter((r) => r.enabled));
+
+  const matchCounts: Record<string, number> = Object.fromEntries(enabled.map((r) => [r.id, 0]));
+  const conflicts = new Map<string, RuleConflict>();
+
+  for (const expense of recent) {
+    const transaction = expenseToTransaction(expense);
+    const matched = enabled.filter((rule) => matchRule(transaction, rule));
+
+    for (const rule of matched) matchCounts[rule.id]++;
+
+    // `matched` is in priority order, so the first of each pair wins
+    for (let i = 0; i < matched.length; i++) {
+      for (let j = i + 1; j < matched.length; j++) {
+        const winnerCategory = getRuleCategoryId(matched[i]);
+        const loserCategory = getRuleCategoryId(matched[j]);
+        if (!winnerCategory || !loserCategory || winnerCategory === loserCategory) continue;
+
+        const key = `${matched[i].id}:${matched[j].id}`;
+        const conflict = conflicts.get(key) || { winner: matched[i], loser: matched[j], count: 0, examples: [] };
+        conflict.count++;
+        if (conflict.examples.length < MAX_CONFLICT_EXAMPLES) conflict.examples.push(expense);
+        conflicts.set(key, conflict);
+      }
+    }
+  }
+
+  return {
+    checked: recent.length,
+    matchCounts,
+    conflicts: Array.from(conflicts.values()).sort((a, b) => b.count - a.count),
+    unused: enabled.filter((rule) => matchCounts[rule.id] === 0),
+  };
+}
+
+// Drafts are previewed even while disabled
+function draftToRule(draft: RuleDraft): TransactionRule {
+  return { ...draft, id: 'preview', name: '', priority: 0, enabled: true, createdAt: '' };
+}
+
+/**
+ * Dry-run a draft rule against pending transactions and confirmed expenses.
+ * Other rules are ignored, so a pending match may still lose to a higher-priority rule.
+ */
+export function backtestRule(
+  draft: RuleDraft,
+  pending: PendingTransaction[],
+  expenses: Expense[]
+): RuleBacktest {
+  const rule = draftToRule(draft);
+  const categoryId = getRuleCategoryId(rule);
+
+  const pendingMatches = pending.filter((t) => t.status !== 'ignored' && matchRule(t, rule));
+  const expenseMatches = expenses.filter((e) => matchRule(expenseToTransaction(e), rule));
+
+  const samples: BacktestSample[] = [
+    ...pendingMatches.map((t) => ({ ...toSample(t), confirmed: false })),
+    ...expenseMatches.map((e) => ({ ...toSample(e), confirmed: true })),
+  ]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, BACKTEST_SAMPLE_SIZE);
+
+  return {
+    pendingMatches: pendingMatches.length,
+    pendingUncategorized: pendingMatches.filter((t) => !t.category).length,
+    expenseMatches: expenseMatches.length,
+    categoryChanges: categoryId ? expenseMatches.filter((e) => e.category !== categoryId).length : 0,
+    samples,
+  };
+}
+
+function toSample(item: PendingTransaction | Expense): Omit<BacktestSample, 'confirmed'> {
+  return {
+    id: item.id,
+    date: item.date,
+    description: item.description,
+    amount: item.amount,
+    category: item.category || undefined,
+  };
+}
+
+/**
+ * Confirmed expenses a draft rule matches, moved to the rule's category.
+ * Only expenses whose category actually changes are returned.
+ */
+export function recategorizeExpenses(draft: RuleDraft, expenses: Expense[]): Expense[] {
+  const rule = draftToRule(draft);
+  const categoryId = getRuleCategoryId(rule);
+  if (!categoryId) return [];
+
+  const now = new Date().toISOString();
+  return expenses
+    .filter((e) => e.category !== categoryId && matchRule(expenseToTransaction(e), rule))
+    .map((e) => ({ ...e, category: categoryId, updatedAt: now }));
+}
@@ -0,0 +1,181 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Category, RuleAction, RuleCondition, RuleSetImportOptions, TransactionRule } from '@/types';
+import { ensureModernRuleFormat, sortRulesByPriority, validateRule } from '@/lib/ruleEngine';
+
+// Bump when the file layout changes; older versions must stay importable
+export const RULE_SET_VERSION = 1;
+const RULE_SET_FORMAT = 'expense-tracker-rules';
+const DEFAULT_CATEGORY_COLOR = '#8E8E93';
+
+// Categories travel by name; IDs differ between accounts
+export interface RuleSetCategory {
+  id: string;
+  name: string;
+  color: string;
+  icon?: string;
+}
+
+export type RuleSetRule = Omit<TransactionRule, 'id' | 'createdAt' | 'priority'>;
+
+export interface RuleSetFile {
+  format: typeof RULE_SET_FORMAT;
+  version: number;
+  exportedAt: string;
+  categories: RuleSetCategory[];
+  rules: RuleSetRule[];            // Highest priority first
+}
+
+export interface RuleSetImportPlan {
+  rules: TransactionRule[];        // Full rule list to save
+  newCategories: Category[];       // Categories to create first
+  added: number;
+  duplicates: number;              // Already present (or repeated in the file)
+  skipped: number;                 // Reference categories that don't exist here
+  missingCategories: string[];     // Names not found in this account
+}
+
+function categoryIdsOf(actions: RuleAction[]): string[] {
+  return actions.flatMap((a) => (a.type === 'setCategory' ? [a.categoryId] : []));
+}
+
+export function buildRuleSet(rules: TransactionRule[], categories: Category[]): RuleSetFile {
+  const referenced = new Set(rules.flatMap((r) => categoryIdsOf(r.actions)));
+
+  return {
+    format: RULE_SET_FORMAT,
+    version: RULE_SET_VERSION,
+    exportedAt: new Date().toISOString(),
+    categories: categories
+      .filter((c) => referenced.has(c.id))
+      .map(({ id, name, color, icon }) => ({ id, name, color, icon })),
+    rules: sortRulesByPriority(rules).map((rule) => ({
+      name: rule.name,
+      conditions: rule.conditions,
+      logicMode: rule.logicMode,
+      actions: rule.actions,
+      enabled: rule.enabled,
+    })),
+  };
+}
+
+export function getRuleSetFileName(): string {
+  return `expense-rules-${new Date().toISOString().split('T')[0]}.json`;
+}
+
+/**
+ * Validate an uploaded rule set. Throws with a user-facing message.
+ */
+export function parseRuleSet(value: unknown): RuleSetFile {
+  const file = value as Partial<RuleSetFile> | null;
+  if (!file || typeof file !== 'object' || file.format !== RULE_SET_FORMAT) {
+    throw new Error('Not a rule set file');
+  }
+  if (typeof file.version !== 'number' || file.version > RULE_SET_VERSION) {
+    throw new Error('This rule set was made by a newer version of the app');
+  }
+  if (!Array.isArray(file.rules) || !Array.isArray(file.categories)) {
+    throw new Error('Rule set is missing its rules or categories');
+  }
+  if (file.categories.some((c) => typeof c?.id !== 'string' || typeof c?.name !== 'string' || !c.name.trim())) {
+    throw new Error('Rule set has a category without a name');
+  }
+
+  const rules = file.rules.map((rule, index) => {
+    // Same migrations as stored rules, so hand-written single-category rules work too
+    const modern = ensureModernRuleFormat({ id: '', createdAt: '', ...rule } as TransactionRule, index);
+    const error = validateRule(modern);
+    if (error) throw new Error(`Rule "${modern.name || index + 1}": ${error}`);
+    return {
+      name: modern.name,
+      conditions: modern.conditions,
+      logicMode: modern.logicMode,
+      actions: modern.actions,
+      enabled: modern.enabled ?? true,
+    };
+  });
+
+  return { ...file, rules } as RuleSetFile;
+}
+
+// Rules with the same conditions are duplicates, whatever they're called
+function ruleSignature(rule: Pick<TransactionRule, 'conditions' | 'logicMode'>): string {
+  const conditions = rule.conditions
+    .map((c: RuleCondition) => [c.field, c.matchType, c.value.trim().toLowerCase(), c.value2?.trim() || ''].join('\u0000'))
+    .sort();
+  return JSON.stringify([rule.logicMode, conditions]);
+}
+
+/**
+ * Work out what importing a rule set would do: category IDs are remapped
+ * by name (case-insensitive), missing ones optionally created.
+ */
+export function planRuleSetImport(
+  file: RuleSetFile,
+  existingRules: TransactionRule[],
+  existingCategories: Category[],
+  options: RuleSetImportOptions
+): RuleSetImportPlan {
+  const byName = new Map(existingCategories.map((c) => [c.name.trim().toLowerCase(), c.id]));
+  const idMap = new Map<string, string>();
+  const newCategories: Category[] = [];
+  const missingCategories: string[] = [];
+
+  for (const category of file.categories) {
+    const existingId = byName.get(category.name.trim().toLowerCase());
+    if (existingId) {
+      idMap.set(category.id, existingId);
+    } else if (options.createMissingCategories) {
+      const created: Category = {
+        id: uuidv4(),
+        name: category.name.trim(),
+        color: category.color || DEFAULT_CATEGORY_COLOR,
+        icon: category.icon,
+      };
+      newCategories.push(created);
+      byName.set(created.name.toLowerCase(), created.id);
+      idMap.set(category.id, created.id);
+    } else {
+      missingCategories.push(category.name);
+    }
+  }
+
+  const kept = options.mode === 'merge' ? sortRulesByPriority(existingRules) : [];
+  const seen = new Set(kept.map(ruleSignature));
+  const now = new Date().toISOString();
+  const imported: TransactionRule[] = [];
+  let duplicates = 0;
+  let skipped = 0;
+
+  for (const rule of file.rules) {
+    if (categoryIdsOf(rule.actions).some((id) => !idMap.has(id))) {
+      skipped++;
+      continue;
+    }
+    const signature = ruleSignature(rule);
+    if (seen.has(signature)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(signature);
+
+    imported.push({
+      ...rule,
+      id: uuidv4(),
+      actions: rule.actions.map((a) =>
+        a.type === 'setCategory' ? { ...a, categoryId: idMap.get(a.categoryId)! } : a
+      ),
+      priority: 0, // Renumbered below
+      createdAt: now,
+    });
+  }
+
+  return {
+    // Imported rules go after the ones already here
+    rules: [...kept, ...imported].map((rule, index) => ({ ...rule, priority: index })),
+    newCategories: newCategories.filter((c) => imported.some((r) => categoryIdsOf(r.actions).includes(c.id))),
+    added: imported.length,
+    duplicates,
+    skipped,
+    missingCategories,
+  };
+}
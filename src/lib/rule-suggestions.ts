@@ -0,0 +1,147 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RuleCondition, TransactionRule } from '@/types';
+import { matchRule } from '@/lib/ruleEngine';
+
+const MIN_EXAMPLES = 2;
+const MIN_AGREEMENT = 0.8;          // Share of a merchant's examples in the winning category
+const MAX_MERCHANT_TOKENS = 2;
+const MAX_EXAMPLES_SHOWN = 3;
+
+// Bank/payment-rail boilerplate that says nothing about the merchant
+const NOISE_WORDS = new Set([
+  'upi', 'pos', 'ach', 'neft', 'imps', 'rtgs', 'nach', 'ecom', 'ecs', 'txn', 'ref', 'utr',
+  'payment', 'pay', 'paid', 'purchase', 'debit', 'credit', 'card', 'online', 'transfer',
+  'to', 'from', 'for', 'by', 'via', 'the', 'and', 'www', 'com', 'net', 'org',
+  'pvt', 'ltd', 'private', 'limited', 'inc', 'llc', 'india', 'bank', 'billpay', 'bil', 'vps', 'mmt',
+]);
+
+export interface CategorizationExample {
+  description: string;
+  category: string;
+  amount: number;
+  date: string;
+}
+
+export interface RuleSuggestion {
+  key: string;                     // merchant + category, for dismissing
+  merchant: string;                // Display name
+  categoryId: string;
+  count: number;                   // Examples in this category
+  examples: string[];
+  rule: Omit<TransactionRule, 'id' | 'createdAt' | 'priority'>;
+}
+
+/**
+ * Meaningful words of a bank description, in order and without repeats:
+ * numbers, masked card digits, URLs, UPI handles and payment boilerplate are dropped.
+ */
+export function descriptionTokens(description: string): string[] {
+  const tokens = description
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[a-z0-9._-]+@[a-z0-9.-]+/g, ' ')   // UPI handles and emails
+    .split(/[^a-z]+/)
+    .filter((t) => t.length >= 3 && !NOISE_WORDS.has(t) && !/^x+$/.test(t));
+
+  return Array.from(new Set(tokens));
+}
+
+/**
+ * Reduce a bank description to its merchant, e.g.
+ * "UPI/40212/SWIGGY/swiggy@icici" → "swiggy", "POS 4587XXXX1234 STARBUCKS COFFEE MUMBAI" → "starbucks coffee".
+ * Returns '' when nothing recognisable is left.
+ */
+export function normalizeMerchant(description: string): string {
+  return descriptionTokens(description).slice(0, MAX_MERCHANT_TOKENS).join(' ');
+}
+
+function toTitleCase(text: string): string {
+  return text.replace(/\b[a-z]/g, (c) => c.toUpperCase());
+}
+
+// Narrowest condition first; the first one that matches every example is used
+function candidateConditions(merchant: string): RuleCondition[] {
+  const tokens = merchant.split(' ');
+  const candidates: RuleCondition[] = [
+    { id: uuidv4(), field: 'description', matchType: 'contains', value: merchant },
+  ];
+  if (tokens.length > 1) {
+    candidates.push(
+      { id: uuidv4(), field: 'description', matchType: 'regex', value: tokens.join('[^a-z]*') },
+      { id: uuidv4(), field: 'description', matchType: 'contains', value: tokens[0] }
+    );
+  }
+  return candidates;
+}
+
+function matchesDescription(conditions: RuleCondition[], description: string): boolean {
+  return matchRule(
+    { id: '', date: '', description, amount: 0, status: 'uncategorized', createdAt: '' },
+    { id: '', name: '', conditions, logicMode: 'all', actions: [], priority: 0, enabled: true, createdAt: '' }
+  );
+}
+
+/**
+ * Propose rules for merchants the user keeps categorizing the same way by hand
+ * (or via AI) that no existing rule covers yet.
+ */
+export function suggestRules(
+  examples: CategorizationExample[],
+  rules: TransactionRule[],
+  dismissed: string[] = []
+): RuleSuggestion[] {
+  const enabledRules = rules.filter((r) => r.enabled);
+  const byMerchant = new Map<string, CategorizationExample[]>();
+
+  for (const example of examples) {
+    if (!example.category) continue;
+    const merchant = normalizeMerchant(example.description);
+    if (!merchant) continue;
+    byMerchant.set(merchant, [...(byMerchant.get(merchant) || []), example]);
+  }
+
+  const suggestions: RuleSuggestion[] = [];
+  for (const [merchant, group] of Array.from(byMerchant.entries())) {
+    if (group.length < MIN_EXAMPLES) continue;
+
+    const counts = new Map<string, number>();
+    for (const example of group) counts.set(example.category, (counts.get(example.category) || 0) + 1);
+    const [categoryId, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+    if (count < MIN_EXAMPLES || count / group.length < MIN_AGREEMENT) continue;
+
+    const key = `${merchant}:${categoryId}`;
+    if (dismissed.includes(key)) continue;
+
+    // Already handled (or deliberately overridden) by an existing rule
+    const covered = group.some((e) => enabledRules.some((rule) =>
+      matchRule({ ...e, id: '', status: 'uncategorized', createdAt: '' }, rule)
+    ));
+    if (covered) continue;
+
+    const supporting = group.filter((e) => e.category === categoryId);
+    const otherCategories = examples.filter((e) => e.category && e.category !== categoryId);
+    const condition = candidateConditions(merchant).find((candidate) =>
+      supporting.every((e) => matchesDescription([candidate], e.description)) &&
+      !otherCategories.some((e) => matchesDescription([candidate], e.description))
+    );
+    if (!condition) continue;
+
+    const name = toTitleCase(merchant);
+    suggestions.push({
+      key,
+      merchant: name,
+      categoryId,
+      count,
+      examples: Array.from(new Set(supporting.map((e) => e.description))).slice(0, MAX_EXAMPLES_SHOWN),
+      rule: {
+        name,
+        conditions: [condition],
+        logicMode: 'all',
+        actions: [{ type: 'setCategory', categoryId }],
+        enabled: true,
+      },
+    });
+  }
+
+  return suggestions.sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { compileRuleRegex, reorderRulePriorities, validateRegexPattern } from '@/lib/ruleEngine';
+import { TransactionRule } from '@/types';
+
+function rule(id: string, priority: number): TransactionRule {
+  return {
+    id,
+    name: id,
+    conditions: [],
+    logicMode: 'all',
+    actions: [],
+    priority,
+    enabled: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+describe('validateRegexPattern', () => {
+  it.each([
+    '(a+)+',
+    '(.*)*',
+    '(.*a){12}',
+    '(.*a){8}$',
+    '(.*,){11}x',
+    '(a|a)*$',
+    '(a|aa)+$',
+    '(a?){30}a{30}',
+    '(?:foo|bar)+',
+    '((a|b))+',
+    '((a+)x)*',
+    '(\\d+\\s?){2,}',
+  ])('rejects the catastrophic pattern %s', (pattern) => {
+    expect(validateRegexPattern(pattern)).toMatch(/Repeated groups/);
+  });
+
+  it('rejects too many open-ended repeats', () => {
+    expect(validateRegexPattern('.*a.*a.*a.*b')).toMatch(/open-ended repeats/);
+  });
+
+  it.each([
+    'swiggy|zomato',
+    '^upi/.*/swiggy',
+    '(swiggy|zomato)',
+    '^(?:upi|imps)?\\s*\\d+',
+    '(\\d{2}[/-]){2}\\d{4}',
+    '[(+*)]+ food',
+    '\\(x+\\)+',
+    'amazon(\\.in)?',
+  ])('accepts %s', (pattern) => {
+    expect(validateRegexPattern(pattern)).toBeNull();
+  });
+
+  it('rejects empty, invalid and back-referencing patterns', () => {
+    expect(validateRegexPattern('  ')).toBe('Pattern is empty');
+    expect(validateRegexPattern('(abc')).not.toBeNull();
+    expect(validateRegexPattern('(a)\\1')).toBe('Back-references are not supported');
+  });
+
+  it('never compiles a rejected pattern', () => {
+    expect(compileRuleRegex('(.*a){8}$')).toBeNull();
+    expect(compileRuleRegex('^upi.*swiggy')?.test('UPI/123/SWIGGY')).toBe(true);
+  });
+});
+
+describe('reorderRulePriorities', () => {
+  it('follows the given order', () => {
+    const result = reorderRulePriorities([rule('a', 0), rule('b', 1), rule('c', 2)], ['c', 'a', 'b']);
+    expect(result.map((r) => [r.id, r.priority])).toEqual([['c', 0], ['a', 1], ['b', 2]]);
+  });
+
+  it('puts unlisted rules last in their existing priority order', () => {
+    const rules = [rule('d', 3), rule('a', 0), rule('c', 2), rule('b', 1)];
+    const result = reorderRulePriorities(rules, ['c']);
+    expect(result.map((r) => r.id)).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('keeps the existing order when no IDs are given', () => {
+    const result = reorderRulePriorities([rule('b', 5), rule('a', 1)], []);
+    expect(result.map((r) => [r.id, r.priority])).toEqual([['a', 0], ['b', 1]]);
+  });
+});
@@ -3,15 +3,154 @@ import {
   PendingTransaction,
   RuleMatchType,
   AmountMatchType,
+  DateMatchType,
   RuleCondition,
   RuleField,
+  RuleAction,
+  RuleActionType,
   LegacyTransactionRule,
+  CategoryTransactionRule,
+  Expense,
 } from '@/types';
+import { mergeTags } from '@/lib/tags';
+import type { StorageBackend } from '@/lib/storage';
+
+const MAX_REGEX_LENGTH = 200;
+const MAX_REGEX_INPUT = 500;
+
+// Each open-ended repeat (*, +, {n,}) multiplies the work a failed match can take
+const MAX_OPEN_ENDED_REPEATS = 3;
+
+const regexCache = new Map<string, RegExp | null>();
+
+interface Quantifier {
+  min: number;
+  max: number;
+  length: number;
+}
+
+function readQuantifier(pattern: string, i: number): Quantifier | null {
+  const c = pattern[i];
+  if (c === '*') return { min: 0, max: Infinity, length: 1 };
+  if (c === '+') return { min: 1, max: Infinity, length: 1 };
+  if (c === '?') return { min: 0, max: 1, length: 1 };
+  if (c === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+    if (match) {
+      const min = Number(match[1]);
+      const max = match[2] ? (match[3] ? Number(match[3]) : Infinity) : min;
+      return { min, max, length: match[0].length };
+    }
+  }
+  return null;
+}
+
+// Index just past a [...] character class starting at i
+function skipCharacterClass(pattern: string, i: number): number {
+  let j = i + 1;
+  if (pattern[j] === '^') j++;
+  while (j < pattern.length) {
+    if (pattern[j] === '\\') j += 2;
+    else if (pattern[j] === ']') return j + 1;
+    else j++;
+  }
+  return j;
+}
+
+/**
+ * Patterns that backtrack exponentially or in high polynomial time on a
+ * near-miss. A group repeated more than once ((...)+, (...){8}) must match
+ * its body in exactly one way, so it can't contain a variable repeat or an
+ * alternation: (a+)+, (.*a){8}, (a|aa)+ and (a?){30} are all rejected.
+ * Expects a syntactically valid pattern.
+ */
+function findSlowPattern(pattern: string): string | null {
+  // Per open group: whether its body can match the same text in several ways
+  const ambiguous: boolean[] = [false];
+  let openEnded = 0;
+  let i = 0;
+
+  while (i < pattern.length) {
+    const c = pattern[i];
+    let closedGroup: boolean | null = null;
+
+    if (c === '\\') {
+      i += 2;
+    } else if (c === '[') {
+      i = skipCharacterClass(pattern, i);
+    } else if (c === '(') {
+      // Skip (?:, (?=, (?!, (?<=, (?<! and (?<name> so the ? isn't read as a repeat
+      const prefix = /^\((?:\?(?::|=|!|<=|<!|<[^>]*>))?/.exec(pattern.slice(i))!;
+      ambiguous.push(false);
+      i += prefix[0].length;
+      continue;
+    } else if (c === ')') {
+      closedGroup = ambiguous.length > 1 ? ambiguous.pop()! : false;
+      i++;
+    } else if (c === '|') {
+      ambiguous[ambiguous.length - 1] = true;
+      i++;
+      continue;
+    } else {
+      i++;
+    }
+
+    const quantifier = readQuantifier(pattern, i);
+    const top = ambiguous.length - 1;
+    if (!quantifier) {
+      if (closedGroup) ambiguous[top] = true;
+      continue;
+    }
+
+    i += quantifier.length;
+    if (pattern[i] === '?') i++; // Lazy
+    if (quantifier.max === Infinity) openEnded++;
+    if (closedGroup && quantifier.max > 1) {
+      return 'Repeated groups can\'t contain repeats or alternatives, like (a+)+ or (a|b)*';
+    }
+    ambiguous[top] = ambiguous[top] || !!closedGroup || quantifier.min !== quantifier.max;
+  }
+
+  if (openEnded > MAX_OPEN_ENDED_REPEATS) {
+    return `More than ${MAX_OPEN_ENDED_REPEATS} open-ended repeats (*, +) are too slow to run`;
+  }
+  return null;
+}
+
+/**
+ * Why a regex pattern can't be used in a rule, or null if it's fine
+ */
+export function validateRegexPattern(pattern: string): string | null {
+  if (!pattern.trim()) return 'Pattern is empty';
+  if (pattern.length > MAX_REGEX_LENGTH) return `Pattern is longer than ${MAX_REGEX_LENGTH} characters`;
+  if (/\\[1-9]/.test(pattern)) return 'Back-references are not supported';
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    return error instanceof Error ? error.message.replace(/^Invalid regular expression: /, '') : 'Invalid pattern';
+  }
+  return findSlowPattern(pattern);
+}
+
+/**
+ * Compile a rule regex (case-insensitive), or null when it fails validation
+ */
+export function compileRuleRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    regexCache.set(pattern, validateRegexPattern(pattern) ? null : new RegExp(pattern, 'i'));
+  }
+  return regexCache.get(pattern)!;
+}
 
 /**
  * Check if a description matches a text condition
  */
 function matchTextCondition(description: string, matchType: RuleMatchType, pattern: string): boolean {
+  if (matchType === 'regex') {
+    const regex = compileRuleRegex(pattern);
+    return !!regex && regex.test(description.slice(0, MAX_REGEX_INPUT));
+  }
+
   const desc = description.toLowerCase();
   const pat = pattern.toLowerCase();
 
@@ -59,6 +198,69 @@ function matchAmountCondition(
   }
 }
 
+/**
+ * Parse a day-of-month list like "1, 15, 28-31, last"
+ */
+export function parseDaysOfMonth(value: string): { days: Set<number>; last: boolean } | null {
+  const days = new Set<number>();
+  let last = false;
+
+  for (const part of value.split(',').map((p) => p.trim().toLowerCase()).filter(Boolean)) {
+    if (part === 'last') {
+      last = true;
+      continue;
+    }
+    const range = part.match(/^(\d{1,2})(?:\s*-\s*(\d{1,2}))?$/);
+    if (!range) return null;
+    const start = parseInt(range[1]);
+    const end = range[2] ? parseInt(range[2]) : start;
+    if (start < 1 || end > 31 || start > end) return null;
+    for (let day = start; day <= end; day++) days.add(day);
+  }
+
+  return days.size > 0 || last ? { days, last } : null;
+}
+
+function parseWeekdays(value: string): number[] {
+  return value
+    .split(',')
+    .map((v) => parseInt(v))
+    .filter((v) => v >= 0 && v <= 6);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check if a YYYY-MM-DD date matches a date condition
+ */
+function matchDateCondition(
+  date: string,
+  matchType: DateMatchType,
+  value: string,
+  value2?: string
+): boolean {
+  if (!DATE_PATTERN.test(date)) return false;
+  // UTC so the weekday doesn't shift with the server's timezone
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (isNaN(parsed.getTime())) return false;
+
+  switch (matchType) {
+    case 'dayOfMonth': {
+      const spec = parseDaysOfMonth(value);
+      if (!spec) return false;
+      const day = parsed.getUTCDate();
+      const lastDay = new Date(Date.UTC(parsed.getUTCFullYear(), parsed.getUTCMonth() + 1, 0)).getUTCDate();
+      return spec.days.has(day) || (spec.last && day === lastDay);
+    }
+    case 'weekday':
+      return parseWeekdays(value).includes(parsed.getUTCDay());
+    case 'dateRange':
+      return (!value || date >= value) && (!value2 || date <= value2);
+    default:
+      return false;
+  }
+}
+
 /**
  * Check if a single condition matches a transaction
  */
@@ -67,8 +269,9 @@ function matchCondition(
   condition: RuleCondition
 ): boolean {
   if (condition.field === 'description') {
+    // Match the imported text so rewritten descriptions still match on re-apply
     return matchTextCondition(
-      transaction.description,
+      transaction.originalDescription ?? transaction.description,
       condition.matchType as RuleMatchType,
       condition.value
     );
@@ -79,6 +282,20 @@ function matchCondition(
       condition.value,
       condition.value2
     );
+  } else if (condition.field === 'date') {
+    return matchDateCondition(
+      transaction.date,
+      condition.matchType as DateMatchType,
+      condition.value,
+      condition.value2
+    );
+  } else if (condition.field === 'source') {
+    // Transactions without a source never match, even "contains ''"
+    return !!transaction.source && matchTextCondition(
+      transaction.source,
+      condition.matchType as RuleMatchType,
+      condition.value
+    );
   }
   return false;
 }
@@ -99,62 +316,95 @@ export function matchRule(transaction: PendingTransaction, rule: TransactionRule
 }
 
 /**
- * Find the first matching rule for a transaction
+ * Rules in the order they're tried (priority, then creation for ties)
+ */
+export function sortRulesByPriority(rules: TransactionRule[]): TransactionRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Find the highest-priority matching rule for a transaction
  */
 export function findMatchingRule(
   transaction: PendingTransaction,
   rules: TransactionRule[]
 ): TransactionRule | undefined {
-  return rules.find(rule => matchRule(transaction, rule));
+  return sortRulesByPriority(rules).find(rule => matchRule(transaction, rule));
+}
+
+/**
+ * Run a matched rule's actions on a transaction, in order (later actions win)
+ */
+export function applyRuleActions(
+  transaction: PendingTransaction,
+  rule: TransactionRule
+): PendingTransaction {
+  let result: PendingTransaction = { ...transaction, matchedRuleId: rule.id };
+
+  for (const action of rule.actions) {
+    switch (action.type) {
+      case 'setCategory':
+        result = { ...result, status: 'auto-mapped', category: action.categoryId, categorySource: 'rule' };
+        break;
+      case 'rewriteDescription':
+        result = {
+          ...result,
+          description: action.description,
+          originalDescription: result.originalDescription ?? transaction.description,
+        };
+        break;
+      case 'addTags':
+        result = { ...result, tags: mergeTags(result.tags, action.tags) };
+        break;
+      case 'ignore':
+        result = { ...result, status: 'ignored' };
+        break;
+      case 'autoConfirm':
+        // Handled when saving, see splitAutoConfirmed
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Undo what a previously matched rule did, so rules can be re-applied from scratch.
+ * Categories are kept (as with manual picks); tags can't be told apart and stay.
+ */
+function clearRuleEffects(transaction: PendingTransaction): PendingTransaction {
+  if (!transaction.matchedRuleId) return transaction;
+
+  return {
+    ...transaction,
+    description: transaction.originalDescription ?? transaction.description,
+    originalDescription: undefined,
+    status: 'uncategorized',
+    matchedRuleId: undefined,
+    categorySource: undefined,
+  };
 }
 
 /**
  * Apply rules to a list of transactions
- * Returns transactions with updated status and category based on rule matches
+ * Returns transactions with updated status, category, description and tags based on rule matches
  */
 export function applyRulesToTransactions(
   transactions: PendingTransaction[],
   rules: TransactionRule[]
 ): PendingTransaction[] {
-  const enabledRules = rules.filter(r => r.enabled);
+  const enabledRules = sortRulesByPriority(rules.filter(r => r.enabled));
 
   return transactions.map(transaction => {
-    // Skip already ignored transactions
-    if (transaction.status === 'ignored') {
+    // Skip transactions the user ignored; ones ignored by a rule are re-evaluated
+    if (transaction.status === 'ignored' && !transaction.matchedRuleId) {
       return transaction;
     }
 
-    const matchedRule = findMatchingRule(transaction, enabledRules);
+    const base = clearRuleEffects(transaction);
+    const matchedRule = findMatchingRule(base, enabledRules);
 
-    if (matchedRule) {
-      return {
-        ...transaction,
-        status: 'auto-mapped' as const,
-        category: matchedRule.categoryId,
-        matchedRuleId: matchedRule.id,
-        categorySource: 'rule' as const,
-      };
-    }
-
-    // Keep manually set categories but don't change status to auto-mapped
-    // Only clear category if it was set by a rule that no longer matches
-    if (transaction.matchedRuleId && !transaction.category) {
-      return {
-        ...transaction,
-        status: 'uncategorized' as const,
-        category: undefined,
-        matchedRuleId: undefined,
-        categorySource: undefined,
-      };
-    }
-
-    // For transactions without a matched rule, preserve manual category selection
-    return {
-      ...transaction,
-      status: transaction.matchedRuleId ? 'uncategorized' : transaction.status,
-      matchedRuleId: undefined,
-      categorySource: transaction.matchedRuleId ? undefined : transaction.categorySource,
-    };
+    return matchedRule ? applyRuleActions(base, matchedRule) : base;
   });
 }
 
@@ -169,25 +419,128 @@ export function applyNewRuleToTransactions(
   if (!newRule.enabled) return transactions;
 
   return transactions.map(transaction => {
-    // Only process uncategorized transactions
-    if (transaction.status !== 'uncategorized') {
+    // Only process uncategorized transactions no other rule has touched
+    if (transaction.status !== 'uncategorized' || transaction.matchedRuleId) {
       return transaction;
     }
 
-    if (matchRule(transaction, newRule)) {
-      return {
-        ...transaction,
-        status: 'auto-mapped' as const,
-        category: newRule.categoryId,
-        matchedRuleId: newRule.id,
-        categorySource: 'rule' as const,
-      };
-    }
-
-    return transaction;
+    return matchRule(transaction, newRule) ? applyRuleActions(transaction, newRule) : transaction;
   });
 }
 
+/**
+ * Whether the rule that matched a transaction wants it saved straight to expenses.
+ * Likely duplicates always wait for review.
+ */
+export function shouldAutoConfirm(transaction: PendingTransaction, rules: TransactionRule[]): boolean {
+  if (transaction.status !== 'auto-mapped' || !transaction.category || !transaction.matchedRuleId || transaction.duplicateOf) {
+    return false;
+  }
+  const rule = rules.find(r => r.id === transaction.matchedRuleId);
+  return !!rule?.actions.some(action => action.type === 'autoConfirm');
+}
+
+/**
+ * Separate transactions that auto-confirm rules send to expenses from the rest
+ */
+export function splitAutoConfirmed(
+  transactions: PendingTransaction[],
+  rules: TransactionRule[]
+): { confirmed: PendingTransaction[]; pending: PendingTransaction[] } {
+  const confirmed: PendingTransaction[] = [];
+  const pending: PendingTransaction[] = [];
+  for (const transaction of transactions) {
+    (shouldAutoConfirm(transaction, rules) ? confirmed : pending).push(transaction);
+  }
+  return { confirmed, pending };
+}
+
+/**
+ * Expense fields for a confirmed transaction (id and timestamps are added on save)
+ */
+export function transactionToExpenseData(
+  transaction: PendingTransaction
+): Omit<Expense, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    amount: transaction.amount,
+    date: transaction.date,
+    category: transaction.category || '',
+    description: transaction.description,
+    direction: transaction.direction,
+    tags: transaction.tags,
+    externalId: transaction.externalId,
+    accountId: transaction.accountId,
+  };
+}
+
+/**
+ * Server-side: store new pending transactions, writing auto-confirmed ones to expenses instead
+ */
+export async function savePendingTransactions(
+  storage: StorageBackend,
+  transactions: PendingTransaction[],
+  rules: TransactionRule[]
+): Promise<{ pending: PendingTransaction[]; expenses: Expense[] }> {
+  const { confirmed, pending } = splitAutoConfirmed(transactions, rules);
+  const now = new Date().toISOString();
+  const expenses: Expense[] = confirmed.map((t) => ({
+    id: t.id,
+    ...transactionToExpenseData(t),
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  if (pending.length > 0) await storage.addPendingTransactions(pending);
+  if (expenses.length > 0) await storage.addExpensesBatch(expenses);
+  return { pending, expenses };
+}
+
+/**
+ * Category a rule assigns (the last "set category" action), if any
+ */
+export function getRuleCategoryId(rule: TransactionRule): string | undefined {
+  const actions = rule.actions.filter(a => a.type === 'setCategory');
+  const last = actions[actions.length - 1];
+  return last?.type === 'setCategory' ? last.categoryId : undefined;
+}
+
+/**
+ * All tags a rule adds
+ */
+export function getRuleTags(rule: TransactionRule): string[] {
+  return rule.actions.reduce<string[]>(
+    (tags, action) => (action.type === 'addTags' ? mergeTags(tags, action.tags) : tags),
+    []
+  );
+}
+
+/**
+ * All available rule actions for UI selection
+ */
+export const RULE_ACTION_TYPES: { value: RuleActionType; label: string }[] = [
+  { value: 'setCategory', label: 'Set category' },
+  { value: 'rewriteDescription', label: 'Rewrite description' },
+  { value: 'addTags', label: 'Add tags' },
+  { value: 'ignore', label: 'Ignore' },
+  { value: 'autoConfirm', label: 'Auto-confirm into expenses' },
+];
+
+/**
+ * Blank action of a type, for the rule editor
+ */
+export function createRuleAction(type: RuleActionType): RuleAction {
+  switch (type) {
+    case 'setCategory':
+      return { type, categoryId: '' };
+    case 'rewriteDescription':
+      return { type, description: '' };
+    case 'addTags':
+      return { type, tags: [] };
+    default:
+      return { type };
+  }
+}
+
 /**
  * All available text match types for UI selection
  */
@@ -196,6 +549,7 @@ export const TEXT_MATCH_TYPES: { value: RuleMatchType; label: string }[] = [
   { value: 'startsWith', label: 'Starts with' },
   { value: 'endsWith', label: 'Ends with' },
   { value: 'equals', label: 'Equals exactly' },
+  { value: 'regex', label: 'Matches regex' },
 ];
 
 /**
@@ -208,14 +562,111 @@ export const AMOUNT_MATCH_TYPES: { value: AmountMatchType; label: string }[] = [
   { value: 'between', label: 'Between' },
 ];
 
+/**
+ * All available date match types for UI selection
+ */
+export const DATE_MATCH_TYPES: { value: DateMatchType; label: string }[] = [
+  { value: 'dayOfMonth', label: 'Day of month' },
+  { value: 'weekday', label: 'Weekday' },
+  { value: 'dateRange', label: 'Between dates' },
+];
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 /**
  * All available fields for conditions
  */
 export const RULE_FIELDS: { value: RuleField; label: string }[] = [
   { value: 'description', label: 'Description' },
   { value: 'amount', label: 'Amount' },
+  { value: 'date', label: 'Date' },
+  { value: 'source', label: 'Source' },
 ];
 
+/**
+ * Match types offered for a field, and the one a new condition starts with
+ */
+export function getMatchTypesForField(field: RuleField): { value: RuleCondition['matchType']; label: string }[] {
+  if (field === 'amount') return AMOUNT_MATCH_TYPES;
+  if (field === 'date') return DATE_MATCH_TYPES;
+  return TEXT_MATCH_TYPES;
+}
+
+/**
+ * Why a condition can't be saved, or null if it's valid
+ */
+export function validateCondition(condition: RuleCondition): string | null {
+  const value = condition.value.trim();
+
+  if (condition.field === 'date') {
+    switch (condition.matchType) {
+      case 'dayOfMonth':
+        return parseDaysOfMonth(value) ? null : 'Use days like 1, 15, 28-31 or last';
+      case 'weekday':
+        return parseWeekdays(value).length > 0 ? null : 'Pick at least one weekday';
+      case 'dateRange': {
+        const to = condition.value2?.trim() || '';
+        if (!value && !to) return 'Pick a start or end date';
+        if ((value && !DATE_PATTERN.test(value)) || (to && !DATE_PATTERN.test(to))) return 'Dates must be YYYY-MM-DD';
+        return value && to && value > to ? 'Start date is after end date' : null;
+      }
+      default:
+        return 'Unknown date condition';
+    }
+  }
+
+  if (condition.field === 'amount') {
+    if (isNaN(parseFloat(value))) return 'Enter an amount';
+    if (condition.matchType === 'between' && isNaN(parseFloat(condition.value2 || ''))) {
+      return 'Enter both amounts';
+    }
+    return null;
+  }
+
+  if (!value) return 'Enter a value';
+  return condition.matchType === 'regex' ? validateRegexPattern(condition.value) : null;
+}
+
+/**
+ * Why an action can't be saved, or null if it's valid
+ */
+export function validateAction(action: RuleAction): string | null {
+  switch (action.type) {
+    case 'setCategory':
+      return action.categoryId ? null : 'Pick a category';
+    case 'rewriteDescription':
+      return action.description.trim() ? null : 'Enter the new description';
+    case 'addTags':
+      return action.tags.length > 0 ? null : 'Add at least one tag';
+    case 'ignore':
+    case 'autoConfirm':
+      return null;
+    default:
+      return 'Unknown action';
+  }
+}
+
+/**
+ * First problem with a rule's conditions or actions, or null if all are valid
+ */
+export function validateRule(rule: Pick<TransactionRule, 'conditions' | 'actions'>): string | null {
+  if (!rule.conditions || rule.conditions.length === 0) return 'A rule needs at least one condition';
+  for (const condition of rule.conditions) {
+    const error = validateCondition(condition);
+    if (error) return error;
+  }
+
+  if (!rule.actions || rule.actions.length === 0) return 'A rule needs at least one action';
+  for (const action of rule.actions) {
+    const error = validateAction(action);
+    if (error) return error;
+  }
+  const types = new Set(rule.actions.map(a => a.type));
+  if (types.has('autoConfirm') && types.has('ignore')) return 'A rule can\'t both ignore and auto-confirm';
+  if (types.has('autoConfirm') && !types.has('setCategory')) return 'Auto-confirm needs a category';
+  return null;
+}
+
 /**
  * Logic mode options
  */
@@ -232,16 +683,35 @@ export const MATCH_TYPES = TEXT_MATCH_TYPES;
 /**
  * Get match type display label
  */
-export function getMatchTypeLabel(matchType: RuleMatchType | AmountMatchType): string {
+export function getMatchTypeLabel(matchType: RuleCondition['matchType']): string {
   const textMatch = TEXT_MATCH_TYPES.find(m => m.value === matchType);
   if (textMatch) return textMatch.label;
 
   const amountMatch = AMOUNT_MATCH_TYPES.find(m => m.value === matchType);
   if (amountMatch) return amountMatch.label;
 
+  const dateMatch = DATE_MATCH_TYPES.find(m => m.value === matchType);
+  if (dateMatch) return dateMatch.label;
+
   return matchType;
 }
 
+/**
+ * Human-readable condition value (weekday names, date ranges, ...)
+ */
+export function formatConditionValue(condition: RuleCondition): string {
+  if (condition.field === 'date' && condition.matchType === 'weekday') {
+    return parseWeekdays(condition.value).map((d) => WEEKDAYS[d]).join(', ');
+  }
+  if (condition.field === 'date' && condition.matchType === 'dateRange') {
+    return `${condition.value || '…'} – ${condition.value2 || '…'}`;
+  }
+  if (condition.matchType === 'between') {
+    return `${condition.value} and ${condition.value2 || '…'}`;
+  }
+  return condition.value;
+}
+
 /**
  * Migrate legacy rule format to new format
  */
@@ -258,19 +728,60 @@ export function migrateLegacyRule(legacy: LegacyTransactionRule): TransactionRul
       },
     ],
     logicMode: 'all',
-    categoryId: legacy.categoryId,
+    actions: [{ type: 'setCategory', categoryId: legacy.categoryId }],
+    priority: 0,
     enabled: legacy.enabled,
     createdAt: legacy.createdAt,
   };
 }
 
 /**
- * Check if a rule is in legacy format and migrate if needed
+ * Migrate a single-category rule (categoryId + tags) to actions
+ */
+export function migrateCategoryRule(rule: CategoryTransactionRule): TransactionRule {
+  const { categoryId, tags, ...rest } = rule;
+  const actions: RuleAction[] = [{ type: 'setCategory', categoryId }];
+  if (tags && tags.length > 0) {
+    actions.push({ type: 'addTags', tags });
+  }
+  return { ...rest, actions, priority: rule.priority ?? 0 };
+}
+
+/**
+ * Check if a rule is in an older format and migrate if needed.
+ * Rules saved before priorities keep their stored order via `index`.
  */
-export function ensureModernRuleFormat(rule: TransactionRule | LegacyTransactionRule): TransactionRule {
+export function ensureModernRuleFormat(
+  rule: TransactionRule | CategoryTransactionRule | LegacyTransactionRule,
+  index = 0
+): TransactionRule {
+  let modern: TransactionRule;
   // Check if it's a legacy rule (has 'pattern' field instead of 'conditions')
   if ('pattern' in rule && !('conditions' in rule)) {
-    return migrateLegacyRule(rule as LegacyTransactionRule);
+    modern = migrateLegacyRule(rule as LegacyTransactionRule);
+  } else if (!('actions' in rule)) {
+    // Single-category rules predate actions
+    modern = migrateCategoryRule(rule as CategoryTransactionRule);
+  } else {
+    modern = rule as TransactionRule;
   }
-  return rule as TransactionRule;
+  return 'priority' in rule && typeof rule.priority === 'number' ? modern : { ...modern, priority: index };
+}
+
+/**
+ * Renumber priorities to follow the given order (first = highest priority).
+ * Rules missing from the order go last, keeping their existing order.
+ */
+export function reorderRulePriorities(rules: TransactionRule[], ruleIds: string[]): TransactionRule[] {
+  const position = new Map(ruleIds.map((id, index) => [id, index]));
+  return [...rules]
+    .sort((a, b) => {
+      const posA = position.get(a.id);
+      const posB = position.get(b.id);
+      if (posA !== undefined && posB !== undefined) return posA - posB;
+      if (posA !== undefined) return -1;
+      if (posB !== undefined) return 1;
+      return a.priority - b.priority || a.createdAt.localeCompare(b.createdAt);
+    })
+    .map((rule, index) => ({ ...rule, priority: index }));
 }
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBalances, computeShares, createSettlement, validateSplit } from '@/lib/splits';
+import { ExpenseSplit } from '@/types';
+
+describe('computeShares', () => {
+  it('hands leftover cents of an equal split to the first participants', () => {
+    const shares = computeShares(100, 'equal', [{ participant: 'a' }, { participant: 'b' }, { participant: 'c' }]);
+    expect(shares.map((s) => s.amount)).toEqual([33.34, 33.33, 33.33]);
+  });
+
+  it('resolves percentages so shares add up to the total', () => {
+    const shares = computeShares(99.99, 'percentage', [{ participant: 'a', value: 50 }, { participant: 'b', value: 50 }]);
+    expect(shares.reduce((sum, s) => sum + s.amount, 0)).toBeCloseTo(99.99);
+  });
+
+  it('ignores client-side amounts for exact splits', () => {
+    const entries = [{ participant: 'a', value: 30, amount: 1000 }, { participant: 'b', value: 70, amount: -900 }];
+    expect(computeShares(100, 'exact', entries).map((s) => s.amount)).toEqual([30, 70]);
+  });
+});
+
+describe('validateSplit', () => {
+  it('rejects exact shares that miss the total and percentages off 100', () => {
+    expect(validateSplit(100, 'exact', computeShares(100, 'exact', [{ participant: 'a', value: 90 }]))).toBe('10.00 left to assign');
+    expect(validateSplit(100, 'percentage', [{ participant: 'a', value: 90, amount: 90 }])).toMatch(/not 100%/);
+  });
+
+  it('needs at least one participant', () => {
+    expect(validateSplit(100, 'equal', [])).toBe('Choose at least one participant');
+  });
+});
+
+describe('calculateBalances', () => {
+  it('credits the payer and clears debts with settlements', () => {
+    const split: ExpenseSplit = {
+      id: 's1',
+      expenseId: 'e1',
+      groupId: 'g',
+      date: '2026-03-10',
+      description: 'Dinner',
+      amount: 90,
+      paidBy: 'a',
+      mode: 'equal',
+      shares: computeShares(90, 'equal', [{ participant: 'a' }, { participant: 'b' }, { participant: 'c' }]),
+      createdAt: '',
+    };
+    const settlement = createSettlement('g', { from: 'b', to: 'a', amount: 30 }, '2026-03-11');
+    expect(calculateBalances([split, settlement])).toEqual([
+      { participant: 'a', balance: 30 },
+      { participant: 'b', balance: 0 },
+      { participant: 'c', balance: -30 },
+    ]);
+  });
+});
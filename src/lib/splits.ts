@@ -0,0 +1,172 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ExpenseSplit, SplitGroup, SplitMode, SplitShare, SPLIT_SELF } from '@/types';
+import { roundMoney } from '@/lib/currency';
+
+export interface SplitBalance {
+  participant: string;
+  balance: number;                // Positive = is owed money, negative = owes
+}
+
+export interface Settlement {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+// Amounts within half a cent are treated as equal
+const EPSILON = 0.005;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export function getParticipants(group: SplitGroup): string[] {
+  return [SPLIT_SELF, ...group.members.filter((m) => m !== SPLIT_SELF)];
+}
+
+/** Settle-up payments are stored as splits without a linked expense */
+export function isSettlement(split: ExpenseSplit): boolean {
+  return !split.expenseId;
+}
+
+/**
+ * Resolve each participant's share of `total`. Values are exact amounts or
+ * percentages depending on the mode; equal and percentage splits hand the
+ * leftover cents to the first participants so shares always add up.
+ */
+export function computeShares(
+  total: number,
+  mode: SplitMode,
+  entries: { participant: string; value?: number }[]
+): SplitShare[] {
+  if (entries.length === 0) return [];
+  const totalCents = toCents(total);
+
+  if (mode === 'exact') {
+    return entries.map((e) => ({ ...e, amount: roundMoney(e.value || 0) }));
+  }
+
+  const weights = mode === 'equal'
+    ? entries.map(() => 1)
+    : entries.map((e) => Math.max(e.value || 0, 0));
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+
+  // Percentages that don't add up to 100 are rejected by validateSplit, so
+  // the preview just shows what was typed without balancing the cents
+  if (mode === 'percentage' && Math.abs(weightSum - 100) > 0.01) {
+    return entries.map((e, i) => ({ ...e, amount: roundMoney((total * weights[i]) / 100) }));
+  }
+  if (weightSum === 0) {
+    return entries.map((e) => ({ ...e, amount: 0 }));
+  }
+
+  const cents = weights.map((w) => Math.floor((totalCents * w) / weightSum));
+  let remainder = totalCents - cents.reduce((sum, c) => sum + c, 0);
+  for (let i = 0; remainder > 0; i = (i + 1) % cents.length) {
+    if (weights[i] > 0) {
+      cents[i] += 1;
+      remainder -= 1;
+    }
+  }
+
+  return entries.map((e, i) => ({
+    participant: e.participant,
+    ...(mode === 'percentage' ? { value: e.value } : {}),
+    amount: cents[i] / 100,
+  }));
+}
+
+/** Human-readable problem with a split, or null when it can be saved */
+export function validateSplit(total: number, mode: SplitMode, shares: SplitShare[]): string | null {
+  if (shares.length === 0) return 'Choose at least one participant';
+  if (shares.some((s) => (s.value ?? 0) < 0)) return 'Shares cannot be negative';
+
+  if (mode === 'exact') {
+    const sum = shares.reduce((acc, s) => acc + (s.value || 0), 0);
+    const diff = roundMoney(total - sum);
+    if (Math.abs(diff) >= EPSILON) {
+      return diff > 0
+        ? `${diff.toFixed(2)} left to assign`
+        : `Shares exceed the total by ${Math.abs(diff).toFixed(2)}`;
+    }
+  }
+
+  if (mode === 'percentage') {
+    const sum = shares.reduce((acc, s) => acc + (s.value || 0), 0);
+    if (Math.abs(sum - 100) > 0.01) {
+      return `Percentages add up to ${parseFloat(sum.toFixed(2))}%, not 100%`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Net position of every participant across the given splits. The payer is
+ * credited the full amount and each participant is debited their share.
+ */
+export function calculateBalances(splits: ExpenseSplit[], participants: string[] = []): SplitBalance[] {
+  const cents = new Map<string, number>(participants.map((p) => [p, 0]));
+  const add = (participant: string, amount: number) =>
+    cents.set(participant, (cents.get(participant) || 0) + toCents(amount));
+
+  for (const split of splits) {
+    add(split.paidBy, split.amount);
+    for (const share of split.shares) {
+      add(share.participant, -share.amount);
+    }
+  }
+
+  return Array.from(cents, ([participant, c]) => ({ participant, balance: c / 100 }));
+}
+
+/**
+ * Fewest payments that settle everyone: repeatedly pay the largest creditor
+ * from the largest debtor. Each step zeroes at least one participant.
+ */
+export function suggestSettlements(balances: SplitBalance[]): Settlement[] {
+  const debtors = balances
+    .filter((b) => toCents(b.balance) < 0)
+    .map((b) => ({ participant: b.participant, cents: -toCents(b.balance) }));
+  const creditors = balances
+    .filter((b) => toCents(b.balance) > 0)
+    .map((b) => ({ participant: b.participant, cents: toCents(b.balance) }));
+
+  const settlements: Settlement[] = [];
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => b.cents - a.cents);
+    creditors.sort((a, b) => b.cents - a.cents);
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const cents = Math.min(debtor.cents, creditor.cents);
+
+    settlements.push({ from: debtor.participant, to: creditor.participant, amount: cents / 100 });
+    debtor.cents -= cents;
+    creditor.cents -= cents;
+    if (debtor.cents === 0) debtors.shift();
+    if (creditor.cents === 0) creditors.shift();
+  }
+  return settlements;
+}
+
+/** A settle-up payment: `from` pays `to`, which clears that much of the debt */
+export function createSettlement(
+  groupId: string,
+  settlement: Settlement,
+  date: string
+): ExpenseSplit {
+  return {
+    id: uuidv4(),
+    groupId,
+    date,
+    description: `${settlement.from} paid ${settlement.to}`,
+    amount: settlement.amount,
+    paidBy: settlement.from,
+    mode: 'exact',
+    shares: [{ participant: settlement.to, value: settlement.amount, amount: settlement.amount }],
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** Your own share of a split (what actually came out of your pocket) */
+export function getOwnShare(split: ExpenseSplit): number {
+  return split.shares.find((s) => s.participant === SPLIT_SELF)?.amount || 0;
+}
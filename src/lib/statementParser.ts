@@ -0,0 +1,41 @@
+import { ParsedStatement } from '@/types';
+import { isOfxContent, parseOfx } from '@/lib/ofxParser';
+import { isQifContent, parseQif } from '@/lib/qifParser';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif' | 'pdf';
+
+// File picker filter for every statement format read in the browser
+export const STATEMENT_FILE_ACCEPT = '.csv,text/csv,.ofx,.qfx,.qif,application/x-ofx,application/vnd.intu.qfx';
+
+// PDFs are read server-side by /api/pdf
+export const PDF_FILE_ACCEPT = '.pdf,application/pdf';
+
+/**
+ * Format of an uploaded statement by extension, falling back to its content
+ * for files saved with a generic extension (e.g. ".txt")
+ */
+export function detectStatementFormat(file: { name: string; type: string }, content: string): StatementFormat | null {
+  const extension = file.name.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'pdf' || file.type === 'application/pdf') return 'pdf';
+  if (extension === 'csv' || file.type === 'text/csv') return 'csv';
+  if (content.startsWith('%PDF')) return 'pdf';
+  if (isOfxContent(content)) return 'ofx';
+  if (isQifContent(content)) return 'qif';
+  return null;
+}
+
+/**
+ * Parse an OFX/QFX or QIF statement. Throws with a user-facing message when
+ * nothing usable is found.
+ */
+export function parseStatementFile(format: 'ofx' | 'qif', content: string, fileName: string): ParsedStatement {
+  const statement = format === 'ofx'
+    ? parseOfx(content)
+    : parseQif(content, fileName.replace(/\.[^.]+$/, ''));
+  if (statement.transactions.length === 0) {
+    throw new Error(`No transactions found in this ${format === 'ofx' ? 'OFX' : 'QIF'} file`);
+  }
+  return statement;
+}
@@ -0,0 +1,123 @@
+import {
+  Expense,
+  Category,
+  UserSettings,
+  PendingTransaction,
+  TransactionRule,
+  GmailSyncState,
+  GmailSyncLogEntry,
+  RecurringTemplate,
+  ExchangeRate,
+  CurrencyCode,
+  SplitGroup,
+  ExpenseSplit,
+  ExpenseAttachment,
+  CsvProfile,
+  Account,
+} from '@/types';
+import { createSheetsStorage } from '@/lib/google-sheets';
+import { createFileStorage } from '@/lib/file-storage';
+
+/** Raw attachment file as uploaded or served back */
+export interface AttachmentFile {
+  name: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+/**
+ * Persistence layer used by the API routes and AI tools.
+ * Implementations: Google Sheets (default) and a local JSON file.
+ */
+export interface StorageBackend {
+  /** Identifier of the underlying store (spreadsheet ID or file path) */
+  getStoreId(): Promise<string>;
+
+  // Expenses
+  getExpenses(year?: number): Promise<Expense[]>;
+  getAllExpenses(): Promise<Expense[]>;
+  addExpense(expense: Expense): Promise<void>;
+  addExpensesBatch(expenses: Expense[]): Promise<void>;
+  updateExpense(expense: Expense): Promise<void>;
+  updateExpensesBatch(expenses: Expense[]): Promise<void>;
+  deleteExpense(expenseId: string, year?: number): Promise<void>;
+
+  // Categories
+  getCategories(): Promise<Category[]>;
+  addCategory(category: Category): Promise<void>;
+  updateCategory(category: Category): Promise<void>;
+  deleteCategory(categoryId: string): Promise<void>;
+  getOverallBudget(): Promise<number | null>;
+  setOverallBudget(amount: number | null): Promise<void>;
+
+  // Settings
+  getSettings(): Promise<UserSettings>;
+  updateSettings(settings: UserSettings): Promise<void>;
+
+  // Pending transactions
+  getPendingTransactions(): Promise<PendingTransaction[]>;
+  addPendingTransactions(transactions: PendingTransaction[]): Promise<void>;
+  updatePendingTransaction(transaction: PendingTransaction): Promise<void>;
+  deletePendingTransaction(transactionId: string): Promise<void>;
+  updateAllPendingTransactions(transactions: PendingTransaction[]): Promise<void>;
+  moveTransactionsToExpenses(transactionIds: string[]): Promise<void>;
+
+  // Rules
+  getRules(): Promise<TransactionRule[]>;
+  saveRules(rules: TransactionRule[]): Promise<void>;
+
+  // Recurring templates
+  getRecurringTemplates(): Promise<RecurringTemplate[]>;
+  saveRecurringTemplates(templates: RecurringTemplate[]): Promise<void>;
+
+  // Custom CSV statement profiles (built-in ones live in code)
+  getCsvProfiles(): Promise<CsvProfile[]>;
+  saveCsvProfiles(profiles: CsvProfile[]): Promise<void>;
+
+  // Cards, bank accounts and wallets expenses are paid from
+  getAccounts(): Promise<Account[]>;
+  saveAccounts(accounts: Account[]): Promise<void>;
+
+  // Split groups and shared expenses
+  getSplitGroups(): Promise<SplitGroup[]>;
+  saveSplitGroups(groups: SplitGroup[]): Promise<void>;
+  getSplits(): Promise<ExpenseSplit[]>;
+  saveSplits(splits: ExpenseSplit[]): Promise<void>;
+
+  // Exchange rates into the base currency
+  getExchangeRates(baseCurrency: CurrencyCode): Promise<ExchangeRate[]>;
+  saveExchangeRates(rates: ExchangeRate[], baseCurrency: CurrencyCode): Promise<void>;
+
+  // Receipt attachments
+  uploadAttachment(file: AttachmentFile): Promise<ExpenseAttachment>;
+  /** File contents, or a small preview when `thumbnail` is set and the backend has one */
+  getAttachment(attachmentId: string, thumbnail?: boolean): Promise<AttachmentFile | null>;
+  deleteAttachment(attachmentId: string): Promise<void>;
+
+  // Gmail sync state
+  getGmailSyncState(): Promise<GmailSyncState>;
+  updateGmailSyncState(state: GmailSyncState): Promise<void>;
+
+  // Per-email outcomes of recent syncs, oldest first
+  getGmailSyncLog(): Promise<GmailSyncLogEntry[]>;
+  addGmailSyncLogEntries(entries: GmailSyncLogEntry[]): Promise<void>;
+}
+
+export type StorageBackendType = 'sheets' | 'file';
+
+/**
+ * Backend selected via STORAGE_BACKEND ("sheets" or "file"), defaults to Sheets
+ */
+export function getStorageBackendType(): StorageBackendType {
+  return process.env.STORAGE_BACKEND === 'file' ? 'file' : 'sheets';
+}
+
+/**
+ * Get the storage backend for the current request
+ */
+export function getStorage(accessToken: string): StorageBackend {
+  if (getStorageBackendType() === 'file') {
+    return createFileStorage(process.env.LOCAL_DATA_FILE);
+  }
+  return createSheetsStorage(accessToken);
+}
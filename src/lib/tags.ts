@@ -0,0 +1,95 @@
+import { TransactionDirection } from '@/types';
+import { isExpense } from '@/lib/utils';
+
+export interface TagTotal {
+  tag: string;
+  total: number;
+  count: number;
+}
+
+/**
+ * Canonical form of a tag: lowercase, no surrounding "#", whitespace collapsed
+ * to dashes. Commas are stripped since tags are stored comma-separated.
+ */
+export function normalizeTag(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/,/g, '')
+    .replace(/\s+/g, '-')
+    .toLowerCase();
+}
+
+/** Unique normalized tags, keeping first-seen order */
+export function mergeTags(...lists: (string[] | undefined)[]): string[] {
+  const seen = new Set<string>();
+  for (const list of lists) {
+    for (const raw of list || []) {
+      const tag = normalizeTag(raw);
+      if (tag) seen.add(tag);
+    }
+  }
+  return Array.from(seen);
+}
+
+/** Parse a stored or typed comma-separated tag list */
+export function parseTags(value: string | undefined): string[] {
+  return value ? mergeTags(value.split(',')) : [];
+}
+
+export function serializeTags(tags: string[] | undefined): string {
+  return mergeTags(tags).join(',');
+}
+
+/** Every tag in use, most used first */
+export function collectTags(items: { tags?: string[] }[]): string[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const tag of item.tags || []) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
+
+export function hasAllTags(item: { tags?: string[] }, tags: string[]): boolean {
+  return tags.every((tag) => item.tags?.includes(tag));
+}
+
+/**
+ * Spending per tag. An expense with several tags counts towards each of them,
+ * so the totals can add up to more than the month's spending.
+ */
+export function calculateTagTotals(
+  transactions: { amount: number; tags?: string[]; direction?: TransactionDirection }[]
+): TagTotal[] {
+  const totals = new Map<string, TagTotal>();
+  for (const t of transactions.filter(isExpense)) {
+    for (const tag of t.tags || []) {
+      const current = totals.get(tag) || { tag, total: 0, count: 0 };
+      current.total += t.amount;
+      current.count += 1;
+      totals.set(tag, current);
+    }
+  }
+  return Array.from(totals.values()).sort((a, b) => b.total - a.total);
+}
+
+/** Split a search query into free text and `#tag` filters */
+export function parseTagQuery(query: string): { text: string; tags: string[] } {
+  const tags: string[] = [];
+  const text = query
+    .split(/\s+/)
+    .filter((word) => {
+      if (word.startsWith('#') && word.length > 1) {
+        tags.push(word);
+        return false;
+      }
+      return true;
+    })
+    .join(' ')
+    .trim();
+  return { text, tags: mergeTags(tags) };
+}
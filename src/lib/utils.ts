@@ -1,7 +1,7 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { format as fnsFormat, parse as fnsParse } from 'date-fns';
-import { CurrencyCode, SUPPORTED_CURRENCIES } from '@/types';
+import { CurrencyCode, SUPPORTED_CURRENCIES, TransactionDirection } from '@/types';
 
 // Centralized date format – change here to update everywhere
 export const DATE_FORMAT = 'd MMM yyyy'; // e.g. "23 Jan 2026"
@@ -123,10 +123,10 @@ export function debounce<T extends (...args: Parameters<T>) => ReturnType<T>>(
   };
 }
 
-export function groupExpensesByMonth(
-  expenses: { date: string; amount: number; category: string }[]
-): Map<string, typeof expenses> {
-  const grouped = new Map<string, typeof expenses>();
+export function groupExpensesByMonth<T extends { date: string; amount: number; category: string }>(
+  expenses: T[]
+): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
 
   for (const expense of expenses) {
     const monthKey = getMonthKey(expense.date);
@@ -139,10 +139,38 @@ export function groupExpensesByMonth(
   return grouped;
 }
 
+export function getDirection(transaction: { direction?: TransactionDirection }): TransactionDirection {
+  return transaction.direction || 'expense';
+}
+
+export function isExpense(transaction: { direction?: TransactionDirection }): boolean {
+  return getDirection(transaction) === 'expense';
+}
+
+/**
+ * Income vs spending totals; transfers count towards neither
+ */
+export function calculateCashFlow(
+  transactions: { amount: number; direction?: TransactionDirection }[]
+): { income: number; spent: number; net: number } {
+  let income = 0;
+  let spent = 0;
+
+  for (const t of transactions) {
+    const direction = getDirection(t);
+    if (direction === 'income') income += t.amount;
+    else if (direction === 'expense') spent += t.amount;
+  }
+
+  return { income, spent, net: income - spent };
+}
+
 export function calculateCategoryBreakdown(
-  expenses: { amount: number; category: string }[],
+  allExpenses: { amount: number; category: string; direction?: TransactionDirection }[],
   categories: { id: string; name: string; color: string }[]
 ) {
+  // Breakdown is about spending only
+  const expenses = allExpenses.filter(isExpense);
   const totals = new Map<string, number>();
   let grandTotal = 0;
 
@@ -1,3 +1,12 @@
+// Money flow of a transaction; amounts are always stored as positive numbers
+export type TransactionDirection = 'expense' | 'income' | 'transfer';
+
+export const TRANSACTION_DIRECTIONS: { value: TransactionDirection; label: string }[] = [
+  { value: 'expense', label: 'Expense' },
+  { value: 'income', label: 'Income' },
+  { value: 'transfer', label: 'Transfer' },
+];
+
 export interface Expense {
   id: string;
   amount: number;
@@ -6,13 +15,85 @@ export interface Expense {
   description: string;
   createdAt: string; // ISO timestamp
   updatedAt: string; // ISO timestamp
+  direction?: TransactionDirection; // Missing = 'expense' (rows created before income tracking)
+  originalAmount?: number;         // Amount as charged, when paid in a foreign currency
+  originalCurrency?: CurrencyCode; // `amount` holds the converted base-currency value
+  tags?: string[];                 // Free-form labels that cut across categories (e.g. "trip-goa-2026")
+  attachments?: ExpenseAttachment[]; // Receipt photos/PDFs
+  externalId?: string;             // Bank-assigned transaction ID (OFX FITID), for exact dedupe
+  accountId?: string;              // Card or account it was paid from/into
+}
+
+// Cards, bank accounts and wallets money moves through
+export type AccountType = 'credit-card' | 'bank' | 'upi' | 'cash' | 'wallet';
+
+export const ACCOUNT_TYPES: { value: AccountType; label: string }[] = [
+  { value: 'credit-card', label: 'Credit card' },
+  { value: 'bank', label: 'Bank account' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'wallet', label: 'Wallet' },
+];
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  last4?: string;                  // Last digits of the card or account number (3-4)
+  institution?: string;            // Bank or issuer, e.g. "HDFC Bank"
+  createdAt: string;
+}
+
+// An account as named by an alert or statement, before it's matched to a saved one
+export interface DetectedAccount {
+  type: AccountType;
+  last4?: string;
+  institution?: string;
 }
 
+// A receipt file stored alongside the data (Drive file ID for the Sheets backend)
+export interface ExpenseAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+}
+
+// Receipt file types accepted for upload; others (SVG, HTML) could run script when served
+export const ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/heic',
+  'image/heif',
+  'application/pdf',
+];
+
 export interface Category {
   id: string;
   name: string;
   color: string; // Hex color for UI
   icon?: string; // Optional emoji
+  budget?: number; // Monthly budget in base currency
+}
+
+// Budget progress for a category or the overall monthly cap
+export interface BudgetProgress {
+  categoryId?: string; // Undefined for the overall cap
+  name: string;
+  spent: number;
+  budget: number;
+  ratio: number; // spent / budget
+}
+
+// Raised when a write pushes a budget past a threshold
+export interface BudgetAlert {
+  categoryId?: string; // Undefined for the overall cap
+  name: string;
+  month: string; // YYYY-MM
+  threshold: number; // 0.8 or 1
+  spent: number;
+  budget: number;
 }
 
 export interface MonthlyData {
@@ -39,6 +120,26 @@ export interface ParsedVoiceExpense {
   confidence: number; // 0-1 score
 }
 
+// Receipt scan (OCR via the vision LLM) used to pre-fill the add-expense form
+export type ReceiptConfidence = 'high' | 'medium' | 'low';
+
+export interface ReceiptLineItem {
+  description: string;
+  quantity?: number;
+  amount: number;
+}
+
+export interface ParsedReceipt {
+  merchant: string;
+  total: number | null;
+  date: string | null;             // YYYY-MM-DD
+  currency?: CurrencyCode;         // Only when printed on the receipt and supported
+  lineItems: ReceiptLineItem[];
+  category: string | null;         // Category ID
+  categorySource?: Exclude<CategorySource, 'manual'>;
+  confidence: Record<'merchant' | 'total' | 'date' | 'category', ReceiptConfidence>;
+}
+
 export interface CsvTransaction {
   id: string;
   date: string;
@@ -46,32 +147,119 @@ export interface CsvTransaction {
   amount: number;
   selected: boolean; // For batch import selection
   category?: string; // Auto-suggested category
+  direction?: TransactionDirection; // Credits become 'income'
+  externalId?: string; // Bank-assigned ID (OFX FITID), scoped to the account
+  source?: string; // Account the statement belongs to
+}
+
+// Transactions read from an OFX/QFX, QIF or PDF statement: no column mapping needed
+export interface ParsedStatement {
+  format: 'ofx' | 'qif' | 'pdf';
+  accounts: string[];
+  transactions: CsvTransaction[];
+  detectedAccount?: DetectedAccount; // Card or account the statement is for, when it says
+}
+
+// A run of text on a PDF page, positioned in PDF units (x grows right)
+export interface PdfTextCell {
+  text: string;
+  x: number;
+  right: number;
+}
+
+// Cells sharing a baseline, left to right
+export type PdfTextLine = PdfTextCell[];
+
+// How a single amount column marks money going out ('auto': negatives if any, else all out)
+export type CsvSignConvention = 'auto' | 'negative-is-expense' | 'positive-is-expense';
+
+// Columns are referenced by header name (case-insensitive) so profiles survive column reordering
+export interface CsvProfileColumns {
+  date: string;
+  description: string;
+  amount?: string;               // Single amount column...
+  debit?: string;                // ...or separate money-out and money-in columns
+  credit?: string;
+  category?: string;
+}
+
+// Layout of one bank's statement export
+export interface CsvProfile {
+  id: string;
+  name: string;
+  signature: string[];           // Headers that must all be present to match
+  contentPattern?: string;       // Regex the text before the header row must also match
+  headerRowOffset: number;       // Non-empty rows before the header row
+  dateFormat: string;            // date-fns pattern, or 'auto'
+  columns: CsvProfileColumns;
+  signConvention: CsvSignConvention;
+  footerPattern?: string;        // Regex: the first matching row and everything after it is dropped
+  accountId?: string;            // Saved account its statements belong to
+  accountType?: AccountType;     // Built-in profiles: the kind of account and bank they export
+  institution?: string;
+  builtIn?: boolean;
+  createdAt: string;
+}
+
+// Data export (settings → Export)
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  from?: string;                   // YYYY-MM-DD, inclusive
+  to?: string;                     // YYYY-MM-DD, inclusive
+  categories?: string[];           // Category IDs; empty = all
+  tags?: string[];                 // Expenses must carry every tag
+  query?: string;                  // Same syntax as search (text and #tags)
+  categoryNames: boolean;          // Write category names instead of IDs
+  formattedAmounts: boolean;       // "₹1,250.00" instead of 1250
+  includeTotals: boolean;          // Append per-category and overall totals
 }
 
 // Category mapping rules for auto-categorization
-export type RuleMatchType = 'contains' | 'startsWith' | 'endsWith' | 'equals';
+export type RuleMatchType = 'contains' | 'startsWith' | 'endsWith' | 'equals' | 'regex';
 export type AmountMatchType = 'equals' | 'greaterThan' | 'lessThan' | 'between';
-export type RuleField = 'description' | 'amount';
+export type DateMatchType = 'dayOfMonth' | 'weekday' | 'dateRange';
+export type RuleField = 'description' | 'amount' | 'date' | 'source';
 export type RuleLogicMode = 'all' | 'any'; // all = AND, any = OR
 
 export interface RuleCondition {
   id: string;
   field: RuleField;
-  matchType: RuleMatchType | AmountMatchType;
-  value: string;        // For description or single amount value
-  value2?: string;      // For "between" amount condition
+  matchType: RuleMatchType | AmountMatchType | DateMatchType;
+  value: string;        // Text/regex, single amount, days of month ("1,15,28-31,last"),
+                        // weekdays ("0,6" with Sunday = 0) or range start (YYYY-MM-DD)
+  value2?: string;      // For "between" amounts and the end of a date range
 }
 
+// What a matching rule does, applied in order (later actions win)
+export type RuleAction =
+  | { type: 'setCategory'; categoryId: string }
+  | { type: 'rewriteDescription'; description: string }
+  | { type: 'addTags'; tags: string[] }
+  | { type: 'ignore' }              // Move to the ignored list
+  | { type: 'autoConfirm' };        // Save straight to expenses (needs a category)
+
+export type RuleActionType = RuleAction['type'];
+
 export interface TransactionRule {
   id: string;
   name: string;                    // Rule name for easy identification
   conditions: RuleCondition[];     // Multiple conditions
   logicMode: RuleLogicMode;        // 'all' = AND, 'any' = OR
-  categoryId: string;
+  actions: RuleAction[];
+  priority: number;                // Lower runs first; the first matching rule wins
   enabled: boolean;
   createdAt: string;
 }
 
+// Single-category rule format (before actions) for migration
+export interface CategoryTransactionRule extends Omit<TransactionRule, 'actions' | 'priority'> {
+  categoryId: string;
+  tags?: string[];
+  priority?: number;
+}
+
 // Legacy rule format for migration (single pattern)
 export interface LegacyTransactionRule {
   id: string;
@@ -82,6 +270,21 @@ export interface LegacyTransactionRule {
   createdAt: string;
 }
 
+// Sharing rule sets between accounts (settings → Rules)
+export type RuleSetImportMode = 'merge' | 'replace';
+
+export interface RuleSetImportOptions {
+  mode: RuleSetImportMode;         // merge = add to existing rules, replace = drop them
+  createMissingCategories: boolean;
+}
+
+export interface RuleSetImportResult {
+  added: number;
+  duplicates: number;
+  skipped: number;                 // Rules whose categories don't exist here
+  createdCategories: number;
+}
+
 // Pending transactions (imported but not yet confirmed)
 export type PendingTransactionStatus = 'auto-mapped' | 'uncategorized' | 'ignored';
 
@@ -97,6 +300,73 @@ export interface PendingTransaction {
   matchedRuleId?: string;      // Which rule matched (for auto-mapped)
   source?: string;             // e.g. "December 2026 HDFC Credit Card Statement"
   categorySource?: CategorySource; // How category was determined
+  direction?: TransactionDirection;
+  tags?: string[];
+  originalDescription?: string; // Imported text, kept when a rule rewrites the description
+  duplicateOf?: string;        // Pending transaction or expense this likely repeats
+  externalId?: string;         // Bank-assigned transaction ID (OFX FITID)
+  accountId?: string;
+  createdAt: string;
+}
+
+// Recurring expense templates (rent, subscriptions, ...)
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+export interface RecurringTemplate {
+  id: string;
+  description: string;
+  amount: number;
+  category?: string;              // Category ID; uncategorized instances go to review
+  direction?: TransactionDirection;
+  frequency: RecurringFrequency;
+  startDate: string;              // First occurrence (YYYY-MM-DD), anchors day of week/month
+  endDate?: string;               // Last possible occurrence (inclusive)
+  lastGeneratedDate?: string;     // Latest occurrence already turned into a pending transaction
+  enabled: boolean;
+  createdAt: string;
+}
+
+// Shared expenses split between members of a group ("You" is always a member)
+export const SPLIT_SELF = 'You';
+
+export type SplitMode = 'equal' | 'exact' | 'percentage';
+
+export const SPLIT_MODES: { value: SplitMode; label: string }[] = [
+  { value: 'equal', label: 'Equally' },
+  { value: 'exact', label: 'Exact amounts' },
+  { value: 'percentage', label: 'Percentages' },
+];
+
+export interface SplitGroup {
+  id: string;
+  name: string;
+  members: string[];              // Other participants, excluding SPLIT_SELF
+  createdAt: string;
+}
+
+export interface SplitShare {
+  participant: string;
+  value?: number;                 // Exact amount or percentage as entered (unused for equal splits)
+  amount: number;                 // Resolved share of the total
+}
+
+export interface ExpenseSplit {
+  id: string;
+  expenseId?: string;             // Linked expense; absent for settle-up payments
+  groupId: string;
+  date: string;
+  description: string;
+  amount: number;                 // Total being split
+  paidBy: string;
+  mode: SplitMode;
+  shares: SplitShare[];           // Settlements have a single share owed by the payee
   createdAt: string;
 }
 
@@ -133,7 +403,7 @@ export interface CategoryState {
 export interface ExpenseContextType {
   state: ExpenseState;
   dispatch: React.Dispatch<ExpenseAction>;
-  addExpense: (expense: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  addExpense: (expense: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Expense>;
   updateExpense: (expense: Expense) => Promise<void>;
   deleteExpense: (id: string) => Promise<void>;
   refreshExpenses: () => Promise<void>;
@@ -145,6 +415,8 @@ export interface CategoryContextType {
   updateCategory: (category: Category) => Promise<void>;
   deleteCategory: (id: string) => Promise<void>;
   refreshCategories: () => Promise<void>;
+  overallBudget: number | null;
+  setOverallBudget: (amount: number | null) => Promise<void>;
 }
 
 // Default categories for first-time setup
@@ -176,6 +448,17 @@ export interface UserSettings {
   currency: CurrencyCode;
   onboardingCompleted: boolean;
   gmailSyncEnabled: boolean;
+  gmailSync: GmailSyncSettings;
+}
+
+// Which emails a Gmail sync reads; stored as JSON under one settings key
+export interface GmailSyncSettings {
+  allowSenders: string[];        // When set, only these senders (addresses or domains) are read
+  denySenders: string[];
+  extraKeywords: string[];       // Subject words searched on top of the built-in ones
+  labels: string[];              // Gmail labels to search in; empty searches all mail
+  backfillStart: string;         // YYYY-MM-DD for the first sync; empty means six months back
+  autoSyncIntervalHours: number; // 0 turns auto-sync off
 }
 
 export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'INR' | 'JPY' | 'CAD' | 'AUD' | 'CHF' | 'CNY' | 'SGD';
@@ -200,10 +483,26 @@ export const SUPPORTED_CURRENCIES: CurrencyInfo[] = [
   { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar', locale: 'en-SG' },
 ];
 
+// Rate table row: value of 1 unit of `currency` in the base currency
+export interface ExchangeRate {
+  currency: CurrencyCode;
+  rate: number | null;   // Market rate (GOOGLEFINANCE in the Sheets backend), null if unavailable
+  override?: number;     // Manual rate, takes precedence over `rate`
+  updatedAt?: string;    // When the override was last changed
+}
+
 export const DEFAULT_SETTINGS: UserSettings = {
   currency: 'USD',
   onboardingCompleted: false,
   gmailSyncEnabled: false,
+  gmailSync: {
+    allowSenders: [],
+    denySenders: [],
+    extraKeywords: [],
+    labels: [],
+    backfillStart: '',
+    autoSyncIntervalHours: 6,
+  },
 };
 
 export interface SettingsContextType {
@@ -212,12 +511,16 @@ export interface SettingsContextType {
   isLoading: boolean;
 }
 
+// Merge drops the flagged transaction; keep-both clears the flag
+export type DuplicateResolution = 'merge' | 'keep-both';
+
 // Pending Transactions Context
+
 export interface PendingTransactionsContextType {
   pendingTransactions: PendingTransaction[];
   rules: TransactionRule[];
   isLoading: boolean;
-  addPendingTransactions: (transactions: Omit<PendingTransaction, 'id' | 'createdAt'>[]) => Promise<void>;
+  addPendingTransactions: (transactions: Omit<PendingTransaction, 'id' | 'createdAt'>[]) => Promise<number>; // Added (known bank IDs are skipped)
   confirmTransaction: (id: string) => Promise<void>;
   confirmAllAutoMapped: () => Promise<void>;
   saveMappedUncategorized: () => Promise<number>;  // Save manually categorized uncategorized transactions
@@ -225,10 +528,13 @@ export interface PendingTransactionsContextType {
   ignoreTransaction: (id: string) => Promise<void>;
   unignoreTransaction: (id: string) => Promise<void>;
   deleteTransaction: (id: string) => Promise<void>;
+  resolveDuplicate: (id: string, action: DuplicateResolution) => Promise<void>;
   aiCategorize: (suggestions: { transactionId: string; categoryId: string }[]) => Promise<void>;
-  addRule: (rule: Omit<TransactionRule, 'id' | 'createdAt'>) => Promise<TransactionRule | undefined>;
+  addRule: (rule: Omit<TransactionRule, 'id' | 'createdAt' | 'priority'>) => Promise<TransactionRule | undefined>;
   updateRule: (rule: TransactionRule) => Promise<void>;
   deleteRule: (id: string) => Promise<void>;
+  reorderRules: (ruleIds: string[]) => Promise<void>; // Highest priority first
+  importRules: (file: unknown, options: RuleSetImportOptions) => Promise<RuleSetImportResult>;
   refreshPendingTransactions: () => Promise<void>;
 }
 
@@ -260,7 +566,25 @@ export interface ToolResultDisplay {
 
 // === Gmail Sync Types ===
 
+export interface ProcessedGmailMessage {
+  id: string;
+  internalDate: number; // When Gmail received it (ms since epoch)
+}
+
+/**
+ * Emails received before the watermark (less an overlap) are done and no
+ * longer searched; only IDs inside that overlap are kept, so the state stays
+ * small however much mail has been synced.
+ */
 export interface GmailSyncState {
+  version: 2;
+  lastSyncDate: string;                  // YYYY-MM-DD of the last complete sync
+  watermark: number;                     // ms; everything received before it was read, 0 before the first sync
+  recentIds: ProcessedGmailMessage[];    // Processed emails the next search can still return
+}
+
+// Format before watermarks: every processed ID, capped at 5000
+export interface LegacyGmailSyncState {
   lastSyncDate: string;
   processedMessageIds: string[];
 }
@@ -270,6 +594,25 @@ export interface ParsedEmailTransaction {
   amount: number;
   date: string;
   description: string;
+  direction: TransactionDirection; // debit = expense, credit = income
+  account?: DetectedAccount; // Card or account, when the alert names it
+}
+
+// What happened to one email in a sync; skipped-credit is a credit a rule ignored
+export type GmailSyncOutcome = 'parsed' | 'skipped-credit' | 'not-transaction' | 'parse-failed' | 'duplicate';
+
+export interface GmailSyncLogEntry {
+  id: string;
+  syncId: string;                        // Shared by every email of one run
+  syncType: 'sync' | 'rescan' | 'reprocess';
+  syncedAt: string;
+  messageId: string;
+  subject: string;
+  from: string;
+  emailDate: string;
+  outcome: GmailSyncOutcome;
+  reason: string;
+  transactionIds: string[];              // Pending transactions stored from this email
 }
 
 export interface GmailSyncStats {
@@ -277,4 +620,5 @@ export interface GmailSyncStats {
   dupsSkipped: number;
   parsed: number;
   imported: number;
+  templateHits: number; // Emails read by a bank alert template instead of the LLM
 }